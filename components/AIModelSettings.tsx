@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { geminiService } from '../services/gemini';
+import { aiCacheService } from '../services/aiCache';
+import { ragService } from '../services/rag';
+import { AISettings, AIProviderId, AI_FEATURES, AI_PROVIDERS, DEFAULT_MODELS, DEFAULT_LOCAL_BASE_URL } from '../services/aiProviders';
+
+interface AIModelSettingsProps {
+    onNotify: (msg: string) => void;
+}
+
+export const AIModelSettings: React.FC<AIModelSettingsProps> = ({ onNotify }) => {
+    const [draft, setDraft] = useState<AISettings>(() => geminiService.getSettings());
+    const [isTesting, setIsTesting] = useState(false);
+    const [cacheCount, setCacheCount] = useState<number | null>(null);
+    const [indexCount, setIndexCount] = useState<number | null>(null);
+    const [isIndexing, setIsIndexing] = useState(false);
+
+    useEffect(() => {
+        aiCacheService.count().then(setCacheCount).catch(() => setCacheCount(null));
+        ragService.count().then(setIndexCount).catch(() => setIndexCount(null));
+    }, []);
+
+    const models = draft.models[draft.provider] || {};
+
+    const setProvider = (provider: AIProviderId) => setDraft(prev => ({ ...prev, provider }));
+
+    const setModel = (feature: string, value: string) => setDraft(prev => ({
+        ...prev,
+        models: { ...prev.models, [prev.provider]: { ...(prev.models[prev.provider] || {}), [feature]: value } }
+    }));
+
+    const handleSave = () => {
+        geminiService.updateSettings(draft);
+        onNotify(geminiService.hasKey()
+            ? `Đã lưu cấu hình AI (${geminiService.getProviderLabel()}).`
+            : "Đã lưu cấu hình. Vui lòng nhập API Key cho nhà cung cấp này.");
+    };
+
+    const handleTest = async () => {
+        handleSave();
+        setIsTesting(true);
+        const ok = await geminiService.validateKey();
+        setIsTesting(false);
+        onNotify(ok ? "✅ Kết nối AI hoạt động." : "Không kết nối được. Kiểm tra Key, địa chỉ hoặc tên model.");
+    };
+
+    // Start over, e.g. after changing the embedding model or when results look stale
+    const handleRebuildIndex = async () => {
+        setIsIndexing(true);
+        try {
+            await ragService.clear();
+            await ragService.sync();
+            setIndexCount(await ragService.count());
+            onNotify("Đã lập lại chỉ mục tài liệu cho Nana.");
+        } catch (e: any) {
+            console.error("Failed to rebuild document index", e);
+            setIndexCount(await ragService.count().catch(() => null));
+            onNotify(e.message || "Không lập được chỉ mục tài liệu.");
+        } finally {
+            setIsIndexing(false);
+        }
+    };
+
+    const handleClearCache = async () => {
+        try {
+            await aiCacheService.clear();
+            setCacheCount(0);
+            onNotify("Đã xóa bộ nhớ đệm AI.");
+        } catch (e) {
+            console.error("Failed to clear AI cache", e);
+            onNotify("Không xóa được bộ nhớ đệm AI.");
+        }
+    };
+
+    return (
+        <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-2xl p-6 shadow-sm space-y-5">
+            <div>
+                <h4 className="text-sm font-bold text-gray-700 dark:text-gray-300 mb-1">Nhà cung cấp & Model</h4>
+                <p className="text-xs text-gray-500 dark:text-gray-400">Chọn nơi chạy AI và model cho từng tính năng. Để trống để dùng model mặc định.</p>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                {AI_PROVIDERS.map(p => (
+                    <button
+                        key={p.id}
+                        onClick={() => setProvider(p.id)}
+                        className={`px-3 py-2.5 rounded-xl border text-sm font-bold transition-colors ${draft.provider === p.id ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:border-indigo-300'}`}
+                    >
+                        {p.label}
+                    </button>
+                ))}
+            </div>
+
+            {draft.provider === 'local' && (
+                <div>
+                    <label className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase block mb-1">Địa chỉ máy chủ (OpenAI-compatible)</label>
+                    <input
+                        type="text"
+                        value={draft.localBaseUrl}
+                        onChange={e => setDraft(prev => ({ ...prev, localBaseUrl: e.target.value }))}
+                        placeholder={DEFAULT_LOCAL_BASE_URL}
+                        className="w-full border border-gray-300 dark:border-gray-600 rounded-xl px-4 py-2.5 text-sm outline-none focus:ring-2 focus:ring-indigo-500 bg-white dark:bg-gray-700 dark:text-white font-mono"
+                    />
+                    <p className="text-xs text-gray-400 mt-1">Ollama: http://localhost:11434/v1 · LM Studio: http://localhost:1234/v1. Live Voice và Google Search không khả dụng.</p>
+                </div>
+            )}
+
+            <div className="space-y-2">
+                {AI_FEATURES.map(f => {
+                    const fallback = DEFAULT_MODELS[draft.provider][f.id];
+                    const unsupported = !fallback;
+                    return (
+                        <div key={f.id} className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-3">
+                            <div className="sm:w-48 shrink-0">
+                                <p className="text-sm font-bold text-gray-700 dark:text-gray-200">{f.label}</p>
+                                <p className="text-[11px] text-gray-400">{f.description}</p>
+                            </div>
+                            <input
+                                type="text"
+                                value={models[f.id] || ''}
+                                onChange={e => setModel(f.id, e.target.value)}
+                                disabled={unsupported}
+                                placeholder={unsupported ? 'Không hỗ trợ' : fallback}
+                                className="flex-1 border border-gray-300 dark:border-gray-600 rounded-xl px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-indigo-500 bg-white dark:bg-gray-700 dark:text-white font-mono disabled:opacity-50"
+                            />
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div className="flex gap-2 justify-end items-center">
+                {cacheCount !== null && (
+                    <button onClick={handleClearCache} disabled={cacheCount === 0} className="mr-auto text-xs font-bold text-gray-500 hover:text-red-600 disabled:opacity-50 disabled:hover:text-gray-500" title="Câu trả lời AI được lưu lại để tra cứu lặp lại không tốn thêm lượt gọi">
+                        Xóa bộ nhớ đệm AI ({cacheCount})
+                    </button>
+                )}
+                {indexCount !== null && (
+                    <button onClick={handleRebuildIndex} disabled={isIndexing} className={`${cacheCount === null ? 'mr-auto ' : ''}text-xs font-bold text-gray-500 hover:text-indigo-600 disabled:opacity-50`} title="Bài học, ghi chú, từ vựng và bài đọc được chia đoạn để Nana tìm khi trả lời">
+                        {isIndexing ? 'Đang lập chỉ mục...' : `Lập lại chỉ mục tài liệu (${indexCount} đoạn)`}
+                    </button>
+                )}
+                <button onClick={handleTest} disabled={isTesting} className="px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-xl font-bold text-sm disabled:opacity-50">
+                    {isTesting ? <span className="animate-spin inline-block">↻</span> : 'Kiểm tra kết nối'}
+                </button>
+                <button onClick={handleSave} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-bold text-sm">Lưu cấu hình</button>
+            </div>
+        </div>
+    );
+};
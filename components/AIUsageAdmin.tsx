@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, CartesianGrid, ResponsiveContainer } from 'recharts';
+import { aiUsageService, AIUserUsage, AI_QUOTAS, sumTotals, formatCostUSD } from '../services/aiUsage';
+
+const fmtNumber = (n: number) => new Intl.NumberFormat('vi-VN').format(Math.round(n));
+
+// Admin view: AI calls, tokens and estimated cost of every user for the current month
+export const AIUsageAdmin: React.FC = () => {
+    const [rows, setRows] = useState<AIUserUsage[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    useEffect(() => {
+        aiUsageService.getAllUsersUsage()
+            .then(setRows)
+            .catch(e => console.error("Failed to load AI usage", e))
+            .finally(() => setIsLoading(false));
+    }, []);
+
+    if (isLoading) return <div className="p-10 text-center text-gray-500 animate-pulse">Đang tổng hợp mức sử dụng AI...</div>;
+
+    const total = sumTotals(rows.map(r => r.month));
+    const activeUsers = rows.filter(r => r.month.calls > 0).length;
+
+    // Daily cost across all users
+    const byDate: Record<string, { calls: number; cost: number }> = {};
+    rows.forEach(r => r.days.forEach(d => {
+        const entry = byDate[d.date] || { calls: 0, cost: 0 };
+        byDate[d.date] = { calls: entry.calls + d.calls, cost: entry.cost + d.cost };
+    }));
+    const chartData = Object.entries(byDate).sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, v]) => ({ date: date.slice(8) + '/' + date.slice(5, 7), ...v }));
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                {[
+                    { label: 'Chi phí ước tính (tháng)', value: formatCostUSD(total.cost), color: 'text-indigo-600 dark:text-indigo-400' },
+                    { label: 'Lượt gọi AI', value: fmtNumber(total.calls), color: 'text-gray-800 dark:text-white' },
+                    { label: 'Token (vào / ra)', value: `${fmtNumber(total.inputTokens)} / ${fmtNumber(total.outputTokens)}`, color: 'text-gray-800 dark:text-white' },
+                    { label: 'Người dùng có gọi AI', value: `${activeUsers} / ${rows.length}`, color: 'text-gray-800 dark:text-white' }
+                ].map(card => (
+                    <div key={card.label} className="bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 shadow-sm p-5">
+                        <span className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider">{card.label}</span>
+                        <p className={`text-2xl font-bold mt-1 ${card.color}`}>{card.value}</p>
+                    </div>
+                ))}
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 shadow-sm p-6">
+                <h3 className="font-bold text-gray-800 dark:text-white mb-4 text-sm uppercase tracking-wide">Chi phí theo ngày</h3>
+                {chartData.length === 0 ? (
+                    <p className="text-sm text-gray-500 text-center py-10">Chưa có lượt gọi AI nào trong tháng.</p>
+                ) : (
+                    <div className="h-64">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <BarChart data={chartData} margin={{ top: 5, right: 5, left: 0, bottom: 5 }}>
+                                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#E5E7EB" />
+                                <XAxis dataKey="date" fontSize={10} stroke="#9CA3AF" />
+                                <YAxis fontSize={10} stroke="#9CA3AF" width={60} tickFormatter={v => formatCostUSD(Number(v))} />
+                                <Tooltip formatter={(value, name) => name === 'cost' ? [formatCostUSD(Number(value)), 'Chi phí'] : [fmtNumber(Number(value)), 'Lượt gọi']} />
+                                <Bar dataKey="cost" fill="#6366F1" radius={[3, 3, 0, 0]} />
+                            </BarChart>
+                        </ResponsiveContainer>
+                    </div>
+                )}
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 shadow-sm overflow-hidden">
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm">
+                        <thead className="bg-gray-50 dark:bg-gray-900/50 text-gray-500 dark:text-gray-400 uppercase text-xs font-bold">
+                            <tr>
+                                <th className="px-6 py-3">Người dùng</th>
+                                <th className="px-6 py-3">Gói</th>
+                                <th className="px-6 py-3 text-right">Lượt gọi</th>
+                                <th className="px-6 py-3 text-right">Token</th>
+                                <th className="px-6 py-3 text-right">Chi phí</th>
+                                <th className="px-6 py-3 w-48">Hạn mức tháng</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                            {rows.map(({ user, month }) => {
+                                const quota = AI_QUOTAS[user.aiTier === 'vip' ? 'vip' : 'standard'];
+                                const tokens = month.inputTokens + month.outputTokens;
+                                const percent = Math.min(100, Math.max(month.calls / quota.monthlyCalls, tokens / quota.monthlyTokens) * 100);
+                                return (
+                                    <tr key={user.uid} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+                                        <td className="px-6 py-3">
+                                            <p className="font-bold text-gray-800 dark:text-white">{user.name}</p>
+                                            <p className="text-xs text-gray-500">{user.email}</p>
+                                        </td>
+                                        <td className="px-6 py-3 text-xs font-bold uppercase text-gray-600 dark:text-gray-300">{user.aiTier || 'standard'}</td>
+                                        <td className="px-6 py-3 text-right font-mono text-gray-700 dark:text-gray-200">{fmtNumber(month.calls)}</td>
+                                        <td className="px-6 py-3 text-right font-mono text-gray-700 dark:text-gray-200">{fmtNumber(tokens)}</td>
+                                        <td className="px-6 py-3 text-right font-mono font-bold text-gray-800 dark:text-white">{formatCostUSD(month.cost)}</td>
+                                        <td className="px-6 py-3">
+                                            <div className="w-full bg-gray-100 dark:bg-gray-700 rounded-full h-2 overflow-hidden">
+                                                <div className={`h-full rounded-full ${percent > 90 ? 'bg-red-500' : percent > 70 ? 'bg-yellow-500' : 'bg-green-500'}`} style={{ width: `${percent}%` }}></div>
+                                            </div>
+                                            <p className="text-[10px] text-gray-400 mt-1">{percent.toFixed(0)}%</p>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+};
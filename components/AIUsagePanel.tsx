@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, CartesianGrid, ResponsiveContainer } from 'recharts';
+import { aiUsageService, AIQuotaStatus, AIUsageDay, sumTotals, emptyTotals, formatCostUSD } from '../services/aiUsage';
+import { toDateKey } from '../services/recurring';
+import { AI_FEATURES } from '../services/aiProviders';
+
+interface AIUsagePanelProps {
+    uid: string;
+}
+
+const fmtNumber = (n: number) => new Intl.NumberFormat('vi-VN').format(Math.round(n));
+
+const QuotaBar = ({ label, current, max }: { label: string, current: number, max: number }) => {
+    const percent = Math.min(100, max > 0 ? (current / max) * 100 : 0);
+    return (
+        <div>
+            <div className="flex justify-between items-end mb-1">
+                <span className="text-xs font-bold text-gray-600 dark:text-gray-300">{label}</span>
+                <span className="text-[10px] font-mono text-gray-500 dark:text-gray-400">{fmtNumber(current)} / {fmtNumber(max)}</span>
+            </div>
+            <div className="w-full bg-gray-100 dark:bg-gray-700 rounded-full h-2 overflow-hidden">
+                <div className={`h-full rounded-full transition-all ${percent > 90 ? 'bg-red-500' : percent > 70 ? 'bg-yellow-500' : 'bg-indigo-500'}`} style={{ width: `${percent}%` }}></div>
+            </div>
+        </div>
+    );
+};
+
+export const AIUsagePanel: React.FC<AIUsagePanelProps> = ({ uid }) => {
+    const [status, setStatus] = useState<AIQuotaStatus | null>(null);
+    const [days, setDays] = useState<AIUsageDay[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        Promise.all([aiUsageService.getQuotaStatus(uid), aiUsageService.getRecentDays(uid, 30)])
+            .then(([s, d]) => { if (!cancelled) { setStatus(s); setDays(d); } })
+            .catch(e => {
+                console.error("Failed to load AI usage", e);
+                if (!cancelled) setError("Không tải được dữ liệu sử dụng AI.");
+            });
+        return () => { cancelled = true; };
+    }, [uid]);
+
+    if (error) return <div className="text-sm text-gray-500 p-4">{error}</div>;
+    if (!status) return <div className="text-sm text-gray-400 p-4 animate-pulse">Đang tải mức sử dụng AI...</div>;
+
+    const monthPrefix = toDateKey(new Date()).slice(0, 7);
+    const byFeature = AI_FEATURES.map(f => ({
+        ...f,
+        totals: sumTotals(days.filter(d => d.date.startsWith(monthPrefix)).map(d => d.features[f.id] || emptyTotals()))
+    })).filter(f => f.totals.calls > 0);
+
+    const chartData = days.map(d => ({ date: d.date.slice(8) + '/' + d.date.slice(5, 7), tokens: d.inputTokens + d.outputTokens, calls: d.calls }));
+
+    return (
+        <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-2xl p-6 shadow-sm space-y-5">
+            <div className="flex justify-between items-start">
+                <div>
+                    <h4 className="text-sm font-bold text-gray-700 dark:text-gray-300 mb-1">Mức sử dụng AI</h4>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Hạn mức gói {status.tier === 'vip' ? 'VIP' : 'Standard'} · chi phí ước tính theo giá công bố của nhà cung cấp</p>
+                </div>
+                <div className="text-right">
+                    <p className="text-lg font-bold text-gray-800 dark:text-white">{formatCostUSD(status.month.cost)}</p>
+                    <p className="text-[10px] text-gray-400 uppercase font-bold">Tháng này</p>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <QuotaBar label="Lượt gọi hôm nay" current={status.today.calls} max={status.quota.dailyCalls} />
+                <QuotaBar label="Token hôm nay" current={status.today.inputTokens + status.today.outputTokens} max={status.quota.dailyTokens} />
+                <QuotaBar label="Lượt gọi tháng này" current={status.month.calls} max={status.quota.monthlyCalls} />
+                <QuotaBar label="Token tháng này" current={status.month.inputTokens + status.month.outputTokens} max={status.quota.monthlyTokens} />
+            </div>
+
+            <div className="h-48">
+                <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={chartData} margin={{ top: 5, right: 5, left: 0, bottom: 5 }}>
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#E5E7EB" />
+                        <XAxis dataKey="date" fontSize={10} stroke="#9CA3AF" interval={4} />
+                        <YAxis fontSize={10} stroke="#9CA3AF" width={50} tickFormatter={v => new Intl.NumberFormat('vi-VN', { notation: 'compact' }).format(v)} />
+                        <Tooltip formatter={(value, name) => [fmtNumber(Number(value)), name === 'tokens' ? 'Token' : 'Lượt gọi']} />
+                        <Bar dataKey="tokens" fill="#6366F1" radius={[3, 3, 0, 0]} />
+                    </BarChart>
+                </ResponsiveContainer>
+            </div>
+
+            {byFeature.length > 0 && (
+                <div className="space-y-2">
+                    <p className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase">Theo tính năng (tháng này)</p>
+                    {byFeature.map(f => (
+                        <div key={f.id} className="flex justify-between text-sm">
+                            <span className="text-gray-700 dark:text-gray-200">{f.label}</span>
+                            <span className="font-mono text-xs text-gray-500 dark:text-gray-400">
+                                {fmtNumber(f.totals.calls)} lượt · {fmtNumber(f.totals.inputTokens + f.totals.outputTokens)} token · {formatCostUSD(f.totals.cost)}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
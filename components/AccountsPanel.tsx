@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { FinanceAccount, AccountType } from '../types';
+import { accountService, AccountBalance, ACCOUNT_TYPES, EWALLET_PROVIDERS, DEFAULT_ACCOUNT_ID } from '../services/accounts';
+import { MoneyInput } from './MoneyInput';
+
+interface AccountsPanelProps {
+    accounts: FinanceAccount[];
+    balances: Record<string, AccountBalance>;
+    onSave: (account: FinanceAccount) => Promise<void> | void;
+    onDelete: (id: string) => Promise<void> | void;
+    onReconcile: (account: FinanceAccount, actualBalance: number) => Promise<void> | void;
+    onTransfer: () => void;
+}
+
+const formatCurrency = (amount: number) => new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(amount);
+
+const inputStyle = "w-full border border-gray-300 rounded-xl px-4 py-3 text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white text-gray-900 dark:bg-gray-700 dark:text-white dark:border-gray-600 transition-colors placeholder-gray-400 font-medium shadow-sm";
+
+const TYPE_STYLES: Record<AccountType, string> = {
+    cash: 'bg-green-50 text-green-600 dark:bg-green-900/20',
+    bank: 'bg-blue-50 text-blue-600 dark:bg-blue-900/20',
+    ewallet: 'bg-pink-50 text-pink-600 dark:bg-pink-900/20',
+    credit: 'bg-orange-50 text-orange-600 dark:bg-orange-900/20'
+};
+
+const daysSince = (iso?: string) => iso ? Math.floor((Date.now() - new Date(iso).getTime()) / (24 * 60 * 60 * 1000)) : null;
+
+export const AccountsPanel: React.FC<AccountsPanelProps> = ({ accounts, balances, onSave, onDelete, onReconcile, onTransfer }) => {
+    const [editing, setEditing] = useState<FinanceAccount | null>(null);
+    const [reconciling, setReconciling] = useState<FinanceAccount | null>(null);
+    const [actualBalance, setActualBalance] = useState(0);
+
+    const list = accountService.withDefault(accounts).filter(a => !a.isArchived);
+    const total = accountService.totalBalance(balances, accounts);
+
+    const openEditor = (account?: FinanceAccount) => {
+        setEditing(account ? { ...account } : { id: '', name: '', type: 'bank', openingBalance: 0 });
+    };
+
+    const handleSave = async () => {
+        if (!editing || !editing.name) return;
+        // Saving the virtual default wallet turns it into a real account
+        const id = editing.id && editing.id !== DEFAULT_ACCOUNT_ID ? editing.id : Date.now().toString();
+        await onSave({ ...editing, id, isDefault: editing.isDefault || accounts.length === 0 });
+        setEditing(null);
+    };
+
+    const openReconcile = (account: FinanceAccount) => {
+        setActualBalance(balances[account.id]?.balance || 0);
+        setReconciling(account);
+    };
+
+    const handleReconcile = async () => {
+        if (!reconciling) return;
+        await onReconcile(reconciling, actualBalance);
+        setReconciling(null);
+    };
+
+    const computed = reconciling ? balances[reconciling.id]?.balance || 0 : 0;
+    const diff = actualBalance - computed;
+
+    return (
+        <div className="bg-white dark:bg-gray-800 p-5 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700">
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+                <div>
+                    <h3 className="font-bold text-gray-800 dark:text-white flex items-center gap-2"><span>👛</span> Tài khoản & Ví</h3>
+                    <p className="text-xs text-gray-500">Tổng số dư: <span className="font-bold text-gray-800 dark:text-white">{formatCurrency(total)}</span></p>
+                </div>
+                <div className="flex gap-2">
+                    <button onClick={onTransfer} className="px-3 py-1.5 rounded-lg text-xs font-bold border border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700">⇄ Chuyển tiền</button>
+                    <button onClick={() => openEditor()} className="px-3 py-1.5 rounded-lg text-xs font-bold border border-blue-200 dark:border-blue-800 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-gray-700">+ Thêm</button>
+                </div>
+            </div>
+
+            <div className="flex gap-3 overflow-x-auto no-scrollbar pb-1">
+                {list.map(a => {
+                    const meta = accountService.getTypeMeta(a.type);
+                    const balance = balances[a.id]?.balance || 0;
+                    const age = daysSince(a.lastReconciledAt);
+                    return (
+                        <div key={a.id} className="min-w-[200px] p-4 rounded-xl border border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/40 group relative">
+                            <div className="flex items-center gap-2 mb-2">
+                                <span className={`w-8 h-8 rounded-lg flex items-center justify-center ${TYPE_STYLES[a.type]}`}>{meta.icon}</span>
+                                <div className="min-w-0">
+                                    <p className="font-bold text-sm text-gray-800 dark:text-white truncate">{a.name}{a.isDefault && accounts.length > 1 ? ' ★' : ''}</p>
+                                    <p className="text-[10px] text-gray-400">{a.provider || meta.label}</p>
+                                </div>
+                            </div>
+                            <p className={`text-lg font-bold ${balance < 0 ? 'text-red-600' : 'text-gray-800 dark:text-white'}`}>{formatCurrency(balance)}</p>
+                            <div className="flex justify-between items-center mt-2 text-[10px]">
+                                <span className={age === null || age > 30 ? 'text-orange-500' : 'text-gray-400'}>
+                                    {age === null ? 'Chưa đối soát' : age === 0 ? 'Đối soát hôm nay' : `Đối soát ${age} ngày trước`}
+                                </span>
+                                <button onClick={() => openReconcile(a)} className="font-bold text-blue-600 dark:text-blue-400 hover:underline">Đối soát</button>
+                            </div>
+                            <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                <button onClick={() => openEditor(a)} className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded text-xs">✏️</button>
+                                {a.id !== DEFAULT_ACCOUNT_ID && <button onClick={() => onDelete(a.id)} className="p-1 hover:bg-red-50 dark:hover:bg-red-900/20 rounded text-xs">🗑</button>}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            {editing && (
+                <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+                    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-sm overflow-hidden animate-fade-in-up border border-gray-200 dark:border-gray-700">
+                        <div className="p-5 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center bg-gray-50 dark:bg-gray-900">
+                            <h3 className="font-bold text-lg text-gray-800 dark:text-white">{editing.id ? 'Sửa tài khoản' : 'Tài khoản mới'}</h3>
+                            <button onClick={() => setEditing(null)} className="text-gray-400 hover:text-gray-600">✕</button>
+                        </div>
+                        <div className="p-6 space-y-4">
+                            <div className="grid grid-cols-2 gap-2">
+                                {ACCOUNT_TYPES.map(t => (
+                                    <button key={t.id} onClick={() => setEditing({ ...editing, type: t.id })} className={`py-2 rounded-lg text-xs font-bold border ${editing.type === t.id ? 'bg-blue-50 border-blue-200 text-blue-600 dark:bg-blue-900/20 dark:border-blue-800' : 'border-gray-200 dark:border-gray-600 text-gray-500'}`}>{t.icon} {t.label}</button>
+                                ))}
+                            </div>
+                            <div><label className="block text-xs font-bold text-gray-500 uppercase mb-1">Tên</label><input value={editing.name} onChange={e => setEditing({ ...editing, name: e.target.value })} className={inputStyle} placeholder="VD: Vietcombank, MoMo..." autoFocus /></div>
+                            {editing.type === 'ewallet' && (
+                                <select value={editing.provider || ''} onChange={e => setEditing({ ...editing, provider: e.target.value, name: editing.name || e.target.value })} className={inputStyle}>
+                                    <option value="">-- Nhà cung cấp --</option>
+                                    {EWALLET_PROVIDERS.map(p => <option key={p} value={p}>{p}</option>)}
+                                </select>
+                            )}
+                            <div>
+                                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">{editing.type === 'credit' ? 'Dư nợ ban đầu' : 'Số dư ban đầu'}</label>
+                                <MoneyInput
+                                    value={Math.abs(editing.openingBalance)}
+                                    onChange={val => setEditing({ ...editing, openingBalance: editing.type === 'credit' ? -Math.abs(val) : val })}
+                                    className={inputStyle}
+                                />
+                            </div>
+                            <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                                <input type="checkbox" checked={!!editing.isDefault} onChange={e => setEditing({ ...editing, isDefault: e.target.checked })} />
+                                Tài khoản mặc định cho giao dịch mới
+                            </label>
+                            <button onClick={handleSave} className="w-full bg-blue-600 text-white py-3 rounded-xl font-bold hover:bg-blue-700 shadow-lg mt-2">Lưu</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {reconciling && (
+                <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+                    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-sm overflow-hidden animate-fade-in-up border border-gray-200 dark:border-gray-700">
+                        <div className="p-5 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center bg-gray-50 dark:bg-gray-900">
+                            <h3 className="font-bold text-lg text-gray-800 dark:text-white">Đối soát: {reconciling.name}</h3>
+                            <button onClick={() => setReconciling(null)} className="text-gray-400 hover:text-gray-600">✕</button>
+                        </div>
+                        <div className="p-6 space-y-4">
+                            <div className="flex justify-between text-sm">
+                                <span className="text-gray-500">Số dư trong app</span>
+                                <span className="font-bold text-gray-800 dark:text-white">{formatCurrency(computed)}</span>
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Số dư thực tế (theo ngân hàng/ví)</label>
+                                <MoneyInput value={Math.abs(actualBalance)} onChange={val => setActualBalance(computed < 0 ? -Math.abs(val) : val)} className={inputStyle} autoFocus />
+                            </div>
+                            <div className={`rounded-lg p-3 text-xs font-bold ${diff === 0 ? 'bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-300' : 'bg-orange-50 text-orange-700 dark:bg-orange-900/20 dark:text-orange-300'}`}>
+                                {diff === 0
+                                    ? '✅ Khớp số dư'
+                                    : `Chênh lệch ${diff > 0 ? '+' : ''}${formatCurrency(diff)} — sẽ tạo giao dịch "Điều chỉnh số dư"`}
+                            </div>
+                            <button onClick={handleReconcile} className="w-full bg-blue-600 text-white py-3 rounded-xl font-bold hover:bg-blue-700 shadow-lg">Xác nhận đối soát</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,8 +1,16 @@
 
 import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { geminiService, floatTo16BitPCM } from '../services/gemini';
-import { CourseNode, ChatMessage, ChatSession } from '../types';
+import { CourseNode, ChatCitation, ChatMessage, ChatSession, ChatToolCall } from '../types';
 import { speechService, VoiceSettings, DEFAULT_VOICE_SETTINGS } from '../services/speech';
+import { isAbortError } from '../services/aiPipeline';
+import { AIMessage } from '../services/aiProviders';
+import { AIToolContext, aiToolDeclarations, getAITool, runAITool } from '../services/aiTools';
+import { firebaseService } from '../services/firebase';
+import { ragService, RagHit } from '../services/rag';
+import { chatHistoryService, needsMessages, searchSession, sessionToHtml, sessionToMarkdown } from '../services/chatHistory';
+import { AssistantPersona, personaInstruction, personaService, personaVoice } from '../services/personas';
 
 const SimpleMarkdownRenderer = ({ content }: { content: string }) => {
     if (!content) return null;
@@ -56,6 +64,75 @@ const SimpleMarkdownRenderer = ({ content }: { content: string }) => {
     );
 };
 
+const MAX_TOOL_ROUNDS = 4; // Model replies per user message when tools keep being called
+
+const declinePendingCalls = (m: ChatMessage): ChatMessage =>
+    m.toolCalls?.some(c => c.status === 'pending')
+        ? { ...m, toolCalls: m.toolCalls.map(c => c.status === 'pending' ? { ...c, status: 'rejected' } : c) }
+        : m;
+
+// Session messages -> provider history. A model message with tool calls is followed by a 'tool'
+// message carrying their outcomes, which is what both Gemini and OpenAI expect.
+const toAIHistory = (messages: ChatMessage[]): AIMessage[] => {
+    const history: AIMessage[] = [];
+    messages.forEach(m => {
+        if (!m.text && !m.toolCalls?.length) return;
+        if (m.role === 'user' || !m.toolCalls?.length) {
+            history.push({ role: m.role, text: m.text });
+            return;
+        }
+        history.push({ role: 'model', text: m.text, toolCalls: m.toolCalls.map(({ id, name, args, signature }) => ({ id, name, args, signature })) });
+        history.push({
+            role: 'tool',
+            text: '',
+            toolResults: m.toolCalls.map(c => ({
+                id: c.id,
+                name: c.name,
+                ...(c.status === 'done' ? { result: c.result ?? null } : { error: c.status === 'error' ? c.error : 'The user declined this action.' })
+            }))
+        });
+    });
+    return history;
+};
+
+const CITATION_KIND_LABEL: Record<ChatCitation['kind'], string> = {
+    lesson: 'Bài học',
+    note: 'Ghi chú',
+    vocab: 'Từ vựng',
+    reading: 'Bài đọc'
+};
+
+const CITATION_ICON: Record<ChatCitation['kind'], string> = {
+    lesson: '📖',
+    note: '📝',
+    vocab: '📚',
+    reading: '📰'
+};
+
+// Only materials the reply actually refers to ([n]) are listed under it
+const citedMaterials = (text: string, materials: RagHit[]): ChatCitation[] | undefined => {
+    const cited = materials
+        .map((h, i) => ({ index: i + 1, kind: h.kind, title: h.title, refId: h.refId }))
+        .filter(c => text.includes(`[${c.index}]`));
+    return cited.length > 0 ? cited : undefined;
+};
+
+const CLOUD_SAVE_DELAY_MS = 2000; // Streaming replies are uploaded once they settle
+
+// What the cloud copy of a session must match; message changes always bump updatedAt
+const cloudSignature = (s: ChatSession) => `${s.updatedAt}|${s.title}|${!!s.pinned}|${!!s.archived}|${s.personaId || ''}`;
+
+// Sessions saved before messages had ids get stable ones from their position
+const withMessageIds = (s: ChatSession): ChatSession =>
+    s.messages.every(m => m.id) ? s : { ...s, messages: s.messages.map((m, i) => m.id ? m : { ...m, id: `${s.id}_${i}` }) };
+
+const TOOL_STATUS_LABEL: Record<ChatToolCall['status'], string> = {
+    pending: 'Chờ xác nhận',
+    done: 'Đã thực hiện',
+    rejected: 'Đã hủy',
+    error: 'Lỗi'
+};
+
 export const ChatWidget: React.FC = () => {
     const [isOpen, setIsOpen] = useState(false);
     const [mode, setMode] = useState<'chat' | 'live'>('chat');
@@ -73,11 +150,22 @@ export const ChatWidget: React.FC = () => {
     const [historySearch, setHistorySearch] = useState('');
     const [editingSessionId, setEditingSessionId] = useState<string | null>(null);
     const [editTitle, setEditTitle] = useState('');
+    const [showArchived, setShowArchived] = useState(false);
+
+    // Cloud history (users/{uid}/chat_sessions), active when the user has cloud storage
+    const [cloudUid, setCloudUid] = useState<string | null>(null);
+    const sessionsRef = useRef<ChatSession[]>([]);
+    const uploadedRef = useRef(new Map<string, string>()); // Session id -> cloudSignature last uploaded
+    const loadingMessagesRef = useRef(new Set<string>());
 
     const [isSpeakingMode, setIsSpeakingMode] = useState(false);
     const [isListening, setIsListening] = useState(false);
     const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>(DEFAULT_VOICE_SETTINGS);
 
+    // Personas: each session keeps the one it was started with (or switched to)
+    const [personas, setPersonas] = useState<AssistantPersona[]>(() => personaService.all());
+    const [showPersonaMenu, setShowPersonaMenu] = useState(false);
+
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const inputRef = useRef<HTMLInputElement>(null);
 
@@ -86,24 +174,24 @@ export const ChatWidget: React.FC = () => {
     const streamRef = useRef<MediaStream | null>(null);
     const processorRef = useRef<ScriptProcessorNode | null>(null);
     const nextStartTimeRef = useRef(0);
+    const chatAbortRef = useRef<AbortController | null>(null); // Reply being generated, for "Dừng"
+    const [runningToolCallId, setRunningToolCallId] = useState<string | null>(null);
+    const navigate = useNavigate();
 
     // Initial Load & Migration
     useEffect(() => {
         // 1. Check for API Key
         checkKey();
 
-        // 2. Load Voice Settings
-        const savedSettings = localStorage.getItem('dh_voice_settings');
-        if (savedSettings) {
-            setVoiceSettings(JSON.parse(savedSettings));
-        } else {
+        // 2. Warm up the voice list (voice settings follow the session's persona below)
+        if (!localStorage.getItem('dh_voice_settings')) {
             speechService.getVoices().then(() => { });
         }
 
         // 3. Load Sessions / Migrate Data
         const savedSessions = localStorage.getItem('dh_chat_sessions');
         if (savedSessions) {
-            const parsedSessions = JSON.parse(savedSessions);
+            const parsedSessions = (JSON.parse(savedSessions) as ChatSession[]).map(withMessageIds);
             setSessions(parsedSessions);
             if (parsedSessions.length > 0) {
                 // Load the most recently updated session
@@ -119,12 +207,12 @@ export const ChatWidget: React.FC = () => {
                 try {
                     const oldMessages = JSON.parse(oldHistory);
                     const newId = Date.now().toString();
-                    const migratedSession: ChatSession = {
+                    const migratedSession: ChatSession = withMessageIds({
                         id: newId,
                         title: 'Hội thoại cũ (Đã lưu)',
                         messages: oldMessages,
                         updatedAt: Date.now()
-                    };
+                    });
                     setSessions([migratedSession]);
                     setCurrentSessionId(newId);
                     localStorage.setItem('dh_chat_sessions', JSON.stringify([migratedSession]));
@@ -138,14 +226,64 @@ export const ChatWidget: React.FC = () => {
         }
     }, []);
 
+    // Merge with the cloud history whenever a user with cloud storage signs in
+    useEffect(() => {
+        const unsubscribe = firebaseService.auth.onAuthStateChanged(async user => {
+            setCloudUid(null);
+            if (!user || !(await firebaseService.isCloudStorageEnabled())) return;
+            try {
+                const remote = await chatHistoryService.loadSessions(user.uid);
+                const { sessions: merged, toUpload } = chatHistoryService.merge(user.uid, sessionsRef.current, remote);
+                uploadedRef.current = new Map(merged.map(s => [s.id, cloudSignature(s)]));
+                toUpload.forEach(s => uploadedRef.current.delete(s.id));
+                if (merged.length > 0) {
+                    setSessions(merged);
+                    setCurrentSessionId(prev => merged.some(s => s.id === prev) ? prev : merged[0].id);
+                }
+                setCloudUid(user.uid);
+            } catch (e) {
+                console.warn("Chat history sync failed", e);
+            }
+        });
+        return () => unsubscribe();
+    }, []);
+
     // Save Sessions on Change
     useEffect(() => {
+        sessionsRef.current = sessions;
         if (sessions.length > 0) {
             localStorage.setItem('dh_chat_sessions', JSON.stringify(sessions));
         } else {
             localStorage.removeItem('dh_chat_sessions');
         }
-    }, [sessions]);
+
+        if (!cloudUid) return;
+        const timer = setTimeout(() => {
+            sessions.filter(s => !needsMessages(s) && uploadedRef.current.get(s.id) !== cloudSignature(s)).forEach(s => {
+                const signature = cloudSignature(s);
+                chatHistoryService.saveSession(cloudUid, s)
+                    .then(() => uploadedRef.current.set(s.id, signature))
+                    .catch(e => console.warn("Chat session upload failed", e));
+            });
+        }, CLOUD_SAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [sessions, cloudUid]);
+
+    // Messages of a cloud session are downloaded when it is opened
+    useEffect(() => {
+        const session = sessions.find(s => s.id === currentSessionId);
+        if (!cloudUid || !session || !needsMessages(session) || loadingMessagesRef.current.has(session.id)) return;
+        loadingMessagesRef.current.add(session.id);
+        chatHistoryService.loadMessages(cloudUid, session.id)
+            .then(messages => setSessions(prev => prev.map(s => s.id === session.id ? { ...s, messages } : s)))
+            .catch(e => console.warn("Failed to load chat messages", e))
+            .finally(() => loadingMessagesRef.current.delete(session.id));
+    }, [currentSessionId, sessions, cloudUid]);
+
+    // Personas may have been edited in Settings or published by the admin meanwhile
+    useEffect(() => {
+        if (isOpen) personaService.refresh().then(setPersonas).catch(e => console.warn("Failed to load personas", e));
+    }, [isOpen]);
 
     useEffect(() => {
         if (isOpen) {
@@ -157,14 +295,9 @@ export const ChatWidget: React.FC = () => {
         }
     }, [isOpen, isSpeakingMode, currentSessionId, showHistory]);
 
+    // Local providers run without a key, so ask the service rather than localStorage
     const checkKey = () => {
-        const key = localStorage.getItem('dh_gemini_api_key');
-        if (key) {
-            geminiService.initializeModel(key);
-            setApiKeyMissing(false);
-        } else {
-            setApiKeyMissing(true);
-        }
+        setApiKeyMissing(!geminiService.hasKey());
     }
 
     const scrollToBottom = () => {
@@ -175,11 +308,14 @@ export const ChatWidget: React.FC = () => {
 
     const createNewSession = () => {
         const newId = Date.now().toString();
+        const persona = personaService.get(personaService.getDefaultId());
         const newSession: ChatSession = {
             id: newId,
             title: 'Hội thoại mới',
-            messages: [{ role: 'model', text: "Hế lô! Nana đây. Hôm nay tụi mình học gì nè? 😎" }],
-            updatedAt: Date.now()
+            messages: [{ id: `${newId}_0`, role: 'model', text: persona.greeting }],
+            updatedAt: Date.now(),
+            createdAt: Date.now(),
+            personaId: persona.id
         };
         setSessions(prev => [newSession, ...prev]);
         setCurrentSessionId(newId);
@@ -192,6 +328,8 @@ export const ChatWidget: React.FC = () => {
         if (window.confirm("Bạn muốn xóa đoạn chat này?")) {
             const newSessions = sessions.filter(s => s.id !== id);
             setSessions(newSessions);
+            uploadedRef.current.delete(id);
+            if (cloudUid) chatHistoryService.deleteSession(cloudUid, id).catch(e => console.warn("Failed to delete chat session from cloud", e));
             if (currentSessionId === id) {
                 if (newSessions.length > 0) {
                     setCurrentSessionId(newSessions[0].id);
@@ -202,6 +340,40 @@ export const ChatWidget: React.FC = () => {
         }
     };
 
+    const togglePin = (e: React.MouseEvent, session: ChatSession) => {
+        e.stopPropagation();
+        setSessions(prev => prev.map(s => s.id === session.id ? { ...s, pinned: !s.pinned } : s));
+    };
+
+    const toggleArchive = (e: React.MouseEvent, session: ChatSession) => {
+        e.stopPropagation();
+        setSessions(prev => prev.map(s => s.id === session.id ? { ...s, archived: !s.archived, pinned: s.archived ? s.pinned : false } : s));
+    };
+
+    // --- Export ---
+    const exportFileName = (session: ChatSession) =>
+        `nana_${session.title.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-zA-Z0-9]+/g, '_').slice(0, 40) || session.id}`;
+
+    const exportMarkdown = () => {
+        const session = getCurrentSession();
+        if (!session) return;
+        const blob = new Blob([sessionToMarkdown(session, persona.name)], { type: 'text/markdown;charset=utf-8;' });
+        const url = URL.createObjectURL(blob); const link = document.createElement('a'); link.setAttribute('href', url); link.setAttribute('download', `${exportFileName(session)}.md`); link.style.visibility = 'hidden'; document.body.appendChild(link); link.click(); document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    // Opens a print view; "Save as PDF" in the print dialog produces the file
+    const exportPdf = () => {
+        const session = getCurrentSession();
+        if (!session) return;
+        const printWindow = window.open('', '_blank');
+        if (!printWindow) return alert("Trình duyệt đã chặn cửa sổ in. Hãy cho phép pop-up để xuất PDF.");
+        printWindow.document.write(sessionToHtml(session, persona.name));
+        printWindow.document.close();
+        printWindow.focus();
+        printWindow.print();
+    };
+
     const selectSession = (id: string) => {
         setCurrentSessionId(id);
         setShowHistory(false);
@@ -211,6 +383,31 @@ export const ChatWidget: React.FC = () => {
         return sessions.find(s => s.id === currentSessionId);
     };
 
+    const currentPersonaId = getCurrentSession()?.personaId;
+    const persona = personas.find(p => p.id === currentPersonaId) || personas[0];
+
+    // The persona's default voice applies on top of the saved voice settings
+    useEffect(() => {
+        const saved = localStorage.getItem('dh_voice_settings');
+        setVoiceSettings(personaVoice(persona, saved ? JSON.parse(saved) : DEFAULT_VOICE_SETTINGS));
+    }, [persona.id, persona.updatedAt]);
+
+    // A session that has not started yet greets again in the new persona's words
+    const switchPersona = (next: AssistantPersona) => {
+        setShowPersonaMenu(false);
+        personaService.setDefaultId(next.id);
+        setSessions(prev => prev.map(s => {
+            if (s.id !== currentSessionId) return s;
+            const untouched = s.messages.length === 1 && s.messages[0].role === 'model';
+            return {
+                ...s,
+                personaId: next.id,
+                messages: untouched ? [{ ...s.messages[0], text: next.greeting }] : s.messages,
+                updatedAt: Date.now()
+            };
+        }));
+    };
+
     const updateCurrentSessionMessages = (updater: (messages: ChatMessage[]) => ChatMessage[]) => {
         setSessions(prev => prev.map(s => {
             if (s.id === currentSessionId) {
@@ -245,8 +442,22 @@ export const ChatWidget: React.FC = () => {
     };
 
     // --- Grouping Logic ---
+    // Search covers message content and archived sessions too
+    const searchSnippets = useMemo(() => {
+        const snippets = new Map<string, string>();
+        if (!historySearch.trim()) return snippets;
+        sessions.forEach(s => {
+            const snippet = searchSession(s, historySearch);
+            if (snippet !== null) snippets.set(s.id, snippet);
+        });
+        return snippets;
+    }, [sessions, historySearch]);
+
+    const archivedCount = sessions.filter(s => s.archived).length;
+
     const groupedSessions = useMemo<Record<string, ChatSession[]>>(() => {
         const groups: Record<string, ChatSession[]> = {
+            'Đã ghim': [],
             'Hôm nay': [],
             'Hôm qua': [],
             '7 ngày qua': [],
@@ -259,9 +470,12 @@ export const ChatWidget: React.FC = () => {
         const lastWeek = today - 86400000 * 7;
 
         sessions.forEach(s => {
-            if (historySearch && !s.title.toLowerCase().includes(historySearch.toLowerCase())) return;
+            if (historySearch.trim()) {
+                if (!searchSnippets.has(s.id)) return;
+            } else if (!!s.archived !== showArchived) return;
 
-            if (s.updatedAt >= today) groups['Hôm nay'].push(s);
+            if (s.pinned) groups['Đã ghim'].push(s);
+            else if (s.updatedAt >= today) groups['Hôm nay'].push(s);
             else if (s.updatedAt >= yesterday) groups['Hôm qua'].push(s);
             else if (s.updatedAt >= lastWeek) groups['7 ngày qua'].push(s);
             else groups['Cũ hơn'].push(s);
@@ -273,7 +487,7 @@ export const ChatWidget: React.FC = () => {
         });
 
         return groups;
-    }, [sessions, historySearch]);
+    }, [sessions, historySearch, searchSnippets, showArchived]);
 
     const getContextString = () => {
         try {
@@ -295,132 +509,194 @@ export const ChatWidget: React.FC = () => {
         return "";
     };
 
-    const handleSend = async (textOverride?: string) => {
-        const textToSend = textOverride || input;
-        if (!textToSend.trim()) return;
+    const buildSystemInstruction = (persona: AssistantPersona, materials: RagHit[] = []) => {
+        const context = persona.knowledgeScope.includes('lesson') ? getContextString() : '';
+        const knowledge = materials.length > 0
+            ? `\nUSER'S MATERIALS (found in their lessons, notes, vocabulary and readings for this question):\n${materials.map((h, i) => `[${i + 1}] (${CITATION_KIND_LABEL[h.kind]}: ${h.title}) ${h.text.replace(/\s+/g, ' ')}`).join('\n')}\nWhen you use one of them, cite it with its marker, e.g. [1]. If they do not answer the question, say so briefly and answer from general knowledge.\n`
+            : '';
+        const tools = persona.allowedTools.length > 0
+            ? `\n**Tools**: Use the provided tools to act on the user's data. Call them only when the user asks for it. Actions that change data are shown to the user for confirmation; if a tool result says it was declined, do not retry it.`
+            : '';
+
+        return `${personaInstruction(persona)}${tools}
+Context: ${context}${knowledge}
+Today: ${new Date().toLocaleDateString('vi-VN', { weekday: 'long', year: 'numeric', month: '2-digit', day: '2-digit' })}
+`;
+    };
 
-        // Client-side pre-check for Key (to avoid unnecessary calls if obviously missing)
-        // However, the real check is in geminiService.enforcePolicy()
-        if (!geminiService.hasKey()) {
-            checkKey();
+    const toolContext: AIToolContext = {
+        uid: firebaseService.currentUser?.uid || null,
+        navigate: (path, state) => navigate(path, { state }),
+        setVoiceLanguage: (lang) => {
+            const voice = speechService.findBestVoice({ lang });
+            if (!voice) return false;
+            setVoiceSettings(prev => {
+                const next = { ...prev, voiceURI: voice.voiceURI };
+                localStorage.setItem('dh_voice_settings', JSON.stringify(next));
+                return next;
+            });
+            return true;
         }
+    };
 
-        const userMsg: ChatMessage = { role: 'user', text: textToSend };
-        updateCurrentSessionMessages(prev => [...prev, userMsg]);
-        setInput('');
+    // Retrieval never blocks the reply: indexing runs in the background and only the query is embedded
+    // here; without an index (or embeddings) Nana answers as before
+    const searchMaterials = async (query: string, persona: AssistantPersona, signal: AbortSignal): Promise<RagHit[]> => {
+        if (persona.knowledgeScope.length === 0) return [];
+        try {
+            return await ragService.search(query, { signal, kinds: persona.knowledgeScope, background: true });
+        } catch (e) {
+            if (isAbortError(e)) throw e;
+            console.warn("Material search failed", e);
+            return [];
+        }
+    };
+
+    const openCitation = (c: ChatCitation) => {
+        if (c.kind === 'lesson' || c.kind === 'note') navigate('/courses', { state: { lessonId: c.refId } });
+        else if (c.kind === 'vocab') navigate('/vocab-library', { state: { folderId: c.refId } });
+        else navigate('/english', { state: { passageId: c.refId } });
+    };
+
+    const executeToolCall = async (call: ChatToolCall): Promise<Partial<ChatToolCall>> => {
+        if (!persona.allowedTools.includes(call.name)) return { status: 'error', error: `${persona.name} is not allowed to use ${call.name}` };
+        const { result, error } = await runAITool(call.name, call.args, toolContext);
+        return error !== undefined ? { status: 'error', error } : { status: 'done', result };
+    };
+
+    const updateMessage = (id: string, updater: (message: ChatMessage) => ChatMessage) => {
+        updateCurrentSessionMessages(prev => prev.map(m => m.id === id ? updater(m) : m));
+    };
+
+    // Streams Nana's reply. Read-only tool calls run right away and the model continues with their
+    // results; calls that change data stop the turn until the user confirms or cancels them.
+    const streamReply = async (history: AIMessage[], prompt: string) => {
         setLoading(true);
+        const controller = new AbortController();
+        chatAbortRef.current = controller;
+        const firstMessageId = `${Date.now()}_0`;
+        updateCurrentSessionMessages(prev => [...prev, { id: firstMessageId, role: 'model', text: '', isThinking: true }]);
 
         try {
-            const currentSession = getCurrentSession();
-            const history = currentSession
-                ? currentSession.messages.map(m => ({ role: m.role, parts: [{ text: m.text }] }))
-                : [];
-            // Append the user message we just added (state might not be updated yet in this closure)
-            history.push({ role: 'user', parts: [{ text: textToSend }] });
-
-            updateCurrentSessionMessages(prev => [...prev, { role: 'model', text: '', isThinking: true }]);
-
-            const context = getContextString();
-
-            // SYSTEM INSTRUCTION: NORTHERN VIETNAMESE (HANOI) PERSONA
-            const systemInstruction = `
-      You are 'Nana', the user's close best friend and witty study companion.
-      Context: ${context}
-      
-      CORE PERSONA RULES:
-      1. **Voice/Dialect**: You are a young female from **Northern Vietnam (Hanoi)**.
-      2. **Particles**: Use Northern particles naturally: **'nhé', 'nhỉ', 'thế', 'đấy', 'cơ', 'vâng', 'ạ'**.
-      3. **Avoid**: Do NOT use Southern dialect words like 'nhen', 'hông', 'nghen', 'dạ' (use 'vâng' instead), 'tui'.
-      4. **Tone**: Playful, caring, slightly sassy but polite.
-      5. **Sentence Structure**: Keep answers concise and text-friendly.
-      6. **Voice Control**: If user asks to change voice/language, return HIDDEN command: <<<CMD: {"action": "set_voice", "params": {"lang": "en-US"}} >>>.
-      
-      Example: "Ôi bài này khó phết đấy nhỉ! Để mình xem giúp cậu nhé."
-      `;
-
-            const stream = geminiService.chatStream(history, textToSend, systemInstruction);
-
-            let rawText = '';
-            let displayedText = '';
-            let commandProcessed = false;
-            let accumulatedSources: { title: string; uri: string }[] = [];
-
-            for await (const chunk of stream) {
-                const chunkText = chunk.text || '';
-                rawText += chunkText;
-
-                if (chunk.candidates?.[0]?.groundingMetadata?.groundingChunks) {
-                    const chunks = chunk.candidates[0].groundingMetadata.groundingChunks;
-                    const newSources = chunks
-                        .filter((c: any) => c.web?.uri && c.web?.title)
-                        .map((c: any) => ({ title: c.web.title, uri: c.web.uri }));
-
-                    newSources.forEach(ns => {
-                        if (!accumulatedSources.some(s => s.uri === ns.uri)) {
-                            accumulatedSources.push(ns);
-                        }
+            const materials = prompt ? await searchMaterials(prompt, persona, controller.signal) : [];
+            const systemInstruction = buildSystemInstruction(persona, materials);
+            let turnHistory = history;
+            let turnPrompt = prompt;
+
+            for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+                const messageId = round === 0 ? firstMessageId : `${Date.now()}_${round}`;
+                if (round > 0) updateCurrentSessionMessages(prev => [...prev, { id: messageId, role: 'model', text: '', isThinking: true }]);
+
+                const stream = geminiService.chatWithTools(turnHistory, turnPrompt, systemInstruction, aiToolDeclarations(persona.allowedTools), { signal: controller.signal });
+
+                let text = '';
+                const calls: ChatToolCall[] = [];
+                const accumulatedSources: { title: string; uri: string }[] = [];
+
+                for await (const chunk of stream) {
+                    text += chunk.text || '';
+                    (chunk.sources || []).forEach(ns => {
+                        if (!accumulatedSources.some(s => s.uri === ns.uri)) accumulatedSources.push(ns);
                     });
+                    (chunk.toolCalls || []).forEach(c => calls.push({ ...c, status: 'pending' }));
+
+                    updateMessage(messageId, m => ({
+                        ...m,
+                        text,
+                        sources: accumulatedSources.length > 0 ? [...accumulatedSources] : undefined,
+                        toolCalls: calls.length > 0 ? [...calls] : undefined,
+                        citations: citedMaterials(text, materials),
+                        isThinking: false
+                    }));
                 }
 
-                if (!commandProcessed) {
-                    const cmdStart = rawText.indexOf('<<<CMD:');
-                    const cmdEnd = rawText.indexOf('>>>');
-
-                    if (cmdStart !== -1 && cmdEnd !== -1) {
-                        const cmdString = rawText.substring(cmdStart, cmdEnd + 3);
-                        const jsonString = rawText.substring(cmdStart + 7, cmdEnd).trim();
-
-                        try {
-                            const command = JSON.parse(jsonString);
-                            if (command.action === 'set_voice' && command.params) {
-                                const voice = speechService.findBestVoice(command.params);
-                                if (voice) {
-                                    setVoiceSettings(prev => {
-                                        const next = { ...prev, voiceURI: voice.voiceURI };
-                                        localStorage.setItem('dh_voice_settings', JSON.stringify(next));
-                                        return next;
-                                    });
-                                }
-                            }
-                        } catch (e) { console.error("CMD Parse Error", e); }
-
-                        commandProcessed = true;
-                        displayedText = rawText.replace(cmdString, '');
-                    } else if (cmdStart !== -1 && cmdEnd === -1) {
-                        displayedText = rawText.substring(0, cmdStart);
-                    } else {
-                        displayedText = rawText;
-                    }
-                } else {
-                    displayedText = rawText.replace(/<<<CMD:.*?>>>/s, '');
-                }
+                if (calls.length === 0) return;
 
+                for (const call of calls) {
+                    if (!getAITool(call.name)?.requiresConfirmation) Object.assign(call, await executeToolCall(call));
+                }
+                updateMessage(messageId, m => ({ ...m, toolCalls: [...calls] }));
+                if (calls.some(c => c.status === 'pending')) return;
+
+                turnHistory = [
+                    ...turnHistory,
+                    ...(turnPrompt ? [{ role: 'user' as const, text: turnPrompt }] : []),
+                    ...toAIHistory([{ id: messageId, role: 'model', text, toolCalls: calls }])
+                ];
+                turnPrompt = '';
+            }
+        } catch (error: any) {
+            // Stopped by the user: keep whatever was generated so far
+            if (isAbortError(error)) {
                 updateCurrentSessionMessages(prev => {
-                    const newHistory = [...prev];
-                    const lastMsg = newHistory[newHistory.length - 1];
-                    lastMsg.text = displayedText;
-                    lastMsg.sources = accumulatedSources.length > 0 ? accumulatedSources : undefined;
-                    lastMsg.isThinking = false;
-                    return newHistory;
+                    const last = prev[prev.length - 1];
+                    if (last?.role === 'model' && !last.text && !last.toolCalls) return prev.slice(0, -1);
+                    return prev.map((m, i) => i === prev.length - 1 ? { ...m, isThinking: false } : m);
                 });
+                return;
             }
-
-        } catch (error: any) {
             console.error("Chat Error:", error);
             updateCurrentSessionMessages(prev => {
                 const last = prev[prev.length - 1];
                 // Remove the empty placeholder if it was model thinking
-                if (last.role === 'model' && !last.text) return prev.slice(0, -1);
+                if (last.role === 'model' && !last.text && !last.toolCalls) return prev.slice(0, -1);
                 return prev;
             });
 
-            const errorMsg = error.message || "Hic, Nana bị mất kết nối rùi. Thử lại nha!";
-            updateCurrentSessionMessages(prev => [...prev, { role: 'model', text: errorMsg }]);
+            const errorMsg = error.message || `Hic, ${persona.name} bị mất kết nối rùi. Thử lại nha!`;
+            updateCurrentSessionMessages(prev => [...prev, { id: `${Date.now()}_error`, role: 'model', text: errorMsg }]);
+        } finally {
+            if (chatAbortRef.current === controller) chatAbortRef.current = null;
+            setLoading(false);
+        }
+    };
+
+    const handleSend = async (textOverride?: string) => {
+        const textToSend = textOverride || input;
+        if (!textToSend.trim()) return;
+
+        // Client-side pre-check for Key (to avoid unnecessary calls if obviously missing)
+        // However, the real check is in geminiService.enforcePolicy()
+        if (!geminiService.hasKey()) {
+            checkKey();
+        }
+
+        // Moving on without answering a confirmation card cancels it
+        const previous = (getCurrentSession()?.messages || []).map(declinePendingCalls);
+        const userMsg: ChatMessage = { id: `${Date.now()}_user`, role: 'user', text: textToSend, timestamp: Date.now() };
+        updateCurrentSessionMessages(prev => [...prev.map(declinePendingCalls), userMsg]);
+        setInput('');
+
+        await streamReply(toAIHistory(previous), textToSend);
+    };
+
+    const resolveToolCall = async (messageId: string, callId: string, approve: boolean) => {
+        const messages = getCurrentSession()?.messages || [];
+        const message = messages.find(m => m.id === messageId);
+        const call = message?.toolCalls?.find(c => c.id === callId);
+        if (!message || !call || call.status !== 'pending' || loading) return;
+
+        setLoading(true);
+        setRunningToolCallId(callId);
+        let update: Partial<ChatToolCall> = { status: 'rejected' };
+        try {
+            if (approve) update = await executeToolCall(call);
         } finally {
+            setRunningToolCallId(null);
             setLoading(false);
         }
+
+        const updated: ChatMessage = { ...message, toolCalls: message.toolCalls!.map(c => c.id === callId ? { ...c, ...update } : c) };
+        updateMessage(messageId, () => updated);
+
+        // Every card answered: let Nana react to the outcome
+        if (updated.toolCalls!.every(c => c.status !== 'pending') && messages[messages.length - 1]?.id === messageId) {
+            await streamReply(toAIHistory(messages.map(m => m.id === messageId ? updated : m)), '');
+        }
     };
 
+    const stopGenerating = () => chatAbortRef.current?.abort();
+
     const toggleMic = () => {
         if (isListening) {
             speechService.stopListening();
@@ -436,7 +712,8 @@ export const ChatWidget: React.FC = () => {
                     setIsListening(false);
                     alert(err);
                 },
-                () => setIsListening(false)
+                () => setIsListening(false),
+                persona.language
             );
         }
     };
@@ -454,7 +731,7 @@ export const ChatWidget: React.FC = () => {
                 "Puck",
                 (pcmData) => playAudio(pcmData),
                 () => { },
-                "Bạn tên là Nana. Bạn là bạn thân của người dùng. Giọng nữ, miền Bắc. Nói chuyện tự nhiên, vui vẻ, dùng từ lóng tiếng Việt (nhé, nhỉ, cơ, đấy)."
+                `${personaInstruction(persona)}\nYou are talking by voice: keep replies short and natural.`
             );
 
             streamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true });
@@ -523,7 +800,10 @@ export const ChatWidget: React.FC = () => {
     };
 
     useEffect(() => {
-        return () => stopLive();
+        return () => {
+            stopLive();
+            chatAbortRef.current?.abort();
+        };
     }, []);
 
     const currentMessages = getCurrentSession()?.messages || [];
@@ -561,10 +841,15 @@ export const ChatWidget: React.FC = () => {
                                     </button>
                                     <div className="min-w-0">
                                         <div className="font-bold text-base md:text-lg flex items-center gap-2 truncate">
-                                            {getCurrentSession()?.title || 'Nana AI'}
-                                            <span className="text-[10px] bg-white/20 px-2 py-0.5 rounded-full border border-white/30 font-mono shrink-0">BFF</span>
+                                            {getCurrentSession()?.title || `${persona.name} AI`}
                                         </div>
-                                        <p className="text-xs text-blue-100 opacity-80 truncate hidden sm:block">Bạn học thân thiện</p>
+                                        <button
+                                            onClick={() => setShowPersonaMenu(!showPersonaMenu)}
+                                            className="text-xs text-blue-100 hover:text-white truncate max-w-full"
+                                            title="Đổi nhân vật trợ lý cho đoạn chat này"
+                                        >
+                                            {persona.avatar} {persona.name} ▾
+                                        </button>
                                     </div>
                                 </div>
                                 <div className="flex flex-col items-end gap-1">
@@ -581,6 +866,20 @@ export const ChatWidget: React.FC = () => {
                                             >
                                                 + Mới
                                             </button>
+                                            <button
+                                                onClick={exportMarkdown}
+                                                className="text-[10px] px-2 py-0.5 rounded-full border bg-blue-800 text-blue-200 border-blue-700 hover:bg-blue-700 hover:text-white transition-colors"
+                                                title="Tải đoạn chat dạng Markdown"
+                                            >
+                                                ⬇ MD
+                                            </button>
+                                            <button
+                                                onClick={exportPdf}
+                                                className="text-[10px] px-2 py-0.5 rounded-full border bg-blue-800 text-blue-200 border-blue-700 hover:bg-blue-700 hover:text-white transition-colors"
+                                                title="In / lưu đoạn chat thành PDF"
+                                            >
+                                                ⬇ PDF
+                                            </button>
                                             <button
                                                 onClick={() => setIsSpeakingMode(!isSpeakingMode)}
                                                 className={`text-[10px] flex items-center gap-1 px-2 py-0.5 rounded-full border transition-colors ${isSpeakingMode ? 'bg-green-50 text-white border-green-400' : 'bg-blue-800 text-blue-200 border-blue-700'}`}
@@ -592,6 +891,22 @@ export const ChatWidget: React.FC = () => {
                                 </div>
                             </>
                         )}
+                        {showPersonaMenu && !showHistory && (
+                            <div className="absolute left-12 top-full -mt-2 w-56 max-h-64 overflow-y-auto bg-white text-gray-800 rounded-xl shadow-xl border border-gray-200 py-1 z-30">
+                                {personas.map(p => (
+                                    <button
+                                        key={p.id}
+                                        onClick={() => switchPersona(p)}
+                                        className={`w-full text-left px-3 py-2 text-sm hover:bg-blue-50 flex items-center gap-2 ${p.id === persona.id ? 'font-bold text-blue-700' : ''}`}
+                                    >
+                                        <span>{p.avatar}</span>
+                                        <span className="truncate flex-1">{p.name}</span>
+                                        {p.shared && <span className="text-[9px] bg-indigo-50 text-indigo-600 border border-indigo-100 px-1.5 rounded-full shrink-0">Chung</span>}
+                                    </button>
+                                ))}
+                                <a href="/#/settings" onClick={() => { setShowPersonaMenu(false); setIsOpen(false); }} className="block px-3 py-2 text-xs text-gray-500 hover:text-blue-600 border-t border-gray-100">Quản lý nhân vật...</a>
+                            </div>
+                        )}
                     </div>
 
                     {apiKeyMissing && !showHistory && (
@@ -613,10 +928,17 @@ export const ChatWidget: React.FC = () => {
                                             value={historySearch}
                                             onChange={(e) => setHistorySearch(e.target.value)}
                                             className="w-full pl-8 pr-3 py-2 rounded-xl border border-gray-200 text-sm focus:outline-none focus:border-blue-400 focus:ring-1 focus:ring-blue-400"
-                                            placeholder="Tìm đoạn chat..."
+                                            placeholder="Tìm trong tiêu đề và nội dung chat..."
                                         />
                                         <span className="absolute left-2.5 top-2 text-gray-400">🔍</span>
                                     </div>
+                                    <button
+                                        onClick={() => setShowArchived(!showArchived)}
+                                        className={`px-2 rounded-xl text-xs font-bold border transition-colors ${showArchived ? 'bg-amber-100 text-amber-800 border-amber-200' : 'bg-white text-gray-500 border-gray-200 hover:bg-gray-100'}`}
+                                        title={showArchived ? 'Quay lại đoạn chat đang dùng' : 'Xem đoạn chat đã lưu trữ'}
+                                    >
+                                        🗄 {archivedCount}
+                                    </button>
                                     <button
                                         onClick={createNewSession}
                                         className="bg-blue-600 hover:bg-blue-700 text-white px-3 rounded-xl font-bold text-xl shadow-sm transition-colors"
@@ -652,16 +974,20 @@ export const ChatWidget: React.FC = () => {
                                                                     </form>
                                                                 ) : (
                                                                     <h4 className={`font-bold text-sm truncate ${currentSessionId === session.id ? 'text-blue-700' : 'text-gray-800'}`}>
-                                                                        {session.title || 'Không tên'}
+                                                                        {session.pinned && '📌 '}{session.archived && '🗄 '}{session.title || 'Không tên'}
                                                                     </h4>
                                                                 )}
 
                                                                 <p className="text-xs text-gray-500 mt-1 truncate opacity-80">
-                                                                    {session.messages.length > 0 ? session.messages[session.messages.length - 1].text : 'Chưa có tin nhắn'}
+                                                                    {searchSnippets.get(session.id)
+                                                                        || (session.messages.length > 0 ? session.messages[session.messages.length - 1].text
+                                                                            : needsMessages(session) ? `${session.messageCount} tin nhắn (trên cloud)` : 'Chưa có tin nhắn')}
                                                                 </p>
                                                             </div>
 
                                                             <div className="flex flex-col items-end gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                                                {!session.archived && <button onClick={(e) => togglePin(e, session)} className="text-gray-400 hover:text-blue-500 p-1 text-xs" title={session.pinned ? 'Bỏ ghim' : 'Ghim'}>📌</button>}
+                                                                <button onClick={(e) => toggleArchive(e, session)} className="text-gray-400 hover:text-amber-600 p-1 text-xs" title={session.archived ? 'Bỏ lưu trữ' : 'Lưu trữ'}>🗄</button>
                                                                 <button onClick={(e) => startEditing(e, session)} className="text-gray-400 hover:text-blue-500 p-1" title="Đổi tên">✎</button>
                                                                 <button onClick={(e) => deleteSession(e, session.id)} className="text-gray-400 hover:text-red-500 p-1" title="Xóa">🗑</button>
                                                             </div>
@@ -672,10 +998,10 @@ export const ChatWidget: React.FC = () => {
                                         )
                                     })}
 
-                                    {sessions.length === 0 && (
+                                    {Object.values(groupedSessions).every(g => (g as ChatSession[]).length === 0) && (
                                         <div className="flex flex-col items-center justify-center h-64 text-gray-400">
                                             <span className="text-4xl mb-2">💬</span>
-                                            <p className="text-sm">Chưa có lịch sử chat.</p>
+                                            <p className="text-sm">{historySearch.trim() ? 'Không tìm thấy đoạn chat phù hợp.' : showArchived ? 'Chưa có đoạn chat lưu trữ.' : 'Chưa có lịch sử chat.'}</p>
                                         </div>
                                     )}
                                 </div>
@@ -686,6 +1012,9 @@ export const ChatWidget: React.FC = () => {
                         {mode === 'chat' ? (
                             <div className="h-full flex flex-col">
                                 <div className="flex-1 overflow-y-auto p-3 md:p-4 space-y-4 scrollbar-thin scrollbar-thumb-gray-300">
+                                    {getCurrentSession() && needsMessages(getCurrentSession()!) && (
+                                        <div className="text-center text-xs text-gray-400 italic py-4 animate-pulse">Đang tải tin nhắn từ cloud...</div>
+                                    )}
                                     {currentMessages.map((m, i) => (
                                         <div key={i} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'} animate-fade-in`}>
                                             <div className={`max-w-[85%] p-3 rounded-2xl text-sm leading-relaxed shadow-sm ${m.role === 'user' ? 'bg-blue-600 text-white rounded-br-none' : 'bg-white text-gray-800 border border-gray-100 rounded-bl-none'}`}>
@@ -695,13 +1024,39 @@ export const ChatWidget: React.FC = () => {
                                                     <>
                                                         {m.isThinking && !m.text && (
                                                             <div className="flex gap-1 items-center text-gray-400 text-xs italic">
-                                                                <span>Nana đang nghĩ</span>
+                                                                <span>{persona.name} đang nghĩ</span>
                                                                 <span className="animate-bounce">.</span><span className="animate-bounce" style={{ animationDelay: '0.2s' }}>.</span><span className="animate-bounce" style={{ animationDelay: '0.4s' }}>.</span>
                                                             </div>
                                                         )}
 
                                                         <SimpleMarkdownRenderer content={m.text} />
 
+                                                        {m.toolCalls && m.toolCalls.length > 0 && (
+                                                            <div className="mt-2 space-y-2">
+                                                                {m.toolCalls.map(call => {
+                                                                    const tool = getAITool(call.name);
+                                                                    let summary = JSON.stringify(call.args);
+                                                                    try { if (tool) summary = tool.describe(tool.args.parse(call.args)); } catch (e) { }
+                                                                    return (
+                                                                        <div key={call.id} className={`rounded-xl border p-2 text-xs ${call.status === 'pending' ? 'bg-amber-50 border-amber-200' : call.status === 'done' ? 'bg-green-50 border-green-200' : call.status === 'error' ? 'bg-red-50 border-red-200' : 'bg-gray-50 border-gray-200'}`}>
+                                                                            <div className="flex justify-between items-center gap-2">
+                                                                                <span className="font-bold text-gray-700">{tool?.icon || '🛠️'} {tool?.label || call.name}</span>
+                                                                                <span className="text-[10px] text-gray-500 shrink-0">{runningToolCallId === call.id ? 'Đang thực hiện...' : TOOL_STATUS_LABEL[call.status]}</span>
+                                                                            </div>
+                                                                            <p className="text-gray-600 mt-1 break-words">{summary}</p>
+                                                                            {call.status === 'error' && call.error && <p className="text-red-600 mt-1 break-words">{call.error}</p>}
+                                                                            {call.status === 'pending' && (
+                                                                                <div className="flex gap-2 mt-2">
+                                                                                    <button onClick={() => resolveToolCall(m.id!, call.id, true)} disabled={loading} className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-bold py-1 rounded-lg disabled:opacity-50 transition-colors">Xác nhận</button>
+                                                                                    <button onClick={() => resolveToolCall(m.id!, call.id, false)} disabled={loading} className="flex-1 bg-white hover:bg-gray-100 text-gray-600 font-bold py-1 rounded-lg border border-gray-200 disabled:opacity-50 transition-colors">Hủy</button>
+                                                                                </div>
+                                                                            )}
+                                                                        </div>
+                                                                    );
+                                                                })}
+                                                            </div>
+                                                        )}
+
                                                         <div className="flex items-center justify-end gap-2 mt-2 border-t border-gray-100 pt-1">
                                                             <button
                                                                 onClick={() => speechService.speak(m.text, voiceSettings)}
@@ -730,6 +1085,24 @@ export const ChatWidget: React.FC = () => {
                                                                 </div>
                                                             </div>
                                                         )}
+
+                                                        {m.citations && m.citations.length > 0 && (
+                                                            <div className="mt-2 pt-2 border-t border-gray-100">
+                                                                <p className="text-[10px] font-bold text-gray-500 uppercase mb-1">Tài liệu của bạn:</p>
+                                                                <div className="flex flex-wrap gap-2">
+                                                                    {m.citations.map(c => (
+                                                                        <button
+                                                                            key={c.index}
+                                                                            onClick={() => openCitation(c)}
+                                                                            className="text-[10px] bg-indigo-50 hover:bg-indigo-100 text-indigo-700 border border-indigo-100 px-2 py-1 rounded-lg truncate max-w-[180px] block transition-colors"
+                                                                            title={`${CITATION_KIND_LABEL[c.kind]}: ${c.title}`}
+                                                                        >
+                                                                            [{c.index}] {CITATION_ICON[c.kind]} {c.title}
+                                                                        </button>
+                                                                    ))}
+                                                                </div>
+                                                            </div>
+                                                        )}
                                                     </>
                                                 )}
                                             </div>
@@ -780,13 +1153,17 @@ export const ChatWidget: React.FC = () => {
                                         ref={inputRef}
                                         type="text"
                                         className="w-full border border-gray-300 rounded-full pl-4 pr-12 py-2 md:py-3 text-sm focus:ring-2 focus:ring-blue-500 bg-white text-gray-900 transition-all focus:outline-none shadow-inner placeholder-gray-400"
-                                        placeholder={apiKeyMissing ? "Cần nhập API Key..." : "Hỏi Nana..."}
+                                        placeholder={apiKeyMissing ? "Cần nhập API Key..." : `Hỏi ${persona.name}...`}
                                         value={input}
                                         onChange={e => setInput(e.target.value)}
-                                        onKeyDown={e => e.key === 'Enter' && handleSend()}
+                                        onKeyDown={e => e.key === 'Enter' && !loading && handleSend()}
                                         disabled={apiKeyMissing}
                                     />
-                                    <button onClick={() => handleSend()} disabled={loading || !input.trim() || apiKeyMissing} className="absolute right-1.5 top-1.5 bg-blue-600 text-white w-7 h-7 md:w-8 md:h-8 rounded-full hover:bg-blue-700 flex items-center justify-center shadow-md disabled:opacity-50 transition-all transform active:scale-90">➤</button>
+                                    {loading ? (
+                                        <button onClick={stopGenerating} title="Dừng tạo câu trả lời" className="absolute right-1.5 top-1.5 bg-red-500 text-white w-7 h-7 md:w-8 md:h-8 rounded-full hover:bg-red-600 flex items-center justify-center shadow-md transition-all transform active:scale-90">■</button>
+                                    ) : (
+                                        <button onClick={() => handleSend()} disabled={!input.trim() || apiKeyMissing} className="absolute right-1.5 top-1.5 bg-blue-600 text-white w-7 h-7 md:w-8 md:h-8 rounded-full hover:bg-blue-700 flex items-center justify-center shadow-md disabled:opacity-50 transition-all transform active:scale-90">➤</button>
+                                    )}
                                 </div>
                             )}
                         </div>
@@ -0,0 +1,80 @@
+import React, { useEffect, useRef } from 'react';
+import { CurrencyCode } from '../types';
+import { currencyService, MoneyValue, BASE_CURRENCY, CURRENCIES } from '../services/currency';
+import { MoneyInput } from './MoneyInput';
+
+interface CurrencyAmountInputProps {
+    value: MoneyValue;
+    onChange: (value: MoneyValue) => void;
+    date?: string; // Rate date; defaults to today
+    className?: string;
+    autoFocus?: boolean;
+}
+
+// Amount field with a currency switch. Foreign amounts are converted to the base currency on every change.
+export const CurrencyAmountInput: React.FC<CurrencyAmountInputProps> = ({ value, onChange, date, className, autoFocus }) => {
+    const currency = value.currency || BASE_CURRENCY;
+    const isForeign = currency !== BASE_CURRENCY;
+    const isFirstRender = useRef(true);
+    const manualRate = useRef(false); // Typed by the user rather than taken from the rate cache
+
+    // A new date means a new rate, unless the item is being loaded for editing or the rate was typed in
+    useEffect(() => {
+        if (isFirstRender.current) {
+            isFirstRender.current = false;
+            // An edited item saved with a rate other than the cached one had it typed in
+            manualRate.current = isForeign && !!value.fxRate && value.fxRate !== currencyService.getRate(currency, date);
+            return;
+        }
+        if (isForeign && !manualRate.current) onChange(currencyService.toBase(value.originalAmount || 0, currency, date));
+    }, [date]);
+
+    const switchCurrency = (code: CurrencyCode) => {
+        if (code === currency) return;
+        manualRate.current = false;
+        onChange(code === BASE_CURRENCY ? { amount: value.amount } : currencyService.toBase(0, code, date));
+    };
+
+    const changeRate = (rate: number | undefined) => {
+        // Clearing the field goes back to the cached rate
+        manualRate.current = rate !== undefined;
+        onChange(currencyService.toBase(value.originalAmount || 0, currency, date, rate));
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex gap-2">
+                <select value={currency} onChange={e => switchCurrency(e.target.value as CurrencyCode)} className="shrink-0 border border-gray-300 dark:border-gray-600 rounded-xl px-2 text-sm font-bold bg-gray-50 dark:bg-gray-700 text-gray-700 dark:text-white outline-none focus:ring-2 focus:ring-blue-500">
+                    {CURRENCIES.map(c => <option key={c.code} value={c.code}>{c.label}</option>)}
+                </select>
+                {isForeign ? (
+                    <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={value.originalAmount || ''}
+                        onChange={e => onChange(currencyService.toBase(Number(e.target.value) || 0, currency, date, value.fxRate))}
+                        className={className}
+                        placeholder="0.00"
+                        autoFocus={autoFocus}
+                    />
+                ) : (
+                    <MoneyInput value={value.amount || 0} onChange={val => onChange({ amount: val })} className={className} placeholder="0" autoFocus={autoFocus} />
+                )}
+            </div>
+            {isForeign && (
+                <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                    <span className="shrink-0">Tỷ giá 1 {currency} =</span>
+                    <input
+                        type="number"
+                        min="0"
+                        value={value.fxRate || ''}
+                        onChange={e => changeRate(Number(e.target.value) || undefined)}
+                        className="w-24 border border-gray-300 dark:border-gray-600 rounded-lg px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-white outline-none"
+                    />
+                    <span className="shrink-0">₫ ≈ <span className="font-bold text-gray-700 dark:text-gray-200">{currencyService.format(value.amount || 0)}</span></span>
+                </div>
+            )}
+        </div>
+    );
+};
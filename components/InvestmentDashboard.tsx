@@ -1,7 +1,14 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { marketService, MarketData } from '../services/market';
+import { marketService, MarketData, MarketItem } from '../services/market';
 import { financialService, MarketAnalysisResult } from '../services/financial';
+import { InvestmentHolding, HoldingLot, BudgetCategory } from '../types';
+import { PortfolioPanel } from './PortfolioPanel';
+import { PriceHistoryChart } from './PriceHistoryChart';
+import { priceHistoryService } from '../services/priceHistory';
+import { geminiService } from '../services/gemini';
+import { isAbortError } from '../services/aiPipeline';
+import { useAbortOnUnmount } from '../hooks/useAbortOnUnmount';
 
 // --- Helper Components ---
 
@@ -75,13 +82,58 @@ const SimpleMarkdownRenderer = ({ content }: { content: string }) => {
     );
 };
 
+const formatQuote = (item: MarketItem) => {
+    if (item.quoteCurrency === 'VND') return new Intl.NumberFormat('vi-VN').format(Math.round(item.price)) + ' ₫';
+    if (item.quoteCurrency === 'USD') return '$' + new Intl.NumberFormat('en-US', { maximumFractionDigits: 2 }).format(item.price);
+    return item.price.toFixed(2);
+};
+
+const formatAge = (fetchedAt?: number) => {
+    if (!fetchedAt) return '';
+    const minutes = Math.floor((Date.now() - fetchedAt) / 60000);
+    if (minutes < 1) return 'vừa xong';
+    if (minutes < 60) return `${minutes} phút trước`;
+    return `${Math.floor(minutes / 60)} giờ trước`;
+};
+
+const MarketTicker = ({ items }: { items: MarketItem[] }) => (
+    <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-3">
+        {items.map(item => (
+            <div key={item.symbol} className={`bg-gray-900 p-3 rounded-xl border ${item.isStale ? 'border-amber-700/50' : 'border-gray-800'}`}>
+                <div className="flex justify-between items-center">
+                    <span className="text-xs font-bold text-gray-400">{item.symbol}</span>
+                    <span className={`text-[10px] font-bold ${item.change24h >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        {item.change24h >= 0 ? '+' : ''}{(item.change24h || 0).toFixed(2)}%
+                    </span>
+                </div>
+                <p className="text-sm font-bold text-white mt-1 truncate">{formatQuote(item)}</p>
+                <p className={`text-[10px] mt-1 truncate ${item.isStale ? 'text-amber-400' : 'text-gray-500'}`} title={item.name}>
+                    {item.isStale && '⚠ '}{item.source}{item.fetchedAt ? ` · ${formatAge(item.fetchedAt)}` : ''}
+                </p>
+            </div>
+        ))}
+    </div>
+);
+
 // --- Main Component ---
 
-export const InvestmentDashboard: React.FC<{ uid?: string }> = ({ uid }) => {
+interface InvestmentDashboardProps {
+    uid?: string;
+    holdings: InvestmentHolding[];
+    budgets: BudgetCategory[];
+    onSaveHolding: (holding: InvestmentHolding) => Promise<void> | void;
+    onDeleteHolding: (holding: InvestmentHolding) => Promise<void> | void;
+    onAddLot: (holding: InvestmentHolding, lot: HoldingLot, bookTransaction: boolean) => Promise<void> | void;
+    onDeleteLot: (holding: InvestmentHolding, lot: HoldingLot) => Promise<void> | void;
+}
+
+export const InvestmentDashboard: React.FC<InvestmentDashboardProps> = ({ uid, holdings, budgets, onSaveHolding, onDeleteHolding, onAddLot, onDeleteLot }) => {
     const [market, setMarket] = useState<MarketData | null>(null);
     const [aiResult, setAiResult] = useState<MarketAnalysisResult | null>(null);
+    const unmountSignal = useAbortOnUnmount();
     const [analyzing, setAnalyzing] = useState(false);
     const [isStandardTier, setIsStandardTier] = useState(false);
+    const [historyKey, setHistoryKey] = useState(0);
 
     // News State
     const [newsContent, setNewsContent] = useState<string>("");
@@ -92,9 +144,14 @@ export const InvestmentDashboard: React.FC<{ uid?: string }> = ({ uid }) => {
             const data = await marketService.getMarketData();
             setMarket(data);
 
-            // Check if using OpenAI key (Standard Tier)
-            const key = localStorage.getItem('dh_gemini_api_key') || '';
-            if (key.startsWith('sk-')) {
+            // Make sure this snapshot is stored (and backed up / backfilled when logged in) before charting
+            priceHistoryService.record(data.items)
+                .then(() => uid ? financialService.syncMarketHistory(uid) : undefined)
+                .catch(e => console.error("Failed to sync market history", e))
+                .finally(() => setHistoryKey(k => k + 1));
+
+            // News search and the weekly report need search grounding (Gemini only)
+            if (geminiService.hasKey() && !geminiService.supportsSearch()) {
                 setIsStandardTier(true);
             }
         };
@@ -111,9 +168,10 @@ export const InvestmentDashboard: React.FC<{ uid?: string }> = ({ uid }) => {
 
         setAnalyzing(true);
         try {
-            const result = await financialService.generateWeeklyMarketAnalysis(uid, market);
+            const result = await financialService.generateWeeklyMarketAnalysis(uid, market, { signal: unmountSignal() });
             setAiResult(result);
         } catch (e) {
+            if (isAbortError(e)) return;
             alert("Lỗi phân tích AI: " + (e as any).message);
         } finally {
             setAnalyzing(false);
@@ -133,9 +191,10 @@ export const InvestmentDashboard: React.FC<{ uid?: string }> = ({ uid }) => {
 
         setLoadingNews(true);
         try {
-            const content = await financialService.getMarketNews();
+            const content = await financialService.getMarketNews({ signal: unmountSignal() });
             setNewsContent(content);
         } catch (e) {
+            if (isAbortError(e)) return;
             setNewsContent("Không thể tải tin tức lúc này.");
         } finally {
             setLoadingNews(false);
@@ -153,6 +212,24 @@ export const InvestmentDashboard: React.FC<{ uid?: string }> = ({ uid }) => {
                 <span className="text-xs text-gray-400">Cập nhật thời gian thực</span>
             </div>
 
+            {/* 1b. Market snapshot: each item shows its provider and age */}
+            {market && market.items.length > 0 && <MarketTicker items={market.items} />}
+
+            {/* 1c. Price history recorded from market snapshots */}
+            {market && market.items.length > 0 && <PriceHistoryChart items={market.items} refreshKey={historyKey} />}
+
+            {/* 1d. Holdings, P&L and allocation vs. the AI recommendation */}
+            <PortfolioPanel
+                holdings={holdings}
+                budgets={budgets}
+                marketItems={market?.items || []}
+                recommendedAllocation={aiResult?.recommendedAllocation}
+                onSave={onSaveHolding}
+                onDelete={onDeleteHolding}
+                onAddLot={onAddLot}
+                onDeleteLot={onDeleteLot}
+            />
+
             {/* 2. Gold Prices & Charts (Consolidated Widget) */}
             <div className="space-y-4">
                 <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-2 px-1">
@@ -4,6 +4,7 @@ import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { ChatWidget } from './ChatWidget';
 import { Pomodoro } from './Pomodoro';
 import { firebaseService } from '../services/firebase';
+import { syncService, SyncState } from '../services/sync';
 import { UserProfile } from '../types';
 import { useLanguage } from '../App';
 
@@ -31,8 +32,11 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
   const [currentUser, setCurrentUser] = useState<UserProfile | null>(null);
   const [accountStatus, setAccountStatus] = useState<'guest' | 'pending' | 'active' | 'admin'>('guest');
   const [isProfileDropdownOpen, setProfileDropdownOpen] = useState(false);
+  const [syncState, setSyncState] = useState<SyncState>(syncService.getState());
   const dropdownRef = useRef<HTMLDivElement>(null);
 
+  useEffect(() => syncService.subscribe(setSyncState), []);
+
   useEffect(() => {
     // Close dropdown when clicking outside
     const handleClickOutside = (event: MouseEvent) => {
@@ -111,6 +115,30 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
     }
   };
 
+  // Render Sync Indicator
+  const renderSyncIndicator = () => {
+    const map: Record<SyncState['status'], { icon: string, label: string, className: string }> = {
+      synced: { icon: '✓', label: 'Đã đồng bộ', className: 'bg-green-50 text-green-700 border-green-200 dark:bg-green-900/20 dark:text-green-400 dark:border-green-800' },
+      syncing: { icon: '↻', label: 'Đang đồng bộ...', className: 'bg-blue-50 text-blue-700 border-blue-200 dark:bg-blue-900/20 dark:text-blue-400 dark:border-blue-800' },
+      pending: { icon: '⏳', label: `Chờ đồng bộ (${syncState.pendingCount})`, className: 'bg-yellow-50 text-yellow-700 border-yellow-200 dark:bg-yellow-900/20 dark:text-yellow-400 dark:border-yellow-800' },
+      offline: { icon: '⚡', label: `Ngoại tuyến${syncState.pendingCount ? ` (${syncState.pendingCount})` : ''}`, className: 'bg-gray-100 text-gray-600 border-gray-200 dark:bg-gray-800 dark:text-gray-400 dark:border-gray-700' },
+      error: { icon: '!', label: 'Lỗi đồng bộ', className: 'bg-red-50 text-red-700 border-red-200 dark:bg-red-900/20 dark:text-red-400 dark:border-red-800' },
+      local: { icon: '💾', label: 'Lưu cục bộ', className: 'bg-gray-100 text-gray-600 border-gray-200 dark:bg-gray-800 dark:text-gray-400 dark:border-gray-700' },
+    };
+    const info = map[syncState.status];
+    const title = syncState.error || (syncState.lastSyncedAt ? `Lần cuối: ${new Date(syncState.lastSyncedAt).toLocaleString('vi-VN')}` : info.label);
+    return (
+      <button
+        onClick={() => firebaseService.flushOutbox()}
+        title={title}
+        className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full border text-[11px] font-bold transition-colors ${info.className}`}
+      >
+        <span className={syncState.status === 'syncing' ? 'animate-spin' : ''}>{info.icon}</span>
+        <span className="hidden sm:inline">{info.label}</span>
+      </button>
+    );
+  };
+
   return (
     <div className="flex h-screen bg-gray-100 dark:bg-gray-950 overflow-hidden relative font-sans transition-colors duration-200">
       {/* Mobile Overlay */}
@@ -197,6 +225,7 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
 
           {/* Right Side: User Profile & Auth */}
           <div className="flex items-center gap-4">
+            {renderSyncIndicator()}
             {currentUser ? (
               <div className="relative" ref={dropdownRef}>
                 <button
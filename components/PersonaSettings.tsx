@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from 'react';
+import { AI_TOOLS } from '../services/aiTools';
+import { AssistantPersona, DEFAULT_PERSONA, PERSONA_KNOWLEDGE, PERSONA_LANGUAGES, personaService, personaVoice } from '../services/personas';
+import { speechService, DEFAULT_VOICE_SETTINGS } from '../services/speech';
+
+interface PersonaSettingsProps {
+    onNotify: (msg: string) => void;
+    isAdmin: boolean;
+    voices: SpeechSynthesisVoice[];
+}
+
+const toggle = <T,>(list: T[], item: T): T[] => list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+export const PersonaSettings: React.FC<PersonaSettingsProps> = ({ onNotify, isAdmin, voices }) => {
+    const [personas, setPersonas] = useState<AssistantPersona[]>(() => personaService.all());
+    const [draft, setDraft] = useState<AssistantPersona | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        personaService.refresh().then(setPersonas).catch(e => console.warn("Failed to load personas", e));
+    }, []);
+
+    const ownIds = new Set(personaService.getLocal().map(p => p.id));
+    const languageVoices = draft ? voices.filter(v => v.lang.replace('_', '-').startsWith(draft.language.split('-')[0])) : [];
+
+    const startNew = () => setDraft({
+        ...DEFAULT_PERSONA,
+        id: Date.now().toString(),
+        name: '',
+        avatar: '🤖',
+        description: "the user's helpful study assistant",
+        dialectRules: '',
+        tone: 'Friendly, patient and encouraging.',
+        greeting: 'Xin chào! Mình có thể giúp gì cho bạn?'
+    });
+
+    // Built-in and shared personas are copied; the copy belongs to the user
+    const startCopy = (p: AssistantPersona) => setDraft({ ...p, id: Date.now().toString(), name: `${p.name} (bản sao)`, shared: false, updatedAt: undefined });
+
+    const handleSave = async () => {
+        if (!draft) return;
+        if (!draft.name.trim()) return alert("Vui lòng nhập tên nhân vật.");
+        setIsSaving(true);
+        try {
+            const persona = { ...draft, name: draft.name.trim() };
+            await personaService.save(persona);
+            // Keep the published copy in step with the admin's edits
+            if (isAdmin && personaService.isShared(persona.id)) await personaService.publish(persona);
+            setPersonas(personaService.all());
+            setDraft(null);
+            onNotify(`Đã lưu nhân vật "${draft.name.trim()}".`);
+        } catch (e) {
+            console.error("Failed to save persona", e);
+            alert("Không lưu được nhân vật.");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (p: AssistantPersona) => {
+        if (!window.confirm(`Xóa nhân vật "${p.name}"? Các đoạn chat cũ sẽ dùng Nana.`)) return;
+        try {
+            await personaService.remove(p.id);
+            setPersonas(personaService.all());
+        } catch (e) {
+            console.error("Failed to delete persona", e);
+            alert("Không xóa được nhân vật.");
+        }
+    };
+
+    const handlePublish = async (p: AssistantPersona, publish: boolean) => {
+        try {
+            if (publish) await personaService.publish(p);
+            else await personaService.unpublish(p.id);
+            setPersonas(personaService.all());
+            onNotify(publish ? `"${p.name}" đã được chia sẻ cho mọi người.` : `Đã ngừng chia sẻ "${p.name}".`);
+        } catch (e) {
+            console.error("Failed to update shared personas", e);
+            alert("Không cập nhật được nhân vật chung.");
+        }
+    };
+
+    const previewVoice = () => {
+        if (!draft) return;
+        const saved = localStorage.getItem('dh_voice_settings');
+        speechService.speak(draft.greeting, personaVoice(draft, saved ? JSON.parse(saved) : DEFAULT_VOICE_SETTINGS));
+    };
+
+    const inputClass = "w-full border border-gray-300 dark:border-gray-600 rounded-xl px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 dark:text-white";
+    const labelClass = "text-xs font-bold text-gray-500 dark:text-gray-400 uppercase block mb-1";
+
+    return (
+        <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-2xl p-6 shadow-sm space-y-5">
+            <div className="flex justify-between items-start gap-4">
+                <div>
+                    <h4 className="text-sm font-bold text-gray-700 dark:text-gray-300 mb-1">Nhân vật trợ lý</h4>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Tên, ngôn ngữ, cách nói, giọng đọc, công cụ và tài liệu mà trợ lý được dùng. Mỗi đoạn chat chọn nhân vật riêng.</p>
+                </div>
+                {!draft && (
+                    <button onClick={startNew} className="shrink-0 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-xl font-bold text-sm">+ Tạo nhân vật</button>
+                )}
+            </div>
+
+            {!draft && (
+                <div className="space-y-2">
+                    {personas.map(p => {
+                        const isOwn = ownIds.has(p.id);
+                        const isShared = personaService.isShared(p.id);
+                        return (
+                            <div key={p.id} className="flex items-center gap-3 p-3 rounded-xl border border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/30">
+                                <span className="text-2xl">{p.avatar}</span>
+                                <div className="min-w-0 flex-1">
+                                    <p className="text-sm font-bold text-gray-800 dark:text-white truncate flex items-center gap-2">
+                                        {p.name}
+                                        {p.id === DEFAULT_PERSONA.id && <span className="text-[10px] px-2 py-0.5 rounded-full bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300">Mặc định</span>}
+                                        {isShared && <span className="text-[10px] px-2 py-0.5 rounded-full bg-indigo-100 text-indigo-700 border border-indigo-200">Chung</span>}
+                                    </p>
+                                    <p className="text-[11px] text-gray-400 truncate">
+                                        {PERSONA_LANGUAGES.find(l => l.code === p.language)?.label || p.language} · {p.allowedTools.length} công cụ · {p.knowledgeScope.length > 0 ? PERSONA_KNOWLEDGE.filter(k => p.knowledgeScope.includes(k.kind)).map(k => k.label).join(', ') : 'Không dùng tài liệu'}
+                                    </p>
+                                </div>
+                                <div className="flex gap-2 shrink-0 text-xs font-bold">
+                                    {isOwn && <button onClick={() => setDraft(p)} className="text-blue-600 hover:underline">Sửa</button>}
+                                    <button onClick={() => startCopy(p)} className="text-gray-500 hover:text-blue-600">Sao chép</button>
+                                    {isAdmin && p.id !== DEFAULT_PERSONA.id && (
+                                        <button onClick={() => handlePublish(p, !isShared)} className="text-indigo-600 hover:underline">{isShared ? 'Ngừng chia sẻ' : 'Chia sẻ'}</button>
+                                    )}
+                                    {isOwn && <button onClick={() => handleDelete(p)} className="text-red-500 hover:underline">Xóa</button>}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            {draft && (
+                <div className="space-y-4">
+                    <div className="grid grid-cols-[80px_1fr] sm:grid-cols-[80px_1fr_180px] gap-3">
+                        <div>
+                            <label className={labelClass}>Biểu tượng</label>
+                            <input value={draft.avatar} onChange={e => setDraft({ ...draft, avatar: e.target.value })} maxLength={4} className={`${inputClass} text-center text-lg`} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Tên</label>
+                            <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} maxLength={40} placeholder="VD: Thầy Minh" className={inputClass} />
+                        </div>
+                        <div className="col-span-2 sm:col-span-1">
+                            <label className={labelClass}>Ngôn ngữ</label>
+                            <select value={draft.language} onChange={e => setDraft({ ...draft, language: e.target.value, voice: undefined })} className={inputClass}>
+                                {PERSONA_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className={labelClass}>Vai trò (tiếng Anh hoặc tiếng Việt)</label>
+                        <input value={draft.description} onChange={e => setDraft({ ...draft, description: e.target.value })} placeholder="VD: a strict but kind IELTS examiner" className={inputClass} />
+                    </div>
+
+                    <div>
+                        <label className={labelClass}>Quy tắc giọng / phương ngữ (mỗi dòng một quy tắc)</label>
+                        <textarea value={draft.dialectRules} onChange={e => setDraft({ ...draft, dialectRules: e.target.value })} rows={4} placeholder={"VD: Nói giọng miền Nam, dùng 'nha', 'nè'.\nXưng 'mình', gọi người dùng là 'bạn'."} className={`${inputClass} font-mono text-xs`} />
+                    </div>
+
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        <div>
+                            <label className={labelClass}>Giọng điệu</label>
+                            <input value={draft.tone} onChange={e => setDraft({ ...draft, tone: e.target.value })} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Lời chào</label>
+                            <input value={draft.greeting} onChange={e => setDraft({ ...draft, greeting: e.target.value })} className={inputClass} />
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className={labelClass}>Giọng đọc mặc định</label>
+                        <div className="flex flex-col sm:flex-row gap-2">
+                            <select
+                                value={draft.voice?.voiceURI || ''}
+                                onChange={e => setDraft({ ...draft, voice: e.target.value ? { voiceURI: e.target.value, rate: draft.voice?.rate ?? 1, pitch: draft.voice?.pitch ?? 1 } : undefined })}
+                                className={`${inputClass} flex-1`}
+                            >
+                                <option value="">Theo cài đặt giọng đọc của bạn</option>
+                                {languageVoices.map(v => <option key={v.voiceURI} value={v.voiceURI}>{v.name}</option>)}
+                            </select>
+                            {draft.voice && (
+                                <div className="flex gap-3 items-center text-xs text-gray-500">
+                                    <label className="flex items-center gap-1">Tốc độ
+                                        <input type="range" min="0.5" max="2" step="0.1" value={draft.voice.rate} onChange={e => setDraft({ ...draft, voice: { ...draft.voice!, rate: parseFloat(e.target.value) } })} className="w-20 accent-blue-600" />
+                                    </label>
+                                    <label className="flex items-center gap-1">Cao độ
+                                        <input type="range" min="0.5" max="2" step="0.1" value={draft.voice.pitch} onChange={e => setDraft({ ...draft, voice: { ...draft.voice!, pitch: parseFloat(e.target.value) } })} className="w-20 accent-blue-600" />
+                                    </label>
+                                </div>
+                            )}
+                            <button onClick={previewVoice} className="px-3 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-xl font-bold text-sm shrink-0">🔊 Nghe thử</button>
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className={labelClass}>Công cụ được dùng</label>
+                        <div className="flex flex-wrap gap-2">
+                            {AI_TOOLS.map(tool => {
+                                const name = tool.declaration.name;
+                                const on = draft.allowedTools.includes(name);
+                                return (
+                                    <button key={name} onClick={() => setDraft({ ...draft, allowedTools: toggle(draft.allowedTools, name) })} className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-colors ${on ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white dark:bg-gray-700 border-gray-200 dark:border-gray-600 text-gray-500 dark:text-gray-300'}`}>
+                                        {tool.icon} {tool.label}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className={labelClass}>Tài liệu được tìm khi trả lời</label>
+                        <div className="flex flex-wrap gap-2">
+                            {PERSONA_KNOWLEDGE.map(k => {
+                                const on = draft.knowledgeScope.includes(k.kind);
+                                return (
+                                    <button key={k.kind} onClick={() => setDraft({ ...draft, knowledgeScope: toggle(draft.knowledgeScope, k.kind) })} className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-colors ${on ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white dark:bg-gray-700 border-gray-200 dark:border-gray-600 text-gray-500 dark:text-gray-300'}`}>
+                                        {k.label}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+
+                    <div className="flex gap-2 justify-end">
+                        <button onClick={() => setDraft(null)} className="px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-xl font-bold text-sm">Hủy</button>
+                        <button onClick={handleSave} disabled={isSaving} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-xl font-bold text-sm disabled:opacity-50">{isSaving ? 'Đang lưu...' : 'Lưu nhân vật'}</button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,307 @@
+import React, { useState } from 'react';
+import { InvestmentHolding, HoldingLot, HoldingAssetClass, BudgetCategory } from '../types';
+import { MarketItem } from '../services/market';
+import { portfolioService, ASSET_CLASSES, PRICED_SYMBOLS, RecommendedAllocation, HoldingSummary } from '../services/portfolio';
+import { currencyService } from '../services/currency';
+import { toDateKey } from '../services/recurring';
+import { MoneyInput } from './MoneyInput';
+
+interface PortfolioPanelProps {
+    holdings: InvestmentHolding[];
+    budgets: BudgetCategory[];
+    marketItems: MarketItem[];
+    recommendedAllocation?: RecommendedAllocation[];
+    onSave: (holding: InvestmentHolding) => Promise<void> | void;
+    onDelete: (holding: InvestmentHolding) => Promise<void> | void;
+    onAddLot: (holding: InvestmentHolding, lot: HoldingLot, bookTransaction: boolean) => Promise<void> | void;
+    onDeleteLot: (holding: InvestmentHolding, lot: HoldingLot) => Promise<void> | void;
+}
+
+const formatCurrency = (amount: number) => currencyService.format(Math.round(amount));
+const formatQty = (qty: number) => new Intl.NumberFormat('vi-VN', { maximumFractionDigits: 6 }).format(qty);
+const pnlColor = (v: number) => v > 0 ? 'text-green-400' : v < 0 ? 'text-red-400' : 'text-gray-400';
+const signed = (v: number) => `${v > 0 ? '+' : ''}${formatCurrency(v)}`;
+
+const darkInput = "w-full bg-gray-800 border border-gray-700 rounded-xl px-3 py-2.5 text-sm text-white outline-none focus:ring-2 focus:ring-indigo-500 placeholder-gray-500";
+const labelStyle = "block text-[10px] font-bold text-gray-400 uppercase mb-1";
+
+const lotVerb = (holding: InvestmentHolding, side: HoldingLot['side']) =>
+    holding.assetClass === 'savings' ? (side === 'buy' ? 'Gửi' : 'Rút') : (side === 'buy' ? 'Mua' : 'Bán');
+
+const emptyHolding = (): InvestmentHolding => ({ id: '', name: '', assetClass: 'gold', symbol: 'SJC', lots: [] });
+
+export const PortfolioPanel: React.FC<PortfolioPanelProps> = ({ holdings, budgets, marketItems, recommendedAllocation, onSave, onDelete, onAddLot, onDeleteLot }) => {
+    const [editing, setEditing] = useState<InvestmentHolding | null>(null);
+    const [lotTarget, setLotTarget] = useState<HoldingSummary | null>(null);
+    const [lot, setLot] = useState<HoldingLot>({ id: '', date: toDateKey(new Date()), side: 'buy', quantity: 0, price: 0 });
+    const [bookTransaction, setBookTransaction] = useState(true);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    const investmentBudgets = budgets.filter(b => b.type === 'investment');
+    const summaries = holdings.map(h => portfolioService.summarize(h, marketItems));
+    const totals = portfolioService.totals(summaries);
+    const allocation = portfolioService.compareAllocation(summaries, recommendedAllocation);
+    const now = new Date();
+
+    const handleSaveHolding = async () => {
+        if (!editing || !editing.name) return;
+        await onSave({ ...editing, id: editing.id || Date.now().toString() });
+        setEditing(null);
+    };
+
+    const openLot = (summary: HoldingSummary, side: 'buy' | 'sell') => {
+        const isSavings = summary.holding.assetClass === 'savings';
+        setLot({
+            id: Date.now().toString(),
+            date: toDateKey(new Date()),
+            side,
+            quantity: side === 'sell' && !isSavings ? summary.quantity : 0,
+            price: isSavings ? 1 : Math.round(summary.price?.price || summary.avgCost || 0)
+        });
+        setBookTransaction(true);
+        setLotTarget(summary);
+    };
+
+    const handleSaveLot = async () => {
+        if (!lotTarget || !lot.quantity || !lot.price) return;
+        if (lot.side === 'sell' && lot.quantity > lotTarget.quantity + 1e-9) {
+            alert("Số lượng bán vượt quá số đang nắm giữ.");
+            return;
+        }
+        await onAddLot(lotTarget.holding, lot, bookTransaction);
+        setLotTarget(null);
+    };
+
+    return (
+        <div className="bg-gray-900/50 rounded-xl border border-gray-800 p-4 md:p-6 shadow-lg space-y-6">
+            {/* Header & totals */}
+            <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+                <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 bg-emerald-600 rounded-lg flex items-center justify-center text-xl">💼</div>
+                    <div>
+                        <h3 className="text-lg font-bold text-white">Danh mục đầu tư</h3>
+                        <p className="text-xs text-gray-400">Giá vốn bình quân · định giá theo giá thị trường</p>
+                    </div>
+                </div>
+                <button onClick={() => setEditing(emptyHolding())} className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg font-bold text-sm shadow-lg transition-all active:scale-95">+ Thêm tài sản</button>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className="bg-black/30 rounded-xl p-3 border border-gray-800"><p className="text-[10px] text-gray-400 uppercase font-bold">Giá trị hiện tại</p><p className="text-lg font-bold text-white">{formatCurrency(totals.marketValue)}</p></div>
+                <div className="bg-black/30 rounded-xl p-3 border border-gray-800"><p className="text-[10px] text-gray-400 uppercase font-bold">Vốn đang nắm</p><p className="text-lg font-bold text-gray-200">{formatCurrency(totals.costBasis)}</p></div>
+                <div className="bg-black/30 rounded-xl p-3 border border-gray-800"><p className="text-[10px] text-gray-400 uppercase font-bold">Lãi/lỗ chưa chốt</p><p className={`text-lg font-bold ${pnlColor(totals.unrealizedPnL)}`}>{signed(totals.unrealizedPnL)}</p></div>
+                <div className="bg-black/30 rounded-xl p-3 border border-gray-800"><p className="text-[10px] text-gray-400 uppercase font-bold">Lãi/lỗ đã chốt</p><p className={`text-lg font-bold ${pnlColor(totals.realizedPnL)}`}>{signed(totals.realizedPnL)}</p></div>
+            </div>
+
+            {/* Holdings */}
+            {summaries.length === 0 ? (
+                <div className="text-center py-8 border-2 border-dashed border-gray-800 rounded-xl text-gray-500 text-sm">Chưa có tài sản nào. Thêm vàng, cổ phiếu, crypto hoặc sổ tiết kiệm để theo dõi lãi/lỗ.</div>
+            ) : (
+                <div className="space-y-3">
+                    {summaries.map(s => {
+                        const meta = portfolioService.getClassMeta(s.holding.assetClass);
+                        const budget = investmentBudgets.find(b => b.id === s.holding.budgetCategoryId);
+                        const isExpanded = expandedId === s.holding.id;
+                        return (
+                            <div key={s.holding.id} className="bg-black/30 rounded-xl border border-gray-800 p-4">
+                                <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+                                    <div className="flex items-center gap-3 min-w-0">
+                                        <span className="text-2xl">{meta.icon}</span>
+                                        <div className="min-w-0">
+                                            <p className="font-bold text-white truncate">{s.holding.name} {s.holding.symbol && <span className="text-xs text-gray-500">{s.holding.symbol}</span>}</p>
+                                            <p className="text-xs text-gray-400">
+                                                {s.holding.assetClass === 'savings' ? `Gốc ${formatCurrency(s.costBasis)}` : `${formatQty(s.quantity)} ${meta.unit} · TB ${formatCurrency(s.avgCost)}`}
+                                                {budget && <span className="ml-2 text-purple-400">↳ {budget.name}</span>}
+                                            </p>
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-6 text-right">
+                                        <div>
+                                            <p className="font-bold text-white">{formatCurrency(s.marketValue)}</p>
+                                            <p className={`text-[10px] ${s.price?.isStale ? 'text-amber-400' : 'text-gray-500'}`}>
+                                                {s.price ? `${s.price.isStale ? '⚠ ' : ''}${s.holding.assetClass === 'savings' ? s.price.source : `${formatCurrency(s.price.price)} · ${s.price.source}`}` : 'Chưa có giá, tính theo vốn'}
+                                            </p>
+                                        </div>
+                                        <div>
+                                            <p className={`font-bold ${pnlColor(s.unrealizedPnL)}`}>{signed(s.unrealizedPnL)}</p>
+                                            <p className={`text-[10px] ${pnlColor(s.unrealizedPnL)}`}>{s.unrealizedPct.toFixed(2)}%{s.realizedPnL !== 0 && <span className="text-gray-500"> · chốt {signed(s.realizedPnL)}</span>}</p>
+                                        </div>
+                                    </div>
+                                </div>
+                                <div className="flex flex-wrap gap-2 mt-3">
+                                    <button onClick={() => openLot(s, 'buy')} className="px-3 py-1 rounded-lg text-xs font-bold bg-green-900/30 text-green-400 border border-green-800 hover:bg-green-900/50">{s.holding.assetClass === 'savings' ? '+ Gửi thêm' : '+ Mua'}</button>
+                                    <button onClick={() => openLot(s, 'sell')} disabled={s.quantity <= 0} className="px-3 py-1 rounded-lg text-xs font-bold bg-red-900/30 text-red-400 border border-red-800 hover:bg-red-900/50 disabled:opacity-40">{s.holding.assetClass === 'savings' ? '− Rút' : '− Bán'}</button>
+                                    <button onClick={() => setExpandedId(isExpanded ? null : s.holding.id)} className="px-3 py-1 rounded-lg text-xs font-bold text-gray-400 border border-gray-700 hover:bg-gray-800">Lịch sử ({s.holding.lots.length})</button>
+                                    <button onClick={() => setEditing({ ...s.holding })} className="px-3 py-1 rounded-lg text-xs font-bold text-gray-400 border border-gray-700 hover:bg-gray-800">✏️ Sửa</button>
+                                    <button onClick={() => onDelete(s.holding)} className="px-3 py-1 rounded-lg text-xs font-bold text-gray-500 border border-gray-700 hover:text-red-400 hover:bg-gray-800">🗑</button>
+                                </div>
+                                {isExpanded && (
+                                    <div className="mt-3 border-t border-gray-800 pt-3 space-y-1">
+                                        {[...s.holding.lots].sort((a, b) => b.date.localeCompare(a.date)).map(l => (
+                                            <div key={l.id} className="flex justify-between items-center text-xs text-gray-300 group">
+                                                <span>
+                                                    <span className={l.side === 'buy' ? 'text-green-400' : 'text-red-400'}>{lotVerb(s.holding, l.side)}</span>
+                                                    {' '}{new Date(l.date).toLocaleDateString('vi-VN')} · {s.holding.assetClass === 'savings' ? formatCurrency(l.quantity) : `${formatQty(l.quantity)} × ${formatCurrency(l.price)}`}
+                                                    {l.fee ? <span className="text-gray-500"> (phí {formatCurrency(l.fee)})</span> : null}
+                                                    {l.transactionId && <span className="text-gray-500"> · đã ghi sổ</span>}
+                                                </span>
+                                                <button onClick={() => onDeleteLot(s.holding, l)} className="opacity-0 group-hover:opacity-100 text-gray-500 hover:text-red-400">✕</button>
+                                            </div>
+                                        ))}
+                                        {s.holding.lots.length === 0 && <p className="text-xs text-gray-500 italic">Chưa có giao dịch.</p>}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            {/* Allocation: actual vs AI recommendation */}
+            {allocation.length > 0 && (
+                <div className="bg-black/30 rounded-xl border border-gray-800 p-4">
+                    <div className="flex justify-between items-center mb-3">
+                        <h4 className="text-sm font-bold text-gray-300 uppercase">Phân bổ thực tế {recommendedAllocation && 'vs. AI đề xuất'}</h4>
+                        {!recommendedAllocation && <span className="text-[10px] text-gray-500">Tạo Báo Cáo Tuần để so sánh với đề xuất</span>}
+                    </div>
+                    <div className="space-y-3">
+                        {allocation.map(row => (
+                            <div key={row.key}>
+                                <div className="flex justify-between text-xs mb-1">
+                                    <span className="font-bold text-gray-200">{row.name}</span>
+                                    <span className="text-gray-400">
+                                        {row.actualPct.toFixed(1)}%{row.recommendedPct !== null && <> / <span className="text-indigo-300">{row.recommendedPct}%</span></>}
+                                    </span>
+                                </div>
+                                <div className="relative h-2 bg-gray-800 rounded-full overflow-hidden">
+                                    <div className="h-full rounded-full" style={{ width: `${Math.min(100, row.actualPct)}%`, backgroundColor: row.color }}></div>
+                                    {row.recommendedPct !== null && (
+                                        <div className="absolute top-0 h-full w-0.5 bg-white" style={{ left: `${Math.min(100, row.recommendedPct)}%` }} title="AI đề xuất"></div>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {/* Investment budgets linked to holdings */}
+            {investmentBudgets.length > 0 && (
+                <div className="bg-black/30 rounded-xl border border-gray-800 p-4">
+                    <h4 className="text-sm font-bold text-gray-300 uppercase mb-3">Ngân sách đầu tư tháng này</h4>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        {investmentBudgets.map(b => {
+                            const invested = portfolioService.investedInMonth(holdings, b, now);
+                            const pct = b.limit > 0 ? Math.min(100, (invested / b.limit) * 100) : 0;
+                            const linked = holdings.filter(h => h.budgetCategoryId === b.id).length;
+                            return (
+                                <div key={b.id}>
+                                    <div className="flex justify-between text-xs mb-1">
+                                        <span className="font-bold text-purple-300">{b.name} <span className="text-gray-500 font-normal">({linked} tài sản)</span></span>
+                                        <span className="text-gray-400">{formatCurrency(invested)} / {formatCurrency(b.limit)}</span>
+                                    </div>
+                                    <div className="h-2 bg-gray-800 rounded-full overflow-hidden"><div className="h-full bg-purple-500 rounded-full" style={{ width: `${pct}%` }}></div></div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+
+            {/* Holding editor */}
+            {editing && (
+                <div className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+                    <div className="bg-gray-900 rounded-2xl shadow-2xl w-full max-w-md overflow-hidden animate-fade-in-up border border-gray-700">
+                        <div className="p-5 border-b border-gray-800 flex justify-between items-center">
+                            <h3 className="font-bold text-lg text-white">{editing.id ? 'Sửa tài sản' : 'Tài sản mới'}</h3>
+                            <button onClick={() => setEditing(null)} className="text-gray-400 hover:text-white">✕</button>
+                        </div>
+                        <div className="p-6 space-y-4">
+                            <div className="grid grid-cols-4 gap-2">
+                                {ASSET_CLASSES.map(c => (
+                                    <button key={c.id} onClick={() => setEditing({ ...editing, assetClass: c.id as HoldingAssetClass, symbol: PRICED_SYMBOLS[c.id][0] || '' })} className={`py-2 rounded-lg text-xs font-bold border ${editing.assetClass === c.id ? 'bg-indigo-900/40 border-indigo-500 text-indigo-300' : 'border-gray-700 text-gray-400'}`}>{c.icon}<br />{c.label}</button>
+                                ))}
+                            </div>
+                            <div><label className={labelStyle}>Tên</label><input value={editing.name} onChange={e => setEditing({ ...editing, name: e.target.value })} className={darkInput} placeholder={editing.assetClass === 'savings' ? 'VD: Sổ TK Vietcombank 12 tháng' : 'VD: Vàng SJC, FPT, Bitcoin...'} autoFocus /></div>
+
+                            {PRICED_SYMBOLS[editing.assetClass].length > 0 && (
+                                <div>
+                                    <label className={labelStyle}>Định giá theo</label>
+                                    <select value={editing.symbol || ''} onChange={e => setEditing({ ...editing, symbol: e.target.value })} className={darkInput}>
+                                        {PRICED_SYMBOLS[editing.assetClass].map(sym => <option key={sym} value={sym}>{marketItems.find(i => i.symbol === sym)?.name || sym}</option>)}
+                                        <option value="">Nhập giá tay</option>
+                                    </select>
+                                </div>
+                            )}
+                            {editing.assetClass === 'stock' && (
+                                <div><label className={labelStyle}>Mã cổ phiếu</label><input value={editing.symbol || ''} onChange={e => setEditing({ ...editing, symbol: e.target.value.toUpperCase() })} className={darkInput} placeholder="VD: FPT" /></div>
+                            )}
+                            {editing.assetClass !== 'savings' && (!editing.symbol || editing.assetClass === 'stock') && (
+                                <div>
+                                    <label className={labelStyle}>Giá hiện tại / đơn vị (nhập tay)</label>
+                                    <MoneyInput value={editing.manualPrice || 0} onChange={val => setEditing({ ...editing, manualPrice: val || undefined, manualPriceAt: new Date().toISOString() })} className={darkInput} />
+                                </div>
+                            )}
+                            {editing.assetClass === 'savings' && (
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div><label className={labelStyle}>Lãi suất (%/năm)</label><input type="number" step="0.1" min="0" value={editing.interestRate ?? ''} onChange={e => setEditing({ ...editing, interestRate: e.target.value === '' ? undefined : Number(e.target.value) })} className={darkInput} /></div>
+                                    <div><label className={labelStyle}>Ngày đáo hạn</label><input type="date" value={editing.maturityDate || ''} onChange={e => setEditing({ ...editing, maturityDate: e.target.value || undefined })} className={darkInput} /></div>
+                                </div>
+                            )}
+                            <div>
+                                <label className={labelStyle}>Ngân sách đầu tư</label>
+                                <select value={editing.budgetCategoryId || ''} onChange={e => setEditing({ ...editing, budgetCategoryId: e.target.value || undefined })} className={darkInput}>
+                                    <option value="">-- Không liên kết --</option>
+                                    {investmentBudgets.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                                </select>
+                                {investmentBudgets.length === 0 && <p className="text-[10px] text-gray-500 mt-1">Tạo ngân sách loại "Đầu tư" ở tab Ngân Sách để liên kết.</p>}
+                            </div>
+                            <button onClick={handleSaveHolding} className="w-full bg-emerald-600 text-white py-3 rounded-xl font-bold hover:bg-emerald-500 shadow-lg">Lưu</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Buy / sell lot */}
+            {lotTarget && (
+                <div className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+                    <div className="bg-gray-900 rounded-2xl shadow-2xl w-full max-w-sm overflow-hidden animate-fade-in-up border border-gray-700">
+                        <div className="p-5 border-b border-gray-800 flex justify-between items-center">
+                            <h3 className="font-bold text-lg text-white">{lotVerb(lotTarget.holding, lot.side)}: {lotTarget.holding.name}</h3>
+                            <button onClick={() => setLotTarget(null)} className="text-gray-400 hover:text-white">✕</button>
+                        </div>
+                        <div className="p-6 space-y-4">
+                            <div><label className={labelStyle}>Ngày</label><input type="date" value={lot.date} onChange={e => setLot({ ...lot, date: e.target.value })} className={darkInput} /></div>
+                            {lotTarget.holding.assetClass === 'savings' ? (
+                                <div><label className={labelStyle}>Số tiền</label><MoneyInput value={lot.quantity} onChange={val => setLot({ ...lot, quantity: val, price: 1 })} className={darkInput} autoFocus /></div>
+                            ) : (
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div><label className={labelStyle}>Số lượng ({portfolioService.getClassMeta(lotTarget.holding.assetClass).unit})</label><input type="number" step="any" min="0" value={lot.quantity || ''} onChange={e => setLot({ ...lot, quantity: Number(e.target.value) || 0 })} className={darkInput} autoFocus /></div>
+                                    <div><label className={labelStyle}>Giá / đơn vị</label><MoneyInput value={lot.price} onChange={val => setLot({ ...lot, price: val })} className={darkInput} /></div>
+                                </div>
+                            )}
+                            {lotTarget.holding.assetClass !== 'savings' && (
+                                <div><label className={labelStyle}>Phí giao dịch</label><MoneyInput value={lot.fee || 0} onChange={val => setLot({ ...lot, fee: val || undefined })} className={darkInput} /></div>
+                            )}
+                            <div className="text-xs text-gray-400 flex justify-between">
+                                <span>Tổng tiền</span>
+                                <span className="font-bold text-white">{formatCurrency(lot.quantity * lot.price + (lot.side === 'buy' ? 1 : -1) * (lot.fee || 0))}</span>
+                            </div>
+                            {lot.side === 'sell' && lotTarget.holding.assetClass !== 'savings' && lot.quantity > 0 && (
+                                <div className="text-xs text-gray-400 flex justify-between">
+                                    <span>Lãi/lỗ dự kiến chốt</span>
+                                    <span className={`font-bold ${pnlColor(lot.quantity * (lot.price - lotTarget.avgCost) - (lot.fee || 0))}`}>{signed(lot.quantity * (lot.price - lotTarget.avgCost) - (lot.fee || 0))}</span>
+                                </div>
+                            )}
+                            <label className="flex items-center gap-2 text-sm text-gray-300">
+                                <input type="checkbox" checked={bookTransaction} onChange={e => setBookTransaction(e.target.checked)} />
+                                Ghi vào sổ thu chi{lot.side === 'buy' && lotTarget.holding.budgetCategoryId ? ' (tính vào ngân sách)' : ''}
+                            </label>
+                            <button onClick={handleSaveLot} className={`w-full text-white py-3 rounded-xl font-bold shadow-lg ${lot.side === 'buy' ? 'bg-green-600 hover:bg-green-500' : 'bg-red-600 hover:bg-red-500'}`}>Xác nhận</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
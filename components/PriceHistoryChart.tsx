@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, ResponsiveContainer, Legend } from 'recharts';
+import { MarketItem } from '../services/market';
+import { priceHistoryService, PricePoint, HistoryRange, HISTORY_RANGES, HISTORY_SYMBOLS } from '../services/priceHistory';
+
+interface PriceHistoryChartProps {
+    items: MarketItem[];
+    refreshKey?: number; // Bump to reload after a new snapshot / cloud backfill
+}
+
+const formatValue = (value: number, item?: MarketItem) => {
+    if (item?.quoteCurrency === 'VND') return new Intl.NumberFormat('vi-VN', { notation: value >= 1e6 ? 'compact' : 'standard', maximumFractionDigits: 2 }).format(value);
+    if (item?.quoteCurrency === 'USD') return '$' + new Intl.NumberFormat('en-US', { maximumFractionDigits: 2 }).format(value);
+    return value.toFixed(2);
+};
+
+const formatTick = (ts: number, range: HistoryRange) => {
+    const d = new Date(ts);
+    if (range === '7d') return `${d.getDate()}/${d.getMonth() + 1} ${d.getHours()}h`;
+    return `${d.getDate()}/${d.getMonth() + 1}`;
+};
+
+export const PriceHistoryChart: React.FC<PriceHistoryChartProps> = ({ items: allItems, refreshKey }) => {
+    // Only symbols whose prices are recorded
+    const items = allItems.filter(i => HISTORY_SYMBOLS.includes(i.symbol));
+    const [symbol, setSymbol] = useState(items[0]?.symbol || 'USD');
+    const [range, setRange] = useState<HistoryRange>('30d');
+    const [points, setPoints] = useState<PricePoint[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    const item = items.find(i => i.symbol === symbol);
+    const hasBid = points.some(p => p.bid);
+    const simulated = points.find(p => p.isStale);
+
+    useEffect(() => {
+        let cancelled = false;
+        priceHistoryService.getRange(symbol, range)
+            .then(data => { if (!cancelled) { setPoints(data); setError(null); } })
+            .catch(e => {
+                console.error("Failed to load price history", e);
+                if (!cancelled) setError("Trình duyệt không hỗ trợ lưu lịch sử giá (IndexedDB).");
+            });
+        return () => { cancelled = true; };
+    }, [symbol, range, refreshKey]);
+
+    const first = points[0]?.price;
+    const last = points[points.length - 1]?.price;
+    const change = first && last ? ((last - first) / first) * 100 : null;
+
+    return (
+        <div className="bg-gray-900/50 rounded-xl border border-gray-800 p-4 md:p-6 shadow-lg">
+            <div className="flex flex-col md:flex-row justify-between md:items-center gap-3 mb-4">
+                <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 bg-sky-600 rounded-lg flex items-center justify-center text-xl">📉</div>
+                    <div>
+                        <h3 className="text-lg font-bold text-white">Lịch sử giá</h3>
+                        <p className="text-xs text-gray-400">
+                            {item?.name || symbol}
+                            {change !== null && <span className={`ml-2 font-bold ${change >= 0 ? 'text-green-400' : 'text-red-400'}`}>{change >= 0 ? '+' : ''}{change.toFixed(2)}%</span>}
+                        </p>
+                    </div>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    <div className="flex bg-gray-800 p-1 rounded-lg overflow-x-auto no-scrollbar">
+                        {items.map(i => (
+                            <button key={i.symbol} onClick={() => setSymbol(i.symbol)} className={`px-2.5 py-1 rounded text-xs font-bold whitespace-nowrap ${symbol === i.symbol ? 'bg-gray-600 text-white' : 'text-gray-400 hover:text-white'}`}>{i.symbol}</button>
+                        ))}
+                    </div>
+                    <div className="flex bg-gray-800 p-1 rounded-lg">
+                        {HISTORY_RANGES.map(r => (
+                            <button key={r.id} onClick={() => setRange(r.id)} className={`px-2.5 py-1 rounded text-xs font-bold ${range === r.id ? 'bg-sky-600 text-white' : 'text-gray-400 hover:text-white'}`}>{r.label}</button>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            {error ? (
+                <div className="h-64 flex items-center justify-center text-sm text-gray-500">{error}</div>
+            ) : points.length < 2 ? (
+                <div className="h-64 flex flex-col items-center justify-center text-sm text-gray-500 text-center px-6">
+                    <p>Chưa đủ dữ liệu cho khoảng thời gian này.</p>
+                    <p className="text-xs mt-1">Giá được lưu tối đa mỗi giờ một lần khi bạn mở trang; dữ liệu mẫu không được lưu, VN-Index được lưu dưới dạng mô phỏng.</p>
+                </div>
+            ) : (
+                <div className="h-64">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={points} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#1F2937" />
+                            <XAxis dataKey="ts" type="number" domain={['dataMin', 'dataMax']} scale="time" tickFormatter={ts => formatTick(ts, range)} stroke="#6B7280" fontSize={10} />
+                            <YAxis domain={['auto', 'auto']} tickFormatter={v => formatValue(v, item)} stroke="#6B7280" fontSize={10} width={70} />
+                            <Tooltip
+                                contentStyle={{ backgroundColor: '#111827', border: '1px solid #374151', borderRadius: 8 }}
+                                labelFormatter={ts => new Date(Number(ts)).toLocaleString('vi-VN')}
+                                formatter={(value) => formatValue(Number(value), item)}
+                            />
+                            {hasBid && <Legend />}
+                            <Line type="monotone" dataKey="price" name={hasBid ? 'Bán ra' : item?.symbol || symbol} stroke={simulated ? '#F59E0B' : '#38BDF8'} strokeDasharray={simulated ? '4 4' : undefined} strokeWidth={2} dot={false} />
+                            {hasBid && <Line type="monotone" dataKey="bid" name="Mua vào" stroke="#F59E0B" strokeWidth={2} dot={false} />}
+                        </LineChart>
+                    </ResponsiveContainer>
+                </div>
+            )}
+            {simulated && points.length >= 2 && (
+                <p className="text-[11px] text-amber-400 mt-3">⚠ Dữ liệu mô phỏng ({simulated.source || 'không có nguồn thực'}), không phải giá thị trường.</p>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,258 @@
+import React, { useState } from 'react';
+import { RecurringRule, RecurrenceFrequency, FinanceAccount } from '../types';
+import { accountService, DEFAULT_ACCOUNT_ID } from '../services/accounts';
+import { recurringService, toDateKey } from '../services/recurring';
+import { MoneyInput } from './MoneyInput';
+
+interface RecurringManagerProps {
+    rules: RecurringRule[];
+    expenseCategories: string[];
+    incomeCategories: string[];
+    accounts: FinanceAccount[];
+    onSave: (rule: RecurringRule) => Promise<void> | void;
+    onDelete: (id: string) => Promise<void> | void;
+}
+
+const formatCurrency = (amount: number) => new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(amount);
+const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('vi-VN');
+
+const FREQUENCIES: { id: RecurrenceFrequency; label: string }[] = [
+    { id: 'daily', label: 'Ngày' },
+    { id: 'weekly', label: 'Tuần' },
+    { id: 'monthly', label: 'Tháng' },
+    { id: 'yearly', label: 'Năm' }
+];
+
+const UPCOMING_DAYS = 30;
+
+const inputStyle = "w-full border border-gray-300 rounded-xl px-4 py-3 text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white text-gray-900 dark:bg-gray-700 dark:text-white dark:border-gray-600 transition-colors placeholder-gray-400 font-medium shadow-sm";
+
+const emptyRule = (): RecurringRule => ({
+    id: '',
+    name: '',
+    amount: 0,
+    type: 'expense',
+    category: '',
+    frequency: 'monthly',
+    interval: 1,
+    startDate: toDateKey(new Date()),
+    endDate: null,
+    skipDates: [],
+    lastMaterializedDate: null,
+    isActive: true
+});
+
+export const RecurringManager: React.FC<RecurringManagerProps> = ({ rules, expenseCategories, incomeCategories, accounts, onSave, onDelete }) => {
+    const [isModalOpen, setModalOpen] = useState(false);
+    const [form, setForm] = useState<RecurringRule>(emptyRule());
+    const [newSkipDate, setNewSkipDate] = useState('');
+
+    const upcoming = recurringService.upcoming(rules, UPCOMING_DAYS);
+    const upcomingExpense = upcoming.filter(t => t.type === 'expense').reduce((sum, t) => sum + t.amount, 0);
+    const monthlySubscriptions = rules
+        .filter(r => r.isActive && r.type === 'expense')
+        .reduce((sum, r) => sum + recurringService.monthlyEquivalent(r), 0);
+
+    const openEditor = (rule?: RecurringRule) => {
+        setForm(rule ? { ...rule, skipDates: [...(rule.skipDates || [])] } : emptyRule());
+        setNewSkipDate('');
+        setModalOpen(true);
+    };
+
+    const handleSave = async () => {
+        if (!form.name || !form.amount || !form.category || !form.startDate) {
+            alert("Vui lòng nhập tên, số tiền, danh mục và ngày bắt đầu.");
+            return;
+        }
+        if (form.endDate && form.endDate < form.startDate) {
+            alert("Ngày kết thúc phải sau ngày bắt đầu.");
+            return;
+        }
+        await onSave({ ...form, id: form.id || Date.now().toString() });
+        setModalOpen(false);
+    };
+
+    const skipOccurrence = async (ruleId: string, date: string) => {
+        const rule = rules.find(r => r.id === ruleId);
+        if (!rule || !window.confirm(`Bỏ qua kỳ ngày ${formatDate(date)}?`)) return;
+        await onSave({ ...rule, skipDates: Array.from(new Set([...(rule.skipDates || []), date])) });
+    };
+
+    const toggleActive = async (rule: RecurringRule) => {
+        await onSave({ ...rule, isActive: !rule.isActive });
+    };
+
+    const categories = form.type === 'income' ? incomeCategories : expenseCategories;
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            {/* Summary */}
+            <div className="bg-gradient-to-r from-purple-600 to-indigo-700 rounded-2xl p-6 text-white shadow-lg flex flex-col md:flex-row justify-between gap-6">
+                <div>
+                    <p className="text-purple-100 font-bold uppercase text-xs tracking-wider mb-1">Chi phí cố định / tháng</p>
+                    <h2 className="text-3xl md:text-4xl font-bold">{formatCurrency(monthlySubscriptions)}</h2>
+                    <p className="text-xs text-purple-200 mt-2">{rules.filter(r => r.isActive).length} khoản định kỳ đang hoạt động</p>
+                </div>
+                <div className="bg-black/20 rounded-xl p-4 backdrop-blur-sm border border-white/10 md:min-w-[240px]">
+                    <p className="text-xs text-purple-100 uppercase font-bold">Sắp chi trong {UPCOMING_DAYS} ngày</p>
+                    <p className="text-2xl font-bold text-red-200">-{formatCurrency(upcomingExpense)}</p>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {/* Upcoming charges */}
+                <div className="lg:col-span-1 bg-white dark:bg-gray-800 p-5 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700">
+                    <h3 className="font-bold text-gray-800 dark:text-white mb-4 flex items-center gap-2"><span>⏰</span> Sắp tới</h3>
+                    {upcoming.length === 0 ? (
+                        <p className="text-sm text-gray-400 text-center py-6">Không có khoản nào trong {UPCOMING_DAYS} ngày tới</p>
+                    ) : (
+                        <div className="space-y-2 max-h-[420px] overflow-y-auto">
+                            {upcoming.map(t => (
+                                <div key={t.id} className="flex items-center justify-between p-3 rounded-xl bg-gray-50 dark:bg-gray-900/40 group">
+                                    <div className="min-w-0">
+                                        <p className="font-bold text-sm text-gray-800 dark:text-white truncate">{t.description}</p>
+                                        <p className="text-[10px] text-gray-400">{formatDate(t.date)} • {t.category}</p>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <span className={`text-sm font-bold ${t.type === 'income' ? 'text-green-600' : 'text-red-600'}`}>
+                                            {t.type === 'income' ? '+' : '-'}{formatCurrency(t.amount)}
+                                        </span>
+                                        <button
+                                            onClick={() => skipOccurrence(t.recurringRuleId!, t.date)}
+                                            className="opacity-0 group-hover:opacity-100 text-[10px] text-gray-500 hover:text-orange-500 border border-gray-200 dark:border-gray-600 rounded px-1.5 py-0.5 transition-opacity"
+                                            title="Bỏ qua kỳ này"
+                                        >
+                                            Bỏ qua
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                {/* Rules */}
+                <div className="lg:col-span-2 space-y-4">
+                    <div className="flex justify-between items-center">
+                        <h3 className="font-bold text-gray-800 dark:text-white text-lg">Khoản định kỳ</h3>
+                        <button onClick={() => openEditor()} className="bg-white dark:bg-gray-800 text-blue-600 dark:text-blue-400 border border-blue-200 dark:border-blue-800 px-4 py-2 rounded-xl font-bold text-sm hover:bg-blue-50 dark:hover:bg-gray-700 shadow-sm transition-all flex items-center gap-2"><span>+</span> Thêm khoản</button>
+                    </div>
+
+                    {rules.length === 0 && (
+                        <div className="text-center py-12 text-gray-400 bg-gray-50 dark:bg-gray-900/30 rounded-xl border-2 border-dashed border-gray-200 dark:border-gray-700">
+                            <span className="text-4xl block mb-2">🔁</span>
+                            <span className="text-sm font-medium">Thêm tiền nhà, lương, Netflix... để tự động ghi sổ mỗi kỳ</span>
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {rules.map(rule => {
+                            const next = rule.isActive ? recurringService.nextOccurrence(rule) : null;
+                            return (
+                                <div key={rule.id} className={`bg-white dark:bg-gray-800 p-5 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700 hover:shadow-md transition-all group ${rule.isActive ? '' : 'opacity-60'}`}>
+                                    <div className="flex justify-between items-start mb-2">
+                                        <div>
+                                            <h4 className="font-bold text-gray-800 dark:text-white">{rule.name}</h4>
+                                            <p className="text-[10px] text-gray-400">{rule.category} • {recurringService.formatFrequency(rule)}</p>
+                                        </div>
+                                        <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                            <button onClick={() => openEditor(rule)} className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-700 rounded text-gray-500">✏️</button>
+                                            <button onClick={() => onDelete(rule.id)} className="p-1.5 hover:bg-red-50 dark:hover:bg-red-900/20 hover:text-red-500 rounded text-gray-500">🗑</button>
+                                        </div>
+                                    </div>
+                                    <p className={`text-2xl font-bold ${rule.type === 'income' ? 'text-green-600' : 'text-red-600'}`}>
+                                        {rule.type === 'income' ? '+' : '-'}{formatCurrency(rule.amount)}
+                                    </p>
+                                    <div className="flex justify-between items-center mt-3 text-xs">
+                                        <span className="text-gray-500 dark:text-gray-400">
+                                            {next ? `Kỳ tới: ${formatDate(next)}` : rule.isActive ? 'Đã kết thúc' : 'Tạm dừng'}
+                                        </span>
+                                        <button onClick={() => toggleActive(rule)} className="font-bold text-blue-600 dark:text-blue-400 hover:underline">
+                                            {rule.isActive ? 'Tạm dừng' : 'Kích hoạt'}
+                                        </button>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            </div>
+
+            {isModalOpen && (
+                <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+                    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-md max-h-[90vh] overflow-y-auto animate-fade-in-up border border-gray-200 dark:border-gray-700">
+                        <div className="p-5 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center bg-gray-50 dark:bg-gray-900">
+                            <h3 className="font-bold text-lg text-gray-800 dark:text-white">{form.id ? 'Chỉnh sửa khoản định kỳ' : 'Khoản định kỳ mới'}</h3>
+                            <button onClick={() => setModalOpen(false)} className="text-gray-400 hover:text-gray-600">✕</button>
+                        </div>
+                        <div className="p-6 space-y-4">
+                            <div className="flex bg-gray-100 dark:bg-gray-700 p-1 rounded-xl">
+                                <button onClick={() => setForm({ ...form, type: 'income', category: '' })} className={`flex-1 py-2 rounded-lg text-xs font-bold ${form.type === 'income' ? 'bg-white dark:bg-gray-600 text-green-600 dark:text-green-300 shadow-sm' : 'text-gray-500 dark:text-gray-400'}`}>Thu Nhập</button>
+                                <button onClick={() => setForm({ ...form, type: 'expense', category: '' })} className={`flex-1 py-2 rounded-lg text-xs font-bold ${form.type === 'expense' ? 'bg-white dark:bg-gray-600 text-red-600 dark:text-red-300 shadow-sm' : 'text-gray-500 dark:text-gray-400'}`}>Chi Tiêu</button>
+                            </div>
+                            <div><label className="block text-xs font-bold text-gray-500 uppercase mb-1">Tên khoản</label><input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} className={inputStyle} placeholder="VD: Tiền nhà, Netflix..." autoFocus /></div>
+                            <div><label className="block text-xs font-bold text-gray-500 uppercase mb-1">Số tiền mỗi kỳ</label><MoneyInput value={form.amount} onChange={val => setForm({ ...form, amount: val })} className={inputStyle} /></div>
+                            <div>
+                                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Danh mục</label>
+                                <select value={form.category} onChange={e => setForm({ ...form, category: e.target.value })} className={inputStyle}>
+                                    <option value="" disabled>-- Chọn danh mục --</option>
+                                    {categories.map(c => <option key={c} value={c}>{c}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Tài khoản</label>
+                                <select
+                                    value={form.accountId || accountService.getDefaultAccountId(accounts)}
+                                    onChange={e => setForm({ ...form, accountId: e.target.value === DEFAULT_ACCOUNT_ID ? undefined : e.target.value })}
+                                    className={inputStyle}
+                                >
+                                    {accountService.withDefault(accounts).filter(a => !a.isArchived).map(a => <option key={a.id} value={a.id}>{accountService.getTypeMeta(a.type).icon} {a.name}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Lặp lại</label>
+                                <div className="flex gap-2 items-center">
+                                    <span className="text-sm text-gray-500">Mỗi</span>
+                                    <input type="number" min={1} value={form.interval} onChange={e => setForm({ ...form, interval: Math.max(1, Number(e.target.value) || 1) })} className={`${inputStyle} !w-20`} />
+                                    <div className="flex flex-1 bg-gray-100 dark:bg-gray-700 p-1 rounded-xl">
+                                        {FREQUENCIES.map(f => (
+                                            <button key={f.id} onClick={() => setForm({ ...form, frequency: f.id })} className={`flex-1 py-1.5 rounded-lg text-xs font-bold ${form.frequency === f.id ? 'bg-white dark:bg-gray-600 text-blue-600 dark:text-blue-300 shadow-sm' : 'text-gray-500 dark:text-gray-400'}`}>{f.label}</button>
+                                        ))}
+                                    </div>
+                                </div>
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div><label className="block text-xs font-bold text-gray-500 uppercase mb-1">Bắt đầu</label><input type="date" value={form.startDate} onChange={e => setForm({ ...form, startDate: e.target.value })} className={inputStyle} /></div>
+                                <div><label className="block text-xs font-bold text-gray-500 uppercase mb-1">Kết thúc</label><input type="date" value={form.endDate || ''} onChange={e => setForm({ ...form, endDate: e.target.value || null })} className={inputStyle} /></div>
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Ngày bỏ qua</label>
+                                <div className="flex gap-2">
+                                    <input type="date" value={newSkipDate} onChange={e => setNewSkipDate(e.target.value)} className={inputStyle} />
+                                    <button
+                                        onClick={() => { if (newSkipDate) { setForm({ ...form, skipDates: Array.from(new Set([...form.skipDates, newSkipDate])).sort() }); setNewSkipDate(''); } }}
+                                        className="px-4 rounded-xl bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 font-bold text-sm"
+                                    >
+                                        +
+                                    </button>
+                                </div>
+                                {form.skipDates.length > 0 && (
+                                    <div className="flex flex-wrap gap-1 mt-2">
+                                        {form.skipDates.map(d => (
+                                            <span key={d} className="text-[10px] bg-orange-50 dark:bg-orange-900/20 text-orange-700 dark:text-orange-300 px-2 py-1 rounded flex items-center gap-1">
+                                                {formatDate(d)}
+                                                <button onClick={() => setForm({ ...form, skipDates: form.skipDates.filter(x => x !== d) })}>✕</button>
+                                            </span>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                            <input value={form.description || ''} onChange={e => setForm({ ...form, description: e.target.value })} className={inputStyle} placeholder="Ghi chú (tuỳ chọn)" />
+                            <button onClick={handleSave} className="w-full bg-blue-600 text-white py-3 rounded-xl font-bold hover:bg-blue-700 shadow-lg mt-2">Lưu</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,38 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, ResponsiveContainer, Legend } from 'recharts';
+import { SpeakingSession } from '../types';
+import { summarizeScores } from '../services/pronunciation';
+
+interface SpeakingProgressChartProps {
+    sessions: SpeakingSession[];
+}
+
+export const SpeakingProgressChart: React.FC<SpeakingProgressChartProps> = ({ sessions }) => {
+    // Oldest first; sessions recorded before scoring existed have no points
+    const points = sessions
+        .map(s => ({ ts: s.timestamp, ...summarizeScores(s.scores) }))
+        .filter(p => p.pronunciation !== undefined)
+        .sort((a, b) => a.ts - b.ts);
+
+    if (points.length < 2) {
+        return <p className="text-xs text-gray-400 text-center py-4">Cần ít nhất 2 buổi có chấm điểm để vẽ biểu đồ tiến bộ.</p>;
+    }
+
+    return (
+        <div className="h-48">
+            <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={points} margin={{ top: 5, right: 10, left: -20, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+                    <XAxis dataKey="ts" type="number" domain={['dataMin', 'dataMax']} scale="time" tickFormatter={ts => { const d = new Date(ts); return `${d.getDate()}/${d.getMonth() + 1}`; }} stroke="#9CA3AF" fontSize={10} />
+                    <YAxis yAxisId="score" domain={[0, 100]} stroke="#9CA3AF" fontSize={10} />
+                    <YAxis yAxisId="wpm" orientation="right" domain={[0, 'auto']} stroke="#9CA3AF" fontSize={10} />
+                    <Tooltip labelFormatter={ts => new Date(Number(ts)).toLocaleString('vi-VN')} />
+                    <Legend wrapperStyle={{ fontSize: 11 }} />
+                    <Line yAxisId="score" type="monotone" dataKey="pronunciation" name="Phát âm" stroke="#2563EB" strokeWidth={2} dot={{ r: 2 }} />
+                    <Line yAxisId="score" type="monotone" dataKey="fluency" name="Trôi chảy" stroke="#10B981" strokeWidth={2} dot={{ r: 2 }} />
+                    <Line yAxisId="wpm" type="monotone" dataKey="wordsPerMinute" name="Từ/phút" stroke="#F59E0B" strokeWidth={2} dot={{ r: 2 }} strokeDasharray="4 2" />
+                </LineChart>
+            </ResponsiveContainer>
+        </div>
+    );
+};
@@ -0,0 +1,312 @@
+import React, { useState } from 'react';
+import { Transaction, FinanceAccount } from '../types';
+import { accountService, DEFAULT_ACCOUNT_ID } from '../services/accounts';
+import {
+    statementImportService, BANK_PRESETS, BankPresetId, ColumnMapping, DateOrder,
+    ImportCandidate, ParsedRow, RawStatement
+} from '../services/statementImport';
+
+interface StatementImportModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    expenseCategories: string[];
+    incomeCategories: string[];
+    accounts: FinanceAccount[];
+    // Existing transactions between two dates (YYYY-MM-DD), used for duplicate detection
+    loadExisting: (from: string, to: string) => Promise<Transaction[]>;
+    onImport: (transactions: Omit<Transaction, 'id'>[], source: string) => Promise<void>;
+}
+
+type Step = 'upload' | 'mapping' | 'review';
+
+const formatCurrency = (amount: number) => new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(amount);
+const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('vi-VN');
+
+const DATE_ORDERS: { id: DateOrder; label: string }[] = [
+    { id: 'DMY', label: 'Ngày/Tháng/Năm' },
+    { id: 'MDY', label: 'Tháng/Ngày/Năm' },
+    { id: 'YMD', label: 'Năm-Tháng-Ngày' }
+];
+
+const selectStyle = "w-full border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white outline-none focus:ring-2 focus:ring-blue-500";
+
+const shiftDate = (date: string, days: number) => {
+    const d = new Date(date);
+    d.setDate(d.getDate() + days);
+    return d.toISOString().split('T')[0];
+};
+
+export const StatementImportModal: React.FC<StatementImportModalProps> = ({ isOpen, onClose, expenseCategories, incomeCategories, accounts, loadExisting, onImport }) => {
+    const [step, setStep] = useState<Step>('upload');
+    const [preset, setPreset] = useState<BankPresetId>('auto');
+    const [accountId, setAccountId] = useState('');
+    const [fileText, setFileText] = useState('');
+    const [raw, setRaw] = useState<RawStatement | null>(null);
+    const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+    const [qifOrder, setQifOrder] = useState<DateOrder>('DMY');
+    const [candidates, setCandidates] = useState<ImportCandidate[]>([]);
+    const [skippedRows, setSkippedRows] = useState(0);
+    const [isWorking, setIsWorking] = useState(false);
+
+    if (!isOpen) return null;
+
+    const reset = () => {
+        setStep('upload'); setFileText(''); setRaw(null); setMapping(null);
+        setCandidates([]); setSkippedRows(0); setIsWorking(false);
+    };
+
+    const handleClose = () => { reset(); onClose(); };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        try {
+            const text = await file.text();
+            const statement = statementImportService.read(file.name, text);
+            setFileText(text);
+            setRaw(statement);
+
+            if (statement.format === 'csv') {
+                if (statement.header.length === 0 || statement.rows.length === 0) {
+                    alert("Không đọc được dữ liệu trong file CSV.");
+                    return;
+                }
+                setMapping(statementImportService.autoMap(statement.header, preset));
+                setStep('mapping');
+            } else {
+                await buildReview(statement.parsed, 0);
+            }
+        } catch (err) {
+            console.error("Statement import failed", err);
+            alert("Không thể đọc file sao kê. Vui lòng kiểm tra định dạng.");
+        } finally {
+            e.target.value = '';
+        }
+    };
+
+    const buildReview = async (parsed: ParsedRow[], skipped: number) => {
+        if (parsed.length === 0) {
+            alert("Không tìm thấy giao dịch hợp lệ trong file.");
+            return;
+        }
+        setIsWorking(true);
+        try {
+            const dates = parsed.map(p => p.date).sort();
+            const existing = await loadExisting(shiftDate(dates[0], -3), shiftDate(dates[dates.length - 1], 3));
+            setCandidates(statementImportService.buildCandidates(parsed, existing));
+            setSkippedRows(skipped);
+            setStep('review');
+        } catch (err) {
+            console.error("Duplicate check failed", err);
+            alert("Lỗi khi kiểm tra giao dịch trùng.");
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleApplyMapping = async () => {
+        if (!raw || !mapping) return;
+        if (mapping.date < 0 || (mapping.amount < 0 && mapping.debit < 0 && mapping.credit < 0)) {
+            alert("Cần chọn cột Ngày và cột Số tiền (hoặc Ghi nợ/Ghi có).");
+            return;
+        }
+        const { parsed, skipped } = statementImportService.applyMapping(raw.rows, mapping);
+        await buildReview(parsed, skipped);
+    };
+
+    const handleQifOrderChange = async (order: DateOrder) => {
+        setQifOrder(order);
+        await buildReview(statementImportService.parseQif(fileText, order), 0);
+    };
+
+    const updateCandidate = (key: string, patch: Partial<ImportCandidate>) => {
+        setCandidates(prev => prev.map(c => c.key === key ? { ...c, ...patch } : c));
+    };
+
+    const handleImport = async () => {
+        const selected = candidates.filter(c => c.selected);
+        if (selected.length === 0) return;
+        const source = raw?.format === 'csv' ? `csv:${preset}` : raw?.format || 'csv';
+
+        setIsWorking(true);
+        try {
+            const targetAccount = accountId || accountService.getDefaultAccountId(accounts);
+            await onImport(selected.map(c => ({
+                date: c.date,
+                amount: c.amount,
+                type: c.type,
+                category: c.category,
+                description: c.description,
+                externalId: c.externalId,
+                ...(targetAccount !== DEFAULT_ACCOUNT_ID ? { accountId: targetAccount } : {})
+            })), source);
+            alert(`Đã nhập ${selected.length} giao dịch!`);
+            handleClose();
+        } catch (err: any) {
+            console.error("Import write failed", err);
+            alert("Lỗi khi lưu giao dịch: " + err.message);
+            setIsWorking(false);
+        }
+    };
+
+    const columnSelect = (label: string, field: keyof Omit<ColumnMapping, 'dateOrder'>, optional = true) => (
+        <div>
+            <label className="block text-xs font-bold text-gray-500 uppercase mb-1">{label}</label>
+            <select
+                value={mapping ? mapping[field] : -1}
+                onChange={e => mapping && setMapping({ ...mapping, [field]: Number(e.target.value) })}
+                className={selectStyle}
+            >
+                {optional && <option value={-1}>-- Không dùng --</option>}
+                {raw?.header.map((h, i) => <option key={i} value={i}>{h || `Cột ${i + 1}`}</option>)}
+            </select>
+        </div>
+    );
+
+    const selectedCount = candidates.filter(c => c.selected).length;
+    const duplicateCount = candidates.filter(c => c.duplicateOf).length;
+
+    return (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden animate-fade-in-up border border-gray-200 dark:border-gray-700">
+                <div className="p-5 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center bg-gray-50 dark:bg-gray-900">
+                    <div>
+                        <h3 className="font-bold text-lg text-gray-800 dark:text-white">📥 Nhập sao kê ngân hàng</h3>
+                        <p className="text-xs text-gray-500">
+                            {step === 'upload' && 'Bước 1/3: Chọn file'}
+                            {step === 'mapping' && 'Bước 2/3: Ghép cột'}
+                            {step === 'review' && 'Bước 3/3: Kiểm tra & nhập'}
+                        </p>
+                    </div>
+                    <button onClick={handleClose} className="text-gray-400 hover:text-gray-600">✕</button>
+                </div>
+
+                <div className="p-6 overflow-y-auto flex-1">
+                    {step === 'upload' && (
+                        <div className="space-y-4">
+                            <div>
+                                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Ngân hàng</label>
+                                <select value={preset} onChange={e => setPreset(e.target.value as BankPresetId)} className={selectStyle}>
+                                    {BANK_PRESETS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Nhập vào tài khoản</label>
+                                <select value={accountId || accountService.getDefaultAccountId(accounts)} onChange={e => setAccountId(e.target.value)} className={selectStyle}>
+                                    {accountService.withDefault(accounts).filter(a => !a.isArchived).map(a => <option key={a.id} value={a.id}>{accountService.getTypeMeta(a.type).icon} {a.name}</option>)}
+                                </select>
+                            </div>
+                            <label className="flex flex-col items-center justify-center gap-2 p-10 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-2xl cursor-pointer hover:bg-blue-50 dark:hover:bg-gray-700/50 transition-colors">
+                                <span className="text-4xl">📄</span>
+                                <span className="font-bold text-gray-700 dark:text-gray-200">{isWorking ? 'Đang xử lý...' : 'Chọn file CSV, OFX hoặc QIF'}</span>
+                                <span className="text-xs text-gray-400">Hỗ trợ file xuất từ Vietcombank, Techcombank, MB Bank và các ứng dụng quản lý tài chính</span>
+                                <input type="file" accept=".csv,.txt,.ofx,.qfx,.qif" onChange={handleFile} className="hidden" disabled={isWorking} />
+                            </label>
+                        </div>
+                    )}
+
+                    {step === 'mapping' && raw && mapping && (
+                        <div className="space-y-6">
+                            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                                {columnSelect('Ngày giao dịch', 'date', false)}
+                                {columnSelect('Nội dung', 'description')}
+                                {columnSelect('Số tham chiếu', 'reference')}
+                                {columnSelect('Số tiền (+/-)', 'amount')}
+                                {columnSelect('Ghi nợ (tiền ra)', 'debit')}
+                                {columnSelect('Ghi có (tiền vào)', 'credit')}
+                                <div>
+                                    <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Định dạng ngày</label>
+                                    <select value={mapping.dateOrder} onChange={e => setMapping({ ...mapping, dateOrder: e.target.value as DateOrder })} className={selectStyle}>
+                                        {DATE_ORDERS.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+                                    </select>
+                                </div>
+                            </div>
+                            <p className="text-xs text-gray-500">ℹ️ Dùng cột "Số tiền" nếu sao kê có một cột âm/dương, hoặc "Ghi nợ" + "Ghi có" nếu tách riêng. Số tiền đọc theo định dạng Việt Nam (1.250.000 hoặc 12,5).</p>
+
+                            <div className="overflow-x-auto border border-gray-100 dark:border-gray-700 rounded-xl">
+                                <table className="w-full text-xs">
+                                    <thead className="bg-gray-50 dark:bg-gray-900 text-gray-500">
+                                        <tr>{raw.header.map((h, i) => <th key={i} className="px-3 py-2 text-left whitespace-nowrap">{h || `Cột ${i + 1}`}</th>)}</tr>
+                                    </thead>
+                                    <tbody>
+                                        {raw.rows.slice(0, 5).map((row, r) => (
+                                            <tr key={r} className="border-t border-gray-100 dark:border-gray-700 text-gray-700 dark:text-gray-300">
+                                                {raw.header.map((_, i) => <td key={i} className="px-3 py-2 whitespace-nowrap max-w-[200px] truncate">{row[i]}</td>)}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    )}
+
+                    {step === 'review' && (
+                        <div className="space-y-4">
+                            <div className="flex flex-wrap gap-2 items-center text-xs">
+                                <span className="bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300 px-2 py-1 rounded font-bold">{candidates.length} giao dịch</span>
+                                {duplicateCount > 0 && <span className="bg-orange-50 dark:bg-orange-900/20 text-orange-700 dark:text-orange-300 px-2 py-1 rounded font-bold">{duplicateCount} nghi trùng (đã bỏ chọn)</span>}
+                                {skippedRows > 0 && <span className="bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 px-2 py-1 rounded">{skippedRows} dòng bỏ qua (thiếu ngày/số tiền)</span>}
+                                {raw?.format === 'qif' && (
+                                    <select value={qifOrder} onChange={e => handleQifOrderChange(e.target.value as DateOrder)} className="ml-auto border border-gray-200 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200">
+                                        {DATE_ORDERS.filter(o => o.id !== 'YMD').map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+                                    </select>
+                                )}
+                            </div>
+
+                            <div className="overflow-x-auto border border-gray-100 dark:border-gray-700 rounded-xl">
+                                <table className="w-full text-xs">
+                                    <thead className="bg-gray-50 dark:bg-gray-900 text-gray-500">
+                                        <tr>
+                                            <th className="px-3 py-2">
+                                                <input type="checkbox" checked={selectedCount === candidates.length} onChange={e => setCandidates(prev => prev.map(c => ({ ...c, selected: e.target.checked })))} />
+                                            </th>
+                                            <th className="px-3 py-2 text-left">Ngày</th>
+                                            <th className="px-3 py-2 text-left">Nội dung</th>
+                                            <th className="px-3 py-2 text-left">Danh mục</th>
+                                            <th className="px-3 py-2 text-right">Số tiền</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {candidates.map(c => (
+                                            <tr key={c.key} className={`border-t border-gray-100 dark:border-gray-700 ${c.duplicateOf ? 'bg-orange-50/60 dark:bg-orange-900/10' : ''} ${c.selected ? '' : 'opacity-60'}`}>
+                                                <td className="px-3 py-2 text-center"><input type="checkbox" checked={c.selected} onChange={e => updateCandidate(c.key, { selected: e.target.checked })} /></td>
+                                                <td className="px-3 py-2 whitespace-nowrap text-gray-600 dark:text-gray-300">{formatDate(c.date)}</td>
+                                                <td className="px-3 py-2 text-gray-800 dark:text-gray-200 max-w-[280px]">
+                                                    <p className="truncate" title={c.description}>{c.description || '—'}</p>
+                                                    {c.duplicateOf && (
+                                                        <p className="text-[10px] text-orange-600 dark:text-orange-400 font-bold">
+                                                            ⚠️ Có thể trùng: {formatDate(c.duplicateOf.date)} • {c.duplicateOf.description || c.duplicateOf.category} ({Math.round(c.duplicateScore * 100)}%)
+                                                        </p>
+                                                    )}
+                                                </td>
+                                                <td className="px-3 py-2">
+                                                    <select value={c.category} onChange={e => updateCandidate(c.key, { category: e.target.value })} className="border border-gray-200 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200">
+                                                        {Array.from(new Set([c.category, ...(c.type === 'income' ? incomeCategories : expenseCategories)])).map(cat => <option key={cat} value={cat}>{cat}</option>)}
+                                                    </select>
+                                                </td>
+                                                <td className={`px-3 py-2 text-right font-bold whitespace-nowrap ${c.type === 'income' ? 'text-green-600' : 'text-red-600'}`}>
+                                                    {c.type === 'income' ? '+' : '-'}{formatCurrency(c.amount)}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                {step !== 'upload' && (
+                    <div className="p-4 border-t border-gray-100 dark:border-gray-700 flex justify-between gap-2 bg-gray-50 dark:bg-gray-900">
+                        <button onClick={() => setStep(step === 'review' && raw?.format === 'csv' ? 'mapping' : 'upload')} className="px-4 py-2 rounded-xl font-bold text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700">← Quay lại</button>
+                        {step === 'mapping' ? (
+                            <button onClick={handleApplyMapping} disabled={isWorking} className="px-6 py-2 rounded-xl font-bold text-sm bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-60">{isWorking ? 'Đang kiểm tra...' : 'Tiếp tục →'}</button>
+                        ) : (
+                            <button onClick={handleImport} disabled={isWorking || selectedCount === 0} className="px-6 py-2 rounded-xl font-bold text-sm bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-60">{isWorking ? 'Đang lưu...' : `Nhập ${selectedCount} giao dịch`}</button>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -2,6 +2,8 @@
 import React, { useState, useEffect } from 'react';
 import { Transaction } from '../types';
 import { financialService } from '../services/financial';
+import { currencyService } from '../services/currency';
+import { accountService } from '../services/accounts';
 
 interface TransactionListProps {
     uid?: string;
@@ -22,7 +24,7 @@ const getCategoryIcon = (name: string) => {
     return '💸';
 };
 
-const formatCurrency = (amount: number) => new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(amount);
+const formatCurrency = (amount: number) => currencyService.format(amount);
 const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('vi-VN');
 
 export const TransactionList: React.FC<TransactionListProps> = ({ uid, refreshTrigger, onDelete }) => {
@@ -39,7 +41,7 @@ export const TransactionList: React.FC<TransactionListProps> = ({ uid, refreshTr
         if (!uid) {
             const local = localStorage.getItem('dh_fin_trans');
             if (local) {
-                const all = JSON.parse(local) as Transaction[];
+                const all = (JSON.parse(local) as Transaction[]).map(t => accountService.migrateTransaction(t));
                 setTransactions(all.slice(0, PAGE_SIZE)); // Simple slice for guest
                 setHasMore(all.length > PAGE_SIZE);
             } else {
@@ -122,8 +124,8 @@ export const TransactionList: React.FC<TransactionListProps> = ({ uid, refreshTr
                     transactions.map((t) => (
                         <div key={t.id} className="flex items-center justify-between p-3 hover:bg-gray-50 dark:hover:bg-gray-700/50 rounded-xl border border-transparent hover:border-gray-100 dark:hover:border-gray-600 transition-all group">
                             <div className="flex items-center gap-3">
-                                <div className={`w-10 h-10 rounded-full flex items-center justify-center text-lg shrink-0 ${t.type === 'income' ? 'bg-green-50 dark:bg-green-900/20 text-green-600' : 'bg-red-50 dark:bg-red-900/20 text-red-500'}`}>
-                                    {getCategoryIcon(t.category)}
+                                <div className={`w-10 h-10 rounded-full flex items-center justify-center text-lg shrink-0 ${t.type === 'income' ? 'bg-green-50 dark:bg-green-900/20 text-green-600' : t.type === 'transfer' ? 'bg-blue-50 dark:bg-blue-900/20 text-blue-500' : t.type === 'adjustment' ? 'bg-gray-100 dark:bg-gray-700 text-gray-500' : 'bg-red-50 dark:bg-red-900/20 text-red-500'}`}>
+                                    {t.type === 'transfer' ? '⇄' : t.type === 'adjustment' ? '⚖️' : getCategoryIcon(t.category)}
                                 </div>
                                 <div>
                                     <p className="font-bold text-gray-800 dark:text-gray-200 text-sm">{t.category}</p>
@@ -131,9 +133,14 @@ export const TransactionList: React.FC<TransactionListProps> = ({ uid, refreshTr
                                 </div>
                             </div>
                             <div className="flex items-center gap-4">
-                                <span className={`font-bold text-sm ${t.type === 'income' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
-                                    {t.type === 'income' ? '+' : '-'}{formatCurrency(t.amount)}
-                                </span>
+                                <div className="text-right">
+                                    <span className={`font-bold text-sm ${t.type === 'income' ? 'text-green-600 dark:text-green-400' : t.type === 'transfer' ? 'text-blue-600 dark:text-blue-400' : t.type === 'adjustment' ? 'text-gray-500 dark:text-gray-400' : 'text-red-600 dark:text-red-400'}`}>
+                                        {t.type === 'adjustment' ? `${t.amount >= 0 ? '+' : '-'}${formatCurrency(Math.abs(t.amount))}` : `${t.type === 'income' ? '+' : t.type === 'transfer' ? '' : '-'}${formatCurrency(t.amount)}`}
+                                    </span>
+                                    {currencyService.formatOriginal(t) && (
+                                        <p className="text-[10px] text-gray-400">{currencyService.formatOriginal(t)} @ {t.fxRate?.toLocaleString('vi-VN')}</p>
+                                    )}
+                                </div>
                                 <button
                                     onClick={() => onDelete(t.id)}
                                     className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-500 p-1 transition-all"
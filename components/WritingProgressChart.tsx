@@ -0,0 +1,42 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, ResponsiveContainer, Legend } from 'recharts';
+import { WritingEssay, WRITING_TASK_LABELS, revisionScore } from '../services/writingHistory';
+
+interface WritingProgressChartProps {
+    essays: WritingEssay[];
+}
+
+const COLORS = ['#2563EB', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899'];
+
+export const WritingProgressChart: React.FC<WritingProgressChartProps> = ({ essays }) => {
+    // One line per task type and level; each point is a graded revision
+    const series = new Map<string, { ts: number; score: number; topic: string }[]>();
+    essays.forEach(essay => {
+        const name = `${WRITING_TASK_LABELS[essay.taskType]} • ${essay.level}`;
+        const points = series.get(name) || [];
+        essay.revisions.forEach(r => points.push({ ts: new Date(r.createdAt).getTime(), score: revisionScore(r), topic: essay.topic }));
+        series.set(name, points);
+    });
+    const lines = [...series.entries()].map(([name, points]) => ({ name, points: points.sort((a, b) => a.ts - b.ts) }));
+
+    if (!lines.some(l => l.points.length >= 2)) {
+        return <p className="text-xs text-gray-400 text-center py-4">Cần ít nhất 2 lần chấm cùng loại bài để vẽ biểu đồ.</p>;
+    }
+
+    return (
+        <div className="h-56">
+            <ResponsiveContainer width="100%" height="100%">
+                <LineChart margin={{ top: 5, right: 10, left: -20, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+                    <XAxis dataKey="ts" type="number" domain={['dataMin', 'dataMax']} scale="time" tickFormatter={ts => { const d = new Date(ts); return `${d.getDate()}/${d.getMonth() + 1}`; }} stroke="#9CA3AF" fontSize={10} allowDuplicatedCategory={false} />
+                    <YAxis domain={[0, 100]} stroke="#9CA3AF" fontSize={10} />
+                    <Tooltip labelFormatter={ts => new Date(Number(ts)).toLocaleString('vi-VN')} />
+                    <Legend wrapperStyle={{ fontSize: 11 }} />
+                    {lines.map((l, i) => (
+                        <Line key={l.name} data={l.points} type="monotone" dataKey="score" name={l.name} stroke={COLORS[i % COLORS.length]} strokeWidth={2} dot={{ r: 2 }} />
+                    ))}
+                </LineChart>
+            </ResponsiveContainer>
+        </div>
+    );
+};
@@ -0,0 +1,17 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Signal for the AI calls a component makes. It is aborted when the component unmounts, so
+ * navigating away cancels pending work instead of alerting on a page that is gone.
+ * StrictMode's mount → unmount → mount gets a fresh controller on the second mount.
+ */
+export const useAbortOnUnmount = () => {
+    const controllerRef = useRef<AbortController>(new AbortController());
+
+    useEffect(() => {
+        if (controllerRef.current.signal.aborted) controllerRef.current = new AbortController();
+        return () => controllerRef.current.abort();
+    }, []);
+
+    return useCallback(() => controllerRef.current.signal, []);
+};
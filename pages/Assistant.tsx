@@ -1,12 +1,17 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { geminiService, floatTo16BitPCM } from '../services/gemini';
+import { isAbortError } from '../services/aiPipeline';
+import { useAbortOnUnmount } from '../hooks/useAbortOnUnmount';
+import { AssistantPersona, personaInstruction, personaService } from '../services/personas';
 
 export const Assistant: React.FC = () => {
   const [mode, setMode] = useState<'chat' | 'live'>('chat');
   const [input, setInput] = useState('');
+  const [personas, setPersonas] = useState<AssistantPersona[]>(() => personaService.all());
+  const [persona, setPersona] = useState<AssistantPersona>(() => personaService.get(personaService.getDefaultId()));
   const [messages, setMessages] = useState<{ role: string, text: string }[]>([
-    { role: 'model', text: "Chào bạn! Mình là Nana, trợ lý học tập của bạn. Bạn cần giúp gì hôm nay?" }
+    { role: 'model', text: persona.greeting }
   ]);
   const [isLiveConnected, setIsLiveConnected] = useState(false);
   const [loading, setLoading] = useState(false);
@@ -20,15 +25,29 @@ export const Assistant: React.FC = () => {
   const processorRef = useRef<ScriptProcessorNode | null>(null);
   const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
   const nextStartTimeRef = useRef(0);
+  const unmountSignal = useAbortOnUnmount();
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages, loading]);
 
   useEffect(() => {
-    // Check key type on mount
-    const key = localStorage.getItem('dh_gemini_api_key') || '';
-    if (key.startsWith('sk-')) {
+    personaService.refresh().then(setPersonas).catch(e => console.warn("Failed to load personas", e));
+  }, []);
+
+  // Switching persona starts over, the previous replies were in another voice
+  const changePersona = (id: string) => {
+    const next = personas.find(p => p.id === id);
+    if (!next || next.id === persona.id) return;
+    if (isLiveRef.current) stopLive();
+    personaService.setDefaultId(next.id);
+    setPersona(next);
+    setMessages([{ role: 'model', text: next.greeting }]);
+  };
+
+  useEffect(() => {
+    // Live Voice needs a provider with realtime audio (Gemini only)
+    if (geminiService.hasKey() && !geminiService.supportsLive()) {
       setIsStandardTier(true);
     }
   }, []);
@@ -47,7 +66,8 @@ export const Assistant: React.FC = () => {
       const stream = geminiService.chatStream(
         history,
         input,
-        "Bạn là Nana, một trợ lý ảo thân thiện, vui vẻ, hỗ trợ học tập cho hệ thống DangHoang Ebook."
+        `${personaInstruction(persona)}\nYou support the user's learning in the DangHoang Ebook app.`,
+        { signal: unmountSignal() }
       );
 
       let fullText = '';
@@ -62,12 +82,13 @@ export const Assistant: React.FC = () => {
       }
 
     } catch (error) {
+      if (isAbortError(error)) return; // Left the page
       console.error(error);
       setMessages(prev => {
         if (prev[prev.length - 1].text === '') return prev.slice(0, -1);
         return prev;
       });
-      setMessages(prev => [...prev, { role: 'model', text: "Xin lỗi, Nana đang gặp sự cố kết nối. Vui lòng kiểm tra API Key trong Cài Đặt." }]);
+      setMessages(prev => [...prev, { role: 'model', text: `Xin lỗi, ${persona.name} đang gặp sự cố kết nối. Vui lòng kiểm tra API Key trong Cài Đặt.` }]);
     } finally {
       setLoading(false);
     }
@@ -94,7 +115,7 @@ export const Assistant: React.FC = () => {
           // Update UI with transcriptions if desired
           console.log(`User: ${userTrans}, Model: ${modelTrans}`);
         },
-        "Bạn tên là Nana. Hãy nói chuyện tự nhiên, ngắn gọn và vui vẻ bằng tiếng Việt."
+        `${personaInstruction(persona)}\nYou are talking by voice: keep replies short and natural.`
       );
 
       // Setup Microphone
@@ -173,9 +194,18 @@ export const Assistant: React.FC = () => {
       {/* Header */}
       <div className="p-4 border-b flex justify-between items-center bg-blue-600 text-white">
         <h2 className="font-bold text-lg flex items-center gap-2">
-          {mode === 'live' ? '🎙️ Nana Live (Voice)' : '💬 Nana Chat'}
+          {mode === 'live' ? `🎙️ ${persona.name} Live (Voice)` : `💬 ${persona.name} Chat`}
         </h2>
         <div className="flex gap-2">
+          <select
+            value={persona.id}
+            onChange={e => changePersona(e.target.value)}
+            disabled={loading}
+            className="bg-blue-700 text-white text-sm rounded px-2 py-1 outline-none border border-blue-500 max-w-[160px]"
+            title="Nhân vật trợ lý"
+          >
+            {personas.map(p => <option key={p.id} value={p.id}>{p.avatar} {p.name}</option>)}
+          </select>
           <button
             onClick={() => { if (mode === 'live') stopLive(); setMode('chat'); }}
             className={`px-3 py-1 rounded text-sm ${mode === 'chat' ? 'bg-white text-blue-600 font-bold' : 'bg-blue-700 text-blue-100'}`}
@@ -218,12 +248,12 @@ export const Assistant: React.FC = () => {
           <div className="flex flex-col items-center justify-center h-full space-y-6">
             <div className={`w-32 h-32 rounded-full flex items-center justify-center transition-all duration-500 ${isLiveConnected ? 'bg-blue-100 border-4 border-blue-500 animate-pulse' : 'bg-gray-200'
               }`}>
-              <span className="text-4xl">👩‍🚀</span>
+              <span className="text-4xl">{persona.avatar}</span>
             </div>
             <h3 className="text-xl font-semibold text-gray-700">
               {isStandardTier
                 ? "Tính năng bị giới hạn"
-                : (isLiveConnected ? "Nana đang lắng nghe..." : "Sẵn sàng trò chuyện")
+                : (isLiveConnected ? `${persona.name} đang lắng nghe...` : "Sẵn sàng trò chuyện")
               }
             </h3>
 
@@ -234,7 +264,7 @@ export const Assistant: React.FC = () => {
               </div>
             ) : !isLiveConnected ? (
               <button onClick={startLive} className="bg-blue-600 text-white px-6 py-3 rounded-full font-bold hover:bg-blue-700 shadow-lg transition-transform hover:scale-105">
-                Bắt đầu cuộc gọi ("Nana ơi")
+                Bắt đầu cuộc gọi ("{persona.name} ơi")
               </button>
             ) : (
               <button onClick={stopLive} className="bg-red-500 text-white px-6 py-3 rounded-full font-bold hover:bg-red-600 shadow-lg">
@@ -1,7 +1,9 @@
 
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { useLocation } from 'react-router-dom';
 import { CourseNode, CourseType, LessonContent } from '../types';
 import { firebaseService } from '../services/firebase';
+import { htmlToText } from '../services/rag';
 
 // --- Constants ---
 const LEVEL_OPTIONS = ['Cơ bản', 'Trung bình', 'Nâng cao', 'Chuyên sâu'];
@@ -36,6 +38,8 @@ const getSmartUrl = (url: string, type: CourseType) => {
     return url;
 };
 
+const MAX_LESSON_TEXT = 50_000; // The whole tree is saved as one Firestore document
+
 // --- Helper: Tree Operations ---
 const findNode = (nodes: CourseNode[], id: string): CourseNode | null => {
     for (const node of nodes) {
@@ -354,6 +358,10 @@ export const Courses: React.FC = () => {
     const [isUploading, setIsUploading] = useState(false);
     const [linkType, setLinkType] = useState<CourseType>(CourseType.VIDEO);
 
+    // Lesson (course node id) requested by another page via navigation state, e.g. Nana's citations
+    const location = useLocation();
+    const openedFromStateRef = useRef<string | null>(null);
+
     useEffect(() => {
         const load = async () => {
             let data: CourseNode[] | null = null;
@@ -395,6 +403,16 @@ export const Courses: React.FC = () => {
         }
     }, [courseTree]);
 
+    useEffect(() => {
+        const lessonId = (location.state as { lessonId?: string } | null)?.lessonId;
+        if (!lessonId || courseTree.length === 0 || openedFromStateRef.current === location.key) return;
+        const node = findNode(courseTree, lessonId);
+        if (node?.data) {
+            openedFromStateRef.current = location.key;
+            setSelectedLesson(node.data);
+        }
+    }, [location, courseTree]);
+
     // When lesson changes, update note content and ensure note sidebar state
     useEffect(() => {
         if (selectedLesson) {
@@ -485,10 +503,13 @@ export const Courses: React.FC = () => {
         setIsUploading(true);
         let finalUrl = resourceLink;
         let finalType = linkType;
+        let lessonText: string | undefined;
 
         try {
             if (activeTab === 'upload' && uploadedFile) {
                 finalUrl = await firebaseService.uploadFile(uploadedFile);
+                // Plain text of HTML lessons is kept in the tree so Nana can search it (rag.ts)
+                if (finalType === CourseType.HTML) lessonText = htmlToText(await uploadedFile.text()).slice(0, MAX_LESSON_TEXT);
             } else if (activeTab === 'link') {
                 // Auto-detect Drive/YouTube
                 if (finalUrl.includes('youtube') || finalUrl.includes('youtu.be')) finalType = CourseType.VIDEO;
@@ -515,7 +536,7 @@ export const Courses: React.FC = () => {
             setCourseTree(prev => {
                 let updated = updateNode(prev, editNodeId, {
                     title, topic, level,
-                    data: activeTab !== 'folder' ? { ...newNodeData, type: finalType } as LessonContent : undefined
+                    data: activeTab !== 'folder' ? { ...newNodeData, type: finalType, content: lessonText ?? findNode(prev, editNodeId)?.data?.content } as LessonContent : undefined
                 });
 
                 // Handle Move if Parent Changed via Dropdown
@@ -543,7 +564,7 @@ export const Courses: React.FC = () => {
                 topic, level,
                 data: activeTab !== 'folder' ? {
                     id: Date.now().toString(),
-                    title, type: finalType, url: finalUrl, topic, level
+                    title, type: finalType, url: finalUrl, topic, level, content: lessonText
                 } as LessonContent : undefined
             };
             setCourseTree(prev => insertNode(prev, newNode, parentId || 'root'));
@@ -5,9 +5,11 @@ import {
     BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, ResponsiveContainer,
     PieChart, Pie, Cell, AreaChart, Area
 } from 'recharts';
-import { CourseNode, VocabTerm, Transaction, Task, Habit } from '../types';
+import { CourseNode, VocabTerm, Transaction, Task, Habit, FinanceAccount } from '../types';
 import { firebaseService } from '../services/firebase';
 import { financialService } from '../services/financial';
+import { accountService, AccountSummary } from '../services/accounts';
+import { geminiService } from '../services/gemini';
 
 const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6'];
 
@@ -90,6 +92,7 @@ export const Dashboard: React.FC = () => {
         vocabCount: 0,
         pendingTasks: 0,
         financeBalance: 0,
+        accountBalances: [] as AccountSummary[],
         activeHabits: 0,
         habitStreak: 0
     });
@@ -129,7 +132,7 @@ export const Dashboard: React.FC = () => {
 
     const loadDashboardData = async () => {
         const user = firebaseService.currentUser;
-        let statsData = { vocabCount: 0, pendingTasks: 0, financeBalance: 0, activeHabits: 0, habitStreak: 0 };
+        let statsData = { vocabCount: 0, pendingTasks: 0, financeBalance: 0, accountBalances: [] as AccountSummary[], activeHabits: 0, habitStreak: 0 };
 
         let rawVocab: VocabTerm[] = [];
         let rawTasks: Task[] = [];
@@ -161,14 +164,17 @@ export const Dashboard: React.FC = () => {
                 rawVocab = JSON.parse(localStorage.getItem('dh_vocab_terms') || '[]');
                 rawTasks = JSON.parse(localStorage.getItem('dh_tasks') || '[]');
                 rawHabits = JSON.parse(localStorage.getItem('dh_habits') || '[]');
-                rawTrans = JSON.parse(localStorage.getItem('dh_fin_trans') || '[]');
+                rawTrans = (JSON.parse(localStorage.getItem('dh_fin_trans') || '[]') as Transaction[]).map(t => accountService.migrateTransaction(t));
 
                 // Calc Stats Locally
                 statsData.vocabCount = rawVocab.length;
                 statsData.pendingTasks = rawTasks.filter(t => !t.completed).length;
                 statsData.activeHabits = rawHabits.length;
                 statsData.habitStreak = rawHabits.length > 0 ? Math.max(...rawHabits.map(h => h.streak)) : 0;
-                statsData.financeBalance = rawTrans.reduce((acc, t) => acc + (t.type === 'income' ? t.amount : -t.amount), 0);
+                const rawAccounts: FinanceAccount[] = JSON.parse(localStorage.getItem('dh_fin_accounts') || '[]');
+                const balances = accountService.computeBalances(rawAccounts, rawTrans);
+                statsData.financeBalance = accountService.totalBalance(balances, rawAccounts);
+                statsData.accountBalances = accountService.summarize(rawAccounts, balances);
             } catch (e) {
                 console.error("Dashboard local load error", e);
             }
@@ -208,14 +214,16 @@ export const Dashboard: React.FC = () => {
 
         // Recent Finance
         rawTrans.slice(0, 15).forEach(t => {
+            const isTransfer = t.type === 'transfer';
+            const isAdjustment = t.type === 'adjustment';
             newActivities.push({
                 id: `fin_${t.id}`,
                 type: 'finance',
-                title: `${t.type === 'income' ? 'Thu' : 'Chi'}: ${new Intl.NumberFormat('vi-VN').format(t.amount)}đ`,
+                title: `${t.type === 'income' ? 'Thu' : isTransfer ? 'Chuyển' : isAdjustment ? 'Điều chỉnh' : 'Chi'}: ${new Intl.NumberFormat('vi-VN').format(t.amount)}đ`,
                 subtitle: t.category,
                 timestamp: new Date(t.date).getTime() + 36000000, // Approximate time (10am)
-                icon: t.type === 'income' ? '💰' : '💸',
-                color: t.type === 'income' ? 'border-green-500 text-green-600 bg-green-50' : 'border-red-500 text-red-600 bg-red-50'
+                icon: t.type === 'income' ? '💰' : isTransfer ? '⇄' : isAdjustment ? '⚖️' : '💸',
+                color: t.type === 'income' ? 'border-green-500 text-green-600 bg-green-50' : isTransfer ? 'border-blue-500 text-blue-600 bg-blue-50' : isAdjustment ? 'border-gray-400 text-gray-600 bg-gray-50' : 'border-red-500 text-red-600 bg-red-50'
             });
         });
 
@@ -269,10 +277,7 @@ export const Dashboard: React.FC = () => {
         // Storage Check
         let total = 0;
         for (const key in localStorage) if (localStorage.hasOwnProperty(key)) total += (localStorage[key].length + key.length) * 2;
-        const localKey = localStorage.getItem('dh_gemini_api_key');
-        const hasActiveKey = !!localKey || (!!process.env.API_KEY && process.env.API_KEY.length > 10);
-
-        setSystemStatus(prev => ({ ...prev, storageUsed: total, hasApiKey: hasActiveKey }));
+        setSystemStatus(prev => ({ ...prev, storageUsed: total, hasApiKey: geminiService.hasKey() }));
     };
 
     const formatVND = (val: number) => new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND', maximumFractionDigits: 0 }).format(val);
@@ -314,7 +319,7 @@ export const Dashboard: React.FC = () => {
             <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-4">
                 <StatCard title="Từ vựng đã lưu" value={stats.vocabCount} subValue="Trong thư viện" icon="📚" colorGradient="bg-gradient-to-br from-blue-500 to-blue-600" />
                 <StatCard title="Công việc tồn đọng" value={stats.pendingTasks} subValue="Cần hoàn thành" icon="⚡" colorGradient="bg-gradient-to-br from-orange-400 to-red-500" />
-                <StatCard title="Tài chính hiện tại" value={formatVND(stats.financeBalance)} subValue="Dòng tiền ròng" icon="💰" colorGradient="bg-gradient-to-br from-emerald-500 to-green-600" />
+                <StatCard title="Tài chính hiện tại" value={formatVND(stats.financeBalance)} subValue={stats.accountBalances.length > 1 ? `Tổng ${stats.accountBalances.length} tài khoản` : 'Số dư hiện tại'} icon="💰" colorGradient="bg-gradient-to-br from-emerald-500 to-green-600" />
                 <StatCard title="Thói quen tích cực" value={stats.activeHabits} subValue={`Chuỗi cao nhất: ${stats.habitStreak} 🔥`} icon="🎯" colorGradient="bg-gradient-to-br from-violet-500 to-purple-600" />
             </div>
 
@@ -402,6 +407,33 @@ export const Dashboard: React.FC = () => {
                 {/* Right Column: Sidebar (4/12) */}
                 <div className="xl:col-span-4 space-y-6">
 
+                    {/* Account Balances */}
+                    {stats.accountBalances.length > 0 && (
+                        <div className="bg-white dark:bg-gray-800 p-5 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700">
+                            <div className="flex justify-between items-center mb-4">
+                                <h3 className="font-bold text-sm text-gray-800 dark:text-white flex items-center gap-2"><span>👛</span> Tài khoản</h3>
+                                <Link to="/finance" className="text-[10px] text-blue-600 font-bold hover:underline">Đối soát</Link>
+                            </div>
+                            <div className="space-y-2">
+                                {stats.accountBalances.map(a => {
+                                    const age = a.lastReconciledAt ? Math.floor((Date.now() - new Date(a.lastReconciledAt).getTime()) / 86400000) : null;
+                                    return (
+                                        <div key={a.id} className="flex items-center justify-between p-2 rounded-xl bg-gray-50 dark:bg-gray-700/50">
+                                            <div className="flex items-center gap-2 min-w-0">
+                                                <span>{accountService.getTypeMeta(a.type).icon}</span>
+                                                <div className="min-w-0">
+                                                    <p className="font-bold text-xs text-gray-800 dark:text-gray-200 truncate">{a.name}</p>
+                                                    <p className={`text-[10px] ${age === null || age > 30 ? 'text-orange-500' : 'text-gray-400'}`}>{age === null ? 'Chưa đối soát' : `Đối soát ${age} ngày trước`}</p>
+                                                </div>
+                                            </div>
+                                            <span className={`text-xs font-bold ${a.balance < 0 ? 'text-red-600' : 'text-gray-800 dark:text-white'}`}>{formatVND(a.balance)}</span>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    )}
+
                     {/* Activity Feed */}
                     <div className="bg-white dark:bg-gray-800 p-5 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700 h-[400px] flex flex-col">
                         <div className="flex justify-between items-center mb-4 shrink-0">
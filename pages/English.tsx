@@ -1,9 +1,23 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { geminiService, SpeakingSuggestion } from '../services/gemini';
-import { VocabFolder, VocabTerm, SpeakingSession } from '../types';
-import { Link } from 'react-router-dom';
+import { VocabSuggestion, GrammarQuestion, GrammarGrading, EssayGrading, ReadingPassage, DictionaryEntry, ListeningExercise } from '../services/aiSchemas';
+import { VocabTerm, VocabSource, SpeakingSession, SpeakingTurnScore, ReviewGrade, MockExamType, MockExamSectionId, MockExamResult, MockExamSectionResult, MockExamItemResult } from '../types';
+import { Link, useLocation } from 'react-router-dom';
 import { firebaseService } from '../services/firebase';
+import { srsService } from '../services/srs';
+import { vocabService } from '../services/vocab';
+import { readingLibraryService, SavedReadingPassage, countWords, estimateReadingMinutes, unknownWordPercent } from '../services/readingLibrary';
+import { isAbortError } from '../services/aiPipeline';
+import { useAbortOnUnmount } from '../hooks/useAbortOnUnmount';
+import { pronunciationService, summarizeScores, measureSpeech, encodeWav } from '../services/pronunciation';
+import { mockExamService, MOCK_EXAM_FORMATS, MOCK_EXAM_SECTIONS, sectionResult, overallResult, quizPercent } from '../services/mockExam';
+import { SpeakingProgressChart } from '../components/SpeakingProgressChart';
+import { WritingProgressChart } from '../components/WritingProgressChart';
+import { grammarMasteryService, GRAMMAR_TOPICS, TopicMastery, GrammarMistake, gradeQuizLocally } from '../services/grammarMastery';
+import { listeningService, ListeningResult, ListeningMode, DictationAlignment, DictationToken, LISTENING_RATES, alignDictation, scriptOf } from '../services/listening';
+import { speechService } from '../services/speech';
+import { writingHistoryService, WritingEssay, WritingTaskType, CorrectionDecision, WRITING_TASK_LABELS, ERROR_CATEGORY_LABELS, diffWords, revisionScore, recurringErrors } from '../services/writingHistory';
 
 // --- Constants ---
 const QUESTIONS_DB = [
@@ -55,34 +69,11 @@ const SUGGESTED_VOCAB_TOPICS = [
     "History", "Space Exploration", "Law & Order", "Architecture", "Economy"
 ];
 
-const SUGGESTED_GRAMMAR_TOPICS = [
-    "Present Simple", "Past Perfect", "Conditionals", "Passive Voice", "Relative Clauses",
-    "Modal Verbs", "Reported Speech", "Gerunds & Infinitives", "Articles", "Prepositions",
-    "Future Forms", "Comparatives", "Question Tags", "Inversion", "Subjunctive",
-    "Causative Form", "Phrasal Verbs", "Used to / Would", "Quantifiers", "Linking Words"
-];
-
 const DAILY_VOCAB_LIMIT = 10;
 
 // --- Types & Helpers ---
 type SpeakingMode = 'basic' | 'advanced' | 'image' | 'test' | null;
 
-interface GrammarQuestion {
-    id: number;
-    question: string;
-    options: string[];
-    correctAnswer?: string; // Hidden in real app until graded, but used for mock logic if needed
-}
-
-interface GrammarResult {
-    score: number;
-    results: {
-        id: number;
-        isCorrect: boolean;
-        explanation: string;
-    }[];
-}
-
 // --- SHARED COMPONENTS ---
 
 const ExternalBrowser = ({ url, title, onClose }: { url: string, title: string, onClose: () => void }) => {
@@ -233,19 +224,25 @@ const ManualVocabPanel: React.FC<ManualVocabPanelProps> = ({ onSave, folderLabel
 };
 
 // --- VOCAB & GRAMMAR MODULE (Preserved) ---
-const VocabAndGrammarModule = ({ level, onSaveVocab }: { level: string, onSaveVocab: (w: string, m: string, c: string, targetFolderId?: string) => void }) => {
-    const [subTab, setSubTab] = useState<'menu' | 'vocab_ai' | 'grammar_ai' | 'grammar_web'>('menu');
+const VocabAndGrammarModule = ({ level, onSaveVocab }: { level: string, onSaveVocab: (w: string, m: string, c: string, targetFolderId?: string, ipa?: string, source?: VocabSource) => void }) => {
+    const unmountSignal = useAbortOnUnmount();
+    const [subTab, setSubTab] = useState<'menu' | 'vocab_ai' | 'grammar_ai' | 'grammar_web' | 'grammar_progress'>('menu');
     const [grammarTopic, setGrammarTopic] = useState('');
+    const [quizTitle, setQuizTitle] = useState('');
+    const [drillIds, setDrillIds] = useState<Record<number, string> | null>(null); // Set while re-drilling the mistake bank
+    const [mastery, setMastery] = useState<TopicMastery[]>([]);
+    const [mistakes, setMistakes] = useState<GrammarMistake[]>([]);
     const [grammarQuestions, setGrammarQuestions] = useState<GrammarQuestion[]>([]);
     const [userAnswers, setUserAnswers] = useState<Record<number, string>>({});
-    const [grammarResult, setGrammarResult] = useState<GrammarResult | null>(null);
+    const [grammarResult, setGrammarResult] = useState<GrammarGrading | null>(null);
     const [isProcessing, setIsProcessing] = useState(false);
     const [vocabTopic, setVocabTopic] = useState('');
-    const [generatedVocab, setGeneratedVocab] = useState<any[]>([]);
+    const [generatedVocab, setGeneratedVocab] = useState<VocabSuggestion[]>([]);
     const [savedSet, setSavedSet] = useState<Set<string>>(new Set());
     const [vocabSubMode, setVocabSubMode] = useState<'generate' | 'review'>('generate');
-    const [reviewTerms, setReviewTerms] = useState<VocabTerm[]>([]);
-    const [currentCardIndex, setCurrentCardIndex] = useState(0);
+    const [reviewTerms, setReviewTerms] = useState<VocabTerm[]>([]); // Remaining SRS queue for today
+    const [allTerms, setAllTerms] = useState<VocabTerm[]>([]);
+    const [reviewedCount, setReviewedCount] = useState(0);
     const [isCardFlipped, setIsCardFlipped] = useState(false);
     const [dailyCount, setDailyCount] = useState(0);
 
@@ -267,18 +264,45 @@ const VocabAndGrammarModule = ({ level, onSaveVocab }: { level: string, onSaveVo
 
     useEffect(() => { setDailyCount(getDailyUsage()); }, [subTab]);
 
-    const handleGenerateQuiz = async () => {
-        if (!grammarTopic.trim()) return alert("Vui lòng nhập chủ đề ngữ pháp (VD: Present Simple)");
+    useEffect(() => {
+        grammarMasteryService.getMastery().then(setMastery);
+        grammarMasteryService.getMistakes().then(setMistakes);
+    }, []);
+
+    const masteryOf = (topic: string) => mastery.find(m => m.id === topic);
+
+    const startQuiz = async (title: string, load: () => Promise<GrammarQuestion[]>, drill: Record<number, string> | null = null) => {
         setIsProcessing(true);
         setGrammarQuestions([]);
         setGrammarResult(null);
         setUserAnswers({});
         try {
-            const jsonStr = await geminiService.generateGrammarQuiz(level, grammarTopic);
-            const questions = JSON.parse(jsonStr.replace(/```json|```/g, '').trim());
+            const questions = await load();
+            setQuizTitle(title);
+            setDrillIds(drill);
             setGrammarQuestions(questions);
             setSubTab('grammar_ai');
-        } catch (e: any) { alert(e.message || "Lỗi tạo đề thi. Vui lòng thử lại."); } finally { setIsProcessing(false); }
+        } catch (e: any) { if (isAbortError(e)) return; alert(e.message || "Lỗi tạo đề thi. Vui lòng thử lại."); } finally { setIsProcessing(false); }
+    };
+
+    const handleGenerateQuiz = async () => {
+        if (!grammarTopic.trim()) return alert("Vui lòng nhập chủ đề ngữ pháp (VD: Present Simple)");
+        const topic = grammarTopic.trim();
+        await startQuiz(topic, async () => {
+            const difficulty = await grammarMasteryService.difficultyFor(topic, level);
+            return geminiService.generateAdaptiveGrammarQuiz(level, [{ topic, difficulty }], 10, { signal: unmountSignal() });
+        });
+    };
+
+    const handleAdaptiveQuiz = async () => {
+        const targets = await grammarMasteryService.pickTargets(level);
+        await startQuiz(`Luyện thông minh: ${targets.map(t => t.topic).join(', ')}`, () => geminiService.generateAdaptiveGrammarQuiz(level, targets, 10, { signal: unmountSignal() }));
+    };
+
+    const handleDrillMistakes = async () => {
+        const drill = await grammarMasteryService.buildDrill();
+        if (drill.questions.length === 0) return alert("Kho lỗi sai đang trống. Làm thêm vài bài quiz nhé!");
+        await startQuiz('Ôn lại lỗi sai', async () => drill.questions, drill.mistakeIds);
     };
 
     const handleGradeQuiz = async () => {
@@ -287,10 +311,18 @@ const VocabAndGrammarModule = ({ level, onSaveVocab }: { level: string, onSaveVo
         }
         setIsProcessing(true);
         try {
-            const jsonStr = await geminiService.gradeGrammarQuiz(level, grammarQuestions, userAnswers);
-            const result = JSON.parse(jsonStr.replace(/```json|```/g, '').trim());
+            // The AI grader is only needed when a question came without a usable answer
+            const result = gradeQuizLocally(grammarQuestions, userAnswers) || await geminiService.gradeGrammarQuiz(level, grammarQuestions, userAnswers, { signal: unmountSignal() });
             setGrammarResult(result);
-        } catch (e: any) { alert(e.message || "Lỗi chấm điểm."); } finally { setIsProcessing(false); }
+            if (drillIds) await grammarMasteryService.recordDrill(drillIds, result, userAnswers);
+            else setMastery(await grammarMasteryService.recordQuiz(grammarQuestions, userAnswers, result, quizTitle, level));
+            setMistakes(await grammarMasteryService.getMistakes());
+        } catch (e: any) { if (isAbortError(e)) return; alert(e.message || "Lỗi chấm điểm."); } finally { setIsProcessing(false); }
+    };
+
+    const removeMistake = async (id: string) => {
+        await grammarMasteryService.removeMistake(id);
+        setMistakes(prev => prev.filter(m => m.id !== id));
     };
 
     const handleGenerateVocab = async () => {
@@ -299,29 +331,49 @@ const VocabAndGrammarModule = ({ level, onSaveVocab }: { level: string, onSaveVo
         if (usage >= DAILY_VOCAB_LIMIT) { return alert(`Bạn đã đạt giới hạn ${DAILY_VOCAB_LIMIT} từ vựng cho hôm nay. Vui lòng quay lại vào ngày mai hoặc ôn tập từ cũ.`); }
         setIsProcessing(true);
         try {
-            const jsonStr = await geminiService.generateDailyVocabulary(level, vocabTopic);
-            const newWords = JSON.parse(jsonStr.replace(/```json|```/g, '').trim());
+            const newWords = await geminiService.generateDailyVocabulary(level, vocabTopic, { signal: unmountSignal() });
             setGeneratedVocab(newWords);
             updateDailyUsage(newWords.length);
             setDailyCount(prev => prev + newWords.length);
             setVocabSubMode('generate');
             setSubTab('vocab_ai');
-        } catch (e: any) { alert(e.message || "Lỗi tạo từ vựng."); } finally { setIsProcessing(false); }
+        } catch (e: any) { if (isAbortError(e)) return; alert(e.message || "Lỗi tạo từ vựng."); } finally { setIsProcessing(false); }
     };
 
     const loadReviewTerms = () => {
-        const stored = localStorage.getItem('dh_vocab_terms');
-        if (stored) {
-            const terms = JSON.parse(stored);
-            setReviewTerms(terms.sort(() => Math.random() - 0.5));
-            setCurrentCardIndex(0);
-            setIsCardFlipped(false);
-        }
+        const terms = vocabService.getTerms();
+        const { queue } = srsService.buildDailyQueue(terms);
+        setAllTerms(terms);
+        setReviewTerms(queue);
+        setReviewedCount(0);
+        setIsCardFlipped(false);
         setVocabSubMode('review');
     };
 
+    const handleGradeCard = (grade: ReviewGrade) => {
+        const card = reviewTerms[0];
+        if (!card) return;
+        const updated = srsService.schedule(card, grade);
+        const nextTerms = allTerms.map(t => t.id === updated.id ? updated : t);
+        setAllTerms(nextTerms);
+        firebaseService.saveUserData('vocab_terms', nextTerms);
+
+        // "Again" cards are re-queued at the end of today's session
+        setReviewTerms(prev => grade === 'again' ? [...prev.slice(1), updated] : prev.slice(1));
+        setReviewedCount(prev => prev + 1);
+        setIsCardFlipped(false);
+    };
+
+    const getNextDueLabel = () => {
+        const upcoming = allTerms
+            .filter(t => t.srs)
+            .map(t => new Date(t.srs!.dueDate).getTime())
+            .sort((a, b) => a - b)[0];
+        return upcoming ? new Date(upcoming).toLocaleString('vi-VN') : null;
+    };
+
     const saveGeneratedWord = (v: any) => {
-        onSaveVocab(v.term, v.meaning, v.example, 'folder_vocab_general');
+        onSaveVocab(v.term, v.meaning, v.example, 'folder_vocab_general', v.ipa, { type: 'ai', ...(vocabTopic ? { label: vocabTopic } : {}) });
         setSavedSet(prev => new Set(prev).add(v.term));
     };
 
@@ -358,10 +410,15 @@ const VocabAndGrammarModule = ({ level, onSaveVocab }: { level: string, onSaveVo
                             <div className="w-full mb-3">
                                 <input value={grammarTopic} onChange={e => setGrammarTopic(e.target.value)} placeholder="Chủ đề (VD: Passive Voice)..." className="w-full px-4 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-400 bg-white text-gray-900 font-medium shadow-sm" />
                                 <div className="flex gap-2 mt-2 overflow-x-auto custom-scrollbar pb-2 justify-start md:justify-center max-w-full">
-                                    {SUGGESTED_GRAMMAR_TOPICS.map(t => (<button key={t} onClick={() => setGrammarTopic(t)} className="text-[10px] bg-gray-100 hover:bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300 px-3 py-1.5 rounded-full whitespace-nowrap transition-colors border border-gray-200 dark:border-gray-600"> {t} </button>))}
+                                    {GRAMMAR_TOPICS.map(({ name }) => { const m = masteryOf(name); return (<button key={name} onClick={() => setGrammarTopic(name)} title={m ? `Thành thạo ${Math.round(m.mastery * 100)}% • Độ khó ${m.difficulty}/5` : 'Chưa luyện'} className={`text-[10px] px-3 py-1.5 rounded-full whitespace-nowrap transition-colors border ${!m ? 'bg-gray-100 hover:bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300 border-gray-200 dark:border-gray-600' : m.mastery >= 0.7 ? 'bg-green-50 text-green-700 border-green-200' : 'bg-red-50 text-red-700 border-red-200'}`}> {name} </button>); })}
                                 </div>
                             </div>
                             <button onClick={handleGenerateQuiz} disabled={isProcessing} className="w-full bg-indigo-600 text-white font-bold py-2.5 rounded-lg hover:bg-indigo-700 transition-colors mt-auto shadow-md active:scale-95"> {isProcessing && grammarTopic ? 'Đang tạo...' : 'Tạo đề thi'} </button>
+                            <div className="grid grid-cols-2 gap-2 w-full mt-2">
+                                <button onClick={handleAdaptiveQuiz} disabled={isProcessing} className="bg-indigo-50 dark:bg-indigo-900/20 text-indigo-700 dark:text-indigo-300 font-bold py-2 rounded-lg hover:bg-indigo-100 transition-colors text-xs">🎯 Luyện chủ đề yếu</button>
+                                <button onClick={handleDrillMistakes} disabled={isProcessing} className="bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 font-bold py-2 rounded-lg hover:bg-red-100 transition-colors text-xs">🔁 Ôn lỗi sai ({mistakes.length})</button>
+                            </div>
+                            <button onClick={() => setSubTab('grammar_progress')} className="text-xs text-gray-500 hover:text-indigo-600 font-bold mt-2">📊 Xem tiến độ ngữ pháp</button>
                         </div>
                         <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-green-100 dark:border-green-900/30 flex flex-col items-center text-center hover:shadow-lg transition-all cursor-pointer group" onClick={() => setSubTab('grammar_web')}>
                             <div className="text-5xl mb-4 group-hover:scale-110 transition-transform">📝</div>
@@ -373,6 +430,53 @@ const VocabAndGrammarModule = ({ level, onSaveVocab }: { level: string, onSaveVo
                 </div>
             );
         }
+        if (subTab === 'grammar_progress') {
+            const practiced = GRAMMAR_TOPICS.map(t => t.name).concat(mastery.map(m => m.id).filter(id => !GRAMMAR_TOPICS.some(t => t.name === id)));
+            return (
+                <div className="h-full overflow-y-auto p-4 md:p-8 bg-gray-50 dark:bg-gray-900">
+                    <div className="max-w-4xl mx-auto space-y-6">
+                        <div className="flex items-center justify-between"> <button onClick={() => setSubTab('menu')} className="text-gray-500 hover:text-gray-800 font-bold">← Menu</button> <h2 className="text-2xl font-bold text-gray-800 dark:text-white">Tiến độ Ngữ pháp</h2> <div className="w-16"></div> </div>
+                        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl border border-gray-200 dark:border-gray-700 grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-3">
+                            {practiced.map(name => {
+                                const m = masteryOf(name);
+                                const pct = m ? Math.round(m.mastery * 100) : 0;
+                                return (
+                                    <div key={name}>
+                                        <div className="flex justify-between text-sm mb-1">
+                                            <span className="font-medium text-gray-800 dark:text-gray-200">{name}</span>
+                                            <span className="text-xs text-gray-500">{m ? `${pct}% • Độ khó ${m.difficulty}/5 • ${m.correct}/${m.attempts}` : 'Chưa luyện'}</span>
+                                        </div>
+                                        <div className="h-2 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden"><div className={`h-full ${pct >= 70 ? 'bg-green-500' : pct >= 40 ? 'bg-yellow-500' : 'bg-red-500'}`} style={{ width: `${pct}%` }} /></div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        <div>
+                            <div className="flex justify-between items-center mb-3">
+                                <h3 className="font-bold text-gray-800 dark:text-white">Kho lỗi sai ({mistakes.length})</h3>
+                                {mistakes.length > 0 && <button onClick={handleDrillMistakes} disabled={isProcessing} className="bg-red-600 text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-red-700">🔁 Ôn ngay</button>}
+                            </div>
+                            {mistakes.length === 0 && <p className="text-sm text-gray-400 italic">Chưa có lỗi sai nào được lưu.</p>}
+                            <div className="space-y-2">
+                                {mistakes.map(m => (
+                                    <div key={m.id} className="p-4 rounded-xl bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+                                        <div className="flex justify-between gap-3">
+                                            <div className="min-w-0">
+                                                <span className="text-[10px] font-bold uppercase text-indigo-500">{m.topic} • sai {m.wrongCount} lần{m.streak > 0 ? ` • đúng ${m.streak} lần liên tiếp` : ''}</span>
+                                                <p className="text-sm font-medium text-gray-800 dark:text-gray-200">{m.question}</p>
+                                                <p className="text-xs mt-1"><span className="text-red-600 line-through mr-2">{m.userAnswer || '(bỏ trống)'}</span><span className="text-green-600 font-bold">{m.correctAnswer}</span></p>
+                                                {m.explanation && <p className="text-xs text-gray-500 italic mt-1">{m.explanation}</p>}
+                                            </div>
+                                            <button onClick={() => removeMistake(m.id)} className="text-gray-400 hover:text-red-500 text-sm shrink-0" title="Xóa khỏi kho">✕</button>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            );
+        }
         if (subTab === 'grammar_web') {
             return (<div className="h-full p-4 bg-gray-100 dark:bg-gray-900"> <ExternalBrowser url="https://www.aptiskey.com/grammar_bode.html" title="Grammar Practice Library" onClose={() => setSubTab('menu')} /> </div>);
         }
@@ -381,10 +485,11 @@ const VocabAndGrammarModule = ({ level, onSaveVocab }: { level: string, onSaveVo
             return (
                 <div className="h-full overflow-y-auto p-4 md:p-8 bg-gray-50 dark:bg-gray-900">
                     <div className="max-w-3xl mx-auto">
-                        <div className="flex items-center justify-between mb-6"> <button onClick={() => setSubTab('menu')} className="text-gray-500 hover:text-gray-800 font-bold">← Menu</button> <h2 className="text-2xl font-bold text-gray-800 dark:text-white text-center">Quiz: {grammarTopic}</h2> <div className="w-16"></div> </div>
+                        <div className="flex items-center justify-between mb-6"> <button onClick={() => setSubTab('menu')} className="text-gray-500 hover:text-gray-800 font-bold">← Menu</button> <h2 className="text-2xl font-bold text-gray-800 dark:text-white text-center">Quiz: {quizTitle}</h2> <div className="w-16"></div> </div>
                         <div className="space-y-6">
                             {grammarQuestions.map((q, idx) => (
                                 <div key={idx} className="bg-white dark:bg-gray-800 p-6 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm">
+                                    {q.topic && q.topic !== quizTitle && <span className="text-[10px] font-bold uppercase text-indigo-400">{q.topic}</span>}
                                     <p className="font-bold text-lg mb-4 text-gray-900 dark:text-white"><span className="text-indigo-500 mr-2">Q{idx + 1}.</span> {q.question}</p>
                                     <div className="space-y-2">
                                         {q.options.map((opt, i) => {
@@ -396,6 +501,8 @@ const VocabAndGrammarModule = ({ level, onSaveVocab }: { level: string, onSaveVo
                                                     if (isSelected && !res.isCorrect) resultClass = 'bg-red-100 border-red-300 text-red-800';
                                                     else if (isSelected && res.isCorrect) resultClass = 'bg-green-100 border-green-300 text-green-800';
                                                 }
+                                                // Show the right option too when the answer was wrong
+                                                if (!isSelected && res && !res.isCorrect && q.correctAnswer === opt) return (<div key={i} className="p-3 rounded-lg border border-green-300 border-dashed text-green-700"> {opt} </div>);
                                             }
                                             return (<div key={i} onClick={() => !grammarResult && setUserAnswers(prev => ({ ...prev, [q.id]: opt }))} className={`p-3 rounded-lg border cursor-pointer transition-all ${isSelected ? (grammarResult ? resultClass : 'bg-indigo-50 border-indigo-500 text-indigo-700') : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'}`}> {opt} </div>)
                                         })}
@@ -405,7 +512,7 @@ const VocabAndGrammarModule = ({ level, onSaveVocab }: { level: string, onSaveVo
                             ))}
                         </div>
                         {!grammarResult && (<div className="mt-8 flex justify-center"> <button onClick={handleGradeQuiz} disabled={isProcessing} className="bg-indigo-600 text-white px-10 py-3 rounded-full font-bold text-lg shadow-lg hover:bg-indigo-700 transition-all"> {isProcessing ? 'Đang chấm...' : 'Nộp Bài'} </button> </div>)}
-                        {grammarResult && (<div className="mt-8 p-6 bg-white dark:bg-gray-800 rounded-xl border-t-4 border-indigo-500 text-center shadow-lg animate-slide-up"> <p className="text-gray-500 uppercase font-bold text-sm mb-2">Kết quả của bạn</p> <div className="text-5xl font-bold text-indigo-600 mb-4">{grammarResult.score}/10</div> <button onClick={() => setSubTab('menu')} className="bg-gray-200 hover:bg-gray-300 text-gray-800 px-6 py-2 rounded-lg font-bold transition-colors">Làm bài khác</button> </div>)}
+                        {grammarResult && (<div className="mt-8 p-6 bg-white dark:bg-gray-800 rounded-xl border-t-4 border-indigo-500 text-center shadow-lg animate-slide-up"> <p className="text-gray-500 uppercase font-bold text-sm mb-2">Kết quả của bạn</p> <div className="text-5xl font-bold text-indigo-600 mb-4">{grammarResult.score}/{grammarQuestions.length}</div> {!drillIds && grammarQuestions.some(q => !grammarResult.results.find(r => r.id === q.id)?.isCorrect) && <p className="text-xs text-gray-500 mb-4">Các câu sai đã được lưu vào kho lỗi sai để ôn lại.</p>} <button onClick={() => setSubTab('menu')} className="bg-gray-200 hover:bg-gray-300 text-gray-800 px-6 py-2 rounded-lg font-bold transition-colors">Làm bài khác</button> </div>)}
                     </div>
                 </div>
             );
@@ -437,16 +544,38 @@ const VocabAndGrammarModule = ({ level, onSaveVocab }: { level: string, onSaveVo
                             </>
                         ) : (
                             <div className="flex flex-col items-center justify-center min-h-[400px]">
-                                {reviewTerms.length > 0 ? (
-                                    <div className="w-full max-w-md">
-                                        <div onClick={() => setIsCardFlipped(!isCardFlipped)} className="relative h-64 w-full bg-white dark:bg-gray-800 rounded-2xl shadow-xl cursor-pointer perspective-1000 group transition-all hover:scale-[1.02]">
-                                            <div className="flex flex-col items-center justify-center h-full p-8 text-center border border-gray-200 dark:border-gray-700 rounded-2xl">
-                                                {!isCardFlipped ? (<> <h3 className="text-4xl font-bold text-gray-800 dark:text-white mb-2">{reviewTerms[currentCardIndex].term}</h3> <p className="text-gray-400 font-mono text-lg mb-4">/{reviewTerms[currentCardIndex].term}/</p> <span className="text-sm bg-gray-100 dark:bg-gray-700 px-3 py-1 rounded-full text-gray-600 dark:text-gray-300">{reviewTerms[currentCardIndex].partOfSpeech}</span> <p className="absolute bottom-4 text-xs text-gray-400 animate-pulse">Click to flip</p> </>) : (<> <h3 className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-4">{reviewTerms[currentCardIndex].meaning}</h3> <p className="text-gray-600 dark:text-gray-300 italic">"{reviewTerms[currentCardIndex].example}"</p> </>)}
+                                {reviewTerms.length > 0 ? (() => {
+                                    const card = reviewTerms[0];
+                                    const preview = srsService.previewIntervals(card);
+                                    const gradeButtons: { grade: ReviewGrade, label: string, className: string }[] = [
+                                        { grade: 'again', label: 'Again', className: 'bg-red-500 hover:bg-red-600' },
+                                        { grade: 'hard', label: 'Hard', className: 'bg-orange-500 hover:bg-orange-600' },
+                                        { grade: 'good', label: 'Good', className: 'bg-green-600 hover:bg-green-700' },
+                                        { grade: 'easy', label: 'Easy', className: 'bg-blue-600 hover:bg-blue-700' },
+                                    ];
+                                    return (
+                                        <div className="w-full max-w-md">
+                                            <div className="flex justify-between items-center mb-4 text-xs font-bold text-gray-500"> <span>Đã ôn: {reviewedCount}</span> <span>{card.srs ? `Ôn lại • Lần ${card.srs.repetitions + 1}` : 'Từ mới'}</span> <span>Còn lại: {reviewTerms.length}</span> </div>
+                                            <div onClick={() => setIsCardFlipped(!isCardFlipped)} className="relative h-64 w-full bg-white dark:bg-gray-800 rounded-2xl shadow-xl cursor-pointer perspective-1000 group transition-all hover:scale-[1.02]">
+                                                <div className="flex flex-col items-center justify-center h-full p-8 text-center border border-gray-200 dark:border-gray-700 rounded-2xl">
+                                                    {!isCardFlipped ? (<> <h3 className="text-4xl font-bold text-gray-800 dark:text-white mb-2">{card.term}</h3> <p className="text-gray-400 font-mono text-lg mb-4">/{card.term}/</p> <span className="text-sm bg-gray-100 dark:bg-gray-700 px-3 py-1 rounded-full text-gray-600 dark:text-gray-300">{card.partOfSpeech}</span> <p className="absolute bottom-4 text-xs text-gray-400 animate-pulse">Click to flip</p> </>) : (<> <h3 className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-4">{card.meaning}</h3> <p className="text-gray-600 dark:text-gray-300 italic">"{card.example}"</p> </>)}
+                                                </div>
                                             </div>
+                                            {isCardFlipped ? (
+                                                <div className="grid grid-cols-4 gap-2 mt-8">
+                                                    {gradeButtons.map(b => (
+                                                        <button key={b.grade} onClick={() => handleGradeCard(b.grade)} className={`flex flex-col items-center py-3 text-white rounded-xl font-bold shadow-lg transition-all active:scale-95 ${b.className}`}>
+                                                            <span>{b.label}</span>
+                                                            <span className="text-[10px] font-medium opacity-80">{srsService.formatInterval(preview[b.grade])}</span>
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                            ) : (
+                                                <button onClick={() => setIsCardFlipped(true)} className="w-full mt-8 px-6 py-3 bg-gray-900 dark:bg-white text-white dark:text-gray-900 rounded-xl font-bold shadow-lg"> Hiện đáp án </button>
+                                            )}
                                         </div>
-                                        <div className="flex justify-between items-center mt-8"> <button onClick={() => { setCurrentCardIndex(prev => Math.max(0, prev - 1)); setIsCardFlipped(false); }} disabled={currentCardIndex === 0} className="px-6 py-3 bg-gray-200 dark:bg-gray-700 rounded-xl font-bold disabled:opacity-50"> ← Prev </button> <span className="font-bold text-gray-500">{currentCardIndex + 1} / {reviewTerms.length}</span> <button onClick={() => { setCurrentCardIndex(prev => Math.min(reviewTerms.length - 1, prev + 1)); setIsCardFlipped(false); }} disabled={currentCardIndex === reviewTerms.length - 1} className="px-6 py-3 bg-blue-600 text-white rounded-xl font-bold disabled:opacity-50 shadow-lg"> Next → </button> </div>
-                                    </div>
-                                ) : (<div className="text-center text-gray-500"> <p className="text-xl mb-2">📭</p> <p>Chưa có từ vựng nào trong thư viện để ôn tập.</p> </div>)}
+                                    );
+                                })() : (<div className="text-center text-gray-500"> <p className="text-xl mb-2">{reviewedCount > 0 ? '🎉' : '📭'}</p> <p>{reviewedCount > 0 ? `Hoàn thành! Bạn đã ôn ${reviewedCount} thẻ hôm nay.` : allTerms.length > 0 ? 'Không có từ nào đến hạn ôn tập hôm nay.' : 'Chưa có từ vựng nào trong thư viện để ôn tập.'}</p> {getNextDueLabel() && <p className="text-xs mt-2">Lượt ôn tiếp theo: {getNextDueLabel()}</p>} </div>)}
                             </div>
                         )}
                     </div>
@@ -465,11 +594,95 @@ const VocabAndGrammarModule = ({ level, onSaveVocab }: { level: string, onSaveVo
 }
 
 // --- WRITING MODULE (Preserved) ---
-const WritingModule = ({ level, onSaveVocab }: { level: string, onSaveVocab: (w: string, m: string, c: string, targetFolderId?: string) => void }) => {
-    const [topic, setTopic] = useState('');
-    const [essay, setEssay] = useState('');
+// Essay text with the grader's corrections marked in place; accepting one rewrites the draft
+const CorrectionReview = ({ essay, corrections, decisions, onDecide }: { essay: string, corrections: EssayGrading['corrections'], decisions: Record<number, CorrectionDecision>, onDecide: (index: number, decision: CorrectionDecision) => void }) => {
+    // First non-overlapping occurrence of each correction (its fix once accepted)
+    const marks: { start: number, end: number, index: number }[] = [];
+    corrections.forEach((c, index) => {
+        const needle = decisions[index] === 'accepted' ? c.correction : c.original;
+        if (!needle) return;
+        let at = essay.indexOf(needle);
+        while (at !== -1 && marks.some(m => at < m.end && at + needle.length > m.start)) at = essay.indexOf(needle, at + 1);
+        if (at !== -1) marks.push({ start: at, end: at + needle.length, index });
+    });
+    marks.sort((a, b) => a.start - b.start);
+
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    marks.forEach(m => {
+        parts.push(essay.slice(cursor, m.start));
+        const c = corrections[m.index];
+        const decision = decisions[m.index];
+        parts.push(decision === 'accepted'
+            ? <mark key={m.index} title={c.explanation} className="bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300 rounded px-0.5">{essay.slice(m.start, m.end)}</mark>
+            : decision === 'rejected'
+                ? <span key={m.index} title={c.explanation} className="underline decoration-dotted decoration-gray-400">{essay.slice(m.start, m.end)}</span>
+                : <span key={m.index} title={c.explanation} className="bg-red-50 dark:bg-red-900/20 rounded px-0.5"><span className="text-red-600 line-through">{essay.slice(m.start, m.end)}</span> <span className="text-green-600 font-bold">{c.correction}</span><sup className="text-[10px] text-gray-400 ml-0.5">{m.index + 1}</sup></span>);
+        cursor = m.end;
+    });
+    parts.push(essay.slice(cursor));
+
+    return (
+        <div className="space-y-4">
+            <div className="p-4 rounded-xl bg-gray-50 dark:bg-gray-700/30 border border-gray-100 dark:border-gray-700 font-serif leading-relaxed whitespace-pre-wrap text-gray-800 dark:text-gray-200">{parts}</div>
+            {corrections.map((c, i) => (
+                <div key={i} className={`p-4 rounded-xl border ${decisions[i] === 'accepted' ? 'bg-green-50/50 dark:bg-green-900/10 border-green-100 dark:border-green-800' : decisions[i] === 'rejected' ? 'bg-gray-50 dark:bg-gray-800 border-gray-200 dark:border-gray-700 opacity-60' : 'bg-red-50/50 dark:bg-red-900/10 border-red-100 dark:border-red-800'}`}>
+                    <div className="flex justify-between items-start gap-3">
+                        <div className="min-w-0">
+                            <span className="text-[10px] font-bold uppercase text-indigo-500 mr-2">{i + 1}. {ERROR_CATEGORY_LABELS[c.category] || c.category}</span>
+                            <p className="text-red-600 line-through mb-1">{c.original}</p>
+                            <p className="text-green-600 font-bold mb-2">{c.correction}</p>
+                            <p className="text-xs text-gray-500 dark:text-gray-400 italic">{c.explanation}</p>
+                        </div>
+                        <div className="flex gap-1 shrink-0">
+                            {decisions[i] ? (
+                                <span className={`text-xs font-bold px-2 py-1 rounded ${decisions[i] === 'accepted' ? 'bg-green-100 text-green-700' : 'bg-gray-200 text-gray-600'}`}>{decisions[i] === 'accepted' ? '✓ Đã sửa' : '✕ Bỏ qua'}</span>
+                            ) : (
+                                <>
+                                    <button onClick={() => onDecide(i, 'accepted')} className="text-xs font-bold px-2 py-1 rounded bg-green-100 text-green-700 hover:bg-green-200">✓ Chấp nhận</button>
+                                    <button onClick={() => onDecide(i, 'rejected')} className="text-xs font-bold px-2 py-1 rounded bg-gray-100 text-gray-600 hover:bg-gray-200">✕ Bỏ qua</button>
+                                </>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+// Two revisions side by side: removed words on the left, added words on the right
+const RevisionDiff = ({ before, after }: { before: string, after: string }) => {
+    const parts = diffWords(before, after);
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="p-4 rounded-xl bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 font-serif text-sm leading-relaxed whitespace-pre-wrap text-gray-800 dark:text-gray-200">
+                {parts.filter(p => p.type !== 'added').map((p, i) => p.type === 'removed' ? <del key={i} className="bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300">{p.text}</del> : <span key={i}>{p.text}</span>)}
+            </div>
+            <div className="p-4 rounded-xl bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 font-serif text-sm leading-relaxed whitespace-pre-wrap text-gray-800 dark:text-gray-200">
+                {parts.filter(p => p.type !== 'removed').map((p, i) => p.type === 'added' ? <ins key={i} className="no-underline bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300">{p.text}</ins> : <span key={i}>{p.text}</span>)}
+            </div>
+        </div>
+    );
+};
+
+const WRITING_DRAFT_KEY = 'dh_writing_draft';
+
+const WritingModule = ({ level, onSaveVocab }: { level: string, onSaveVocab: (w: string, m: string, c: string, targetFolderId?: string, ipa?: string, source?: VocabSource) => void }) => {
+    const unmountSignal = useAbortOnUnmount();
+    // Unsaved work survives navigation; graded drafts live in writingHistoryService
+    const [draft] = useState<{ topic?: string, essay?: string, taskType?: WritingTaskType, essayId?: string | null }>(() => { try { return JSON.parse(localStorage.getItem(WRITING_DRAFT_KEY) || '{}'); } catch (e) { return {}; } });
+    const [topic, setTopic] = useState(draft.topic || '');
+    const [essay, setEssay] = useState(draft.essay || '');
+    const [taskType, setTaskType] = useState<WritingTaskType>(draft.taskType || 'free');
+    const [essayId, setEssayId] = useState<string | null>(draft.essayId || null);
+    const [essays, setEssays] = useState<WritingEssay[]>([]);
+    const [showHistory, setShowHistory] = useState(false);
+    const [historyEssayId, setHistoryEssayId] = useState<string | null>(null);
+    const [compare, setCompare] = useState<[number, number]>([0, 0]);
     const [isGrading, setIsGrading] = useState(false);
-    const [result, setResult] = useState<any>(null);
+    const [result, setResult] = useState<EssayGrading | null>(null);
+    const [resultRevisionId, setResultRevisionId] = useState<string | null>(null); // Revision `result` was saved as
     const [savedWords, setSavedWords] = useState<Set<string>>(new Set());
     const [showReference, setShowReference] = useState(false);
     const [activeResultTab, setActiveResultTab] = useState<'score' | 'feedback' | 'model' | 'vocab'>('score');
@@ -478,6 +691,24 @@ const WritingModule = ({ level, onSaveVocab }: { level: string, onSaveVocab: (w:
     const [isTimerRunning, setIsTimerRunning] = useState(false);
     const [timerDuration, setTimerDuration] = useState(20 * 60);
 
+    const currentEssay = essays.find(e => e.id === essayId);
+    const currentRevision = currentEssay?.revisions[currentEssay.revisions.length - 1];
+    const historyEssay = essays.find(e => e.id === historyEssayId);
+
+    useEffect(() => {
+        writingHistoryService.list().then(list => {
+            setEssays(list);
+            // Reopen the last grading of the essay being written
+            const open = list.find(e => e.id === draft.essayId);
+            const latest = open?.revisions[open.revisions.length - 1];
+            if (latest) { setResult(latest.grading); setResultRevisionId(latest.id); }
+        });
+    }, []);
+
+    useEffect(() => {
+        localStorage.setItem(WRITING_DRAFT_KEY, JSON.stringify({ topic, essay, taskType, essayId }));
+    }, [topic, essay, taskType, essayId]);
+
     useEffect(() => {
         let interval: any;
         if (isTimerRunning && timer > 0) { interval = setInterval(() => setTimer(t => t - 1), 1000); } else if (timer === 0 && isTimerRunning) { setIsTimerRunning(false); alert("Time's up!"); }
@@ -490,22 +721,71 @@ const WritingModule = ({ level, onSaveVocab }: { level: string, onSaveVocab: (w:
     const handleGenerateTopic = async (type: 'task1' | 'task2') => {
         setIsGeneratingTopic(true);
         try {
-            const newTopic = await geminiService.generateWritingTopic(level, type);
+            const newTopic = await geminiService.generateWritingTopic(level, type, { signal: unmountSignal() });
             setTopic(newTopic);
+            setTaskType(type);
+            setEssayId(null);
+            setResult(null);
             const duration = type === 'task1' ? 20 * 60 : 40 * 60;
             setTimerDuration(duration);
             setTimer(duration);
-        } catch (e: any) { alert(e.message || "Lỗi tạo đề bài."); } finally { setIsGeneratingTopic(false); }
+        } catch (e: any) { if (isAbortError(e)) return; alert(e.message || "Lỗi tạo đề bài."); } finally { setIsGeneratingTopic(false); }
     };
 
     const handleGrade = async () => {
         if (!topic.trim() || !essay.trim()) { alert("Vui lòng nhập đề bài và bài làm."); return; }
         setIsGrading(true); setResult(null); setIsTimerRunning(false);
-        try { const jsonStr = await geminiService.gradeWritingPractice(level, topic, essay); setResult(JSON.parse(jsonStr.replace(/```json|```/g, '').trim())); setActiveResultTab('score'); }
-        catch (e: any) { alert(e.message || "Có lỗi khi chấm điểm."); } finally { setIsGrading(false); }
+        try {
+            const grading = await geminiService.gradeWritingPractice(level, topic, essay, { signal: unmountSignal() });
+            setResult(grading);
+            setActiveResultTab('score');
+            // Same topic: a new revision of the open essay
+            const saved = await writingHistoryService.addRevision(currentEssay?.topic === topic ? essayId : null, { topic, taskType, level, text: essay }, grading);
+            setEssayId(saved.id);
+            setResultRevisionId(saved.revisions[saved.revisions.length - 1].id);
+            setEssays(prev => [saved, ...prev.filter(e => e.id !== saved.id)]);
+        }
+        catch (e: any) { if (isAbortError(e)) return; alert(e.message || "Có lỗi khi chấm điểm."); } finally { setIsGrading(false); }
     };
 
-    const handleSave = (word: string, mean: string, ctx: string) => { onSaveVocab(word, mean, "Writing Practice", "writing"); setSavedWords(prev => new Set(prev).add(word)); };
+    const handleDecision = async (index: number, decision: CorrectionDecision) => {
+        if (!result || !currentEssay || currentRevision?.id !== resultRevisionId) return;
+        if (decision === 'accepted') {
+            const c = result.corrections[index];
+            const at = essay.indexOf(c.original);
+            if (at === -1) { alert("Không tìm thấy đoạn gốc trong bài hiện tại (có thể bạn đã sửa tay)."); return; }
+            setEssay(essay.slice(0, at) + c.correction + essay.slice(at + c.original.length));
+        }
+        const updated = await writingHistoryService.setDecision(currentEssay.id, currentRevision.id, index, decision);
+        if (updated) setEssays(prev => prev.map(e => e.id === updated.id ? updated : e));
+    };
+
+    const openHistoryEssay = (e: WritingEssay) => {
+        setHistoryEssayId(e.id);
+        setCompare([Math.max(0, e.revisions.length - 2), e.revisions.length - 1]);
+    };
+
+    const continueEssay = (e: WritingEssay) => {
+        const latest = e.revisions[e.revisions.length - 1];
+        setTopic(e.topic);
+        setTaskType(e.taskType);
+        setEssayId(e.id);
+        setEssay(latest.text);
+        setResult(latest.grading);
+        setResultRevisionId(latest.id);
+        setShowHistory(false);
+        setHistoryEssayId(null);
+    };
+
+    const deleteEssay = async (id: string) => {
+        if (!confirm("Xóa bài viết này cùng toàn bộ các bản sửa?")) return;
+        await writingHistoryService.remove(id);
+        setEssays(prev => prev.filter(e => e.id !== id));
+        if (essayId === id) setEssayId(null);
+        setHistoryEssayId(null);
+    };
+
+    const handleSave = (word: string, mean: string, ctx: string) => { onSaveVocab(word, mean, ctx || '', "writing", undefined, { type: 'essay', label: topic, ...(essayId ? { refId: essayId } : {}) }); setSavedWords(prev => new Set(prev).add(word)); };
 
     return (
         <div className="flex flex-col lg:flex-row h-full animate-fade-in overflow-hidden bg-gray-50 dark:bg-gray-900">
@@ -515,12 +795,12 @@ const WritingModule = ({ level, onSaveVocab }: { level: string, onSaveVocab: (w:
             </div>
             <div className="flex-1 h-full flex flex-col overflow-hidden relative min-w-0">
                 <div className="h-14 border-b border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-900 flex items-center justify-between px-4 shrink-0">
-                    <div className="flex items-center gap-2"> {!showReference && (<button onClick={() => setShowReference(true)} className="p-2 rounded-lg text-sm font-bold bg-gray-100 hover:bg-blue-50 text-blue-600 transition-colors"> 📑 Show Topics </button>)} <div className="h-6 w-px bg-gray-300 mx-2"></div> <button onClick={() => handleGenerateTopic('task1')} disabled={isGeneratingTopic} className="text-xs font-bold text-gray-600 hover:text-blue-600 px-2 py-1 bg-gray-100 rounded">Generate Task 1</button> <button onClick={() => handleGenerateTopic('task2')} disabled={isGeneratingTopic} className="text-xs font-bold text-gray-600 hover:text-blue-600 px-2 py-1 bg-gray-100 rounded">Generate Task 2</button> </div>
+                    <div className="flex items-center gap-2"> {!showReference && (<button onClick={() => setShowReference(true)} className="p-2 rounded-lg text-sm font-bold bg-gray-100 hover:bg-blue-50 text-blue-600 transition-colors"> 📑 Show Topics </button>)} <div className="h-6 w-px bg-gray-300 mx-2"></div> <button onClick={() => handleGenerateTopic('task1')} disabled={isGeneratingTopic} className="text-xs font-bold text-gray-600 hover:text-blue-600 px-2 py-1 bg-gray-100 rounded">Generate Task 1</button> <button onClick={() => handleGenerateTopic('task2')} disabled={isGeneratingTopic} className="text-xs font-bold text-gray-600 hover:text-blue-600 px-2 py-1 bg-gray-100 rounded">Generate Task 2</button> <button onClick={() => setShowHistory(true)} className="text-xs font-bold text-gray-600 hover:text-blue-600 px-2 py-1 bg-gray-100 rounded">📚 Lịch sử</button> </div>
                     <div className="flex items-center gap-4"> <div className="flex items-center gap-2 bg-gray-100 dark:bg-gray-800 px-3 py-1 rounded-full border border-gray-200 dark:border-gray-700"> <span className="text-xs font-bold text-gray-500 uppercase">Words:</span> <span className="font-mono font-bold text-blue-600">{getWordCount(essay)}</span> </div> <div className={`flex items-center gap-2 px-3 py-1 rounded-full border font-mono font-bold ${timer < 60 && isTimerRunning ? 'bg-red-50 border-red-200 text-red-600 animate-pulse' : 'bg-gray-100 dark:bg-gray-800 border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300'}`}> <span>{formatTime(timer)}</span> <button onClick={() => { if (timer === 0) setTimer(timerDuration); setIsTimerRunning(!isTimerRunning); }} className="hover:text-blue-500 text-xs ml-1"> {isTimerRunning ? '⏸' : '▶'} </button> <button onClick={() => { setIsTimerRunning(false); setTimer(timerDuration); }} className="hover:text-blue-500 text-xs ml-1">↺</button> </div> </div>
                 </div>
                 <div className="flex-1 overflow-y-auto custom-scrollbar p-4 md:p-6 space-y-6 bg-gray-50 dark:bg-gray-900">
                     <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
-                        <div className="p-4 border-b border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/50"> <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Đề bài (Topic)</label> <textarea value={topic} onChange={e => setTopic(e.target.value)} placeholder="Nhập hoặc tạo đề bài ngẫu nhiên..." className="w-full bg-transparent border-none focus:ring-0 p-0 text-sm font-medium text-gray-900 dark:text-white resize-none" rows={2} /> </div>
+                        <div className="p-4 border-b border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/50"> <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Đề bài (Topic) <span className="normal-case font-normal">• {WRITING_TASK_LABELS[taskType]}{currentEssay && currentEssay.topic === topic ? ` • Bản sửa ${currentEssay.revisions.length + (currentRevision?.text === essay ? 0 : 1)}` : ''}</span></label> <textarea value={topic} onChange={e => setTopic(e.target.value)} placeholder="Nhập hoặc tạo đề bài ngẫu nhiên..." className="w-full bg-transparent border-none focus:ring-0 p-0 text-sm font-medium text-gray-900 dark:text-white resize-none" rows={2} /> </div>
                         <textarea value={essay} onChange={e => setEssay(e.target.value)} placeholder="Start writing here..." className="w-full p-6 h-[400px] text-base md:text-lg leading-relaxed font-serif text-gray-800 dark:text-gray-200 focus:outline-none bg-white dark:bg-gray-800 resize-none" />
                         <div className="p-4 border-t border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 flex justify-end"> <button onClick={handleGrade} disabled={isGrading} className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white px-8 py-2.5 rounded-xl font-bold shadow-lg transition-all transform active:scale-95 flex items-center gap-2"> {isGrading ? <span className="animate-spin">↻</span> : <span>✨ Chấm Điểm (AI Grade)</span>} </button> </div>
                     </div>
@@ -529,7 +809,9 @@ const WritingModule = ({ level, onSaveVocab }: { level: string, onSaveVocab: (w:
                             <div className="flex border-b border-gray-200 dark:border-gray-700"> {[{ id: 'score', label: 'Điểm số & Tổng quan' }, { id: 'feedback', label: 'Sửa lỗi chi tiết' }, { id: 'model', label: 'Bài mẫu' }, { id: 'vocab', label: 'Từ vựng hay' }].map(tab => (<button key={tab.id} onClick={() => setActiveResultTab(tab.id as any)} className={`flex-1 py-3 text-sm font-bold transition-colors ${activeResultTab === tab.id ? 'bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300 border-b-2 border-blue-600' : 'text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-700'}`}> {tab.label} </button>))} </div>
                             <div className="p-6 min-h-[300px]">
                                 {activeResultTab === 'score' && (<div className="text-center space-y-6"> <div className="inline-flex items-center justify-center w-32 h-32 rounded-full border-4 border-blue-500 bg-blue-50 dark:bg-blue-900/20 text-5xl font-bold text-blue-700 dark:text-blue-300 shadow-inner"> {result.score} </div> <div className="max-w-2xl mx-auto text-left bg-gray-50 dark:bg-gray-700/30 p-6 rounded-xl border border-gray-100 dark:border-gray-700"> <h4 className="font-bold text-gray-800 dark:text-white mb-2 uppercase text-xs tracking-wider">Nhận xét chung</h4> <p className="text-gray-700 dark:text-gray-300 leading-relaxed whitespace-pre-wrap">{result.generalFeedback}</p> </div> </div>)}
-                                {activeResultTab === 'feedback' && (<div className="space-y-4"> {result.corrections?.map((c: any, i: number) => (<div key={i} className="p-4 rounded-xl bg-red-50/50 dark:bg-red-900/10 border border-red-100 dark:border-red-800"> <p className="text-red-600 line-through mb-1">{c.original}</p> <p className="text-green-600 font-bold mb-2">{c.correction}</p> <p className="text-xs text-gray-500 dark:text-gray-400 italic">{c.explanation}</p> </div>))} </div>)}
+                                {activeResultTab === 'feedback' && (currentRevision && currentRevision.id === resultRevisionId
+                                    ? <CorrectionReview essay={essay} corrections={result.corrections || []} decisions={currentRevision.decisions || {}} onDecide={handleDecision} />
+                                    : <div className="space-y-4"> {result.corrections?.map((c: any, i: number) => (<div key={i} className="p-4 rounded-xl bg-red-50/50 dark:bg-red-900/10 border border-red-100 dark:border-red-800"> <p className="text-red-600 line-through mb-1">{c.original}</p> <p className="text-green-600 font-bold mb-2">{c.correction}</p> <p className="text-xs text-gray-500 dark:text-gray-400 italic">{c.explanation}</p> </div>))} </div>)}
                                 {activeResultTab === 'model' && (<div className="bg-gray-50 dark:bg-gray-700/30 p-6 rounded-xl"> <h4 className="font-bold text-gray-800 dark:text-white mb-4 uppercase text-xs tracking-wider">Bài mẫu (Band 8.0+)</h4> <p className="text-gray-700 dark:text-gray-300 leading-relaxed whitespace-pre-wrap font-serif">{result.sampleEssay}</p> </div>)}
                                 {activeResultTab === 'vocab' && (<div className="grid grid-cols-1 md:grid-cols-2 gap-4"> {result.betterVocab?.map((v: any, i: number) => (<div key={i} className="flex flex-col p-4 rounded-xl border border-blue-100 bg-blue-50/30 dark:border-blue-900/50 dark:bg-blue-900/10"> <div className="flex justify-between items-start mb-2"> <span className="font-bold text-blue-700 dark:text-blue-400 text-lg">{v.word}</span> <button onClick={() => handleSave(v.word, v.meaning, v.context)} disabled={savedWords.has(v.word)} className={`text-xs font-bold px-2 py-1 rounded transition-colors ${savedWords.has(v.word) ? 'bg-green-100 text-green-700' : 'bg-blue-100 text-blue-700 hover:bg-blue-200'}`}> {savedWords.has(v.word) ? '✓ Saved' : '+ Save'} </button> </div> <p className="text-gray-700 dark:text-gray-300 font-medium mb-1">{v.meaning}</p> <p className="text-xs text-gray-500 dark:text-gray-400 italic">"{v.context}"</p> </div>))} </div>)}
                             </div>
@@ -538,47 +820,315 @@ const WritingModule = ({ level, onSaveVocab }: { level: string, onSaveVocab: (w:
                 </div>
             </div>
             <ManualVocabPanel onSave={(w, m, e) => onSaveVocab(w, m, `Writing Context: ${e}`, 'writing')} folderLabel="Writing Task" className="w-full lg:w-72 xl:w-80" />
+
+            {/* Essay History */}
+            {showHistory && (
+                <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[60] flex items-center justify-center p-4 animate-fade-in">
+                    <div className="bg-white dark:bg-gray-800 w-full max-w-5xl rounded-2xl shadow-2xl flex flex-col h-[85vh] overflow-hidden">
+                        <div className="p-4 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center bg-gray-50 dark:bg-gray-900">
+                            <div className="flex items-center gap-3">
+                                {historyEssay && <button onClick={() => setHistoryEssayId(null)} className="text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 px-2 py-1 rounded-lg font-bold">←</button>}
+                                <h3 className="font-bold text-lg text-gray-900 dark:text-white">{historyEssay ? 'Các bản sửa' : 'Lịch sử bài viết'}</h3>
+                            </div>
+                            <button onClick={() => { setShowHistory(false); setHistoryEssayId(null); }} className="text-gray-400 hover:text-gray-600 text-2xl">✕</button>
+                        </div>
+                        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+                            {!historyEssay ? (
+                                <>
+                                    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                                        <div className="lg:col-span-2 p-4 rounded-xl border border-gray-100 dark:border-gray-700">
+                                            <p className="text-xs font-bold text-gray-500 uppercase mb-2">Xu hướng điểm</p>
+                                            <WritingProgressChart essays={essays} />
+                                        </div>
+                                        <div className="p-4 rounded-xl border border-gray-100 dark:border-gray-700">
+                                            <p className="text-xs font-bold text-gray-500 uppercase mb-2">Lỗi hay gặp</p>
+                                            {recurringErrors(essays).slice(0, 6).map(e => (
+                                                <div key={e.category} className="mb-2">
+                                                    <div className="flex justify-between text-sm"><span className="font-bold text-gray-700 dark:text-gray-200">{ERROR_CATEGORY_LABELS[e.category]}</span><span className="text-gray-500">{e.count} lỗi • {e.essays} bài</span></div>
+                                                    {e.example && <p className="text-[11px] text-gray-400 truncate"><span className="line-through">{e.example.original}</span> → {e.example.correction}</p>}
+                                                </div>
+                                            ))}
+                                            {essays.length === 0 && <p className="text-xs text-gray-400">Chưa có dữ liệu.</p>}
+                                        </div>
+                                    </div>
+                                    <div className="space-y-2">
+                                        {essays.map(e => {
+                                            const latest = e.revisions[e.revisions.length - 1];
+                                            return (
+                                                <div key={e.id} onClick={() => openHistoryEssay(e)} className="p-3 rounded-xl bg-gray-50 dark:bg-gray-700/50 hover:bg-blue-50 dark:hover:bg-blue-900/20 border border-transparent hover:border-blue-100 cursor-pointer transition-all flex justify-between items-center gap-4">
+                                                    <div className="min-w-0">
+                                                        <p className="font-bold text-gray-800 dark:text-white text-sm truncate">{e.topic}</p>
+                                                        <p className="text-xs text-gray-500">{WRITING_TASK_LABELS[e.taskType]} • {e.level} • {e.revisions.length} bản • {new Date(latest.createdAt).toLocaleString('vi-VN')}</p>
+                                                    </div>
+                                                    <span className="text-lg font-bold text-blue-600 shrink-0">{revisionScore(latest)}</span>
+                                                </div>
+                                            );
+                                        })}
+                                        {essays.length === 0 && <p className="text-center text-gray-400 text-sm py-8">Chưa có bài viết nào được chấm.</p>}
+                                    </div>
+                                </>
+                            ) : (
+                                <>
+                                    <div className="flex flex-col md:flex-row md:items-start justify-between gap-3">
+                                        <div>
+                                            <p className="font-bold text-gray-800 dark:text-white">{historyEssay.topic}</p>
+                                            <p className="text-xs text-gray-500">{WRITING_TASK_LABELS[historyEssay.taskType]} • {historyEssay.level}</p>
+                                        </div>
+                                        <div className="flex gap-2 shrink-0">
+                                            <button onClick={() => continueEssay(historyEssay)} className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-bold">✏️ Viết tiếp</button>
+                                            <button onClick={() => deleteEssay(historyEssay.id)} className="bg-red-50 hover:bg-red-100 text-red-600 px-4 py-2 rounded-lg text-sm font-bold">Xóa</button>
+                                        </div>
+                                    </div>
+                                    <div className="flex flex-wrap gap-2">
+                                        {historyEssay.revisions.map((r, i) => (
+                                            <span key={r.id} className="text-xs px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                                                Bản {i + 1}: <b className="text-blue-600">{revisionScore(r)}</b> • {r.grading.corrections.length} lỗi • {Object.values(r.decisions || {}).filter(d => d === 'accepted').length} đã sửa
+                                            </span>
+                                        ))}
+                                    </div>
+                                    {historyEssay.revisions.length > 1 ? (
+                                        <>
+                                            <div className="flex items-center gap-2 text-sm">
+                                                <span className="text-gray-500">So sánh</span>
+                                                {[0, 1].map(side => (
+                                                    <select key={side} value={compare[side]} onChange={e => { const next = [...compare] as [number, number]; next[side] = Number(e.target.value); setCompare(next); }} className="bg-gray-100 dark:bg-gray-700 rounded-lg px-2 py-1 text-sm font-bold text-gray-700 dark:text-gray-200 outline-none">
+                                                        {historyEssay.revisions.map((r, i) => <option key={r.id} value={i}>Bản {i + 1} ({revisionScore(r)})</option>)}
+                                                    </select>
+                                                ))}
+                                            </div>
+                                            <RevisionDiff before={historyEssay.revisions[compare[0]]?.text || ''} after={historyEssay.revisions[compare[1]]?.text || ''} />
+                                        </>
+                                    ) : (
+                                        <div className="p-4 rounded-xl bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 font-serif text-sm leading-relaxed whitespace-pre-wrap text-gray-800 dark:text-gray-200">{historyEssay.revisions[0].text}</div>
+                                    )}
+                                    <div className="p-4 rounded-xl bg-gray-50 dark:bg-gray-700/30 border border-gray-100 dark:border-gray-700">
+                                        <h4 className="font-bold text-gray-800 dark:text-white mb-2 uppercase text-xs tracking-wider">Nhận xét (bản {compare[1] + 1})</h4>
+                                        <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{historyEssay.revisions[compare[1]]?.grading.generalFeedback}</p>
+                                    </div>
+                                </>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            )}
         </div>
     );
 }
 
 // --- READING MODULE (Preserved) ---
-const ReadingModule = ({ level, onSaveVocab }: { level: string, onSaveVocab: (w: string, m: string, c: string, targetFolderId?: string) => void }) => {
+// Graded reader panel under an AI passage: reading speed, looked-up words and comprehension questions
+const ReadingPassageExtras = ({ passage, answers, grading, isQuizLoading, onFinishReading, onCreateQuiz, onAnswer, onSubmitQuiz, onRetryQuiz, onSaveLookups }: {
+    passage: SavedReadingPassage,
+    answers: Record<number, string>,
+    grading: GrammarGrading | null,
+    isQuizLoading: boolean,
+    onFinishReading: () => void,
+    onCreateQuiz: () => void,
+    onAnswer: (id: number, option: string) => void,
+    onSubmitQuiz: () => void,
+    onRetryQuiz: () => void,
+    onSaveLookups: (words: string[]) => void
+}) => {
+    const lookups = passage.lookups || [];
+    const unsaved = lookups.filter(l => !l.savedToVocab);
+    const sessions = passage.sessions || [];
+    return (
+        <div className="mt-8 space-y-6 text-base">
+            <div className="p-6 bg-black/5 rounded-xl">
+                <div className="flex flex-wrap justify-between items-center gap-3">
+                    <h3 className="font-bold uppercase text-xs opacity-70">Tốc độ đọc</h3>
+                    <button onClick={onFinishReading} className="px-4 py-1.5 bg-blue-600 text-white rounded-lg text-sm font-bold hover:bg-blue-700">⏱ Đọc xong</button>
+                </div>
+                {sessions.length === 0 ? (
+                    <p className="text-sm opacity-60 mt-2">Bấm "Đọc xong" khi đọc hết bài để đo tốc độ (tính từ lúc mở bài).</p>
+                ) : (
+                    <div className="mt-3 space-y-1 text-sm">
+                        {sessions.slice(-5).reverse().map((s, i) => (
+                            <div key={s.finishedAt} className={`flex justify-between ${i === 0 ? 'font-bold' : 'opacity-70'}`}>
+                                <span>{new Date(s.finishedAt).toLocaleString('vi-VN')}</span>
+                                <span>{s.wordsPerMinute} từ/phút • {Math.floor(s.seconds / 60)}:{String(s.seconds % 60).padStart(2, '0')} • Từ chưa biết {s.unknownPercent}%</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <div className="p-6 bg-black/5 rounded-xl">
+                <div className="flex flex-wrap justify-between items-center gap-3">
+                    <h3 className="font-bold uppercase text-xs opacity-70">Từ đã tra ({lookups.length})</h3>
+                    {unsaved.length > 0 && <button onClick={() => onSaveLookups(unsaved.map(l => l.word))} className="px-4 py-1.5 bg-green-600 text-white rounded-lg text-sm font-bold hover:bg-green-700">+ Lưu {unsaved.length} từ vào từ vựng</button>}
+                </div>
+                {lookups.length === 0 ? (
+                    <p className="text-sm opacity-60 mt-2">Bôi đen một từ trong bài để tra nghĩa; từ đã tra được ghi lại ở đây.</p>
+                ) : (
+                    <div className="flex flex-wrap gap-2 mt-3">
+                        {lookups.map(l => (
+                            <span key={l.word} title={l.ipa ? `/${l.ipa.replace(/^\/|\/$/g, '')}/` : undefined} className={`px-2 py-1 rounded-lg text-sm border ${l.savedToVocab ? 'border-green-300 bg-green-50 text-green-800' : 'border-gray-300 bg-white/60'}`}>
+                                <b>{l.word}</b> <span className="opacity-70">{l.meaning}</span>{l.savedToVocab && ' ✓'}
+                            </span>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <div className="p-6 bg-black/5 rounded-xl">
+                <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+                    <h3 className="font-bold uppercase text-xs opacity-70">Câu hỏi đọc hiểu{passage.quizResult && ` • Lần gần nhất ${passage.quizResult.correct}/${passage.quizResult.total}`}</h3>
+                    {!passage.questions?.length && <button onClick={onCreateQuiz} disabled={isQuizLoading} className="px-4 py-1.5 bg-blue-600 text-white rounded-lg text-sm font-bold hover:bg-blue-700 disabled:opacity-50">{isQuizLoading ? 'Đang tạo...' : '✨ Tạo câu hỏi'}</button>}
+                </div>
+                {passage.questions && passage.questions.length > 0 && (
+                    <div className="space-y-4 text-gray-900">
+                        <ExamQuizSection questions={passage.questions} answers={answers} onAnswer={onAnswer} />
+                        {grading ? (
+                            <div className="p-4 rounded-xl bg-blue-50 border border-blue-100 space-y-2">
+                                <p className="font-bold text-blue-700">Kết quả: {grading.results.filter(r => r.isCorrect).length}/{passage.questions.length}</p>
+                                {passage.questions.map((q, i) => {
+                                    const r = grading.results.find(x => x.id === q.id);
+                                    return <p key={q.id} className="text-sm text-gray-700"><span className={r?.isCorrect ? 'text-green-600' : 'text-red-600'}>{r?.isCorrect ? '✓' : '✗'}</span> <b>{i + 1}.</b> {r?.explanation}</p>;
+                                })}
+                                <div className="flex gap-2 pt-2">
+                                    <button onClick={onRetryQuiz} className="px-4 py-1.5 bg-white border border-gray-200 rounded-lg text-sm font-bold">↺ Làm lại</button>
+                                    <button onClick={onCreateQuiz} disabled={isQuizLoading} className="px-4 py-1.5 bg-white border border-gray-200 rounded-lg text-sm font-bold disabled:opacity-50">{isQuizLoading ? 'Đang tạo...' : '✨ Bộ câu hỏi mới'}</button>
+                                </div>
+                            </div>
+                        ) : (
+                            <button onClick={onSubmitQuiz} disabled={isQuizLoading} className="w-full py-3 bg-green-600 text-white rounded-xl font-bold hover:bg-green-700 disabled:opacity-50">{isQuizLoading ? 'Đang chấm...' : 'Nộp bài'}</button>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const ReadingModule = ({ level, onSaveVocab, citedPassageId, onCitedPassageOpened }: { level: string, onSaveVocab: (w: string, m: string, c: string, targetFolderId?: string, ipa?: string, source?: VocabSource) => void | Promise<void>, citedPassageId?: string | null, onCitedPassageOpened?: () => void }) => {
+    const unmountSignal = useAbortOnUnmount();
     const [readingMode, setReadingMode] = useState<'library' | 'ai_reader' | 'external_browser'>('library');
     const [currentUrl, setCurrentUrl] = useState<{ url: string, title: string } | null>(null);
     const [aiTopic, setAiTopic] = useState('');
-    const [readingData, setReadingData] = useState<any>(null);
+    const [readingData, setReadingData] = useState<SavedReadingPassage | null>(null);
     const [isGenerating, setIsGenerating] = useState(false);
     const [selectedWord, setSelectedWord] = useState<string | null>(null);
-    const [lookupResult, setLookupResult] = useState<any>(null);
+    const [lookupResult, setLookupResult] = useState<DictionaryEntry | null>(null);
     const [isLookingUp, setIsLookingUp] = useState(false);
     const [textSize, setTextSize] = useState<'sm' | 'base' | 'lg'>('base');
     const [bgTheme, setBgTheme] = useState<'light' | 'sepia' | 'dark'>('light');
+    const [savedPassages, setSavedPassages] = useState<SavedReadingPassage[]>([]);
+    const [quizAnswers, setQuizAnswers] = useState<Record<number, string>>({});
+    const [quizGrading, setQuizGrading] = useState<GrammarGrading | null>(null);
+    const [isQuizLoading, setIsQuizLoading] = useState(false);
+    const readStartRef = useRef(0);  // When the open passage was opened, for reading speed
+
+    useEffect(() => {
+        readingLibraryService.list().then(setSavedPassages).catch(e => console.warn("Failed to load saved passages", e));
+    }, []);
+
+    // Opened from a citation in Nana's chat
+    useEffect(() => {
+        if (!citedPassageId) return;
+        const passage = savedPassages.find(p => p.id === citedPassageId);
+        if (passage) {
+            openPassage(passage);
+            onCitedPassageOpened?.();
+        }
+    }, [citedPassageId, savedPassages]);
 
     const handleGenerate = async () => {
         if (!aiTopic.trim()) return alert("Nhập chủ đề muốn đọc.");
         setIsGenerating(true);
         try {
-            const json = await geminiService.generateReadingPassage(level, aiTopic);
-            setReadingData(JSON.parse(json.replace(/```json|```/g, '').trim()));
-            setReadingMode('ai_reader');
-        } catch (e: any) { alert(e.message || "Lỗi tạo bài đọc."); } finally { setIsGenerating(false); }
+            const passage = await geminiService.generateReadingPassage(level, aiTopic, { signal: unmountSignal() });
+            // Kept for rereading, the graded reader stats and Nana's search over the user's material
+            const saved = await readingLibraryService.save(passage, level, aiTopic);
+            setSavedPassages(prev => [saved, ...prev]);
+            openPassage(saved);
+        } catch (e: any) { if (isAbortError(e)) return; alert(e.message || "Lỗi tạo bài đọc."); } finally { setIsGenerating(false); }
+    };
+
+    const openPassage = (passage: SavedReadingPassage) => {
+        setReadingData(passage);
+        setReadingMode('ai_reader');
+        setQuizAnswers({});
+        setQuizGrading(null);
+        setSelectedWord(null);
+        setLookupResult(null);
+        readStartRef.current = Date.now();
+    };
+
+    const applyUpdate = (updated: SavedReadingPassage | null) => {
+        if (!updated) return;
+        setReadingData(prev => prev?.id === updated.id ? updated : prev);
+        setSavedPassages(prev => prev.map(p => p.id === updated.id ? updated : p));
+    };
+
+    const handleFinishReading = async () => {
+        if (!readingData) return;
+        const seconds = Math.round((Date.now() - readStartRef.current) / 1000);
+        if (seconds < 10) return alert("Bạn vừa mở bài đọc, hãy đọc hết rồi bấm lại.");
+        applyUpdate(await readingLibraryService.recordSession(readingData.id, seconds));
+        readStartRef.current = Date.now();
+    };
+
+    const handleCreateQuiz = async () => {
+        if (!readingData) return;
+        setIsQuizLoading(true);
+        try {
+            const questions = await geminiService.generateReadingQuiz(level, readingData, 5, { signal: unmountSignal() });
+            setQuizAnswers({});
+            setQuizGrading(null);
+            applyUpdate(await readingLibraryService.setQuestions(readingData.id, questions));
+        } catch (e: any) { if (isAbortError(e)) return; alert(e.message || "Lỗi tạo câu hỏi."); } finally { setIsQuizLoading(false); }
+    };
+
+    const handleSubmitReadingQuiz = async () => {
+        const questions = readingData?.questions;
+        if (!readingData || !questions) return;
+        if (Object.keys(quizAnswers).length < questions.length && !window.confirm("Bạn chưa làm hết câu hỏi. Vẫn muốn nộp bài?")) return;
+        setIsQuizLoading(true);
+        try {
+            const grading = gradeQuizLocally(questions, quizAnswers) || await geminiService.gradeGrammarQuiz(level, questions, quizAnswers, { signal: unmountSignal() });
+            setQuizGrading(grading);
+            applyUpdate(await readingLibraryService.recordQuiz(readingData.id, grading.results.filter(r => r.isCorrect).length, questions.length));
+        } catch (e: any) { if (isAbortError(e)) return; alert(e.message || "Lỗi khi chấm bài."); } finally { setIsQuizLoading(false); }
+    };
+
+    // One click for every looked-up word not yet in the vocab list
+    const saveLookupsToVocab = async (words: string[]) => {
+        if (!readingData) return;
+        const pending = (readingData.lookups || []).filter(l => !l.savedToVocab && words.includes(l.word));
+        // The sentence the word was met in becomes its example
+        const sentences = readingData.content.split(/(?<=[.!?])\s+/);
+        for (const l of pending) {
+            const example = sentences.find(s => s.toLowerCase().includes(l.word.toLowerCase()))?.trim() || '';
+            await onSaveVocab(l.word, l.meaning, example, 'reading', l.ipa, { type: 'reading', label: readingData.title, refId: readingData.id });
+        }
+        applyUpdate(await readingLibraryService.markSavedToVocab(readingData.id, pending.map(l => l.word)));
+    };
+
+    const removeSavedPassage = async (id: string) => {
+        if (!confirm("Xóa bài đọc này khỏi thư viện?")) return;
+        setSavedPassages(prev => prev.filter(p => p.id !== id));
+        await readingLibraryService.remove(id).catch(e => console.error("Failed to remove passage", e));
+    };
+
+    // Repeated lookups of a word in the same passage are served from the AI cache
+    const lookupWord = async (word: string, forceRefresh: boolean = false) => {
+        setSelectedWord(word);
+        setIsLookingUp(true);
+        setLookupResult(null);
+        try {
+            const context = readingData?.content?.substring(0, 200) || "";
+            const entry = await geminiService.lookupDictionary(word, context, { forceRefresh, signal: unmountSignal() });
+            setLookupResult(entry);
+            if (readingData) applyUpdate(await readingLibraryService.recordLookup(readingData.id, { word: entry.word, meaning: entry.meaning_vi, ipa: entry.ipa }));
+        } catch (e: any) {
+            if (e.message.includes('🔒')) alert(e.message);
+        } finally { setIsLookingUp(false); }
     };
 
     const handleLookup = async () => {
         const selection = window.getSelection()?.toString().trim();
-        if (selection && selection.length < 30) {
-            setSelectedWord(selection);
-            setIsLookingUp(true);
-            setLookupResult(null);
-            try {
-                const context = readingData?.content?.substring(0, 200) || "";
-                const json = await geminiService.lookupDictionary(selection, context);
-                setLookupResult(JSON.parse(json.replace(/```json|```/g, '').trim()));
-            } catch (e: any) {
-                if (e.message.includes('🔒')) alert(e.message);
-            } finally { setIsLookingUp(false); }
-        }
+        if (selection && selection.length < 30) lookupWord(selection);
     };
 
     const ContentArea = () => {
@@ -590,8 +1140,8 @@ const ReadingModule = ({ level, onSaveVocab }: { level: string, onSaveVocab: (w:
                 <div className={`h-full flex flex-col ${bgClass} transition-colors`}>
                     <div className="p-3 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center bg-opacity-50 backdrop-blur sticky top-0 z-10"> <button onClick={() => setReadingMode('library')} className="px-3 py-1.5 rounded-lg hover:bg-black/5 font-bold text-sm">← Thư viện</button> <div className="flex gap-2 items-center"> <div className="flex bg-black/5 rounded-lg p-1"> <button onClick={() => setTextSize('sm')} className={`w-8 h-8 rounded ${textSize === 'sm' ? 'bg-white shadow' : ''}`}>A</button> <button onClick={() => setTextSize('base')} className={`w-8 h-8 rounded ${textSize === 'base' ? 'bg-white shadow' : ''}`}>A+</button> <button onClick={() => setTextSize('lg')} className={`w-8 h-8 rounded ${textSize === 'lg' ? 'bg-white shadow' : ''}`}>A++</button> </div> <div className="flex bg-black/5 rounded-lg p-1"> <button onClick={() => setBgTheme('light')} className="w-6 h-6 rounded-full bg-white border mx-1" title="Light"></button> <button onClick={() => setBgTheme('sepia')} className="w-6 h-6 rounded-full bg-[#f4ecd8] border mx-1" title="Sepia"></button> <button onClick={() => setBgTheme('dark')} className="w-6 h-6 rounded-full bg-[#333] border mx-1" title="Dark"></button> </div> </div> </div>
                     <div className="flex-1 flex overflow-hidden relative">
-                        <div className="flex-1 overflow-y-auto p-8 max-w-3xl mx-auto" onMouseUp={handleLookup}> <h1 className="text-3xl font-bold mb-6">{readingData.title}</h1> <div className={`${textClass} leading-loose whitespace-pre-wrap`}>{readingData.content}</div> <div className="mt-12 p-6 bg-black/5 rounded-xl"> <h3 className="font-bold mb-2 uppercase text-xs opacity-70">Tóm tắt (Vietnamese)</h3> <p className="italic">{readingData.summary}</p> </div> </div>
-                        {(selectedWord || lookupResult) && (<div className="absolute right-0 top-0 bottom-0 w-80 border-l border-gray-200/50 bg-white/95 backdrop-blur shadow-xl p-4 overflow-y-auto z-20"> <div className="flex justify-between items-center mb-4"> <h3 className="font-bold text-gray-800">Tra từ nhanh</h3> <button onClick={() => { setSelectedWord(null); setLookupResult(null); }} className="text-gray-500">✕</button> </div> {isLookingUp ? (<div className="animate-pulse">Đang tra cứu "{selectedWord}"...</div>) : lookupResult ? (<div className="space-y-4"> <div> <div className="text-2xl font-bold text-blue-600">{lookupResult.word}</div> <div className="text-sm text-gray-500">{lookupResult.ipa} • {lookupResult.type}</div> </div> <div> <div className="font-bold text-sm uppercase text-gray-400">Nghĩa tiếng Việt</div> <div className="font-medium text-gray-900">{lookupResult.meaning_vi}</div> </div> <button onClick={() => { onSaveVocab(lookupResult.word, lookupResult.meaning_vi, "Reading Lookup", "reading"); alert("Đã lưu!"); }} className="w-full py-2 bg-blue-600 text-white rounded-lg font-bold text-sm hover:bg-blue-700" > + Lưu vào Reading Practice </button> </div>) : null} </div>)}
+                        <div className="flex-1 overflow-y-auto p-8 max-w-3xl mx-auto" onMouseUp={handleLookup}> <h1 className="text-3xl font-bold mb-2">{readingData.title}</h1> <p className="text-xs opacity-60 mb-6">{readingData.level} • {readingData.wordCount ?? countWords(readingData.content)} từ • ~{readingData.readingMinutes ?? estimateReadingMinutes(readingData.content, readingData.level)} phút • Từ chưa biết {unknownWordPercent(readingData)}%</p> <div className={`${textClass} leading-loose whitespace-pre-wrap`}>{readingData.content}</div> <div className="mt-12 p-6 bg-black/5 rounded-xl"> <h3 className="font-bold mb-2 uppercase text-xs opacity-70">Tóm tắt (Vietnamese)</h3> <p className="italic">{readingData.summary}</p> </div> <ReadingPassageExtras passage={readingData} answers={quizAnswers} grading={quizGrading} isQuizLoading={isQuizLoading} onFinishReading={handleFinishReading} onCreateQuiz={handleCreateQuiz} onAnswer={(id, opt) => !quizGrading && setQuizAnswers(prev => ({ ...prev, [id]: opt }))} onSubmitQuiz={handleSubmitReadingQuiz} onRetryQuiz={() => { setQuizAnswers({}); setQuizGrading(null); }} onSaveLookups={saveLookupsToVocab} /> </div>
+                        {(selectedWord || lookupResult) && (<div className="absolute right-0 top-0 bottom-0 w-80 border-l border-gray-200/50 bg-white/95 backdrop-blur shadow-xl p-4 overflow-y-auto z-20"> <div className="flex justify-between items-center mb-4"> <h3 className="font-bold text-gray-800">Tra từ nhanh</h3> <div className="flex gap-2"> {selectedWord && !isLookingUp && <button onClick={() => lookupWord(selectedWord, true)} className="text-gray-500 hover:text-blue-600" title="Tra lại (bỏ qua bộ nhớ đệm)">↻</button>} <button onClick={() => { setSelectedWord(null); setLookupResult(null); }} className="text-gray-500">✕</button> </div> </div> {isLookingUp ? (<div className="animate-pulse">Đang tra cứu "{selectedWord}"...</div>) : lookupResult ? (<div className="space-y-4"> <div> <div className="text-2xl font-bold text-blue-600">{lookupResult.word}</div> <div className="text-sm text-gray-500">{lookupResult.ipa} • {lookupResult.type}</div> </div> <div> <div className="font-bold text-sm uppercase text-gray-400">Nghĩa tiếng Việt</div> <div className="font-medium text-gray-900">{lookupResult.meaning_vi}</div> </div> <button onClick={async () => { await saveLookupsToVocab([lookupResult.word]); alert("Đã lưu!"); }} className="w-full py-2 bg-blue-600 text-white rounded-lg font-bold text-sm hover:bg-blue-700" > + Lưu vào Reading Practice </button> </div>) : null} </div>)}
                     </div>
                 </div>
             );
@@ -599,16 +1149,296 @@ const ReadingModule = ({ level, onSaveVocab }: { level: string, onSaveVocab: (w:
         return (
             <div className="h-full flex flex-col animate-fade-in p-4 md:p-8 overflow-y-auto">
                 <div className="mb-8 flex flex-col md:flex-row justify-between items-start md:items-center gap-4"> <h2 className="text-2xl md:text-3xl font-bold text-gray-800 dark:text-white">Phòng Đọc (Reading Lab)</h2> <div className="flex gap-2 bg-white dark:bg-gray-800 p-1.5 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm"> <input value={aiTopic} onChange={e => setAiTopic(e.target.value)} placeholder="Nhập chủ đề (VD: Technology)..." className="bg-transparent border-none outline-none text-sm px-2 w-48 dark:text-white" onKeyDown={e => e.key === 'Enter' && handleGenerate()} /> <button onClick={handleGenerate} disabled={isGenerating} className="bg-blue-600 text-white px-4 py-1.5 rounded-lg text-sm font-bold hover:bg-blue-700 disabled:opacity-50" > {isGenerating ? 'Đang tạo...' : '✨ Tạo bài đọc AI'} </button> </div> </div>
+                {savedPassages.length > 0 && (
+                    <div className="mb-8 max-w-6xl w-full">
+                        <h3 className="font-bold text-gray-500 uppercase text-xs mb-4 tracking-wider">Bài đọc đã lưu ({savedPassages.length})</h3>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                            {savedPassages.slice(0, 9).map(p => (
+                                <div key={p.id} onClick={() => openPassage(p)} className="group bg-white dark:bg-gray-800 p-4 rounded-xl border border-gray-100 dark:border-gray-700 hover:border-blue-300 hover:shadow-md transition-all cursor-pointer flex justify-between items-start gap-2">
+                                    <div className="min-w-0">
+                                        <h4 className="font-bold text-gray-800 dark:text-white truncate">{p.title}</h4>
+                                        <p className="text-xs text-gray-500 mt-1 truncate">{p.topic} • {p.level} • ~{p.readingMinutes ?? estimateReadingMinutes(p.content, p.level)} phút • {new Date(p.createdAt).toLocaleDateString('vi-VN')}</p>
+                                        <p className="text-[11px] text-gray-400 mt-0.5 truncate">
+                                            {p.sessions?.length ? `${p.sessions[p.sessions.length - 1].wordsPerMinute} từ/phút` : 'Chưa đọc'} • Từ chưa biết {unknownWordPercent(p)}%{p.quizResult ? ` • Câu hỏi ${p.quizResult.correct}/${p.quizResult.total}` : ''}
+                                        </p>
+                                    </div>
+                                    <button onClick={e => { e.stopPropagation(); removeSavedPassage(p.id); }} className="text-gray-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity" title="Xóa">✕</button>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
                 <h3 className="font-bold text-gray-500 uppercase text-xs mb-4 tracking-wider">Tài liệu ôn thi (Aptis/IELTS)</h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6 max-w-6xl w-full"> {[{ url: "https://aptiskey.com/reading_question1.html", title: "Reading Part 1", icon: "🧩", name: "Sentence Comprehension", color: "blue", desc: "Điền từ vào chỗ trống trong câu." }, { url: "https://aptiskey.com/reading_question2.html", title: "Reading Part 2 & 3", icon: "📑", name: "Text Organization", color: "indigo", desc: "Sắp xếp câu thành đoạn văn hoàn chỉnh." }, { url: "https://aptiskey.com/reading_question4.html", title: "Reading Part 4", icon: "🧐", name: "Long Text Comprehension", color: "purple", desc: "Đọc hiểu văn bản dài, nối tiêu đề." }, { url: "https://aptiskey.com/reading_question5.html", title: "Reading Part 5", icon: "🕵️", name: "Short Text", color: "pink", desc: "Đọc hiểu đoạn văn ngắn." }, { url: "https://aptiskey.com/reading_bode.html", title: "Bộ đề Ôn thi", icon: "🗓️", name: "Bộ đề Tổng hợp", color: "teal", span: "md:col-span-2", desc: "Kho đề thi thử đầy đủ các phần." }].map((item, idx) => (<div key={idx} onClick={() => { setCurrentUrl({ url: item.url, title: item.title }); setReadingMode('external_browser'); }} className={`bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-${item.color}-100 dark:border-${item.color}-900 hover:shadow-xl hover:border-${item.color}-300 transition-all cursor-pointer ${item.span || ''} group`}> <div className="flex items-start justify-between"> <div> <div className="text-4xl mb-4 group-hover:scale-110 transition-transform origin-left">{item.icon}</div> <h3 className="text-xl font-bold text-gray-800 dark:text-white mb-1">{item.name}</h3> <p className="text-sm text-gray-500 dark:text-gray-400">{item.desc}</p> </div> <div className={`text-${item.color}-500 bg-${item.color}-50 dark:bg-${item.color}-900/20 p-2 rounded-full`}> <span className="text-xl">↗</span> </div> </div> </div>))} </div>
             </div>
         );
     };
-    return (<div className="flex flex-col lg:flex-row h-full bg-white dark:bg-gray-900 overflow-hidden"> <div className="flex-1 overflow-hidden relative"> <ContentArea /> </div> <ManualVocabPanel onSave={(w, m, e) => onSaveVocab(w, m, `Reading Context: ${e}`, 'reading')} folderLabel="Reading Practice" className="w-full lg:w-72 xl:w-80" /> </div>);
+    return (<div className="flex flex-col lg:flex-row h-full bg-white dark:bg-gray-900 overflow-hidden"> <div className="flex-1 overflow-hidden relative"> {ContentArea()} </div> <ManualVocabPanel onSave={(w, m, e) => onSaveVocab(w, m, `Reading Context: ${e}`, 'reading')} folderLabel="Reading Practice" className="w-full lg:w-72 xl:w-80" /> </div>);
 }
 
 // --- LISTENING MODULE (Preserved) ---
-const ListeningModule = ({ onSaveVocab }: { onSaveVocab: (w: string, m: string, c: string, targetFolderId?: string) => void }) => {
+
+const DICTATION_TOKEN_STYLES: Record<DictationToken['type'], string> = {
+    correct: 'text-green-700 dark:text-green-400',
+    wrong: 'text-red-600 dark:text-red-400 line-through',
+    missing: 'text-amber-600 dark:text-amber-400 underline decoration-dotted',
+    extra: 'text-gray-400 line-through'
+};
+
+const DictationResult = ({ alignment }: { alignment: DictationAlignment }) => (
+    <div className="mt-2 text-sm leading-relaxed">
+        {alignment.tokens.map((t, i) => (
+            <span key={i} className="mr-1" title={t.type === 'wrong' ? `Đúng: ${t.expected}` : t.type === 'missing' ? 'Thiếu từ' : t.type === 'extra' ? 'Thừa từ' : undefined}>
+                <span className={DICTATION_TOKEN_STYLES[t.type]}>{t.type === 'missing' ? `[${t.expected}]` : t.typed}</span>
+                {t.type === 'wrong' && <span className="text-green-700 dark:text-green-400 ml-0.5">({t.expected})</span>}
+            </span>
+        ))}
+        <span className="ml-2 text-xs font-bold text-gray-500">{alignment.accuracy}%</span>
+    </div>
+);
+
+// Generated dialogue / monologue read by the browser voices, with comprehension and dictation
+const AIListeningPractice = ({ level, onExit }: { level: string, onExit: () => void }) => {
+    const unmountSignal = useAbortOnUnmount();
+    const [kind, setKind] = useState<ListeningExercise['kind']>('dialogue');
+    const [topic, setTopic] = useState("");
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [exercise, setExercise] = useState<ListeningExercise | null>(null);
+    const [rate, setRate] = useState(1);
+    const [playingLine, setPlayingLine] = useState<number | null>(null);
+    const [mode, setMode] = useState<ListeningMode>('comprehension');
+    const [showScript, setShowScript] = useState(false);
+    const [answers, setAnswers] = useState<Record<number, string>>({});
+    const [grading, setGrading] = useState<GrammarGrading | null>(null);
+    const [isGrading, setIsGrading] = useState(false);
+    const [typed, setTyped] = useState<Record<number, string>>({});
+    const [checked, setChecked] = useState<Record<number, DictationAlignment>>({});
+    const [dictationScore, setDictationScore] = useState<number | null>(null);
+    const [history, setHistory] = useState<ListeningResult[]>([]);
+
+    useEffect(() => {
+        speechService.getVoices().then(() => { });
+        listeningService.list().then(setHistory);
+        return () => speechService.cancel();
+    }, []);
+
+    // First speaker female, second male; same voice on a machine with one English voice, so vary the pitch
+    const speakerVoices = (ex: ListeningExercise) => {
+        const speakers = [...new Set(ex.lines.map(l => l.speaker))];
+        const female = speechService.findBestVoice({ lang: 'en-US', gender: 'female' });
+        const male = speechService.findBestVoice({ lang: 'en-US', gender: 'male' });
+        return ex.lines.map(l => {
+            const index = speakers.indexOf(l.speaker) % 2;
+            const voice = index === 0 ? female : male;
+            return { text: l.text, voice, pitch: index === 1 && voice === female ? 0.8 : 1 };
+        });
+    };
+
+    const playLines = (from: number, to: number) => {
+        if (!exercise) return;
+        const lines = speakerVoices(exercise).slice(from, to);
+        speechService.speakSequence(lines, rate, i => setPlayingLine(from + i), () => setPlayingLine(null));
+    };
+
+    const stop = () => {
+        speechService.cancel();
+        setPlayingLine(null);
+    };
+
+    const handleGenerate = async () => {
+        stop();
+        setIsGenerating(true);
+        try {
+            const result = await geminiService.generateListeningExercise(level, kind, topic.trim() || undefined, { signal: unmountSignal() });
+            setExercise(result);
+            setShowScript(false);
+            setAnswers({});
+            setGrading(null);
+            setTyped({});
+            setChecked({});
+            setDictationScore(null);
+        } catch (e) {
+            if (isAbortError(e)) return;
+            console.error("Listening generation error", e);
+            alert("Không tạo được bài nghe. Vui lòng thử lại.");
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    const saveResult = async (resultMode: ListeningMode, correct: number, total: number, score: number) => {
+        if (!exercise) return;
+        const result: ListeningResult = {
+            id: Date.now().toString(),
+            timestamp: Date.now(),
+            level, kind: exercise.kind, title: exercise.title,
+            mode: resultMode, rate, score, correct, total,
+            script: scriptOf(exercise)
+        };
+        await listeningService.save(result);
+        setHistory(prev => [result, ...prev]);
+    };
+
+    const handleSubmitQuiz = async () => {
+        if (!exercise) return;
+        if (Object.keys(answers).length < exercise.questions.length && !window.confirm("Bạn chưa làm hết câu hỏi. Vẫn muốn nộp bài?")) return;
+        setIsGrading(true);
+        try {
+            const result = gradeQuizLocally(exercise.questions, answers) || await geminiService.gradeGrammarQuiz(level, exercise.questions, answers, { signal: unmountSignal() });
+            setGrading(result);
+            setShowScript(true);
+            const correct = result.results.filter(r => r.isCorrect).length;
+            await saveResult('comprehension', correct, exercise.questions.length, quizPercent(result, exercise.questions.length));
+        } catch (e) {
+            if (isAbortError(e)) return;
+            console.error("Listening grading error", e);
+            alert("Lỗi khi chấm bài.");
+        } finally {
+            setIsGrading(false);
+        }
+    };
+
+    const handleCheckLine = (index: number) => {
+        if (!exercise) return;
+        setChecked(prev => ({ ...prev, [index]: alignDictation(exercise.lines[index].text, typed[index] || '') }));
+    };
+
+    // Lines left unchecked count with whatever was typed (all missing when empty)
+    const handleFinishDictation = async () => {
+        if (!exercise) return;
+        const all = exercise.lines.map((l, i) => checked[i] || alignDictation(l.text, typed[i] || ''));
+        setChecked(Object.fromEntries(all.map((a, i) => [i, a])));
+        const correct = all.reduce((sum, a) => sum + a.correct, 0);
+        const total = all.reduce((sum, a) => sum + a.total, 0);
+        const score = Math.round(all.reduce((sum, a) => sum + a.accuracy * a.total, 0) / (total || 1));
+        setDictationScore(score);
+        setShowScript(true);
+        await saveResult('dictation', correct, total, score);
+    };
+
+    return (
+        <div className="h-full overflow-y-auto p-4 md:p-8 bg-white dark:bg-gray-900 animate-fade-in">
+            <div className="max-w-4xl mx-auto space-y-6">
+                <div className="flex items-center justify-between">
+                    <button onClick={() => { stop(); onExit(); }} className="text-gray-600 dark:text-gray-300 font-bold hover:bg-gray-100 dark:hover:bg-gray-800 px-3 py-1.5 rounded-lg">← Back</button>
+                    <span className="text-xs font-bold bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 px-2 py-1 rounded">Level {level}</span>
+                </div>
+
+                <div className="p-4 rounded-2xl border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800 flex flex-col md:flex-row gap-3 md:items-end">
+                    <div>
+                        <label className="text-xs font-bold text-gray-500 uppercase block mb-1">Dạng bài</label>
+                        <div className="flex bg-white dark:bg-gray-700 rounded-lg p-1 border border-gray-200 dark:border-gray-600">
+                            {(['dialogue', 'monologue'] as const).map(k => (
+                                <button key={k} onClick={() => setKind(k)} className={`px-3 py-1.5 rounded-md text-sm font-bold ${kind === k ? 'bg-blue-600 text-white' : 'text-gray-600 dark:text-gray-300'}`}>{k === 'dialogue' ? '💬 Hội thoại' : '📻 Độc thoại'}</button>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="flex-1">
+                        <label className="text-xs font-bold text-gray-500 uppercase block mb-1">Chủ đề (tùy chọn)</label>
+                        <input value={topic} onChange={e => setTopic(e.target.value)} placeholder="VD: booking a hotel, job interview..." className="w-full px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white text-sm" />
+                    </div>
+                    <button onClick={handleGenerate} disabled={isGenerating} className="px-5 py-2 bg-blue-600 text-white rounded-lg font-bold hover:bg-blue-700 disabled:opacity-50">{isGenerating ? 'Đang tạo...' : exercise ? '🔄 Bài mới' : '✨ Tạo bài nghe'}</button>
+                </div>
+
+                {exercise && (
+                    <>
+                        <div className="p-4 rounded-2xl bg-gradient-to-br from-cyan-600 to-blue-600 text-white shadow-lg">
+                            <p className="text-xs uppercase font-bold opacity-80">{exercise.kind === 'dialogue' ? 'Dialogue' : 'Monologue'} • {exercise.lines.length} câu</p>
+                            <h3 className="text-xl font-bold mt-1">{exercise.title}</h3>
+                            <div className="flex flex-wrap items-center gap-3 mt-4">
+                                {playingLine === null
+                                    ? <button onClick={() => playLines(0, exercise.lines.length)} className="px-4 py-2 bg-white text-blue-700 rounded-lg font-bold">▶ Nghe toàn bài</button>
+                                    : <button onClick={stop} className="px-4 py-2 bg-white text-red-600 rounded-lg font-bold">⏹ Dừng</button>}
+                                <div className="flex items-center gap-1 bg-white/20 rounded-lg p-1">
+                                    {LISTENING_RATES.map(r => (
+                                        <button key={r} onClick={() => setRate(r)} className={`px-2 py-1 rounded text-xs font-bold ${rate === r ? 'bg-white text-blue-700' : 'text-white'}`}>{r}x</button>
+                                    ))}
+                                </div>
+                                <button onClick={() => setShowScript(!showScript)} className="text-xs font-bold underline opacity-90">{showScript ? 'Ẩn transcript' : 'Hiện transcript'}</button>
+                            </div>
+                        </div>
+
+                        {showScript && (
+                            <div className="p-4 rounded-xl border border-gray-200 dark:border-gray-700 space-y-1 text-sm">
+                                {exercise.lines.map((l, i) => (
+                                    <p key={i} onClick={() => playLines(i, i + 1)} className={`cursor-pointer rounded px-2 py-1 ${playingLine === i ? 'bg-yellow-100 dark:bg-yellow-900/30' : 'hover:bg-gray-50 dark:hover:bg-gray-800'} text-gray-800 dark:text-gray-200`}>
+                                        {exercise.kind === 'dialogue' && <span className="font-bold text-blue-600 mr-2">{l.speaker}:</span>}{l.text}
+                                    </p>
+                                ))}
+                            </div>
+                        )}
+
+                        <div className="flex gap-2 border-b border-gray-200 dark:border-gray-700">
+                            {([['comprehension', '❓ Câu hỏi'], ['dictation', '⌨️ Chính tả']] as const).map(([m, label]) => (
+                                <button key={m} onClick={() => setMode(m)} className={`px-4 py-2 text-sm font-bold border-b-2 -mb-px ${mode === m ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-500'}`}>{label}</button>
+                            ))}
+                        </div>
+
+                        {mode === 'comprehension' && (
+                            <div className="space-y-4">
+                                <ExamQuizSection questions={exercise.questions} answers={answers} onAnswer={(id, opt) => !grading && setAnswers(prev => ({ ...prev, [id]: opt }))} />
+                                {grading ? (
+                                    <div className="p-4 rounded-xl bg-blue-50 dark:bg-blue-900/20 border border-blue-100 dark:border-blue-800 space-y-2">
+                                        <p className="font-bold text-blue-700 dark:text-blue-300">Kết quả: {grading.results.filter(r => r.isCorrect).length}/{exercise.questions.length}</p>
+                                        {exercise.questions.map((q, i) => {
+                                            const r = grading.results.find(x => x.id === q.id);
+                                            return <p key={q.id} className="text-sm text-gray-700 dark:text-gray-300"><span className={r?.isCorrect ? 'text-green-600' : 'text-red-600'}>{r?.isCorrect ? '✓' : '✗'}</span> <b>{i + 1}.</b> {r?.explanation}</p>;
+                                        })}
+                                    </div>
+                                ) : (
+                                    <button onClick={handleSubmitQuiz} disabled={isGrading} className="w-full py-3 bg-green-600 text-white rounded-xl font-bold hover:bg-green-700 disabled:opacity-50">{isGrading ? 'Đang chấm...' : 'Nộp bài'}</button>
+                                )}
+                            </div>
+                        )}
+
+                        {mode === 'dictation' && (
+                            <div className="space-y-3">
+                                <p className="text-xs text-gray-500">Nghe từng câu và gõ lại chính xác. Màu xanh: đúng • đỏ: sai (đáp án trong ngoặc) • [vàng]: thiếu • xám: thừa.</p>
+                                {exercise.lines.map((l, i) => (
+                                    <div key={i} className="p-3 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+                                        <div className="flex items-center gap-2">
+                                            <button onClick={() => playLines(i, i + 1)} className={`w-9 h-9 shrink-0 rounded-full ${playingLine === i ? 'bg-yellow-400 text-white' : 'bg-blue-100 dark:bg-blue-900/30 text-blue-600'} font-bold`}>{i + 1}</button>
+                                            <input value={typed[i] || ''} onChange={e => setTyped(prev => ({ ...prev, [i]: e.target.value }))} onKeyDown={e => e.key === 'Enter' && handleCheckLine(i)} disabled={dictationScore !== null} placeholder={exercise.kind === 'dialogue' ? `${l.speaker}...` : 'Gõ câu bạn nghe được...'} className="flex-1 px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 dark:text-white text-sm" />
+                                            <button onClick={() => handleCheckLine(i)} disabled={dictationScore !== null} className="px-3 py-2 text-xs font-bold rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 disabled:opacity-50">Kiểm tra</button>
+                                        </div>
+                                        {checked[i] && <DictationResult alignment={checked[i]} />}
+                                    </div>
+                                ))}
+                                {dictationScore === null
+                                    ? <button onClick={handleFinishDictation} className="w-full py-3 bg-green-600 text-white rounded-xl font-bold hover:bg-green-700">Hoàn thành & lưu kết quả</button>
+                                    : <p className="text-center font-bold text-blue-700 dark:text-blue-300">Độ chính xác: {dictationScore}%</p>}
+                            </div>
+                        )}
+                    </>
+                )}
+
+                {history.length > 0 && (
+                    <div>
+                        <h3 className="font-bold text-gray-500 uppercase text-xs mb-3 tracking-wider">Lịch sử luyện nghe</h3>
+                        <div className="space-y-2">
+                            {history.slice(0, 20).map(r => (
+                                <div key={r.id} className="flex items-center justify-between p-3 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+                                    <div className="min-w-0">
+                                        <p className="font-bold text-sm text-gray-800 dark:text-white truncate">{r.title}</p>
+                                        <p className="text-xs text-gray-500">{new Date(r.timestamp).toLocaleString('vi-VN')} • {r.level} • {r.mode === 'dictation' ? 'Chính tả' : 'Câu hỏi'} • {r.rate}x</p>
+                                    </div>
+                                    <div className="flex items-center gap-3 shrink-0">
+                                        <span className={`font-bold ${r.score >= 80 ? 'text-green-600' : r.score >= 50 ? 'text-amber-600' : 'text-red-600'}`}>{r.score}%</span>
+                                        <span className="text-xs text-gray-400">{r.correct}/{r.total}</span>
+                                        <button onClick={async () => { if (!confirm("Xóa kết quả này?")) return; await listeningService.remove(r.id); setHistory(prev => prev.filter(x => x.id !== r.id)); }} className="text-gray-400 hover:text-red-500 text-sm">🗑</button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const ListeningModule = ({ level, onSaveVocab }: { level: string, onSaveVocab: (w: string, m: string, c: string, targetFolderId?: string) => void }) => {
+    const [isAIPractice, setIsAIPractice] = useState(false);
     const [currentUrl, setCurrentUrl] = useState<{ url: string, title: string } | null>(null);
     const [notes, setNotes] = useState("");
     const [timer, setTimer] = useState(0);
@@ -623,10 +1453,10 @@ const ListeningModule = ({ onSaveVocab }: { onSaveVocab: (w: string, m: string,
             </div>
         );
         return (
-            <div className="h-full flex flex-col animate-fade-in p-4 md:p-8 overflow-y-auto bg-white dark:bg-gray-900"> <div className="mb-8"><h2 className="text-2xl md:text-3xl font-bold text-gray-800 dark:text-white mb-2">Listening Studio</h2></div> <div className="grid grid-cols-1 md:grid-cols-2 gap-6 max-w-5xl mx-auto w-full"> {[{ url: "https://aptiskey.com/listening_question1_13.html", title: "Part 1", icon: "🎧", name: "Info Recognition", color: "cyan" }, { url: "https://aptiskey.com/listening_question14.html", title: "Part 2", icon: "🔗", name: "Matching", color: "indigo" }, { url: "https://aptiskey.com/listening_question15.html", title: "Part 3", icon: "💭", name: "Inference", color: "violet" }, { url: "https://aptiskey.com/listening_question16_17.html", title: "Part 4", icon: "📻", name: "Monologue", color: "fuchsia" }, { url: "https://aptiskey.com/listening_bode.html", title: "Bộ đề", icon: "🗓️", name: "Bộ đề Ôn thi", color: "emerald", span: "md:col-span-2" }].map((item, idx) => (<div key={idx} onClick={() => { setCurrentUrl({ url: item.url, title: item.title }); setTimer(0); setNotes(""); }} className={`bg-white dark:bg-gray-800 p-6 md:p-8 rounded-2xl shadow-sm border border-${item.color}-100 dark:border-${item.color}-900 hover:shadow-xl transition-all cursor-pointer ${item.span || ''} group`}> <div className="flex justify-between"> <div className="text-5xl mb-6 group-hover:scale-110 transition-transform">{item.icon}</div> <span className="text-xs font-bold bg-gray-100 dark:bg-gray-700 px-2 py-1 h-fit rounded">External Source</span> </div> <h3 className="text-xl font-bold text-gray-800 dark:text-white mb-2">{item.name}</h3> <div className="mt-auto font-bold text-blue-600 dark:text-blue-400 flex items-center gap-2">Start Practice <span>→</span></div> </div>))} </div> </div>
+            <div className="h-full flex flex-col animate-fade-in p-4 md:p-8 overflow-y-auto bg-white dark:bg-gray-900"> <div className="mb-8"><h2 className="text-2xl md:text-3xl font-bold text-gray-800 dark:text-white mb-2">Listening Studio</h2></div> <div onClick={() => setIsAIPractice(true)} className="max-w-5xl mx-auto w-full mb-6 p-6 md:p-8 rounded-2xl bg-gradient-to-br from-cyan-600 to-blue-600 text-white shadow-lg hover:shadow-xl transition-all cursor-pointer group"> <div className="flex justify-between"> <div className="text-5xl mb-4 group-hover:scale-110 transition-transform">🤖</div> <span className="text-xs font-bold bg-white/20 px-2 py-1 h-fit rounded">AI</span> </div> <h3 className="text-xl font-bold mb-1">AI Listening & Dictation</h3> <p className="text-sm opacity-90">Hội thoại / độc thoại theo trình độ, chỉnh tốc độ đọc, trả lời câu hỏi hoặc nghe chép chính tả.</p> </div> <div className="grid grid-cols-1 md:grid-cols-2 gap-6 max-w-5xl mx-auto w-full"> {[{ url: "https://aptiskey.com/listening_question1_13.html", title: "Part 1", icon: "🎧", name: "Info Recognition", color: "cyan" }, { url: "https://aptiskey.com/listening_question14.html", title: "Part 2", icon: "🔗", name: "Matching", color: "indigo" }, { url: "https://aptiskey.com/listening_question15.html", title: "Part 3", icon: "💭", name: "Inference", color: "violet" }, { url: "https://aptiskey.com/listening_question16_17.html", title: "Part 4", icon: "📻", name: "Monologue", color: "fuchsia" }, { url: "https://aptiskey.com/listening_bode.html", title: "Bộ đề", icon: "🗓️", name: "Bộ đề Ôn thi", color: "emerald", span: "md:col-span-2" }].map((item, idx) => (<div key={idx} onClick={() => { setCurrentUrl({ url: item.url, title: item.title }); setTimer(0); setNotes(""); }} className={`bg-white dark:bg-gray-800 p-6 md:p-8 rounded-2xl shadow-sm border border-${item.color}-100 dark:border-${item.color}-900 hover:shadow-xl transition-all cursor-pointer ${item.span || ''} group`}> <div className="flex justify-between"> <div className="text-5xl mb-6 group-hover:scale-110 transition-transform">{item.icon}</div> <span className="text-xs font-bold bg-gray-100 dark:bg-gray-700 px-2 py-1 h-fit rounded">External Source</span> </div> <h3 className="text-xl font-bold text-gray-800 dark:text-white mb-2">{item.name}</h3> <div className="mt-auto font-bold text-blue-600 dark:text-blue-400 flex items-center gap-2">Start Practice <span>→</span></div> </div>))} </div> </div>
         );
     }
-    return (<div className="flex flex-col lg:flex-row h-full overflow-hidden"> <div className="flex-1 overflow-hidden relative"> <Content /> </div> <ManualVocabPanel onSave={(w, m, e) => onSaveVocab(w, m, `Listening Context: ${e}`, 'listening')} folderLabel="Listening Practice" className="w-full lg:w-72 xl:w-80" /> </div>);
+    return (<div className="flex flex-col lg:flex-row h-full overflow-hidden"> <div className="flex-1 overflow-hidden relative"> {isAIPractice ? <AIListeningPractice level={level} onExit={() => setIsAIPractice(false)} /> : <Content />} </div> <ManualVocabPanel onSave={(w, m, e) => onSaveVocab(w, m, `Listening Context: ${e}`, 'listening')} folderLabel="Listening Practice" className="w-full lg:w-72 xl:w-80" /> </div>);
 }
 
 // --- SPEAKING MODULE (Enhanced) ---
@@ -647,7 +1477,35 @@ const VoiceVisualizer = ({ isActive, isUserSpeaking }: { isActive: boolean, isUs
     );
 };
 
-const SpeakingPractice = ({ level, onSaveVocab }: { level: string, onSaveVocab: (word: string, def: string, context: string, targetFolderId?: string) => void }) => {
+// Pronunciation and fluency of one user turn, under its transcript bubble
+const TurnScoreBadge = ({ score }: { score: SpeakingTurnScore }) => {
+    const weak = score.words.filter(w => w.score < 70 || w.flaggedPhonemes.length > 0);
+    const tone = (v: number) => v >= 80 ? 'text-green-600 dark:text-green-400' : v >= 60 ? 'text-amber-600 dark:text-amber-400' : 'text-red-600 dark:text-red-400';
+    return (
+        <div className="mt-1 max-w-[90%] text-[11px] bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg px-2 py-1.5 shadow-sm">
+            <div className="flex flex-wrap gap-x-3 gap-y-0.5 font-bold">
+                <span className={tone(score.pronunciation)}>🗣 Phát âm {score.pronunciation}</span>
+                <span className={tone(score.fluency)}>🌊 Trôi chảy {score.fluency}</span>
+                <span className="text-gray-500">⏱ {score.wordsPerMinute} từ/phút</span>
+            </div>
+            {weak.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-1">
+                    {weak.map((w, i) => (
+                        <span key={i} title={w.expectedIpa ? `Chuẩn: /${w.expectedIpa}/${w.heardIpa ? ` • Nghe được: /${w.heardIpa}/` : ''}` : undefined} className="px-1.5 py-0.5 rounded bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 border border-red-100 dark:border-red-800">
+                            {w.word} <span className="opacity-70">{w.score}</span>
+                            {w.flaggedPhonemes.length > 0 && <span className="font-mono ml-1">/{w.flaggedPhonemes.join(' ')}/</span>}
+                        </span>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const MAX_TURN_FRAMES = 240; // ~60s of 4096-sample frames at 16 kHz
+
+const SpeakingPractice = ({ level, onSaveVocab }: { level: string, onSaveVocab: (word: string, def: string, context: string, targetFolderId?: string, ipa?: string) => void }) => {
+    const unmountSignal = useAbortOnUnmount();
     const [mode, setMode] = useState<SpeakingMode>(null);
 
     // Mode Specific States
@@ -661,6 +1519,7 @@ const SpeakingPractice = ({ level, onSaveVocab }: { level: string, onSaveVocab:
     const [suggestion, setSuggestion] = useState<SpeakingSuggestion | null>(null);
     const [isGeneratingSuggestion, setIsGeneratingSuggestion] = useState(false);
     const [lastAIResponse, setLastAIResponse] = useState("");
+    const [scores, setScores] = useState<SpeakingTurnScore[]>([]);
 
     // History & Suggestions tracking
     const [allSuggestions, setAllSuggestions] = useState<SpeakingSuggestion[]>([]);
@@ -680,9 +1539,11 @@ const SpeakingPractice = ({ level, onSaveVocab }: { level: string, onSaveVocab:
     const nextStartTimeRef = useRef(0);
     const transcriptEndRef = useRef<HTMLDivElement>(null);
     const transcriptRef = useRef<{ role: 'user' | 'model', text: string }[]>([]); // To track latest state in callback
+    const turnAudioRef = useRef<Float32Array[]>([]);     // Mic frames since the model last finished speaking
+    const scoresRef = useRef<SpeakingTurnScore[]>([]);
+    const pendingScoresRef = useRef<Promise<void>[]>([]);
 
     useEffect(() => {
-        transcriptRef.current = transcript;
         transcriptEndRef.current?.scrollIntoView({ behavior: "smooth" });
     }, [transcript]);
 
@@ -703,7 +1564,11 @@ const SpeakingPractice = ({ level, onSaveVocab }: { level: string, onSaveVocab:
         setSuggestion(null);
         setAllSuggestions([]);
         setLastAIResponse("");
+        setScores([]);
         transcriptRef.current = [];
+        turnAudioRef.current = [];
+        scoresRef.current = [];
+        pendingScoresRef.current = [];
         setStartTime(Date.now());
 
         try {
@@ -718,22 +1583,22 @@ const SpeakingPractice = ({ level, onSaveVocab }: { level: string, onSaveVocab:
                 "Kore",
                 (pcmData) => playAudio(pcmData),
                 (text, isUser, isFinal) => {
-                    // Handle Transcript Updates
-                    setTranscript(prev => {
-                        const role = isUser ? 'user' : 'model';
-                        const last = prev[prev.length - 1];
-
-                        if (last && last.role === role) {
-                            // Append to last message if same role
-                            const newArr = [...prev];
-                            newArr[newArr.length - 1] = { ...last, text: last.text + text };
-                            return newArr;
-                        } else {
-                            // New message bubble
-                            if (text) return [...prev, { role, text }];
-                            return prev;
-                        }
-                    });
+                    // Handle Transcript Updates (kept in the ref synchronously, turn scoring reads it)
+                    const prev = transcriptRef.current;
+                    const role = isUser ? 'user' : 'model';
+                    const last = prev[prev.length - 1];
+
+                    if (last && last.role === role) {
+                        // Append to last message if same role
+                        const newArr = [...prev];
+                        newArr[newArr.length - 1] = { ...last, text: last.text + text };
+                        transcriptRef.current = newArr;
+                    } else if (text) {
+                        // New message bubble; the model answering closes the user's turn
+                        if (last?.role === 'user') scoreTurn(prev.length - 1, last.text);
+                        transcriptRef.current = [...prev, { role, text }];
+                    }
+                    setTranscript(transcriptRef.current);
 
                     // Handle Turn Completion for AI Suggestions
                     if (isFinal) {
@@ -746,6 +1611,7 @@ const SpeakingPractice = ({ level, onSaveVocab }: { level: string, onSaveVocab:
                         if (lastMsg && lastMsg.role === 'model') {
                             // AI just finished talking
                             triggerSuggestion(lastMsg.text);
+                            turnAudioRef.current = [];
                         }
                     }
                 },
@@ -768,6 +1634,10 @@ const SpeakingPractice = ({ level, onSaveVocab }: { level: string, onSaveVocab:
                 if (rms > 0.02) setVisualizerState({ isUserSpeaking: true });
                 else setVisualizerState({ isUserSpeaking: false });
 
+                // Keep a copy for pronunciation scoring, the buffer is reused
+                turnAudioRef.current.push(new Float32Array(inputData));
+                if (turnAudioRef.current.length > MAX_TURN_FRAMES) turnAudioRef.current.shift();
+
                 // Send Audio to Model
                 const pcm16 = new Int16Array(inputData.length);
                 for (let i = 0; i < inputData.length; i++) {
@@ -804,24 +1674,34 @@ const SpeakingPractice = ({ level, onSaveVocab }: { level: string, onSaveVocab:
     const triggerSuggestion = async (aiText: string) => {
         if (!aiText.trim()) return;
         setIsGeneratingSuggestion(true);
-        const result = await geminiService.generateSpeakingSuggestions(aiText);
-        setSuggestion(result);
-        setAllSuggestions(prev => [...prev, result]);
-        setIsGeneratingSuggestion(false);
+        try {
+            const result = await geminiService.generateSpeakingSuggestions(aiText, { signal: unmountSignal() });
+            setSuggestion(result);
+            setAllSuggestions(prev => [...prev, result]);
+        } catch (e) {
+            if (!isAbortError(e)) console.error("Speaking suggestion failed", e);
+        } finally {
+            setIsGeneratingSuggestion(false);
+        }
+    };
+
+    const scoreTurn = (turnIndex: number, text: string) => {
+        const frames = turnAudioRef.current;
+        turnAudioRef.current = [];
+        const pending = pronunciationService.scoreTurn(turnIndex, text, frames, 16000, { signal: unmountSignal() })
+            .then(score => {
+                if (!score) return;
+                scoresRef.current = [...scoresRef.current, score];
+                setScores(scoresRef.current);
+            })
+            .catch(e => { if (!isAbortError(e)) console.error("Pronunciation scoring failed", e); });
+        pendingScoresRef.current.push(pending);
     };
 
     const stopLiveSession = async () => {
-        // Save Session Data if valid
-        if (isLive && transcriptRef.current.length > 0) {
-            const sessionData: SpeakingSession = {
-                id: Date.now().toString(),
-                timestamp: startTime,
-                durationSeconds: Math.floor((Date.now() - startTime) / 1000),
-                transcript: transcriptRef.current,
-                suggestions: allSuggestions
-            };
-            await firebaseService.saveSpeakingSession(sessionData);
-        }
+        // The last turn is still open when the user ends on their own words
+        const lastMsg = transcriptRef.current[transcriptRef.current.length - 1];
+        if (isLive && lastMsg?.role === 'user') scoreTurn(transcriptRef.current.length - 1, lastMsg.text);
 
         setIsLive(false);
         streamRef.current?.getTracks().forEach(t => t.stop());
@@ -832,6 +1712,20 @@ const SpeakingPractice = ({ level, onSaveVocab }: { level: string, onSaveVocab:
             audioContextRef.current.close();
         }
         setVisualizerState({ isUserSpeaking: false });
+
+        // Save Session Data if valid
+        if (isLive && transcriptRef.current.length > 0) {
+            await Promise.all(pendingScoresRef.current);
+            const sessionData: SpeakingSession = {
+                id: Date.now().toString(),
+                timestamp: startTime,
+                durationSeconds: Math.floor((Date.now() - startTime) / 1000),
+                transcript: transcriptRef.current,
+                suggestions: allSuggestions,
+                scores: [...scoresRef.current].sort((a, b) => a.turnIndex - b.turnIndex)
+            };
+            await firebaseService.saveSpeakingSession(sessionData);
+        }
     };
 
     const playAudio = async (arrayBuffer: ArrayBuffer) => {
@@ -871,10 +1765,19 @@ const SpeakingPractice = ({ level, onSaveVocab }: { level: string, onSaveVocab:
                     <h3 className="text-2xl font-bold text-gray-800 dark:text-white mb-2">Describe Image</h3>
                     <p className="text-gray-500 dark:text-gray-400">Mô tả tranh và so sánh (Part 2 & 3).</p>
                 </div>
+                <div onClick={() => setMode('test')} className="bg-white dark:bg-gray-800 p-8 rounded-2xl shadow-sm border border-green-100 dark:border-green-900 hover:shadow-xl hover:scale-[1.02] transition-all cursor-pointer group">
+                    <div className="w-16 h-16 rounded-full bg-green-50 flex items-center justify-center text-4xl mb-6 group-hover:rotate-12 transition-transform">📝</div>
+                    <h3 className="text-2xl font-bold text-gray-800 dark:text-white mb-2">Mock Test</h3>
+                    <p className="text-gray-500 dark:text-gray-400">Thi thử Aptis/IELTS đủ 4 phần, tính giờ và chấm điểm.</p>
+                </div>
             </div>
         );
     }
 
+    if (mode === 'test') {
+        return <MockExamModule level={level} onExit={() => setMode(null)} />;
+    }
+
     // Common Header
     const renderHeader = (title: string) => (
         <div className="flex justify-between items-center p-4 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 shrink-0">
@@ -930,13 +1833,17 @@ const SpeakingPractice = ({ level, onSaveVocab }: { level: string, onSaveVocab:
                             <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-gray-50/50 dark:bg-gray-900">
                                 <div className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2 sticky top-0 bg-gray-50/95 dark:bg-gray-900/95 py-1 z-10">Live Transcript</div>
                                 {transcript.length === 0 && <p className="text-gray-400 italic text-sm text-center mt-10">Conversation will appear here...</p>}
-                                {transcript.map((t, i) => (
-                                    <div key={i} className={`flex ${t.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                                        <div className={`max-w-[90%] p-3 rounded-xl text-sm ${t.role === 'user' ? 'bg-blue-600 text-white rounded-br-none' : 'bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200 border border-gray-200 dark:border-gray-700 rounded-bl-none shadow-sm'}`}>
-                                            {t.text}
+                                {transcript.map((t, i) => {
+                                    const score = scores.find(s => s.turnIndex === i);
+                                    return (
+                                        <div key={i} className={`flex flex-col ${t.role === 'user' ? 'items-end' : 'items-start'}`}>
+                                            <div className={`max-w-[90%] p-3 rounded-xl text-sm ${t.role === 'user' ? 'bg-blue-600 text-white rounded-br-none' : 'bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200 border border-gray-200 dark:border-gray-700 rounded-bl-none shadow-sm'}`}>
+                                                {t.text}
+                                            </div>
+                                            {score && <TurnScoreBadge score={score} />}
                                         </div>
-                                    </div>
-                                ))}
+                                    );
+                                })}
                                 <div ref={transcriptEndRef} />
                             </div>
 
@@ -1044,21 +1951,31 @@ const SpeakingPractice = ({ level, onSaveVocab }: { level: string, onSaveVocab:
                             <button onClick={() => setShowHistoryList(false)} className="text-gray-400 hover:text-gray-600">✕</button>
                         </div>
                         <div className="flex-1 overflow-y-auto p-4 space-y-2">
-                            {sessionList.map(session => (
-                                <div
-                                    key={session.id}
-                                    onClick={() => { setHistoryModal({ isOpen: true, session }); }}
-                                    className="p-3 rounded-xl bg-gray-50 dark:bg-gray-700/50 hover:bg-blue-50 dark:hover:bg-blue-900/20 border border-transparent hover:border-blue-100 cursor-pointer transition-all group"
-                                >
-                                    <div className="flex justify-between items-start">
-                                        <div>
-                                            <p className="font-bold text-gray-800 dark:text-white text-sm">Session {new Date(session.timestamp).toLocaleDateString()}</p>
-                                            <p className="text-xs text-gray-500">{new Date(session.timestamp).toLocaleTimeString()} • {Math.floor(session.durationSeconds / 60)}m {session.durationSeconds % 60}s</p>
+                            {sessionList.some(s => s.scores?.length) && (
+                                <div className="mb-2 p-3 rounded-xl border border-gray-100 dark:border-gray-700">
+                                    <p className="text-xs font-bold text-gray-500 uppercase mb-2">Tiến bộ phát âm</p>
+                                    <SpeakingProgressChart sessions={sessionList} />
+                                </div>
+                            )}
+                            {sessionList.map(session => {
+                                const summary = summarizeScores(session.scores);
+                                return (
+                                    <div
+                                        key={session.id}
+                                        onClick={() => { setHistoryModal({ isOpen: true, session }); }}
+                                        className="p-3 rounded-xl bg-gray-50 dark:bg-gray-700/50 hover:bg-blue-50 dark:hover:bg-blue-900/20 border border-transparent hover:border-blue-100 cursor-pointer transition-all group"
+                                    >
+                                        <div className="flex justify-between items-start">
+                                            <div>
+                                                <p className="font-bold text-gray-800 dark:text-white text-sm">Session {new Date(session.timestamp).toLocaleDateString()}</p>
+                                                <p className="text-xs text-gray-500">{new Date(session.timestamp).toLocaleTimeString()} • {Math.floor(session.durationSeconds / 60)}m {session.durationSeconds % 60}s</p>
+                                            </div>
+                                            <span className="text-xs bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full">{session.transcript.length} turns</span>
                                         </div>
-                                        <span className="text-xs bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full">{session.transcript.length} turns</span>
+                                        {summary && <p className="text-[11px] text-gray-500 mt-1">🗣 {summary.pronunciation} • 🌊 {summary.fluency} • ⏱ {summary.wordsPerMinute} từ/phút</p>}
                                     </div>
-                                </div>
-                            ))}
+                                );
+                            })}
                             {sessionList.length === 0 && <p className="text-center text-gray-400 text-sm py-8">Chưa có lịch sử.</p>}
                         </div>
                     </div>
@@ -1080,14 +1997,18 @@ const SpeakingPractice = ({ level, onSaveVocab }: { level: string, onSaveVocab:
                             <div className="flex-1 overflow-y-auto p-6 border-r border-gray-100 dark:border-gray-700">
                                 <h4 className="font-bold text-gray-500 uppercase text-xs mb-4">Transcript</h4>
                                 <div className="space-y-4">
-                                    {historyModal.session.transcript.map((t, i) => (
-                                        <div key={i} className={`flex ${t.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                                            <div className={`max-w-[90%] p-3 rounded-xl text-sm ${t.role === 'user' ? 'bg-blue-100 text-blue-900' : 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200'}`}>
-                                                <span className="block text-[10px] font-bold opacity-50 mb-1">{t.role === 'user' ? 'You' : 'AI Tutor'}</span>
-                                                {t.text}
+                                    {historyModal.session.transcript.map((t, i) => {
+                                        const score = historyModal.session!.scores?.find(s => s.turnIndex === i);
+                                        return (
+                                            <div key={i} className={`flex flex-col ${t.role === 'user' ? 'items-end' : 'items-start'}`}>
+                                                <div className={`max-w-[90%] p-3 rounded-xl text-sm ${t.role === 'user' ? 'bg-blue-100 text-blue-900' : 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200'}`}>
+                                                    <span className="block text-[10px] font-bold opacity-50 mb-1">{t.role === 'user' ? 'You' : 'AI Tutor'}</span>
+                                                    {t.text}
+                                                </div>
+                                                {score && <TurnScoreBadge score={score} />}
                                             </div>
-                                        </div>
-                                    ))}
+                                        );
+                                    })}
                                 </div>
                             </div>
                             <div className="w-full md:w-1/3 bg-gray-50 dark:bg-gray-900/50 overflow-y-auto p-6">
@@ -1114,87 +2035,505 @@ const SpeakingPractice = ({ level, onSaveVocab }: { level: string, onSaveVocab:
     );
 }
 
-// --- Main Component ---
-export const EnglishLearning: React.FC = () => {
-    const [activeTab, setActiveTab] = useState<'vocab' | 'speaking' | 'listening' | 'reading' | 'writing'>('vocab');
-    const [level, setLevel] = useState('B1');
-    const [showToast, setShowToast] = useState(false);
+// --- Mock Exam ---
+type ExamPhase = 'setup' | 'preparing' | MockExamSectionId | 'grading' | 'report';
+
+interface ExamPaper {
+    speaking: { question: string; prepSeconds: number; answerSeconds: number }[];
+    writing: { type: 'task1' | 'task2'; topic: string }[];
+    grammar: GrammarQuestion[];
+    reading: { passage: ReadingPassage; questions: GrammarQuestion[] };
+}
+
+const pickRandom = <T,>(items: T[], count: number): T[] => [...new Set(items)].sort(() => Math.random() - 0.5).slice(0, count);
+
+const ExamQuizSection = ({ questions, answers, onAnswer }: { questions: GrammarQuestion[], answers: Record<number, string>, onAnswer: (id: number, option: string) => void }) => (
+    <div className="space-y-4">
+        {questions.map((q, i) => (
+            <div key={q.id} className="p-4 rounded-xl bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+                <p className="font-medium text-gray-800 dark:text-white mb-3"><span className="text-blue-600 font-bold mr-2">{i + 1}.</span>{q.question}</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                    {q.options.map(opt => (
+                        <button key={opt} onClick={() => onAnswer(q.id, opt)} className={`text-left px-3 py-2 rounded-lg text-sm border transition-colors ${answers[q.id] === opt ? 'bg-blue-600 text-white border-blue-600' : 'bg-gray-50 dark:bg-gray-700/50 border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:border-blue-300'}`}>{opt}</button>
+                    ))}
+                </div>
+            </div>
+        ))}
+    </div>
+);
+
+const ExamReport = ({ result, onClose }: { result: MockExamResult, onClose: () => void }) => {
+    const [openSection, setOpenSection] = useState<MockExamSectionId | null>(null);
+    return (
+        <div className="max-w-4xl mx-auto p-6 space-y-6 animate-fade-in">
+            <div className="text-center p-6 rounded-2xl bg-gradient-to-br from-blue-600 to-indigo-600 text-white shadow-lg">
+                <p className="text-xs uppercase font-bold opacity-80">{MOCK_EXAM_FORMATS[result.type].label} Mock Test • {new Date(result.timestamp).toLocaleString('vi-VN')} • {Math.round(result.durationSeconds / 60)} phút</p>
+                <div className="flex justify-center gap-10 mt-4">
+                    <div><p className="text-5xl font-bold">{result.overall.cefr}</p><p className="text-xs opacity-80 mt-1">CEFR</p></div>
+                    <div><p className="text-5xl font-bold">{result.overall.band ?? '—'}</p><p className="text-xs opacity-80 mt-1">Band</p></div>
+                    <div><p className="text-5xl font-bold">{result.overall.percent ?? '—'}{result.overall.percent !== null && <span className="text-2xl">%</span>}</p><p className="text-xs opacity-80 mt-1">Điểm</p></div>
+                </div>
+                <p className="text-[11px] opacity-70 mt-3">Quy đổi ước lượng, không thay thế điểm thi chính thức.</p>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {result.sections.map(s => {
+                    const info = MOCK_EXAM_SECTIONS.find(x => x.id === s.section)!;
+                    return (
+                        <button key={s.section} onClick={() => setOpenSection(openSection === s.section ? null : s.section)} className={`p-4 rounded-xl border text-left transition-all ${openSection === s.section ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20' : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 hover:border-blue-300'}`}>
+                            <p className="text-sm font-bold text-gray-700 dark:text-gray-200">{info.icon} {info.label}</p>
+                            <p className="text-2xl font-bold text-blue-600 mt-1">{s.cefr}{s.band !== null && <span className="text-sm text-gray-500 ml-2">Band {s.band}</span>}</p>
+                            <p className="text-xs text-gray-500">{s.percent !== null ? `${s.percent}%` : 'Chưa chấm được'} • {Math.floor(s.secondsUsed / 60)}:{String(s.secondsUsed % 60).padStart(2, '0')}</p>
+                        </button>
+                    );
+                })}
+            </div>
+            {openSection && (
+                <div className="space-y-3">
+                    {result.sections.find(s => s.section === openSection)!.items.map((item, i) => (
+                        <div key={i} className="p-4 rounded-xl bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+                            <div className="flex justify-between gap-4">
+                                <p className="text-sm font-bold text-gray-800 dark:text-white">{item.prompt}</p>
+                                <span className={`shrink-0 text-xs font-bold px-2 py-0.5 rounded-full h-fit ${item.score === null ? 'bg-gray-100 text-gray-500' : item.score >= 60 ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>{item.score ?? '—'}</span>
+                            </div>
+                            {item.answer && <p className="text-sm text-gray-600 dark:text-gray-300 mt-2 whitespace-pre-wrap">{item.answer}</p>}
+                            {item.feedback && <p className="text-xs text-indigo-600 dark:text-indigo-300 mt-2 italic whitespace-pre-wrap">{item.feedback}</p>}
+                        </div>
+                    ))}
+                </div>
+            )}
+            <div className="text-center"><button onClick={onClose} className="bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-800 dark:text-white px-6 py-2 rounded-lg font-bold">Đóng</button></div>
+        </div>
+    );
+};
 
-    const saveVocabulary = async (word: string, mean: string, context: string, targetFolderId?: string) => {
-        // 1. Load and Prepare Folders
-        let folders: VocabFolder[] = [];
+const MockExamModule = ({ level, onExit }: { level: string, onExit?: () => void }) => {
+    const unmountSignal = useAbortOnUnmount();
+    const [examType, setExamType] = useState<MockExamType>('aptis');
+    const [phase, setPhase] = useState<ExamPhase>('setup');
+    const [paper, setPaper] = useState<ExamPaper | null>(null);
+    const [deadline, setDeadline] = useState(0);
+    const [now, setNow] = useState(Date.now());
+    const [history, setHistory] = useState<MockExamResult[]>([]);
+    const [report, setReport] = useState<MockExamResult | null>(null);
+
+    // Section answers
+    const [speakingIndex, setSpeakingIndex] = useState(0);
+    const [speakingStage, setSpeakingStage] = useState<'prep' | 'answer'>('prep');
+    const [isUserSpeaking, setIsUserSpeaking] = useState(false);
+    const [essays, setEssays] = useState<string[]>(['', '']);
+    const [writingTab, setWritingTab] = useState(0);
+    const [grammarAnswers, setGrammarAnswers] = useState<Record<number, string>>({});
+    const [readingAnswers, setReadingAnswers] = useState<Record<number, string>>({});
+
+    // Refs
+    const examStartRef = useRef(0);
+    const sectionStartRef = useRef(0);
+    const sectionResultsRef = useRef<Promise<MockExamSectionResult>[]>([]);
+    const speakingItemsRef = useRef<Promise<MockExamItemResult>[]>([]);
+    const framesRef = useRef<Float32Array[]>([]);
+    const recordingRef = useRef(false);
+    const micRef = useRef<{ stream: MediaStream, ctx: AudioContext, processor: ScriptProcessorNode } | null>(null);
+
+    // Timer and button callbacks run from stale renders; read the latest answers through refs
+    const paperRef = useRef(paper); paperRef.current = paper;
+    const essaysRef = useRef(essays); essaysRef.current = essays;
+    const grammarAnswersRef = useRef(grammarAnswers); grammarAnswersRef.current = grammarAnswers;
+    const readingAnswersRef = useRef(readingAnswers); readingAnswersRef.current = readingAnswers;
+    const speakingIndexRef = useRef(speakingIndex); speakingIndexRef.current = speakingIndex;
+    const speakingStageRef = useRef(speakingStage); speakingStageRef.current = speakingStage;
+
+    const format = MOCK_EXAM_FORMATS[examType];
+
+    useEffect(() => {
+        mockExamService.list().then(setHistory);
+        return () => stopMic();
+    }, []);
+
+    // One clock for every timed step; reaching the deadline submits the step
+    useEffect(() => {
+        if (!deadline) return;
+        const timer = setInterval(() => setNow(Date.now()), 250);
+        return () => clearInterval(timer);
+    }, [deadline]);
+
+    useEffect(() => {
+        if (deadline && now >= deadline) {
+            setDeadline(0);
+            onTimeUp();
+        }
+    }, [now]);
+
+    const remaining = Math.max(0, Math.ceil((deadline - now) / 1000));
+    const startTimer = (seconds: number) => { setNow(Date.now()); setDeadline(Date.now() + seconds * 1000); };
+    const secondsUsed = () => Math.round((Date.now() - sectionStartRef.current) / 1000);
+
+    const startExam = async () => {
+        setPhase('preparing');
+        const signal = unmountSignal();
         try {
-            const fLocal = localStorage.getItem('dh_vocab_folders');
-            if (fLocal) folders = JSON.parse(fLocal);
-            else folders = [
-                { id: 'root', name: 'Thư mục gốc', parentId: null },
-                { id: 'folder_vocab_general', name: 'Vocab', parentId: 'root' },
-                { id: 'reading', name: 'Reading Practice', parentId: 'root' },
-                { id: 'speaking', name: 'Speaking Practice', parentId: 'root' },
-                { id: 'writing', name: 'Writing Task', parentId: 'root' },
-                { id: 'listening', name: 'Listening Practice', parentId: 'root' },
-            ];
-        } catch (e) { folders = []; }
-
-        // 2. Find or Create Target Folder
-        let targetFolder: VocabFolder | undefined;
-
-        if (targetFolderId) {
-            targetFolder = folders.find(f => f.id === targetFolderId);
-            if (!targetFolder) {
-                let folderName = "Practice";
-                if (targetFolderId === 'speaking') folderName = "Speaking Practice";
-                if (targetFolderId === 'listening') folderName = "Listening Practice";
-                if (targetFolderId === 'reading') folderName = "Reading Practice";
-                if (targetFolderId === 'writing') folderName = "Writing Task";
-                if (targetFolderId === 'folder_vocab_general') folderName = "Vocab";
-
-                targetFolder = { id: targetFolderId, name: folderName, parentId: 'root' };
-                folders.push(targetFolder);
-            }
+            const readingTopic = pickRandom(SUGGESTED_VOCAB_TOPICS, 1)[0];
+            const [task1, task2, grammar, reading] = await Promise.all([
+                geminiService.generateWritingTopic(level, 'task1', { signal }),
+                geminiService.generateWritingTopic(level, 'task2', { signal }),
+                geminiService.generateGrammarQuiz(level, undefined, { signal }),
+                geminiService.generateReadingPassage(level, readingTopic, { signal })
+                    .then(async passage => ({ passage, questions: await geminiService.generateReadingQuiz(level, passage, format.readingQuestions, { signal }) }))
+            ]);
+            const nextPaper: ExamPaper = {
+                speaking: [
+                    ...pickRandom(QUESTIONS_DB, format.speaking.shortQuestions).map(question => ({ question, prepSeconds: 0, answerSeconds: format.speaking.shortAnswerSeconds })),
+                    ...pickRandom(ADVANCED_TOPICS, 1).map(question => ({ question, prepSeconds: format.speaking.longPrepSeconds, answerSeconds: format.speaking.longAnswerSeconds }))
+                ],
+                writing: [{ type: 'task1', topic: task1 }, { type: 'task2', topic: task2 }],
+                grammar,
+                reading
+            };
+            paperRef.current = nextPaper;
+            setPaper(nextPaper);
+            setEssays(['', '']);
+            setWritingTab(0);
+            setGrammarAnswers({});
+            setReadingAnswers({});
+            sectionResultsRef.current = [];
+            examStartRef.current = Date.now();
+            await enterSpeaking();
+        } catch (e: any) {
+            if (isAbortError(e)) return;
+            console.error("Mock exam preparation failed", e);
+            alert(e.message?.includes('🔒') ? e.message : "Không thể tạo đề thi. Vui lòng thử lại.");
+            setPhase('setup');
         }
+    };
 
-        if (!targetFolder) {
-            targetFolder = folders.find(f => f.name === 'Vocab' || f.id === 'folder_vocab_general');
-            if (!targetFolder) {
-                targetFolder = { id: 'folder_vocab_general', name: 'Vocab', parentId: 'root' };
-                folders.push(targetFolder);
-            }
+    // --- Speaking ---
+    const stopMic = () => {
+        recordingRef.current = false;
+        if (!micRef.current) return;
+        micRef.current.stream.getTracks().forEach(t => t.stop());
+        micRef.current.processor.disconnect();
+        if (micRef.current.ctx.state !== 'closed') micRef.current.ctx.close();
+        micRef.current = null;
+    };
+
+    const enterSpeaking = async () => {
+        setPhase('speaking');
+        sectionStartRef.current = Date.now();
+        speakingItemsRef.current = [];
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+            const ctx = new AudioContext({ sampleRate: 16000 });
+            const processor = ctx.createScriptProcessor(4096, 1, 1);
+            processor.onaudioprocess = (e) => {
+                if (!recordingRef.current) return;
+                const frame = new Float32Array(e.inputBuffer.getChannelData(0));
+                framesRef.current.push(frame);
+                let sum = 0;
+                for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+                setIsUserSpeaking(Math.sqrt(sum / frame.length) > 0.02);
+            };
+            ctx.createMediaStreamSource(stream).connect(processor);
+            processor.connect(ctx.destination);
+            micRef.current = { stream, ctx, processor };
+        } catch (e) {
+            console.error("Microphone unavailable for mock exam", e);
+            alert("Không truy cập được Micro, phần Speaking sẽ không được chấm.");
         }
+        startSpeakingItem(0);
+    };
 
-        localStorage.setItem('dh_vocab_folders', JSON.stringify(folders));
-        if (firebaseService.currentUser) {
-            await firebaseService.saveUserData('vocab_folders', folders);
+    const startSpeakingItem = (index: number) => {
+        const item = paperRef.current!.speaking[index];
+        setSpeakingIndex(index);
+        if (item.prepSeconds > 0) {
+            setSpeakingStage('prep');
+            startTimer(item.prepSeconds);
+        } else {
+            startAnswer(item.answerSeconds);
         }
+    };
+
+    const startAnswer = (seconds: number) => {
+        framesRef.current = [];
+        recordingRef.current = !!micRef.current;
+        setSpeakingStage('answer');
+        startTimer(seconds);
+    };
 
-        // 3. Save the term
-        const saved = localStorage.getItem('dh_vocab_terms');
-        const terms: VocabTerm[] = saved ? JSON.parse(saved) : [];
+    const gradeSpeakingItem = (question: string, frames: Float32Array[]): Promise<MockExamItemResult> => {
+        const speech = frames.length > 0 ? measureSpeech(frames, 16000) : null;
+        if (!micRef.current) return Promise.resolve({ prompt: question, answer: '', score: null, feedback: 'Không có Micro.' });
+        if (!speech) return Promise.resolve({ prompt: question, answer: '', score: 0, feedback: 'Không ghi nhận được câu trả lời.' });
+        if (!geminiService.supportsLive()) return Promise.resolve({ prompt: question, answer: '', score: null, feedback: 'Chấm phần nói cần nhà cung cấp AI hỗ trợ âm thanh (Gemini).' });
+        return geminiService.gradeSpeakingAnswer(level, question, encodeWav(speech.samples, speech.sampleRate), { signal: unmountSignal() })
+            .then(g => ({ prompt: question, answer: g.transcript, score: Math.round(g.score), feedback: g.feedback }))
+            .catch(e => {
+                if (isAbortError(e)) throw e;
+                console.error("Speaking answer grading failed", e);
+                return { prompt: question, answer: '', score: null, feedback: 'Không chấm được câu này.' };
+            });
+    };
 
-        if (terms.some(t => t.term.toLowerCase() === word.toLowerCase() && t.folderId === targetFolder?.id)) {
-            setShowToast(true);
-            setTimeout(() => setShowToast(false), 2000);
+    const finishSpeakingStep = () => {
+        const items = paperRef.current!.speaking;
+        const item = items[speakingIndexRef.current];
+        if (speakingStageRef.current === 'prep') {
+            startAnswer(item.answerSeconds);
+            return;
+        }
+        recordingRef.current = false;
+        setIsUserSpeaking(false);
+        speakingItemsRef.current.push(gradeSpeakingItem(item.question, framesRef.current));
+        framesRef.current = [];
+        if (speakingIndexRef.current + 1 < items.length) {
+            startSpeakingItem(speakingIndexRef.current + 1);
             return;
         }
+        stopMic();
+        const used = secondsUsed();
+        sectionResultsRef.current.push(Promise.all(speakingItemsRef.current).then(results => sectionResult('speaking', results, used)));
+        enterSection('writing', format.writingSeconds);
+    };
 
-        const newTerm: VocabTerm = {
-            id: Date.now().toString(),
-            term: word,
-            meaning: mean,
-            definition: "",
-            example: context,
-            partOfSpeech: "Unknown",
-            folderId: targetFolder!.id,
-            learned: false,
-            createdAt: new Date().toISOString()
-        };
-        terms.push(newTerm);
+    // --- Writing / Grammar / Reading ---
+    const enterSection = (section: MockExamSectionId, seconds: number) => {
+        setPhase(section);
+        sectionStartRef.current = Date.now();
+        startTimer(seconds);
+    };
+
+    const submitWriting = () => {
+        const used = secondsUsed();
+        const tasks = paperRef.current!.writing;
+        const signal = unmountSignal();
+        const graded = tasks.map((task, i): Promise<MockExamItemResult> => {
+            const essay = essaysRef.current[i].trim();
+            const prompt = `${task.type === 'task1' ? 'Task 1' : 'Task 2'}: ${task.topic}`;
+            if (!essay) return Promise.resolve({ prompt, answer: '', score: 0, feedback: 'Chưa làm bài.' });
+            return geminiService.gradeWritingPractice(level, task.topic, essay, { signal })
+                .then(g => ({ prompt, answer: essay, score: Math.round(g.score), feedback: g.generalFeedback }))
+                .catch(e => {
+                    if (isAbortError(e)) throw e;
+                    console.error("Writing grading failed", e);
+                    return { prompt, answer: essay, score: null, feedback: 'Không chấm được bài này.' };
+                });
+        });
+        sectionResultsRef.current.push(Promise.all(graded).then(items => sectionResult('writing', items, used)));
+        enterSection('grammar', format.grammarSeconds);
+    };
+
+    const gradeQuiz = (section: MockExamSectionId, questions: GrammarQuestion[], answers: Record<number, string>, used: number): Promise<MockExamSectionResult> => {
+        const local = gradeQuizLocally(questions, answers);
+        return (local ? Promise.resolve(local) : geminiService.gradeGrammarQuiz(level, questions, answers, { signal: unmountSignal() }))
+            .then(grading => sectionResult(section, questions.map(q => {
+                const r = grading.results.find(x => x.id === q.id);
+                return { prompt: q.question, answer: answers[q.id] || '', score: r ? (r.isCorrect ? 100 : 0) : null, feedback: r?.explanation };
+            }), used, quizPercent(grading, questions.length)))
+            .catch(e => {
+                if (isAbortError(e)) throw e;
+                console.error(`Mock exam ${section} grading failed`, e);
+                return sectionResult(section, questions.map(q => ({ prompt: q.question, answer: answers[q.id] || '', score: null })), used, null);
+            });
+    };
 
-        localStorage.setItem('dh_vocab_terms', JSON.stringify(terms));
-        if (firebaseService.currentUser) {
-            await firebaseService.saveUserData('vocab_terms', terms);
+    const submitGrammar = () => {
+        sectionResultsRef.current.push(gradeQuiz('grammar', paperRef.current!.grammar, grammarAnswersRef.current, secondsUsed()));
+        enterSection('reading', format.readingSeconds);
+    };
+
+    const submitReading = async () => {
+        sectionResultsRef.current.push(gradeQuiz('reading', paperRef.current!.reading.questions, readingAnswersRef.current, secondsUsed()));
+        setDeadline(0);
+        setPhase('grading');
+        try {
+            const sections = await Promise.all(sectionResultsRef.current);
+            const result: MockExamResult = {
+                id: Date.now().toString(),
+                type: examType,
+                level,
+                timestamp: examStartRef.current,
+                durationSeconds: Math.round((Date.now() - examStartRef.current) / 1000),
+                sections,
+                overall: overallResult(sections)
+            };
+            await mockExamService.save(result);
+            setHistory(prev => [result, ...prev]);
+            setReport(result);
+            setPhase('report');
+        } catch (e) {
+            if (isAbortError(e)) return;
+            console.error("Mock exam grading failed", e);
+            alert("Chấm bài thất bại. Vui lòng thử lại.");
+            setPhase('setup');
         }
+    };
+
+    const onTimeUp = () => {
+        if (phase === 'speaking') finishSpeakingStep();
+        else if (phase === 'writing') submitWriting();
+        else if (phase === 'grammar') submitGrammar();
+        else if (phase === 'reading') submitReading();
+    };
+
+    const abandonExam = () => {
+        if (!confirm("Bỏ bài thi? Kết quả sẽ không được lưu.")) return;
+        stopMic();
+        setDeadline(0);
+        setPhase('setup');
+    };
+
+    const wordCount = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+    const clock = `${Math.floor(remaining / 60)}:${String(remaining % 60).padStart(2, '0')}`;
 
+    // --- Render ---
+    if (phase === 'report' && report) {
+        return <div className="h-full overflow-y-auto"><ExamReport result={report} onClose={() => { setReport(null); setPhase('setup'); }} /></div>;
+    }
+
+    if (phase === 'setup' || phase === 'preparing') {
+        return (
+            <div className="h-full overflow-y-auto p-6 animate-fade-in">
+                <div className="max-w-3xl mx-auto space-y-6">
+                    {onExit && <button onClick={onExit} className="text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 px-3 py-1.5 rounded-lg font-bold transition-colors">← Back</button>}
+                    <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl border border-gray-200 dark:border-gray-700 shadow-sm">
+                        <h3 className="text-xl font-bold text-gray-800 dark:text-white mb-1">📝 Thi thử toàn phần</h3>
+                        <p className="text-sm text-gray-500 mb-4">Speaking → Writing → Grammar → Reading, tính giờ nghiêm ngặt từng phần, tự động chấm và quy đổi CEFR / Band. Trình độ đề: <b>{level}</b>.</p>
+                        <div className="flex gap-2 mb-4">
+                            {Object.values(MOCK_EXAM_FORMATS).map(f => (
+                                <button key={f.type} onClick={() => setExamType(f.type)} className={`px-4 py-2 rounded-lg text-sm font-bold border ${examType === f.type ? 'bg-blue-600 text-white border-blue-600' : 'border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300'}`}>{f.label}</button>
+                            ))}
+                        </div>
+                        <ul className="text-sm text-gray-600 dark:text-gray-300 space-y-1 mb-6">
+                            <li>🗣 Speaking: {format.speaking.shortQuestions} câu × {format.speaking.shortAnswerSeconds}s, 1 chủ đề ({format.speaking.longPrepSeconds}s chuẩn bị, {format.speaking.longAnswerSeconds}s trả lời)</li>
+                            <li>✍️ Writing: Task 1 + Task 2 trong {format.writingSeconds / 60} phút</li>
+                            <li>🧩 Grammar: 10 câu trong {format.grammarSeconds / 60} phút</li>
+                            <li>📖 Reading: 1 bài đọc, {format.readingQuestions} câu trong {format.readingSeconds / 60} phút</li>
+                        </ul>
+                        <button onClick={startExam} disabled={phase === 'preparing'} className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-xl font-bold shadow-lg disabled:opacity-50">
+                            {phase === 'preparing' ? 'Đang tạo đề thi...' : 'Bắt đầu thi'}
+                        </button>
+                    </div>
+                    <div>
+                        <h4 className="text-xs font-bold text-gray-500 uppercase mb-2">Lịch sử thi thử</h4>
+                        {history.length === 0 && <p className="text-sm text-gray-400 italic">Chưa có bài thi nào.</p>}
+                        <div className="space-y-2">
+                            {history.map(r => (
+                                <div key={r.id} className="flex items-center justify-between p-3 rounded-xl bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 hover:border-blue-300 cursor-pointer" onClick={() => { setReport(r); setPhase('report'); }}>
+                                    <div>
+                                        <p className="text-sm font-bold text-gray-800 dark:text-white">{MOCK_EXAM_FORMATS[r.type].label} • {r.level}</p>
+                                        <p className="text-xs text-gray-500">{new Date(r.timestamp).toLocaleString('vi-VN')}</p>
+                                    </div>
+                                    <div className="flex items-center gap-3">
+                                        <span className="text-lg font-bold text-blue-600">{r.overall.cefr}</span>
+                                        {r.overall.band !== null && <span className="text-xs bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full">Band {r.overall.band}</span>}
+                                        <button onClick={async (e) => { e.stopPropagation(); if (!confirm("Xóa kết quả này?")) return; await mockExamService.remove(r.id); setHistory(prev => prev.filter(x => x.id !== r.id)); }} className="text-gray-400 hover:text-red-500 text-sm">🗑</button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    if (phase === 'grading' || !paper) {
+        return (
+            <div className="h-full flex flex-col items-center justify-center gap-3 text-gray-500">
+                <div className="w-10 h-10 border-4 border-blue-200 border-t-blue-600 rounded-full animate-spin" />
+                <p className="font-bold">Đang chấm bài...</p>
+            </div>
+        );
+    }
+
+    const speakingItem = paper.speaking[speakingIndex];
+    const sectionIndex = MOCK_EXAM_SECTIONS.findIndex(s => s.id === phase);
+    const submit = phase === 'writing' ? submitWriting : phase === 'grammar' ? submitGrammar : phase === 'reading' ? submitReading : finishSpeakingStep;
+
+    return (
+        <div className="h-full flex flex-col animate-fade-in">
+            <div className="flex items-center justify-between gap-3 p-4 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 shrink-0">
+                <div className="flex items-center gap-2 overflow-x-auto no-scrollbar">
+                    {MOCK_EXAM_SECTIONS.map((s, i) => (
+                        <span key={s.id} className={`px-3 py-1 rounded-full text-xs font-bold whitespace-nowrap ${i === sectionIndex ? 'bg-blue-600 text-white' : i < sectionIndex ? 'bg-green-100 text-green-700' : 'bg-gray-100 dark:bg-gray-800 text-gray-400'}`}>{s.icon} {s.label}</span>
+                    ))}
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                    <span className={`font-mono font-bold px-3 py-1 rounded-full border ${remaining < 60 ? 'bg-red-50 border-red-200 text-red-600 animate-pulse' : 'bg-gray-100 dark:bg-gray-800 border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300'}`}>{clock}</span>
+                    <button onClick={submit} className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-1.5 rounded-lg text-sm font-bold">
+                        {phase === 'speaking' ? (speakingStage === 'prep' ? 'Bắt đầu nói' : 'Xong') : 'Nộp phần này'}
+                    </button>
+                    <button onClick={abandonExam} className="text-gray-400 hover:text-red-500 text-sm font-bold">Bỏ thi</button>
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-6 bg-gray-50/50 dark:bg-gray-900">
+                {phase === 'speaking' && (
+                    <div className="max-w-2xl mx-auto text-center space-y-6">
+                        <p className="text-xs font-bold text-gray-400 uppercase">Câu {speakingIndex + 1}/{paper.speaking.length}</p>
+                        <p className="text-2xl font-bold text-gray-800 dark:text-white">{speakingItem.question}</p>
+                        <VoiceVisualizer isActive={speakingStage === 'answer'} isUserSpeaking={isUserSpeaking} />
+                        <p className="text-sm text-gray-500">{speakingStage === 'prep' ? 'Thời gian chuẩn bị — ghi chú ý tưởng, chưa cần nói.' : 'Đang ghi âm — hãy trả lời bằng tiếng Anh.'}</p>
+                    </div>
+                )}
+
+                {phase === 'writing' && (
+                    <div className="max-w-4xl mx-auto space-y-4">
+                        <div className="flex gap-2">
+                            {paper.writing.map((task, i) => (
+                                <button key={task.type} onClick={() => setWritingTab(i)} className={`px-4 py-2 rounded-lg text-sm font-bold ${writingTab === i ? 'bg-blue-600 text-white' : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 border border-gray-200 dark:border-gray-700'}`}>
+                                    Task {i + 1} <span className="opacity-70 font-normal">({wordCount(essays[i])} từ)</span>
+                                </button>
+                            ))}
+                        </div>
+                        <div className="p-4 rounded-xl bg-blue-50 dark:bg-blue-900/20 border border-blue-100 dark:border-blue-800 text-sm text-gray-800 dark:text-gray-200 whitespace-pre-wrap">{paper.writing[writingTab].topic}</div>
+                        <textarea
+                            value={essays[writingTab]}
+                            onChange={e => { const value = e.target.value; setEssays(prev => prev.map((v, i) => i === writingTab ? value : v)); }}
+                            className="w-full h-[50vh] p-4 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200 outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+                            placeholder="Viết bài của bạn tại đây..."
+                            spellCheck={false}
+                        />
+                    </div>
+                )}
+
+                {phase === 'grammar' && (
+                    <div className="max-w-3xl mx-auto">
+                        <ExamQuizSection questions={paper.grammar} answers={grammarAnswers} onAnswer={(id, opt) => setGrammarAnswers(prev => ({ ...prev, [id]: opt }))} />
+                    </div>
+                )}
+
+                {phase === 'reading' && (
+                    <div className="max-w-6xl mx-auto grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        <div className="p-6 rounded-xl bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 lg:sticky lg:top-0 h-fit">
+                            <h3 className="text-xl font-bold text-gray-800 dark:text-white mb-4">{paper.reading.passage.title}</h3>
+                            <p className="text-gray-700 dark:text-gray-300 leading-relaxed whitespace-pre-wrap">{paper.reading.passage.content}</p>
+                        </div>
+                        <ExamQuizSection questions={paper.reading.questions} answers={readingAnswers} onAnswer={(id, opt) => setReadingAnswers(prev => ({ ...prev, [id]: opt }))} />
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+// --- Main Component ---
+export const EnglishLearning: React.FC = () => {
+    const [activeTab, setActiveTab] = useState<'vocab' | 'speaking' | 'listening' | 'reading' | 'writing' | 'exam'>('vocab');
+    const [level, setLevel] = useState('B1');
+    const [showToast, setShowToast] = useState(false);
+    const [citedPassageId, setCitedPassageId] = useState<string | null>(null);
+    const location = useLocation();
+
+    // A reading passage cited by Nana opens in the reading tab
+    useEffect(() => {
+        const passageId = (location.state as { passageId?: string } | null)?.passageId;
+        if (!passageId) return;
+        setActiveTab('reading');
+        setCitedPassageId(passageId);
+    }, [location]);
+
+    const saveVocabulary = async (word: string, mean: string, context: string, targetFolderId?: string, ipa?: string, source?: VocabSource) => {
+        await vocabService.addTerm(word, mean, context, targetFolderId, ipa, source);
         setShowToast(true);
         setTimeout(() => setShowToast(false), 2000);
     };
@@ -1209,16 +2548,17 @@ export const EnglishLearning: React.FC = () => {
                 </div>
             </div>
             <div className="flex gap-2 mb-6 border-b border-gray-200 dark:border-gray-700 overflow-x-auto no-scrollbar shrink-0 pb-1">
-                {[{ id: 'vocab', label: 'Từ vựng & Ngữ pháp', icon: '⚡' }, { id: 'speaking', label: 'Luyện Nói', icon: '🗣️' }, { id: 'listening', label: 'Luyện Nghe', icon: '🎧' }, { id: 'reading', label: 'Luyện Đọc', icon: '📖' }, { id: 'writing', label: 'Luyện Viết', icon: '✍️' }].map((t) => (
+                {[{ id: 'vocab', label: 'Từ vựng & Ngữ pháp', icon: '⚡' }, { id: 'speaking', label: 'Luyện Nói', icon: '🗣️' }, { id: 'listening', label: 'Luyện Nghe', icon: '🎧' }, { id: 'reading', label: 'Luyện Đọc', icon: '📖' }, { id: 'writing', label: 'Luyện Viết', icon: '✍️' }, { id: 'exam', label: 'Thi thử', icon: '📝' }].map((t) => (
                     <button key={t.id} onClick={() => setActiveTab(t.id as any)} className={`px-4 md:px-6 py-3 rounded-t-lg text-sm font-bold flex items-center gap-2 transition-all whitespace-nowrap ${activeTab === t.id ? 'text-blue-600 dark:text-blue-400 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 border-b-transparent shadow-sm' : 'text-gray-500 hover:bg-gray-50'}`}><span>{t.icon}</span> {t.label}</button>
                 ))}
             </div>
             <div className="bg-white/50 dark:bg-gray-800/50 flex-1 rounded-2xl overflow-hidden border border-gray-100/50 dark:border-gray-700/50 shadow-sm">
                 {activeTab === 'vocab' && <VocabAndGrammarModule level={level} onSaveVocab={saveVocabulary} />}
                 {activeTab === 'speaking' && <SpeakingPractice level={level} onSaveVocab={saveVocabulary} />}
-                {activeTab === 'listening' && <ListeningModule onSaveVocab={saveVocabulary} />}
-                {activeTab === 'reading' && <ReadingModule level={level} onSaveVocab={saveVocabulary} />}
+                {activeTab === 'listening' && <ListeningModule level={level} onSaveVocab={saveVocabulary} />}
+                {activeTab === 'reading' && <ReadingModule level={level} onSaveVocab={saveVocabulary} citedPassageId={citedPassageId} onCitedPassageOpened={() => setCitedPassageId(null)} />}
                 {activeTab === 'writing' && <WritingModule level={level} onSaveVocab={saveVocabulary} />}
+                {activeTab === 'exam' && <MockExamModule level={level} />}
             </div>
 
             {showToast && (
@@ -4,20 +4,38 @@ import {
     PieChart, Pie, Cell, Tooltip, Legend, ResponsiveContainer,
     BarChart, Bar, XAxis, YAxis, CartesianGrid
 } from 'recharts';
-import { Transaction, BudgetCategory, FinancialGoal, DebtItem } from '../types';
+import { Transaction, BudgetCategory, FinancialGoal, DebtItem, RecurringRule, FinanceAccount, InvestmentHolding, HoldingLot } from '../types';
 import { financialService } from '../services/financial';
+import { recurringService, toDateKey } from '../services/recurring';
+import { accountService, AccountBalance, DEFAULT_ACCOUNT_ID } from '../services/accounts';
+import { currencyService, MoneyValue } from '../services/currency';
+import { portfolioService } from '../services/portfolio';
 import { geminiService, AIFinancialPlan, AIFinancialAnalysis } from '../services/gemini';
+import { isAbortError } from '../services/aiPipeline';
+import { useAbortOnUnmount } from '../hooks/useAbortOnUnmount';
 import { AIPlanModal } from '../components/AIPlanModal';
 import { MoneyInput } from '../components/MoneyInput';
 import { TransactionList } from '../components/TransactionList';
 import { InvestmentDashboard } from '../components/InvestmentDashboard';
+import { RecurringManager } from '../components/RecurringManager';
+import { StatementImportModal } from '../components/StatementImportModal';
+import { AccountsPanel } from '../components/AccountsPanel';
+import { CurrencyAmountInput } from '../components/CurrencyAmountInput';
 import firebase from 'firebase/compat/app';
 
 // --- Helpers ---
 const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(amount);
+    return currencyService.format(amount);
 };
 
+// Picks the MoneyValue fields out of a Transaction/Goal/Debt for CurrencyAmountInput
+const toMoneyValue = (amount: number, item: Partial<MoneyValue>): MoneyValue => ({
+    amount,
+    currency: item.currency || undefined,
+    originalAmount: item.originalAmount || undefined,
+    fxRate: item.fxRate || undefined
+});
+
 const getCategoryIcon = (name: string) => {
     const lower = name.toLowerCase();
     if (lower.includes('ăn') || lower.includes('food') || lower.includes('coffee') || lower.includes('cafe')) return '🍔';
@@ -36,6 +54,7 @@ const getCategoryIcon = (name: string) => {
 const COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#6366F1'];
 const COMMON_CATEGORIES_EXPENSE = ['Ăn uống', 'Đi lại', 'Nhà cửa', 'Mua sắm', 'Giải trí', 'Y tế', 'Giáo dục', 'Tiện ích'];
 const COMMON_CATEGORIES_INCOME = ['Lương', 'Thưởng', 'Kinh doanh', 'Đầu tư', 'Được tặng', 'Khác'];
+const TRANSFER_CATEGORY = 'Chuyển khoản';
 
 // Extended list for Budget Creation
 const PREDEFINED_BUDGET_CATEGORIES = [
@@ -48,13 +67,18 @@ const PREDEFINED_BUDGET_CATEGORIES = [
 const inputStyle = "w-full border border-gray-300 rounded-xl px-4 py-3 text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white text-gray-900 dark:bg-gray-700 dark:text-white dark:border-gray-600 transition-colors placeholder-gray-400 font-medium shadow-sm";
 
 export const Finance: React.FC = () => {
-    const [activeTab, setActiveTab] = useState<'overview' | 'budget' | 'goals' | 'debt' | 'invest'>('overview');
+    const [activeTab, setActiveTab] = useState<'overview' | 'budget' | 'recurring' | 'goals' | 'debt' | 'invest'>('overview');
+    const unmountSignal = useAbortOnUnmount();
 
     // --- State ---
     const [transactions, setTransactions] = useState<Transaction[]>([]);
     const [budgets, setBudgets] = useState<BudgetCategory[]>([]);
     const [goals, setGoals] = useState<FinancialGoal[]>([]);
     const [debts, setDebts] = useState<DebtItem[]>([]);
+    const [recurringRules, setRecurringRules] = useState<RecurringRule[]>([]);
+    const [accounts, setAccounts] = useState<FinanceAccount[]>([]);
+    const [cloudBalances, setCloudBalances] = useState<Record<string, AccountBalance>>({});
+    const [holdings, setHoldings] = useState<InvestmentHolding[]>([]);
 
     const [isLoading, setIsLoading] = useState(true);
     const [currentUser, setCurrentUser] = useState<firebase.User | null>(null);
@@ -67,6 +91,7 @@ export const Finance: React.FC = () => {
 
     // --- Modal States ---
     const [isTransModalOpen, setTransModalOpen] = useState(false);
+    const [isImportModalOpen, setImportModalOpen] = useState(false);
     const [newTrans, setNewTrans] = useState<Partial<Transaction>>({ type: 'expense', date: new Date().toISOString().split('T')[0], category: '', amount: 0 });
 
     // AI States
@@ -79,18 +104,32 @@ export const Finance: React.FC = () => {
     const fetchData = async (user: firebase.User) => {
         setIsLoading(true);
         try {
+            // Recurring rules first: due occurrences must be written before transactions are read
+            const rulesData = await financialService.fetchRecurringRules(user.uid);
+            const materializedRules = await financialService.materializeRecurring(user.uid, rulesData);
+            setRecurringRules(materializedRules);
+
             // Authenticated: Fetch Once (Reduce Reads)
-            const [transData, budgetsData, goalsData, debtsData] = await Promise.all([
+            const [transData, budgetsData, goalsData, debtsData, accountsData, holdingsData] = await Promise.all([
                 financialService.fetchTransactions(user.uid),
                 financialService.fetchBudgets(user.uid),
                 financialService.fetchGoals(user.uid),
-                financialService.fetchDebts(user.uid)
+                financialService.fetchDebts(user.uid),
+                financialService.fetchAccounts(user.uid),
+                financialService.fetchHoldings(user.uid)
             ]);
 
             setTransactions(transData);
             setBudgets(budgetsData);
             setGoals(goalsData);
             setDebts(debtsData);
+            setAccounts(accountsData);
+            setHoldings(holdingsData);
+
+            // Balances need the full history, not just the latest 100 transactions
+            financialService.fetchAccountBalances(user.uid, accountsData).then(setCloudBalances).catch(e => {
+                console.error("Failed to compute account balances", e);
+            });
 
             // Fetch metadata once
             firebase.firestore().collection('users').doc(user.uid).get().then(doc => {
@@ -127,8 +166,11 @@ export const Finance: React.FC = () => {
                 const b = localStorage.getItem('dh_fin_budgets');
                 const g = localStorage.getItem('dh_fin_goals');
                 const d = localStorage.getItem('dh_fin_debts');
+                const r = localStorage.getItem('dh_fin_recurring');
+                const a = localStorage.getItem('dh_fin_accounts');
+                const h = localStorage.getItem('dh_fin_holdings');
 
-                if (t) setTransactions(JSON.parse(t));
+                if (t) setTransactions((JSON.parse(t) as Transaction[]).map(tr => accountService.migrateTransaction(tr)));
                 if (b) setBudgets(JSON.parse(b));
                 else setBudgets([
                     { id: '1', name: 'Ăn uống', limit: 3000000, spent: 0, type: 'expense' },
@@ -136,6 +178,9 @@ export const Finance: React.FC = () => {
                 ]);
                 if (g) setGoals(JSON.parse(g));
                 if (d) setDebts(JSON.parse(d));
+                if (r) materializeLocal(JSON.parse(r));
+                if (a) setAccounts(JSON.parse(a));
+                if (h) setHoldings(JSON.parse(h));
 
                 setIsLoading(false);
             }
@@ -144,6 +189,11 @@ export const Finance: React.FC = () => {
         return () => unsubscribeAuth();
     }, []);
 
+    // Cache today's USD rate so foreign-currency entries convert with a stable daily rate
+    useEffect(() => {
+        currencyService.refreshRates().catch(e => console.error("Failed to refresh FX rates", e));
+    }, []);
+
     // --- Sync to LocalStorage (Guest Only) ---
     useEffect(() => {
         if (!currentUser && !isLoading) {
@@ -163,30 +213,60 @@ export const Finance: React.FC = () => {
         if (!currentUser && !isLoading) localStorage.setItem('dh_fin_debts', JSON.stringify(debts));
     }, [debts, currentUser, isLoading]);
 
+    useEffect(() => {
+        if (!currentUser && !isLoading) localStorage.setItem('dh_fin_recurring', JSON.stringify(recurringRules));
+    }, [recurringRules, currentUser, isLoading]);
+
+    useEffect(() => {
+        if (!currentUser && !isLoading) localStorage.setItem('dh_fin_accounts', JSON.stringify(accounts));
+    }, [accounts, currentUser, isLoading]);
+
+    useEffect(() => {
+        if (!currentUser && !isLoading) localStorage.setItem('dh_fin_holdings', JSON.stringify(holdings));
+    }, [holdings, currentUser, isLoading]);
+
+    // Guest mode: create due occurrences locally (ids are deterministic, so never duplicated)
+    const materializeLocal = (rules: RecurringRule[]) => {
+        const result = recurringService.materialize(rules);
+        if (result.transactions.length > 0) {
+            setTransactions(prev => {
+                const existing = new Set(prev.map(t => t.id));
+                return [...result.transactions.filter(t => !existing.has(t.id)).reverse(), ...prev];
+            });
+        }
+        setRecurringRules(result.rules);
+    };
+
 
     // --- CRUD Actions (Hybrid: Firestore vs Local) ---
     const addTransaction = async () => {
-        if (!newTrans.amount || !newTrans.category) return;
+        const isTransfer = newTrans.type === 'transfer';
+        if (!newTrans.amount || (!isTransfer && !newTrans.category)) return;
+
+        const accountId = newTrans.accountId || accountService.getDefaultAccountId(accounts);
+        if (isTransfer && (!newTrans.toAccountId || newTrans.toAccountId === accountId)) {
+            alert("Vui lòng chọn tài khoản nhận khác tài khoản nguồn.");
+            return;
+        }
+
+        const payload: Omit<Transaction, 'id'> = {
+            date: newTrans.date!,
+            amount: Number(newTrans.amount),
+            type: newTrans.type as Transaction['type'],
+            category: isTransfer ? TRANSFER_CATEGORY : newTrans.category!,
+            description: newTrans.description || '',
+            // The virtual default wallet is not stored, so its transactions carry no accountId
+            ...(accountId !== DEFAULT_ACCOUNT_ID ? { accountId } : {}),
+            ...(isTransfer ? { toAccountId: newTrans.toAccountId } : {}),
+            ...(newTrans.currency ? { currency: newTrans.currency, originalAmount: Number(newTrans.originalAmount), fxRate: Number(newTrans.fxRate) } : {})
+        };
 
         if (currentUser) {
-            await financialService.addTransaction(currentUser.uid, {
-                date: newTrans.date!,
-                amount: Number(newTrans.amount),
-                type: newTrans.type as 'income' | 'expense',
-                category: newTrans.category!,
-                description: newTrans.description || ''
-            });
+            await financialService.addTransaction(currentUser.uid, payload);
             // Trigger refresh manually to update UI without waiting for full reload
             handleRefresh();
         } else {
-            const item: Transaction = {
-                id: Date.now().toString(),
-                date: newTrans.date!,
-                amount: Number(newTrans.amount),
-                type: newTrans.type as 'income' | 'expense',
-                category: newTrans.category!,
-                description: newTrans.description || ''
-            };
+            const item: Transaction = { id: Date.now().toString(), ...payload };
             setTransactions(prev => [item, ...prev]);
         }
 
@@ -204,6 +284,146 @@ export const Finance: React.FC = () => {
         else setTransactions(prev => prev.filter(t => t.id !== id));
     };
 
+    // --- Accounts ---
+    const accountBalances = currentUser ? cloudBalances : accountService.computeBalances(accounts, transactions);
+
+    const saveAccount = async (account: FinanceAccount) => {
+        // Only one default account at a time
+        const others = account.isDefault ? accounts.filter(a => a.id !== account.id && a.isDefault).map(a => ({ ...a, isDefault: false })) : [];
+
+        if (currentUser) {
+            await Promise.all([account, ...others].map(a => financialService.saveAccount(currentUser.uid, a)));
+            handleRefresh();
+        } else {
+            setAccounts(prev => {
+                const next = prev.map(a => others.find(o => o.id === a.id) || a);
+                return next.some(a => a.id === account.id) ? next.map(a => a.id === account.id ? account : a) : [...next, account];
+            });
+        }
+    };
+
+    const deleteAccount = async (id: string) => {
+        if (!window.confirm("Xóa tài khoản này? Các giao dịch của tài khoản sẽ được chuyển về tài khoản mặc định.")) return;
+        if (currentUser) {
+            await financialService.deleteAccount(currentUser.uid, id);
+            handleRefresh();
+        }
+        else setAccounts(prev => prev.filter(a => a.id !== id));
+    };
+
+    const reconcileAccount = async (account: FinanceAccount, actualBalance: number) => {
+        const computed = accountBalances[account.id]?.balance || 0;
+        const isVirtual = account.id === DEFAULT_ACCOUNT_ID;
+        const reconciled: FinanceAccount = {
+            ...account,
+            id: isVirtual ? Date.now().toString() : account.id,
+            isDefault: isVirtual || account.isDefault,
+            lastReconciledAt: new Date().toISOString(),
+            lastReconciledBalance: actualBalance
+        };
+        const adjustment = accountService.buildAdjustment(account, computed, actualBalance, toDateKey(new Date()));
+        if (adjustment && isVirtual) delete adjustment.accountId;
+
+        if (currentUser) {
+            if (adjustment) await financialService.addTransaction(currentUser.uid, adjustment);
+            await financialService.saveAccount(currentUser.uid, reconciled);
+            handleRefresh();
+        } else {
+            if (adjustment) setTransactions(prev => [{ id: `${Date.now()}_adj`, ...adjustment }, ...prev]);
+            setAccounts(prev => isVirtual ? [reconciled] : prev.map(a => a.id === account.id ? reconciled : a));
+        }
+    };
+
+    const openTransferModal = () => {
+        const list = accountService.withDefault(accounts).filter(a => !a.isArchived);
+        if (list.length < 2) {
+            alert("Cần ít nhất 2 tài khoản để chuyển tiền.");
+            return;
+        }
+        setNewTrans({ ...newTrans, type: 'transfer', amount: 0, originalAmount: 0, category: '', accountId: list[0].id, toAccountId: list[1].id });
+        setTransModalOpen(true);
+    };
+
+    // --- Investment Holdings ---
+    const saveHolding = async (holding: InvestmentHolding) => {
+        if (currentUser) {
+            await financialService.saveHolding(currentUser.uid, holding);
+            handleRefresh();
+        } else {
+            setHoldings(prev => prev.some(h => h.id === holding.id) ? prev.map(h => h.id === holding.id ? holding : h) : [...prev, holding]);
+        }
+    };
+
+    const deleteHolding = async (holding: InvestmentHolding) => {
+        if (!window.confirm(`Xóa "${holding.name}"? Các khoản thu chi đã ghi sổ sẽ được giữ lại.`)) return;
+        if (currentUser) {
+            await financialService.deleteHolding(currentUser.uid, holding.id);
+            handleRefresh();
+        }
+        else setHoldings(prev => prev.filter(h => h.id !== holding.id));
+    };
+
+    // Optionally books the lot as an expense/income so budgets and cash flow see it
+    const addHoldingLot = async (holding: InvestmentHolding, lot: HoldingLot, bookTransaction: boolean) => {
+        let transactionId: string | undefined;
+        if (bookTransaction) {
+            const budget = budgets.find(b => b.id === holding.budgetCategoryId);
+            const payload = portfolioService.buildLotTransaction(holding, lot, budget);
+            if (currentUser) {
+                transactionId = await financialService.addTransaction(currentUser.uid, payload);
+            } else {
+                transactionId = `${lot.id}_lot`;
+                setTransactions(prev => [{ id: transactionId!, ...payload }, ...prev]);
+            }
+        }
+        await saveHolding({ ...holding, lots: [...holding.lots, { ...lot, ...(transactionId ? { transactionId } : {}) }] });
+    };
+
+    const deleteHoldingLot = async (holding: InvestmentHolding, lot: HoldingLot) => {
+        if (!window.confirm(lot.transactionId ? "Xóa giao dịch này? Khoản thu chi đã ghi sổ cũng sẽ bị xóa." : "Xóa giao dịch này?")) return;
+        if (lot.transactionId) {
+            if (currentUser) await financialService.deleteTransaction(currentUser.uid, lot.transactionId);
+            else setTransactions(prev => prev.filter(t => t.id !== lot.transactionId));
+        }
+        await saveHolding({ ...holding, lots: holding.lots.filter(l => l.id !== lot.id) });
+    };
+
+    // --- Statement Import ---
+    const loadExistingForImport = async (from: string, to: string): Promise<Transaction[]> => {
+        if (currentUser) return financialService.fetchTransactionsInRange(currentUser.uid, from, to);
+        return transactions.filter(t => t.date >= from && t.date <= to);
+    };
+
+    const importTransactions = async (items: Omit<Transaction, 'id'>[], source: string) => {
+        if (currentUser) {
+            await financialService.batchImportTransactions(currentUser.uid, items, source);
+            handleRefresh();
+        } else {
+            const stamp = Date.now();
+            const imported = items.map((t, i) => ({ ...t, id: `${stamp}_${i}`, importSource: source }));
+            setTransactions(prev => [...imported, ...prev].sort((a, b) => b.date.localeCompare(a.date)));
+        }
+    };
+
+    const saveRecurringRule = async (rule: RecurringRule) => {
+        if (currentUser) {
+            await financialService.saveRecurringRule(currentUser.uid, rule);
+            handleRefresh(); // Materializes the rule if it is already due
+        } else {
+            const exists = recurringRules.some(r => r.id === rule.id);
+            materializeLocal(exists ? recurringRules.map(r => r.id === rule.id ? rule : r) : [...recurringRules, rule]);
+        }
+    };
+
+    const deleteRecurringRule = async (id: string) => {
+        if (!window.confirm("Xóa khoản định kỳ này? Các giao dịch đã ghi sẽ được giữ lại.")) return;
+        if (currentUser) {
+            await financialService.deleteRecurringRule(currentUser.uid, id);
+            handleRefresh();
+        }
+        else setRecurringRules(prev => prev.filter(r => r.id !== id));
+    };
+
     // --- AI Analysis Workflow ---
     const handleRunAI = async (mode: 'analysis' | 'planning') => {
         setIsAnalyzing(true);
@@ -213,13 +433,14 @@ export const Finance: React.FC = () => {
 
         try {
             if (mode === 'analysis') {
-                const result = await geminiService.analyzeFinancialSituation(transactions);
+                const result = await geminiService.analyzeFinancialSituation(transactions.filter(t => t.type === 'income' || t.type === 'expense'), { signal: unmountSignal() });
                 setAiAnalysis(result);
             } else {
-                const result = await geminiService.buildFinancialPlan(transactions);
+                const result = await geminiService.buildFinancialPlan(transactions.filter(t => t.type === 'income' || t.type === 'expense'), { signal: unmountSignal() });
                 setAiPlan(result);
             }
         } catch (e: any) {
+            if (isAbortError(e)) return;
             // The error message is thrown directly by geminiService.enforcePolicy
             alert(e.message);
             setAiMode(null);
@@ -280,9 +501,29 @@ export const Finance: React.FC = () => {
     const totalIncome = filteredTransactions.filter(t => t.type === 'income').reduce((sum, t) => sum + t.amount, 0);
     const totalExpense = filteredTransactions.filter(t => t.type === 'expense').reduce((sum, t) => sum + t.amount, 0);
 
-    const calculateBudgetSpent = (categoryName: string) => {
+    // Future recurring occurrences for a period (only dates after today are projected)
+    const getProjectedTransactions = (refDate: Date, mode: 'month' | 'year') => {
+        const start = mode === 'month' ? new Date(refDate.getFullYear(), refDate.getMonth(), 1) : new Date(refDate.getFullYear(), 0, 1);
+        const end = mode === 'month' ? new Date(refDate.getFullYear(), refDate.getMonth() + 1, 0) : new Date(refDate.getFullYear(), 11, 31);
+        return recurringService.project(recurringRules, toDateKey(start), toDateKey(end));
+    };
+
+    const projectedTransactions = getProjectedTransactions(filterDate, statsMode);
+    const projectedIncome = projectedTransactions.filter(t => t.type === 'income').reduce((sum, t) => sum + t.amount, 0);
+    const projectedExpense = projectedTransactions.filter(t => t.type === 'expense').reduce((sum, t) => sum + t.amount, 0);
+    const upcomingCharges = recurringService.upcoming(recurringRules, 14);
+
+    // Includes recurring charges still to come this month, so budgets warn before the money leaves
+    const calculateProjectedSpent = (categoryName: string, refDate: Date) => {
+        return getProjectedTransactions(refDate, 'month')
+            .filter(t => t.type === 'expense' && t.category.toLowerCase().trim() === categoryName.toLowerCase().trim())
+            .reduce((sum, t) => sum + t.amount, 0);
+    };
+
+    const calculateBudgetSpent = (categoryName: string, includeProjected: boolean = true) => {
         const refDate = statsMode === 'month' ? filterDate : new Date();
-        return transactions
+        const projected = includeProjected ? calculateProjectedSpent(categoryName, refDate) : 0;
+        return projected + transactions
             .filter(t => {
                 const d = new Date(t.date);
                 const transCat = t.category.toLowerCase().trim();
@@ -324,14 +565,18 @@ export const Finance: React.FC = () => {
     };
 
     // --- Helpers for Transaction Modal ---
-    const getAvailableCategories = () => {
-        if (newTrans.type === 'income') return COMMON_CATEGORIES_INCOME;
+    const getExpenseCategories = () => {
         const budgetNames = budgets
             .filter(b => b.type === 'expense')
             .map(b => b.name);
         return Array.from(new Set([...budgetNames, ...COMMON_CATEGORIES_EXPENSE]));
     };
 
+    const getAvailableCategories = () => {
+        if (newTrans.type === 'income') return COMMON_CATEGORIES_INCOME;
+        return getExpenseCategories();
+    };
+
     const getSelectedBudgetPreview = () => {
         if (newTrans.type !== 'expense' || !newTrans.category) return null;
 
@@ -350,7 +595,7 @@ export const Finance: React.FC = () => {
                     d.getMonth() === transDate.getMonth() &&
                     d.getFullYear() === transDate.getFullYear();
             })
-            .reduce((sum, t) => sum + t.amount, 0);
+            .reduce((sum, t) => sum + t.amount, 0) + calculateProjectedSpent(budget.name, transDate);
 
         const addingAmount = Number(newTrans.amount) || 0;
         const newTotal = currentSpent + addingAmount;
@@ -484,6 +729,11 @@ export const Finance: React.FC = () => {
                         <div>
                             <p className="text-blue-100 text-xs font-bold uppercase tracking-wider mb-1">Dòng tiền ròng (Net Cashflow)</p>
                             <h2 className="text-4xl font-bold">{formatCurrency(totalIncome - totalExpense)}</h2>
+                            {projectedTransactions.length > 0 && (
+                                <p className="text-xs text-blue-100 mt-2">
+                                    Dự báo cuối kỳ (gồm định kỳ): <span className="font-bold text-white">{formatCurrency(totalIncome + projectedIncome - totalExpense - projectedExpense)}</span>
+                                </p>
+                            )}
                         </div>
                         <div className="flex gap-8">
                             <div>
@@ -498,6 +748,15 @@ export const Finance: React.FC = () => {
                     </div>
                 </div>
 
+                <AccountsPanel
+                    accounts={accounts}
+                    balances={accountBalances}
+                    onSave={saveAccount}
+                    onDelete={deleteAccount}
+                    onReconcile={reconcileAccount}
+                    onTransfer={openTransferModal}
+                />
+
                 {/* Budget Health Summary (Only in Month View) */}
                 {statsMode === 'month' && totalBudgetLimit > 0 && (
                     <div className="bg-white dark:bg-gray-800 p-4 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700 flex items-center justify-between animate-fade-in">
@@ -520,19 +779,38 @@ export const Finance: React.FC = () => {
                 {/* Quick Actions */}
                 <div className="grid grid-cols-2 gap-4">
                     <button
-                        onClick={() => { setNewTrans({ ...newTrans, type: 'income', amount: 0, category: '' }); setTransModalOpen(true); }}
+                        onClick={() => { setNewTrans({ ...newTrans, type: 'income', amount: 0, originalAmount: 0, category: '' }); setTransModalOpen(true); }}
                         className="flex items-center justify-center gap-2 bg-green-50 hover:bg-green-100 text-green-700 dark:bg-green-900/20 dark:hover:bg-green-900/40 dark:text-green-400 py-3 rounded-xl border border-green-200 dark:border-green-800 font-bold transition-all shadow-sm active:scale-95"
                     >
                         <span className="text-xl">➕</span> Thêm Thu Nhập
                     </button>
                     <button
-                        onClick={() => { setNewTrans({ ...newTrans, type: 'expense', amount: 0, category: '' }); setTransModalOpen(true); }}
+                        onClick={() => { setNewTrans({ ...newTrans, type: 'expense', amount: 0, originalAmount: 0, category: '' }); setTransModalOpen(true); }}
                         className="flex items-center justify-center gap-2 bg-red-50 hover:bg-red-100 text-red-700 dark:bg-red-900/20 dark:hover:bg-red-900/40 dark:text-red-400 py-3 rounded-xl border border-red-200 dark:border-red-800 font-bold transition-all shadow-sm active:scale-95"
                     >
                         <span className="text-xl">➖</span> Thêm Chi Tiêu
                     </button>
                 </div>
 
+                {/* Upcoming recurring charges */}
+                {upcomingCharges.length > 0 && (
+                    <div className="bg-white dark:bg-gray-800 p-4 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700">
+                        <div className="flex justify-between items-center mb-3">
+                            <h3 className="font-bold text-gray-800 dark:text-white text-sm flex items-center gap-2"><span>⏰</span> Sắp tới (14 ngày)</h3>
+                            <button onClick={() => setActiveTab('recurring')} className="text-xs font-bold text-blue-600 dark:text-blue-400 hover:underline">Quản lý định kỳ</button>
+                        </div>
+                        <div className="flex gap-3 overflow-x-auto no-scrollbar">
+                            {upcomingCharges.slice(0, 8).map(t => (
+                                <div key={t.id} className="min-w-[150px] p-3 rounded-xl bg-gray-50 dark:bg-gray-900/40 border border-gray-100 dark:border-gray-700">
+                                    <p className="text-[10px] text-gray-400">{new Date(t.date).toLocaleDateString('vi-VN')}</p>
+                                    <p className="text-sm font-bold text-gray-800 dark:text-white truncate">{getCategoryIcon(t.category)} {t.description}</p>
+                                    <p className={`text-sm font-bold ${t.type === 'income' ? 'text-green-600' : 'text-red-600'}`}>{t.type === 'income' ? '+' : '-'}{formatCurrency(t.amount)}</p>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
                 <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                     {/* Bar Chart */}
                     <div className="lg:col-span-2 bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700">
@@ -667,11 +945,13 @@ export const Finance: React.FC = () => {
             const rollover = calculateRollover(b.name);
             const effectiveLimit = b.limit + rollover;
             const spent = calculateBudgetSpent(b.name);
+            const projected = statsMode === 'month' ? calculateProjectedSpent(b.name, filterDate) : 0;
             return {
                 ...b,
                 rollover,
                 effectiveLimit,
-                spent
+                spent,
+                projected
             };
         });
 
@@ -711,7 +991,7 @@ export const Finance: React.FC = () => {
 
                 <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4">
                     {budgetMetrics.map(b => {
-                        const { spent, limit, rollover, effectiveLimit } = b;
+                        const { spent, limit, rollover, effectiveLimit, projected } = b;
 
                         const percent = effectiveLimit > 0 ? Math.min((spent / effectiveLimit) * 100, 100) : 100;
                         const isOver = spent > effectiveLimit;
@@ -747,6 +1027,9 @@ export const Finance: React.FC = () => {
                                             / {isDeficit ? '0đ (Âm vốn)' : formatCurrency(effectiveLimit)}
                                         </span>
                                     </div>
+                                    {projected > 0 && (
+                                        <p className="text-[10px] text-purple-500 font-bold mb-1">🔁 Gồm {formatCurrency(projected)} định kỳ sắp tới</p>
+                                    )}
                                     <div className="w-full bg-gray-100 dark:bg-gray-700 h-2.5 rounded-full overflow-hidden relative">
                                         <div className={`h-full rounded-full transition-all duration-500 ${percent > 90 || isDeficit ? 'bg-red-500' : percent > 75 ? 'bg-orange-400' : 'bg-green-500'}`} style={{ width: `${percent}%` }}></div>
                                     </div>
@@ -816,24 +1099,25 @@ export const Finance: React.FC = () => {
         const [depositAmount, setDepositAmount] = useState(0);
 
         const [name, setName] = useState('');
-        const [target, setTarget] = useState(0);
+        const [target, setTarget] = useState<MoneyValue>({ amount: 0 });
         const [current, setCurrent] = useState(0);
         const [deadline, setDeadline] = useState('');
         const [goalType, setGoalType] = useState<'savings' | 'investment' | 'asset'>('savings');
         const [color, setColor] = useState('bg-blue-500');
 
-        const resetForm = () => { setName(''); setTarget(0); setCurrent(0); setDeadline(''); setGoalType('savings'); setColor('bg-blue-500'); setEditingGoal(null); };
+        const resetForm = () => { setName(''); setTarget({ amount: 0 }); setCurrent(0); setDeadline(''); setGoalType('savings'); setColor('bg-blue-500'); setEditingGoal(null); };
 
         const handleSaveGoal = async () => {
-            if (!name || !target) return;
+            if (!name || !target.amount) return;
             const newGoal: FinancialGoal = {
                 id: editingGoal ? editingGoal.id : Date.now().toString(),
                 name,
-                targetAmount: Number(target),
+                targetAmount: Number(target.amount),
                 currentAmount: Number(current) || 0,
                 type: goalType,
                 deadline: deadline || undefined,
-                color
+                color,
+                ...(target.currency ? { currency: target.currency, originalAmount: target.originalAmount, fxRate: target.fxRate } : {})
             };
 
             if (currentUser) {
@@ -901,13 +1185,13 @@ export const Finance: React.FC = () => {
                                         {g.type === 'savings' ? '🐷' : g.type === 'investment' ? '📈' : '🏠'}
                                     </div>
                                     <div className="opacity-0 group-hover:opacity-100 transition-opacity flex gap-1">
-                                        <button onClick={() => { setName(g.name); setTarget(g.targetAmount); setCurrent(g.currentAmount); setDeadline(g.deadline || ''); setGoalType(g.type); setColor(g.color || 'bg-blue-500'); setEditingGoal(g); setGoalModalOpen(true); }} className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-700 rounded text-gray-400 hover:text-blue-500">✏️</button>
+                                        <button onClick={() => { setName(g.name); setTarget(toMoneyValue(g.targetAmount, g)); setCurrent(g.currentAmount); setDeadline(g.deadline || ''); setGoalType(g.type); setColor(g.color || 'bg-blue-500'); setEditingGoal(g); setGoalModalOpen(true); }} className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-700 rounded text-gray-400 hover:text-blue-500">✏️</button>
                                         <button onClick={() => deleteGoal(g.id)} className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-700 rounded text-gray-400 hover:text-red-500">🗑️</button>
                                     </div>
                                 </div>
                                 <h3 className="font-bold text-lg text-gray-800 dark:text-white mb-1 truncate">{g.name}</h3>
                                 <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-4">
-                                    <span>Đích: {formatCurrency(g.targetAmount)}</span>
+                                    <span>Đích: {currencyService.formatOriginal(g) ? `${currencyService.formatOriginal(g)} (≈ ${formatCurrency(g.targetAmount)})` : formatCurrency(g.targetAmount)}</span>
                                 </div>
                                 <div className="w-full bg-gray-100 dark:bg-gray-700 rounded-full h-2.5 mb-2 overflow-hidden">
                                     <div className={`h-full rounded-full transition-all duration-1000 ${g.color || 'bg-blue-500'}`} style={{ width: `${pct}%` }}></div>
@@ -928,10 +1212,8 @@ export const Finance: React.FC = () => {
                             <div className="p-5 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center bg-gray-50 dark:bg-gray-900"><h3 className="font-bold text-lg text-gray-800 dark:text-white">{editingGoal ? 'Sửa mục tiêu' : 'Mục tiêu mới'}</h3><button onClick={() => setGoalModalOpen(false)} className="text-gray-400">✕</button></div>
                             <div className="p-6 space-y-4">
                                 <div><label className="block text-xs font-bold text-gray-500 uppercase mb-1">Tên mục tiêu</label><input value={name} onChange={e => setName(e.target.value)} className={inputStyle} /></div>
-                                <div className="grid grid-cols-2 gap-4">
-                                    <div><label className="block text-xs font-bold text-gray-500 uppercase mb-1">Số tiền đích</label><MoneyInput value={target} onChange={setTarget} className={inputStyle} /></div>
-                                    <div><label className="block text-xs font-bold text-gray-500 uppercase mb-1">Hiện có</label><MoneyInput value={current} onChange={setCurrent} className={inputStyle} /></div>
-                                </div>
+                                <div><label className="block text-xs font-bold text-gray-500 uppercase mb-1">Số tiền đích</label><CurrencyAmountInput value={target} onChange={setTarget} className={inputStyle} /></div>
+                                <div><label className="block text-xs font-bold text-gray-500 uppercase mb-1">Hiện có (VNĐ)</label><MoneyInput value={current} onChange={setCurrent} className={inputStyle} /></div>
                                 <button onClick={handleSaveGoal} className="w-full bg-emerald-600 text-white py-3 rounded-xl font-bold hover:bg-emerald-700 shadow-lg mt-2">Lưu</button>
                             </div>
                         </div>
@@ -960,23 +1242,24 @@ export const Finance: React.FC = () => {
         const [filterStatus, setFilterStatus] = useState<'ALL' | 'RECEIVABLE' | 'PAYABLE' | 'PAID'>('ALL');
 
         const [dName, setDName] = useState('');
-        const [dAmount, setDAmount] = useState(0);
+        const [dAmount, setDAmount] = useState<MoneyValue>({ amount: 0 });
         const [dType, setDType] = useState<'payable' | 'receivable'>('receivable');
         const [dDueDate, setDDueDate] = useState('');
         const [dNote, setDNote] = useState('');
 
-        const resetForm = () => { setDName(''); setDAmount(0); setDType('receivable'); setDDueDate(''); setDNote(''); setEditingDebt(null); };
+        const resetForm = () => { setDName(''); setDAmount({ amount: 0 }); setDType('receivable'); setDDueDate(''); setDNote(''); setEditingDebt(null); };
 
         const handleSaveDebt = async () => {
-            if (!dName || !dAmount) return;
+            if (!dName || !dAmount.amount) return;
             const newItem: DebtItem = {
                 id: editingDebt ? editingDebt.id : Date.now().toString(),
                 personName: dName,
-                amount: Number(dAmount),
+                amount: Number(dAmount.amount),
                 type: dType,
                 dueDate: dDueDate || undefined,
                 note: dNote || undefined,
-                isPaid: editingDebt ? editingDebt.isPaid : false
+                isPaid: editingDebt ? editingDebt.isPaid : false,
+                ...(dAmount.currency ? { currency: dAmount.currency, originalAmount: dAmount.originalAmount, fxRate: dAmount.fxRate } : {})
             };
 
             if (currentUser) {
@@ -1041,11 +1324,11 @@ export const Finance: React.FC = () => {
                                     </span>
                                 </div>
                                 <div className="opacity-0 group-hover:opacity-100 transition-opacity flex gap-1 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded">
-                                    <button onClick={() => { setDName(d.personName); setDAmount(d.amount); setDType(d.type); setDDueDate(d.dueDate || ''); setDNote(d.note || ''); setEditingDebt(d); setDebtModalOpen(true); }} className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-700 rounded text-gray-500 hover:text-blue-500">✏️</button>
+                                    <button onClick={() => { setDName(d.personName); setDAmount(toMoneyValue(d.amount, d)); setDType(d.type); setDDueDate(d.dueDate || ''); setDNote(d.note || ''); setEditingDebt(d); setDebtModalOpen(true); }} className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-700 rounded text-gray-500 hover:text-blue-500">✏️</button>
                                     <button onClick={() => deleteDebt(d.id)} className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-700 rounded text-gray-500 hover:text-red-500">🗑</button>
                                 </div>
                             </div>
-                            <div className="flex items-end gap-1 mb-3"><span className={`text-2xl font-bold ${d.type === 'receivable' ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(d.amount)}</span></div>
+                            <div className="flex items-end gap-1 mb-3"><span className={`text-2xl font-bold ${d.type === 'receivable' ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(d.amount)}</span>{currencyService.formatOriginal(d) && <span className="text-xs font-bold text-gray-400 mb-1">({currencyService.formatOriginal(d)})</span>}</div>
                             <button onClick={() => togglePaid(d)} className={`w-full mt-4 py-2 rounded-lg text-xs font-bold border transition-colors ${d.isPaid ? 'bg-gray-100 dark:bg-gray-700 text-gray-500 border-gray-200 dark:border-gray-600' : 'bg-white dark:bg-gray-700 text-blue-600 dark:text-blue-400 border-blue-200 dark:border-blue-800 hover:bg-blue-50 dark:hover:bg-gray-600'}`}>{d.isPaid ? 'Hoàn tác' : 'Đánh dấu đã xong ✅'}</button>
                         </div>
                     ))}
@@ -1058,7 +1341,7 @@ export const Finance: React.FC = () => {
                             <div className="p-6 space-y-4">
                                 <div className="flex bg-gray-100 dark:bg-gray-700 p-1 rounded-xl"><button onClick={() => setDType('receivable')} className={`flex-1 py-2 rounded-lg text-xs font-bold ${dType === 'receivable' ? 'bg-white dark:bg-gray-600 text-green-600 dark:text-green-300 shadow-sm' : 'text-gray-500 dark:text-gray-400'}`}>Phải Thu</button><button onClick={() => setDType('payable')} className={`flex-1 py-2 rounded-lg text-xs font-bold ${dType === 'payable' ? 'bg-white dark:bg-gray-600 text-red-600 dark:text-red-300 shadow-sm' : 'text-gray-500 dark:text-gray-400'}`}>Phải Trả</button></div>
                                 <div><label className="block text-xs font-bold text-gray-500 uppercase mb-1">Tên người / Đơn vị</label><input value={dName} onChange={e => setDName(e.target.value)} className={inputStyle} autoFocus /></div>
-                                <div><label className="block text-xs font-bold text-gray-500 uppercase mb-1">Số tiền</label><MoneyInput value={dAmount} onChange={setDAmount} className={inputStyle} /></div>
+                                <div><label className="block text-xs font-bold text-gray-500 uppercase mb-1">Số tiền</label><CurrencyAmountInput value={dAmount} onChange={setDAmount} className={inputStyle} /></div>
                                 <button onClick={handleSaveDebt} className="w-full bg-blue-600 text-white py-3 rounded-xl font-bold hover:bg-blue-700 shadow-lg mt-2">Lưu</button>
                             </div>
                         </div>
@@ -1095,36 +1378,86 @@ export const Finance: React.FC = () => {
                     </h1>
                     <p className="text-gray-500 mt-1 text-sm">Quản lý dòng tiền {currentUser ? '(Cloud Save)' : '(Chế độ Khách)'}</p>
                 </div>
+                <button
+                    onClick={() => setImportModalOpen(true)}
+                    className="px-4 py-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 font-bold text-sm rounded-xl shadow-sm hover:bg-gray-50 dark:hover:bg-gray-700 transition-all flex items-center gap-2"
+                >
+                    <span>📥</span> Nhập sao kê
+                </button>
             </div>
             <div className="flex gap-2 mb-6 bg-gray-100 dark:bg-gray-800 p-1 rounded-xl w-full overflow-x-auto no-scrollbar">
-                {[{ id: 'overview', label: 'Tổng Quan' }, { id: 'budget', label: 'Ngân Sách' }, { id: 'goals', label: 'Mục Tiêu' }, { id: 'debt', label: 'Sổ Nợ' }, { id: 'invest', label: 'Thông tin Thị trường & Vàng' }].map(t => (
+                {[{ id: 'overview', label: 'Tổng Quan' }, { id: 'budget', label: 'Ngân Sách' }, { id: 'recurring', label: 'Định Kỳ' }, { id: 'goals', label: 'Mục Tiêu' }, { id: 'debt', label: 'Sổ Nợ' }, { id: 'invest', label: 'Thông tin Thị trường & Vàng' }].map(t => (
                     <button key={t.id} onClick={() => setActiveTab(t.id as any)} className={`flex-1 sm:flex-none px-4 py-2 rounded-lg text-xs md:text-sm font-bold whitespace-nowrap transition-all ${activeTab === t.id ? 'bg-white dark:bg-gray-700 text-blue-600 dark:text-blue-400 shadow-sm' : 'text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200'}`}>{t.label}</button>
                 ))}
             </div>
             <div className="min-h-[500px]">
                 {activeTab === 'overview' && <OverviewTab />}
                 {activeTab === 'budget' && <BudgetTab />}
+                {activeTab === 'recurring' && (
+                    <RecurringManager
+                        rules={recurringRules}
+                        expenseCategories={getExpenseCategories()}
+                        incomeCategories={COMMON_CATEGORIES_INCOME}
+                        accounts={accounts}
+                        onSave={saveRecurringRule}
+                        onDelete={deleteRecurringRule}
+                    />
+                )}
                 {activeTab === 'goals' && <GoalsTabFull />}
                 {activeTab === 'debt' && <DebtTabFull />}
-                {activeTab === 'invest' && <InvestmentDashboard uid={currentUser?.uid} />}
+                {activeTab === 'invest' && (
+                    <InvestmentDashboard
+                        uid={currentUser?.uid}
+                        holdings={holdings}
+                        budgets={budgets}
+                        onSaveHolding={saveHolding}
+                        onDeleteHolding={deleteHolding}
+                        onAddLot={addHoldingLot}
+                        onDeleteLot={deleteHoldingLot}
+                    />
+                )}
             </div>
             {isTransModalOpen && (
                 <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 backdrop-blur-sm">
                     <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-md animate-fade-in-up border border-gray-200 dark:border-gray-700">
-                        <div className="p-4 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center bg-gray-50 dark:bg-gray-900"><h3 className="font-bold text-lg text-gray-800 dark:text-white">Thêm Giao Dịch</h3><button onClick={() => setTransModalOpen(false)} className="text-gray-500">✕</button></div>
+                        <div className="p-4 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center bg-gray-50 dark:bg-gray-900"><h3 className="font-bold text-lg text-gray-800 dark:text-white">{newTrans.type === 'transfer' ? 'Chuyển Tiền' : 'Thêm Giao Dịch'}</h3><button onClick={() => setTransModalOpen(false)} className="text-gray-500">✕</button></div>
                         <div className="p-4 md:p-6 space-y-4">
-                            <div className="flex bg-gray-100 dark:bg-gray-700 p-1 rounded-xl"><button onClick={() => setNewTrans({ ...newTrans, type: 'income', category: '' })} className={`flex-1 py-2 rounded-lg font-bold text-sm transition-all ${newTrans.type === 'income' ? 'bg-white dark:bg-gray-600 text-green-600 dark:text-green-300 shadow-sm' : 'text-gray-500 dark:text-gray-400'}`}>Thu Nhập</button><button onClick={() => setNewTrans({ ...newTrans, type: 'expense', category: '' })} className={`flex-1 py-2 rounded-lg font-bold text-sm transition-all ${newTrans.type === 'expense' ? 'bg-white dark:bg-gray-600 text-red-600 dark:text-red-300 shadow-sm' : 'text-gray-500 dark:text-gray-400'}`}>Chi Tiêu</button></div>
+                            <div className="flex bg-gray-100 dark:bg-gray-700 p-1 rounded-xl"><button onClick={() => setNewTrans({ ...newTrans, type: 'income', category: '' })} className={`flex-1 py-2 rounded-lg font-bold text-sm transition-all ${newTrans.type === 'income' ? 'bg-white dark:bg-gray-600 text-green-600 dark:text-green-300 shadow-sm' : 'text-gray-500 dark:text-gray-400'}`}>Thu Nhập</button><button onClick={() => setNewTrans({ ...newTrans, type: 'expense', category: '' })} className={`flex-1 py-2 rounded-lg font-bold text-sm transition-all ${newTrans.type === 'expense' ? 'bg-white dark:bg-gray-600 text-red-600 dark:text-red-300 shadow-sm' : 'text-gray-500 dark:text-gray-400'}`}>Chi Tiêu</button><button onClick={openTransferModal} className={`flex-1 py-2 rounded-lg font-bold text-sm transition-all ${newTrans.type === 'transfer' ? 'bg-white dark:bg-gray-600 text-blue-600 dark:text-blue-300 shadow-sm' : 'text-gray-500 dark:text-gray-400'}`}>Chuyển Khoản</button></div>
                             <div>
                                 <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Số tiền</label>
-                                <MoneyInput value={newTrans.amount || 0} onChange={(val) => setNewTrans({ ...newTrans, amount: val })} className={inputStyle} placeholder="0" autoFocus />
+                                <CurrencyAmountInput
+                                    value={toMoneyValue(newTrans.amount || 0, newTrans)}
+                                    onChange={v => setNewTrans({ ...newTrans, amount: v.amount, currency: v.currency, originalAmount: v.originalAmount, fxRate: v.fxRate })}
+                                    date={newTrans.date}
+                                    className={inputStyle}
+                                    autoFocus
+                                />
                             </div>
-                            <div>
-                                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Danh mục</label>
-                                <select value={newTrans.category} onChange={e => setNewTrans({ ...newTrans, category: e.target.value })} className={inputStyle}>
-                                    <option value="" disabled>-- Chọn danh mục --</option>
-                                    {getAvailableCategories().map(c => <option key={c} value={c}>{c}</option>)}
-                                </select>
+                            <div className={newTrans.type === 'transfer' ? 'grid grid-cols-2 gap-4' : ''}>
+                                <div>
+                                    <label className="block text-xs font-bold text-gray-500 uppercase mb-1">{newTrans.type === 'transfer' ? 'Từ tài khoản' : 'Tài khoản'}</label>
+                                    <select value={newTrans.accountId || accountService.getDefaultAccountId(accounts)} onChange={e => setNewTrans({ ...newTrans, accountId: e.target.value })} className={inputStyle}>
+                                        {accountService.withDefault(accounts).filter(a => !a.isArchived).map(a => <option key={a.id} value={a.id}>{accountService.getTypeMeta(a.type).icon} {a.name}</option>)}
+                                    </select>
+                                </div>
+                                {newTrans.type === 'transfer' && (
+                                    <div>
+                                        <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Đến tài khoản</label>
+                                        <select value={newTrans.toAccountId || ''} onChange={e => setNewTrans({ ...newTrans, toAccountId: e.target.value })} className={inputStyle}>
+                                            {accountService.withDefault(accounts).filter(a => !a.isArchived).map(a => <option key={a.id} value={a.id}>{accountService.getTypeMeta(a.type).icon} {a.name}</option>)}
+                                        </select>
+                                    </div>
+                                )}
                             </div>
+                            {newTrans.type !== 'transfer' && (
+                                <div>
+                                    <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Danh mục</label>
+                                    <select value={newTrans.category} onChange={e => setNewTrans({ ...newTrans, category: e.target.value })} className={inputStyle}>
+                                        <option value="" disabled>-- Chọn danh mục --</option>
+                                        {getAvailableCategories().map(c => <option key={c} value={c}>{c}</option>)}
+                                    </select>
+                                </div>
+                            )}
 
                             {/* Budget Preview Box */}
                             {budgetPreview && (
@@ -1137,7 +1470,7 @@ export const Finance: React.FC = () => {
                                         <div className={`h-full rounded-full ${budgetPreview.isOver ? 'bg-red-500' : 'bg-blue-500'}`} style={{ width: `${budgetPreview.percent}%` }}></div>
                                     </div>
                                     <div className="flex justify-between opacity-80">
-                                        <span>Đã dùng (kể cả đơn này): {formatCurrency(budgetPreview.newTotal)}</span>
+                                        <span>Đã dùng (kể cả đơn này & định kỳ): {formatCurrency(budgetPreview.newTotal)}</span>
                                         <span>Hạn mức: {formatCurrency(budgetPreview.limit)}</span>
                                     </div>
                                     {budgetPreview.newTotal > budgetPreview.limit && (
@@ -1161,6 +1494,16 @@ export const Finance: React.FC = () => {
                 </button>
             )}
 
+            <StatementImportModal
+                isOpen={isImportModalOpen}
+                onClose={() => setImportModalOpen(false)}
+                expenseCategories={getExpenseCategories()}
+                incomeCategories={COMMON_CATEGORIES_INCOME}
+                accounts={accounts}
+                loadExisting={loadExistingForImport}
+                onImport={importTransactions}
+            />
+
             {/* AI Plan Modal */}
             {(aiPlan || aiAnalysis) && (
                 <AIPlanModal
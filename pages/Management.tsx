@@ -1,6 +1,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { AdminDashboard } from '../components/AdminDashboard';
+import { AIUsageAdmin } from '../components/AIUsageAdmin';
 import { firebaseService } from '../services/firebase';
 import { geminiService } from '../services/gemini';
 import { useNavigate } from 'react-router-dom';
@@ -60,7 +61,7 @@ const ProgressBar = ({ current, max, label, colorClass }: { current: number, max
 // --- MAIN COMPONENT ---
 export const Management: React.FC = () => {
     const navigate = useNavigate();
-    const [activeTab, setActiveTab] = useState<'overview' | 'users' | 'resources' | 'security'>('overview');
+    const [activeTab, setActiveTab] = useState<'overview' | 'users' | 'ai' | 'resources' | 'security'>('overview');
     const [isLoading, setIsLoading] = useState(true);
 
     // Real Stats State
@@ -446,6 +447,7 @@ export const Management: React.FC = () => {
                 {[
                     { id: 'overview', label: 'Tổng quan', icon: '📊' },
                     { id: 'users', label: 'Người dùng', icon: '👥' },
+                    { id: 'ai', label: 'AI & Chi phí', icon: '🤖' },
                     { id: 'resources', label: 'Tài nguyên & Quota', icon: '⚡' },
                     { id: 'security', label: 'Bảo mật', icon: '🔒' }
                 ].map(tab => (
@@ -467,6 +469,7 @@ export const Management: React.FC = () => {
                         <AdminDashboard />
                     </div>
                 )}
+                {activeTab === 'ai' && <AIUsageAdmin />}
                 {activeTab === 'resources' && <ResourcesView />}
                 {activeTab === 'security' && <SecurityView />}
             </div>
@@ -4,14 +4,19 @@ import { UserProfile } from '../types';
 import { firebaseService, FirestoreUser } from '../services/firebase';
 import { geminiService } from '../services/gemini';
 import { speechService, VoiceSettings, DEFAULT_VOICE_SETTINGS } from '../services/speech';
+import { AIModelSettings } from '../components/AIModelSettings';
+import { PersonaSettings } from '../components/PersonaSettings';
+import { AIUsagePanel } from '../components/AIUsagePanel';
+import { isAbortError } from '../services/aiPipeline';
+import { useAbortOnUnmount } from '../hooks/useAbortOnUnmount';
 import firebase from 'firebase/compat/app';
 
 const DATA_KEYS = [
     'dh_course_tree_v2', 'dh_completed_lessons',
     'dh_vocab_folders', 'dh_vocab_terms',
     'dh_habits', 'dh_events', 'dh_tasks',
-    'dh_fin_trans', 'dh_fin_budgets', 'dh_fin_goals', 'dh_fin_debts',
-    'dh_user_profile', 'dh_theme', 'dh_gemini_api_key', 'dh_chat_history',
+    'dh_fin_trans', 'dh_fin_budgets', 'dh_fin_goals', 'dh_fin_debts', 'dh_fin_recurring', 'dh_fin_accounts', 'dh_fin_holdings', 'dh_fx_rates',
+    'dh_user_profile', 'dh_theme', 'dh_gemini_api_key', 'dh_ai_settings', 'dh_chat_history',
     'dh_voice_settings', 'dh_lang', 'dh_chat_sessions', 'dh_speaking_sessions'
 ];
 
@@ -91,6 +96,7 @@ export const Settings: React.FC = () => {
     const { theme, toggleTheme } = useTheme();
     const { language, setLanguage, t } = useLanguage();
     const [activeTab, setActiveTab] = useState<'account' | 'preferences' | 'voice' | 'data' | 'help'>('account');
+    const unmountSignal = useAbortOnUnmount();
 
     // User State
     const [profile, setProfile] = useState<ExtendedUserProfile>({ name: 'Khách', avatar: '👨‍💻', email: '' });
@@ -462,13 +468,14 @@ export const Settings: React.FC = () => {
 
             const systemInstr = `Bạn là trợ lý kỹ thuật cho "DangHoang Ebook App". Trả lời ngắn gọn, vui vẻ (style Nana). Giúp user giải quyết vấn đề. Nếu không biết, bảo họ liên hệ Admin Zalo: ${adminZalo}.`;
 
-            const stream = geminiService.chatStream([], aiHelpInput, systemInstr);
+            const stream = geminiService.chatStream([], aiHelpInput, systemInstr, { signal: unmountSignal() });
             let fullText = '';
             for await (const chunk of stream) {
                 fullText += chunk.text || '';
                 setAiHelpAnswer(fullText);
             }
         } catch (e: any) {
+            if (isAbortError(e)) return;
             setAiHelpAnswer("Lỗi kết nối AI: " + e.message);
         } finally {
             setIsAskingAi(false);
@@ -722,7 +729,7 @@ export const Settings: React.FC = () => {
                                                         </div>
                                                         <div className="flex items-center gap-4 mt-3">
                                                             <p className="text-xs text-green-600 flex items-center gap-1 font-medium">
-                                                                <span className="w-2 h-2 bg-green-500 rounded-full"></span> Đang hoạt động ({apiKey.startsWith('sk-') ? 'OpenAI' : 'Google Gemini'})
+                                                                <span className="w-2 h-2 bg-green-500 rounded-full"></span> Đang hoạt động ({geminiService.getProviderLabel()})
                                                             </p>
                                                             <span className={`text-[10px] px-2 py-0.5 rounded border font-bold uppercase ${profile.aiTier === 'vip' ? 'bg-purple-100 text-purple-700 border-purple-200' : 'bg-blue-100 text-blue-700 border-blue-200'}`}>
                                                                 {profile.aiTier === 'vip' ? 'Tier: VIP' : 'Tier: Standard'}
@@ -732,6 +739,18 @@ export const Settings: React.FC = () => {
                                                 )}
                                             </div>
                                         )}
+
+                                        {(isAdmin || isAuthorized) && (
+                                            <div className="mt-6">
+                                                <AIModelSettings onNotify={showToast} />
+                                            </div>
+                                        )}
+
+                                        {(isAdmin || isAuthorized) && profile.uid && (
+                                            <div className="mt-6">
+                                                <AIUsagePanel uid={profile.uid} />
+                                            </div>
+                                        )}
                                     </section>
                                 </div>
                             )}
@@ -852,6 +871,8 @@ export const Settings: React.FC = () => {
                                             </div>
                                         </div>
                                     </div>
+
+                                    <PersonaSettings onNotify={showToast} isAdmin={isAdmin} voices={availableVoices} />
                                 </div>
                             )}
 
@@ -1,7 +1,9 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
-import { VocabFolder, VocabTerm } from '../types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useLocation } from 'react-router-dom';
+import { VocabFolder, VocabTerm, VocabSourceType } from '../types';
 import { firebaseService } from '../services/firebase';
+import { migrateVocabTerms, vocabToCSV, vocabFromCSV, VOCAB_SOURCE_LABELS } from '../services/vocab';
 
 // Default Data
 const DEFAULT_FOLDERS: VocabFolder[] = [
@@ -18,6 +20,25 @@ interface FolderNode extends VocabFolder {
     children: FolderNode[];
 }
 
+// Editable text for the list fields: examples and collocations one per line, synonyms and tags comma-separated
+interface TermListDrafts {
+    examples: string;
+    synonyms: string;
+    collocations: string;
+    tags: string;
+}
+
+const EMPTY_TERM: Partial<VocabTerm> = { term: '', partOfSpeech: 'Noun', meaning: '', definition: '', example: '' };
+
+const toDrafts = (term: Partial<VocabTerm>): TermListDrafts => ({
+    examples: (term.examples || (term.example ? [term.example] : [])).join('\n'),
+    synonyms: (term.synonyms || []).join(', '),
+    collocations: (term.collocations || []).join('\n'),
+    tags: (term.tags || []).join(', ')
+});
+
+const splitList = (text: string, separator: RegExp) => [...new Set(text.split(separator).map(s => s.trim()).filter(Boolean))];
+
 // Styles
 const inputStyle = "w-full border border-gray-300 rounded-xl px-4 py-2.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white text-gray-900 dark:bg-gray-700 dark:text-white dark:border-gray-600 transition-colors placeholder-gray-400 font-medium shadow-sm";
 
@@ -36,9 +57,12 @@ export const VocabLibrary: React.FC = () => {
     // Filters & Sort
     const [searchQuery, setSearchQuery] = useState('');
     const [filterPos, setFilterPos] = useState<string>('ALL');
+    const [filterTag, setFilterTag] = useState<string>('ALL');
     const [sortOption, setSortOption] = useState<'newest' | 'a-z'>('newest');
 
     const [expandedKeys, setExpandedKeys] = useState<Set<string>>(new Set(['root']));
+    const location = useLocation();
+    const openedFromStateRef = useRef<string | null>(null);
 
     // Mobile UI State
     const [isMobileSidebarOpen, setMobileSidebarOpen] = useState(false);
@@ -50,9 +74,8 @@ export const VocabLibrary: React.FC = () => {
     // Form State
     const [newFolder, setNewFolder] = useState('');
     const [newFolderParentId, setNewFolderParentId] = useState('root');
-    const [currentTerm, setCurrentTerm] = useState<Partial<VocabTerm>>({
-        term: '', partOfSpeech: 'Noun', meaning: '', definition: '', example: ''
-    });
+    const [currentTerm, setCurrentTerm] = useState<Partial<VocabTerm>>(EMPTY_TERM);
+    const [listDrafts, setListDrafts] = useState<TermListDrafts>(toDrafts(EMPTY_TERM));
 
     // --- Load Data (Hybrid) ---
     useEffect(() => {
@@ -66,7 +89,8 @@ export const VocabLibrary: React.FC = () => {
                 if (f) setFolders(f);
                 else setFolders(DEFAULT_FOLDERS);
 
-                if (t) setTerms(t);
+                // Older records are brought up to the rich term model; the save effect below persists them
+                if (t) setTerms(migrateVocabTerms(t));
 
             } catch (e) {
                 console.error("Error loading vocab data", e);
@@ -90,6 +114,23 @@ export const VocabLibrary: React.FC = () => {
         }
     }, [terms, isDataLoaded]);
 
+    // Opened from a citation in Nana's chat: select the cited folder and expand its parents
+    useEffect(() => {
+        const folderId = (location.state as { folderId?: string } | null)?.folderId;
+        if (!folderId || !isDataLoaded || openedFromStateRef.current === location.key) return;
+        openedFromStateRef.current = location.key;
+        if (folderId !== 'root' && !folders.some(f => f.id === folderId)) return;
+        const ancestors = new Set(['root']);
+        let parentId = folders.find(f => f.id === folderId)?.parentId;
+        while (parentId && !ancestors.has(parentId)) {
+            ancestors.add(parentId);
+            const id = parentId;
+            parentId = folders.find(f => f.id === id)?.parentId;
+        }
+        setExpandedKeys(prev => new Set([...prev, ...ancestors]));
+        setSelectedFolderId(folderId);
+    }, [location, isDataLoaded, folders]);
+
     // --- Tree Logic ---
     const folderTree = useMemo(() => {
         const map: Record<string, FolderNode> = {};
@@ -131,7 +172,8 @@ export const VocabLibrary: React.FC = () => {
         // 2. Search
         if (searchQuery) {
             const q = searchQuery.toLowerCase();
-            result = result.filter(t => t.term.toLowerCase().includes(q) || t.meaning.toLowerCase().includes(q));
+            result = result.filter(t => t.term.toLowerCase().includes(q) || t.meaning.toLowerCase().includes(q)
+                || (t.synonyms || []).some(s => s.toLowerCase().includes(q)) || (t.tags || []).some(s => s.toLowerCase().includes(q)));
         }
 
         // 3. Filter by POS
@@ -139,6 +181,10 @@ export const VocabLibrary: React.FC = () => {
             result = result.filter(t => t.partOfSpeech === filterPos);
         }
 
+        if (filterTag !== 'ALL') {
+            result = result.filter(t => (t.tags || []).includes(filterTag));
+        }
+
         // 4. Sort
         result.sort((a, b) => {
             if (sortOption === 'a-z') return a.term.localeCompare(b.term);
@@ -147,7 +193,9 @@ export const VocabLibrary: React.FC = () => {
         });
 
         return result;
-    }, [terms, selectedFolderId, searchQuery, filterPos, sortOption]);
+    }, [terms, selectedFolderId, searchQuery, filterPos, filterTag, sortOption]);
+
+    const allTags = useMemo(() => [...new Set<string>(terms.flatMap(t => t.tags || []))].sort((a, b) => a.localeCompare(b)), [terms]);
 
     const currentFolder = folders.find(f => f.id === selectedFolderId);
 
@@ -179,34 +227,52 @@ export const VocabLibrary: React.FC = () => {
         }
     };
 
+    const openTermEditor = (term: Partial<VocabTerm>) => { setCurrentTerm(term); setListDrafts(toDrafts(term)); setTermModalOpen(true); };
+
     const handleSaveTerm = () => {
         if (!currentTerm.term || !currentTerm.meaning) return alert("Vui lòng nhập Thuật ngữ và Nghĩa tiếng Việt");
-        if (currentTerm.id) { setTerms(prev => prev.map(t => t.id === currentTerm.id ? { ...t, ...currentTerm } as VocabTerm : t)); }
+        const examples = splitList(listDrafts.examples, /\n/);
+        const rich: Partial<VocabTerm> = {
+            ...currentTerm,
+            ipa: (currentTerm.ipa || '').replace(/\//g, '').trim() || undefined,
+            audioUrl: currentTerm.audioUrl?.trim() || undefined,
+            imageUrl: currentTerm.imageUrl?.trim() || undefined,
+            example: examples[0] || '',
+            examples,
+            synonyms: splitList(listDrafts.synonyms, /,/),
+            collocations: splitList(listDrafts.collocations, /\n/),
+            tags: splitList(listDrafts.tags, /,/)
+        };
+        if (currentTerm.id) { setTerms(prev => prev.map(t => t.id === currentTerm.id ? { ...t, ...rich } as VocabTerm : t)); }
         else {
-            const newT: VocabTerm = { id: Date.now().toString(), term: currentTerm.term!, partOfSpeech: currentTerm.partOfSpeech || 'Noun', meaning: currentTerm.meaning!, definition: currentTerm.definition || '', example: currentTerm.example || '', folderId: selectedFolderId, learned: false, createdAt: new Date().toISOString() };
+            const newT: VocabTerm = { ...rich, id: Date.now().toString(), term: currentTerm.term!, partOfSpeech: currentTerm.partOfSpeech || 'Noun', meaning: currentTerm.meaning!, definition: currentTerm.definition || '', example: rich.example!, folderId: selectedFolderId, learned: false, createdAt: new Date().toISOString(), source: currentTerm.source || { type: 'manual' } };
             setTerms(prev => [newT, ...prev]);
         }
-        setTermModalOpen(false); setCurrentTerm({ term: '', partOfSpeech: 'Noun', meaning: '', definition: '', example: '' });
+        setTermModalOpen(false); setCurrentTerm(EMPTY_TERM);
     };
 
     const handleDeleteTerm = (id: string) => { if (window.confirm("Xóa thuật ngữ này?")) setTerms(prev => prev.filter(t => t.id !== id)); };
-    const handleEditTerm = (term: VocabTerm) => { setCurrentTerm(term); setTermModalOpen(true); };
+    const handleEditTerm = (term: VocabTerm) => openTermEditor(term);
 
     const toggleLearned = (id: string) => {
         setTerms(prev => prev.map(t => t.id === id ? { ...t, learned: !t.learned } : t));
     };
 
-    const speak = (text: string, e: React.MouseEvent) => {
-        e.stopPropagation();
-        const utterance = new SpeechSynthesisUtterance(text);
+    // The term's own recording when it has one, else the browser voice
+    const speak = (term: VocabTerm, e: React.MouseEvent) => {
+        e.stopPropagation?.();
+        if (term.audioUrl) {
+            new Audio(term.audioUrl).play().catch(err => console.warn("Audio playback failed", err));
+            return;
+        }
+        const utterance = new SpeechSynthesisUtterance(term.term);
         utterance.lang = 'en-US';
         window.speechSynthesis.speak(utterance);
     };
 
     const downloadCSV = () => {
-        const headers = "Term,Type,Meaning,Definition,Example,Folder\n";
-        const rows = terms.map(t => { const folderName = folders.find(f => f.id === t.folderId)?.name || 'Unknown'; return `"${t.term}","${t.partOfSpeech}","${t.meaning}","${t.definition}","${t.example}","${folderName}"`; }).join("\n");
-        const blob = new Blob([headers + rows], { type: 'text/csv;charset=utf-8;' });
+        // BOM so Excel reads the Vietnamese meanings as UTF-8
+        const blob = new Blob(['\uFEFF' + vocabToCSV(terms, folders)], { type: 'text/csv;charset=utf-8;' });
         const url = URL.createObjectURL(blob); const link = document.createElement('a'); link.setAttribute('href', url); link.setAttribute('download', 'danghoang_vocab.csv'); link.style.visibility = 'hidden'; document.body.appendChild(link); link.click(); document.body.removeChild(link);
     };
 
@@ -214,11 +280,8 @@ export const VocabLibrary: React.FC = () => {
         const file = e.target.files?.[0]; if (!file) return;
         const reader = new FileReader();
         reader.onload = (evt) => {
-            const text = evt.target?.result as string; const lines = text.split('\n'); const newTerms: VocabTerm[] = [];
-            for (let i = 1; i < lines.length; i++) {
-                const line = lines[i].trim(); if (!line) continue; const matches = line.match(/(".*?"|[^",\s]+)(?=\s*,|\s*$)/g);
-                if (matches) { const clean = matches.map(m => m.replace(/^"|"$/g, '')); if (clean.length >= 3) { newTerms.push({ id: Date.now().toString() + i, term: clean[0], partOfSpeech: clean[1] || 'Noun', meaning: clean[2], definition: clean[3] || '', example: clean[4] || '', folderId: selectedFolderId, learned: false, createdAt: new Date().toISOString() }); } }
-            }
+            const text = evt.target?.result as string;
+            const newTerms = vocabFromCSV(text, folders, selectedFolderId);
             if (newTerms.length > 0) { setTerms(prev => [...newTerms, ...prev]); alert(`Đã nhập thành công ${newTerms.length} từ vựng.`); } else alert("Không đọc được dữ liệu.");
         };
         reader.readAsText(file);
@@ -352,7 +415,7 @@ export const VocabLibrary: React.FC = () => {
                             <button onClick={downloadCSV} className="hidden md:flex px-3 py-2 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 text-gray-600 dark:text-gray-300 rounded-lg text-sm font-bold transition-colors items-center gap-1 border border-gray-200 dark:border-gray-700">
                                 <span>⬇️</span> CSV
                             </button>
-                            <button onClick={() => { setCurrentTerm({ term: '', partOfSpeech: 'Noun', meaning: '', definition: '', example: '', folderId: selectedFolderId }); setTermModalOpen(true); }} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-bold shadow-lg shadow-blue-500/30 transition-all transform active:scale-95 flex items-center gap-2">
+                            <button onClick={() => openTermEditor({ ...EMPTY_TERM, folderId: selectedFolderId })} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-bold shadow-lg shadow-blue-500/30 transition-all transform active:scale-95 flex items-center gap-2">
                                 <span className="text-lg leading-none">+</span> <span className="hidden sm:inline">Thêm từ</span>
                             </button>
                         </div>
@@ -370,6 +433,12 @@ export const VocabLibrary: React.FC = () => {
                                 <option value="ALL">Tất cả loại</option>
                                 {POS_OPTIONS.map(p => <option key={p} value={p}>{p}</option>)}
                             </select>
+                            {allTags.length > 0 && (
+                                <select value={filterTag} onChange={e => setFilterTag(e.target.value)} className="bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 outline-none focus:border-blue-500 cursor-pointer">
+                                    <option value="ALL">Tất cả thẻ</option>
+                                    {allTags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+                                </select>
+                            )}
                             <select value={sortOption} onChange={e => setSortOption(e.target.value as any)} className="bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 outline-none focus:border-blue-500 cursor-pointer">
                                 <option value="newest">Mới nhất</option>
                                 <option value="a-z">A-Z</option>
@@ -396,21 +465,38 @@ export const VocabLibrary: React.FC = () => {
                                             <div className="flex justify-between items-start mb-2">
                                                 <div className="flex items-center gap-2">
                                                     <h3 className="font-bold text-lg text-blue-700 dark:text-blue-400">{term.term}</h3>
-                                                    <button onClick={(e) => speak(term.term, e)} className="text-gray-400 hover:text-blue-500 p-1 rounded-full hover:bg-blue-50 dark:hover:bg-gray-700 transition-colors" title="Nghe phát âm">🔊</button>
+                                                    <button onClick={(e) => speak(term, e)} className="text-gray-400 hover:text-blue-500 p-1 rounded-full hover:bg-blue-50 dark:hover:bg-gray-700 transition-colors" title="Nghe phát âm">🔊</button>
                                                 </div>
                                                 <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded border ${getBadgeColor(term.partOfSpeech)}`}>
                                                     {term.partOfSpeech}
                                                 </span>
                                             </div>
 
-                                            <div className="mb-2">
-                                                <p className="text-gray-800 dark:text-gray-200 font-semibold">{term.meaning}</p>
+                                            {term.ipa && <p className="-mt-1 mb-1 text-xs font-mono text-gray-400">/{term.ipa}/</p>}
+
+                                            <div className="mb-2 flex gap-3">
+                                                <p className="flex-1 text-gray-800 dark:text-gray-200 font-semibold">{term.meaning}</p>
+                                                {term.imageUrl && <img src={term.imageUrl} alt={term.term} className="w-14 h-14 rounded-lg object-cover border border-gray-100 dark:border-gray-700 shrink-0" loading="lazy" />}
                                             </div>
 
+                                            {((term.synonyms?.length || 0) > 0 || (term.collocations?.length || 0) > 0) && (
+                                                <div className="mb-2 space-y-0.5 text-xs text-gray-500 dark:text-gray-400">
+                                                    {term.synonyms && term.synonyms.length > 0 && <p className="line-clamp-1"><span className="font-bold">≈</span> {term.synonyms.join(', ')}</p>}
+                                                    {term.collocations && term.collocations.length > 0 && <p className="line-clamp-1"><span className="font-bold">+</span> {term.collocations.join(' • ')}</p>}
+                                                </div>
+                                            )}
+
                                             {(term.definition || term.example) && (
                                                 <div className="mt-auto pt-3 border-t border-gray-100 dark:border-gray-700 space-y-1">
                                                     {term.definition && <p className="text-xs text-gray-500 dark:text-gray-400 italic line-clamp-2">"{term.definition}"</p>}
-                                                    {term.example && <p className="text-xs text-gray-600 dark:text-gray-300 pl-2 border-l-2 border-blue-200 dark:border-blue-800 line-clamp-2">Ex: {term.example}</p>}
+                                                    {term.example && <p className="text-xs text-gray-600 dark:text-gray-300 pl-2 border-l-2 border-blue-200 dark:border-blue-800 line-clamp-2">Ex: {term.example}{(term.examples?.length || 0) > 1 && <span className="text-gray-400"> (+{term.examples!.length - 1})</span>}</p>}
+                                                </div>
+                                            )}
+
+                                            {((term.tags?.length || 0) > 0 || term.source) && (
+                                                <div className="flex flex-wrap gap-1 mt-2">
+                                                    {term.source && <span className="text-[10px] px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-300 truncate max-w-full" title={term.source.label}>{VOCAB_SOURCE_LABELS[term.source.type]}{term.source.label ? `: ${term.source.label}` : ''}</span>}
+                                                    {term.tags?.map(tag => <button key={tag} onClick={() => setFilterTag(tag)} className="text-[10px] px-1.5 py-0.5 rounded bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-300 hover:bg-blue-100">#{tag}</button>)}
                                                 </div>
                                             )}
 
@@ -447,9 +533,11 @@ export const VocabLibrary: React.FC = () => {
                                                         <td className="p-3">
                                                             <div className="font-bold text-blue-700 dark:text-blue-400 flex items-center gap-2">
                                                                 {term.term}
-                                                                <button onClick={() => speak(term.term, {} as any)} className="text-gray-400 hover:text-blue-500 opacity-0 group-hover:opacity-100 transition-opacity">🔊</button>
+                                                                <button onClick={(e) => speak(term, e)} className="text-gray-400 hover:text-blue-500 opacity-0 group-hover:opacity-100 transition-opacity">🔊</button>
                                                             </div>
                                                             <span className="text-[10px] text-gray-500 border border-gray-200 rounded px-1">{term.partOfSpeech}</span>
+                                                            {term.ipa && <span className="ml-1 text-[10px] font-mono text-gray-400">/{term.ipa}/</span>}
+                                                            {term.tags && term.tags.length > 0 && <div className="mt-1 text-[10px] text-blue-500">{term.tags.map(tag => `#${tag}`).join(' ')}</div>}
                                                         </td>
                                                         <td className="p-3 text-gray-800 dark:text-gray-200 font-medium">{term.meaning}</td>
                                                         <td className="p-3 hidden md:table-cell text-gray-500 dark:text-gray-400 italic text-xs max-w-xs truncate" title={term.example}>{term.example}</td>
@@ -498,9 +586,19 @@ export const VocabLibrary: React.FC = () => {
                         </div>
                         <div className="space-y-4">
                             <div className="grid grid-cols-3 gap-4"><div className="col-span-2"><label className="block text-xs text-gray-500 uppercase font-bold mb-1">Thuật ngữ (Tiếng Anh)</label><input autoFocus value={currentTerm.term} onChange={e => setCurrentTerm({ ...currentTerm, term: e.target.value })} className={`${inputStyle} font-bold`} placeholder="Word..." /></div><div><label className="block text-xs text-gray-500 uppercase font-bold mb-1">Từ loại</label><select value={currentTerm.partOfSpeech} onChange={e => setCurrentTerm({ ...currentTerm, partOfSpeech: e.target.value })} className={inputStyle}>{POS_OPTIONS.map(o => <option key={o} value={o}>{o}</option>)}</select></div></div>
-                            <div><label className="block text-xs text-gray-500 uppercase font-bold mb-1">Nghĩa Tiếng Việt</label><input value={currentTerm.meaning} onChange={e => setCurrentTerm({ ...currentTerm, meaning: e.target.value })} className={inputStyle} placeholder="Nghĩa..." /></div>
+                            <div className="grid grid-cols-3 gap-4"><div className="col-span-2"><label className="block text-xs text-gray-500 uppercase font-bold mb-1">Nghĩa Tiếng Việt</label><input value={currentTerm.meaning} onChange={e => setCurrentTerm({ ...currentTerm, meaning: e.target.value })} className={inputStyle} placeholder="Nghĩa..." /></div><div><label className="block text-xs text-gray-500 uppercase font-bold mb-1">IPA</label><input value={currentTerm.ipa || ''} onChange={e => setCurrentTerm({ ...currentTerm, ipa: e.target.value })} className={`${inputStyle} font-mono`} placeholder="həˈləʊ" /></div></div>
                             <div><label className="block text-xs text-gray-500 uppercase font-bold mb-1">Giải thích (Tiếng Anh)</label><textarea value={currentTerm.definition} onChange={e => setCurrentTerm({ ...currentTerm, definition: e.target.value })} className={`${inputStyle} h-20 resize-none`} placeholder="English definition (optional)..." /></div>
-                            <div><label className="block text-xs text-gray-500 uppercase font-bold mb-1">Ví dụ</label><input value={currentTerm.example} onChange={e => setCurrentTerm({ ...currentTerm, example: e.target.value })} className={inputStyle} placeholder="Example sentence..." /></div>
+                            <div><label className="block text-xs text-gray-500 uppercase font-bold mb-1">Ví dụ (mỗi dòng một câu)</label><textarea value={listDrafts.examples} onChange={e => setListDrafts({ ...listDrafts, examples: e.target.value })} className={`${inputStyle} h-20 resize-none`} placeholder="Example sentence..." /></div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div><label className="block text-xs text-gray-500 uppercase font-bold mb-1">Từ đồng nghĩa</label><input value={listDrafts.synonyms} onChange={e => setListDrafts({ ...listDrafts, synonyms: e.target.value })} className={inputStyle} placeholder="big, large..." /></div>
+                                <div><label className="block text-xs text-gray-500 uppercase font-bold mb-1">Thẻ</label><input value={listDrafts.tags} onChange={e => setListDrafts({ ...listDrafts, tags: e.target.value })} className={inputStyle} placeholder="ielts, travel..." /></div>
+                            </div>
+                            <div><label className="block text-xs text-gray-500 uppercase font-bold mb-1">Cụm từ đi kèm (mỗi dòng một cụm)</label><textarea value={listDrafts.collocations} onChange={e => setListDrafts({ ...listDrafts, collocations: e.target.value })} className={`${inputStyle} h-16 resize-none`} placeholder="make a decision..." /></div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div><label className="block text-xs text-gray-500 uppercase font-bold mb-1">Link âm thanh</label><input value={currentTerm.audioUrl || ''} onChange={e => setCurrentTerm({ ...currentTerm, audioUrl: e.target.value })} className={inputStyle} placeholder="https://...mp3" /></div>
+                                <div><label className="block text-xs text-gray-500 uppercase font-bold mb-1">Link hình ảnh</label><input value={currentTerm.imageUrl || ''} onChange={e => setCurrentTerm({ ...currentTerm, imageUrl: e.target.value })} className={inputStyle} placeholder="https://...jpg" /></div>
+                            </div>
+                            <div><label className="block text-xs text-gray-500 uppercase font-bold mb-1">Nguồn</label><div className="flex gap-2"><select value={currentTerm.source?.type || 'manual'} onChange={e => setCurrentTerm({ ...currentTerm, source: { ...currentTerm.source, type: e.target.value as VocabSourceType } })} className={`${inputStyle} w-40`}>{(Object.keys(VOCAB_SOURCE_LABELS) as VocabSourceType[]).map(s => <option key={s} value={s}>{VOCAB_SOURCE_LABELS[s]}</option>)}</select><input value={currentTerm.source?.label || ''} onChange={e => setCurrentTerm({ ...currentTerm, source: { type: currentTerm.source?.type || 'manual', ...currentTerm.source, label: e.target.value } })} className={inputStyle} placeholder="Tên bài đọc, bài viết..." /></div></div>
                             <div><label className="block text-xs text-gray-500 uppercase font-bold mb-1">Lưu vào thư mục</label><select value={selectedFolderId} onChange={e => setSelectedFolderId(e.target.value)} className={inputStyle}>{getFolderOptions(folderTree)}</select></div>
                         </div>
                         <div className="flex justify-end gap-3 mt-8 pt-4 border-t border-gray-100 dark:border-gray-700">
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { accountService, DEFAULT_ACCOUNT_ID, ADJUSTMENT_CATEGORY } from './accounts';
+import { FinanceAccount, Transaction } from '../types';
+
+const accounts: FinanceAccount[] = [
+    { id: 'cash', name: 'Ví tiền mặt', type: 'cash', openingBalance: 500000, isDefault: true },
+    { id: 'vcb', name: 'Vietcombank', type: 'bank', openingBalance: 10000000 },
+    { id: 'old', name: 'Ví cũ', type: 'ewallet', openingBalance: 200000, isArchived: true }
+];
+
+let seq = 0;
+const tx = (fields: Partial<Transaction>): Transaction =>
+    ({ id: `t${++seq}`, date: '2026-03-15', amount: 0, type: 'expense', category: 'Khác', ...fields });
+
+describe('accountService.computeBalances', () => {
+    it('adds income, subtracts expenses and moves transfers between accounts', () => {
+        const balances = accountService.computeBalances(accounts, [
+            tx({ type: 'income', amount: 15000000, accountId: 'vcb' }),
+            tx({ type: 'expense', amount: 45000, accountId: 'cash' }),
+            tx({ type: 'transfer', amount: 2000000, accountId: 'vcb', toAccountId: 'cash' })
+        ]);
+        expect(balances.vcb).toMatchObject({ balance: 23000000, income: 15000000, transfersOut: 2000000 });
+        expect(balances.cash).toMatchObject({ balance: 2455000, expense: 45000, transfersIn: 2000000 });
+    });
+
+    it('books transactions without a known account on the default account', () => {
+        const balances = accountService.computeBalances(accounts, [
+            tx({ amount: 100000 }),
+            tx({ amount: 50000, accountId: 'deleted' })
+        ]);
+        expect(balances.cash.balance).toBe(350000);
+    });
+
+    it('ignores projected transactions and transfers to the same or a missing account', () => {
+        const balances = accountService.computeBalances(accounts, [
+            tx({ amount: 999000, accountId: 'cash', isProjected: true }),
+            tx({ type: 'transfer', amount: 1000, accountId: 'cash', toAccountId: 'cash' }),
+            tx({ type: 'transfer', amount: 1000, accountId: 'cash', toAccountId: 'gone' })
+        ]);
+        expect(balances.cash.balance).toBe(500000);
+    });
+
+    it('keeps transfers out of the total and archived accounts out of it too', () => {
+        const balances = accountService.computeBalances(accounts, [tx({ type: 'transfer', amount: 3000000, accountId: 'vcb', toAccountId: 'cash' })]);
+        expect(accountService.totalBalance(balances, accounts)).toBe(10500000);
+    });
+
+    it('falls back to a virtual default wallet without accounts', () => {
+        const balances = accountService.computeBalances([], [tx({ type: 'income', amount: 70000 })]);
+        expect(balances[DEFAULT_ACCOUNT_ID].balance).toBe(70000);
+    });
+});
+
+describe('accountService.buildAdjustment', () => {
+    it('books the gap to the actual balance as a signed adjustment', () => {
+        expect(accountService.buildAdjustment(accounts[1], 10000000, 9950000, '2026-03-31')).toMatchObject({
+            amount: -50000, type: 'adjustment', category: ADJUSTMENT_CATEGORY, accountId: 'vcb'
+        });
+        expect(accountService.buildAdjustment(accounts[1], 10000000, 10000000.4, '2026-03-31')).toBeNull();
+    });
+
+    it('moves the balance without counting as income or expense', () => {
+        const gap = accountService.buildAdjustment(accounts[1], 10000000, 9950000, '2026-03-31')!;
+        const balances = accountService.computeBalances(accounts, [{ id: 'adj', ...gap }]);
+        expect(balances.vcb).toMatchObject({ balance: 9950000, income: 0, expense: 0 });
+    });
+});
+
+describe('accountService.migrateTransaction', () => {
+    it('turns legacy income/expense adjustments into signed adjustments', () => {
+        expect(accountService.migrateTransaction(tx({ type: 'expense', amount: 50000, category: ADJUSTMENT_CATEGORY })))
+            .toMatchObject({ type: 'adjustment', amount: -50000 });
+        expect(accountService.migrateTransaction(tx({ type: 'income', amount: 20000, category: ADJUSTMENT_CATEGORY })))
+            .toMatchObject({ type: 'adjustment', amount: 20000 });
+        const coffee = tx({ type: 'expense', amount: 45000, category: 'Ăn uống' });
+        expect(accountService.migrateTransaction(coffee)).toBe(coffee);
+    });
+});
@@ -0,0 +1,135 @@
+import { AccountType, FinanceAccount, Transaction } from "../types";
+
+// Id used when the user has not created any account yet: every legacy transaction
+// (saved before accounts existed) lands in this virtual wallet.
+export const DEFAULT_ACCOUNT_ID = 'default';
+
+export const ACCOUNT_TYPES: { id: AccountType; label: string; icon: string }[] = [
+    { id: 'cash', label: 'Tiền mặt', icon: '💵' },
+    { id: 'bank', label: 'Ngân hàng', icon: '🏦' },
+    { id: 'ewallet', label: 'Ví điện tử', icon: '📱' },
+    { id: 'credit', label: 'Thẻ tín dụng', icon: '💳' }
+];
+
+export const ADJUSTMENT_CATEGORY = 'Điều chỉnh số dư';
+
+export const EWALLET_PROVIDERS = ['MoMo', 'ZaloPay', 'ShopeePay', 'VNPay', 'Viettel Money'];
+
+export interface AccountBalance {
+    accountId: string;
+    balance: number;
+    income: number;
+    expense: number;
+    transfersIn: number;
+    transfersOut: number;
+}
+
+// Compact per-account view used by the Dashboard and getGlobalStats
+export interface AccountSummary {
+    id: string;
+    name: string;
+    type: AccountType;
+    balance: number;
+    lastReconciledAt?: string;
+}
+
+class AccountService {
+    createDefaultAccount(): FinanceAccount {
+        return { id: DEFAULT_ACCOUNT_ID, name: 'Ví chính', type: 'cash', openingBalance: 0, isDefault: true };
+    }
+
+    // Always returns at least one account so the UI never has to handle "no account"
+    withDefault(accounts: FinanceAccount[]): FinanceAccount[] {
+        return accounts.length > 0 ? accounts : [this.createDefaultAccount()];
+    }
+
+    getDefaultAccountId(accounts: FinanceAccount[]): string {
+        const list = this.withDefault(accounts);
+        return (list.find(a => a.isDefault && !a.isArchived) || list.find(a => !a.isArchived) || list[0]).id;
+    }
+
+    resolveAccountId(t: Pick<Transaction, 'accountId'>, accounts: FinanceAccount[]): string {
+        const list = this.withDefault(accounts);
+        return t.accountId && list.some(a => a.id === t.accountId) ? t.accountId : this.getDefaultAccountId(accounts);
+    }
+
+    /**
+     * Balance of every account = opening balance + income - expense +/- transfers + adjustments.
+     * Transfers move money between accounts, so the total across accounts is unaffected.
+     */
+    computeBalances(accounts: FinanceAccount[], transactions: Transaction[]): Record<string, AccountBalance> {
+        const list = this.withDefault(accounts);
+        const result: Record<string, AccountBalance> = {};
+        list.forEach(a => {
+            result[a.id] = { accountId: a.id, balance: Number(a.openingBalance) || 0, income: 0, expense: 0, transfersIn: 0, transfersOut: 0 };
+        });
+
+        transactions.forEach(t => {
+            if (t.isProjected) return;
+            const amount = Number(t.amount) || 0;
+            const from = result[this.resolveAccountId(t, accounts)];
+
+            if (t.type === 'income') {
+                from.income += amount;
+                from.balance += amount;
+            } else if (t.type === 'expense') {
+                from.expense += amount;
+                from.balance -= amount;
+            } else if (t.type === 'transfer') {
+                const to = t.toAccountId ? result[t.toAccountId] : undefined;
+                if (!to || to === from) return;
+                from.transfersOut += amount;
+                from.balance -= amount;
+                to.transfersIn += amount;
+                to.balance += amount;
+            } else if (t.type === 'adjustment') {
+                from.balance += amount;
+            }
+        });
+
+        return result;
+    }
+
+    totalBalance(balances: Record<string, AccountBalance>, accounts: FinanceAccount[]): number {
+        return this.withDefault(accounts)
+            .filter(a => !a.isArchived)
+            .reduce((sum, a) => sum + (balances[a.id]?.balance || 0), 0);
+    }
+
+    summarize(accounts: FinanceAccount[], balances: Record<string, AccountBalance>): AccountSummary[] {
+        return this.withDefault(accounts)
+            .filter(a => !a.isArchived)
+            .map(a => ({ id: a.id, name: a.name, type: a.type, balance: balances[a.id]?.balance || 0, lastReconciledAt: a.lastReconciledAt }));
+    }
+
+    /**
+     * Reconciliation: the user types the real balance shown by the bank/wallet app. Any gap
+     * is booked as an adjustment (signed amount) so the computed balance matches from then on,
+     * without showing up as income or spending.
+     */
+    buildAdjustment(account: FinanceAccount, computed: number, actual: number, date: string): Omit<Transaction, 'id'> | null {
+        const diff = Math.round(actual - computed);
+        if (diff === 0) return null;
+        return {
+            date,
+            amount: diff,
+            type: 'adjustment',
+            category: ADJUSTMENT_CATEGORY,
+            description: `Đối soát ${account.name}`,
+            accountId: account.id
+        };
+    }
+
+    // Adjustments saved before they had their own type were income/expense in ADJUSTMENT_CATEGORY
+    migrateTransaction(t: Transaction): Transaction {
+        if (t.category !== ADJUSTMENT_CATEGORY || (t.type !== 'income' && t.type !== 'expense')) return t;
+        const amount = Math.abs(Number(t.amount) || 0);
+        return { ...t, type: 'adjustment', amount: t.type === 'income' ? amount : -amount };
+    }
+
+    getTypeMeta(type: AccountType) {
+        return ACCOUNT_TYPES.find(t => t.id === type) || ACCOUNT_TYPES[0];
+    }
+}
+
+export const accountService = new AccountService();
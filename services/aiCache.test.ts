@@ -0,0 +1,43 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { aiCacheService } from './aiCache';
+
+// No IndexedDB under node: reads miss and writes are skipped, so only the in-flight sharing is exercised
+const deferred = <T>() => {
+    let resolve!: (value: T) => void;
+    const promise = new Promise<T>(r => { resolve = r; });
+    return { promise, resolve };
+};
+
+describe('aiCacheService.getOrCreate', () => {
+    beforeEach(() => { vi.spyOn(console, 'warn').mockImplementation(() => {}); });
+
+    it('shares one in-flight request between identical calls', async () => {
+        const answer = deferred<string>();
+        const run = vi.fn(() => answer.promise);
+        const first = aiCacheService.getOrCreate('k1', 'english', 1000, run);
+        const second = aiCacheService.getOrCreate('k1', 'english', 1000, run);
+        answer.resolve('A');
+        expect(await Promise.all([first, second])).toEqual(['A', 'A']);
+        expect(run).toHaveBeenCalledTimes(1);
+    });
+
+    it('runs a forced refresh instead of joining', async () => {
+        const stale = deferred<string>();
+        const first = aiCacheService.getOrCreate('k2', 'english', 1000, () => stale.promise);
+        const fresh = aiCacheService.getOrCreate('k2', 'english', 1000, async () => 'fresh', { forceRefresh: true });
+        expect(await fresh).toBe('fresh');
+        stale.resolve('stale');
+        expect(await first).toBe('stale');
+    });
+
+    it('lets a joiner abort without cancelling the shared request', async () => {
+        const answer = deferred<string>();
+        const first = aiCacheService.getOrCreate('k3', 'english', 1000, () => answer.promise);
+        const controller = new AbortController();
+        const joiner = aiCacheService.getOrCreate('k3', 'english', 1000, () => answer.promise, { signal: controller.signal });
+        controller.abort();
+        await expect(joiner).rejects.toMatchObject({ name: 'AbortError' });
+        answer.resolve('A');
+        expect(await first).toBe('A');
+    });
+});
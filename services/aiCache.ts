@@ -0,0 +1,175 @@
+import { AIFeature } from "./aiProviders";
+import { AIAbortError } from "./aiPipeline";
+
+// Content-addressed cache for AI answers, kept in IndexedDB so it survives reloads. Entries are
+// keyed by a hash of feature + provider + model + prompt, so a changed prompt or model is a miss.
+// Concurrent identical requests share one in-flight promise.
+
+export interface AICacheEntry<T = unknown> {
+    key: string;
+    feature: AIFeature;
+    value: T;
+    createdAt: number;
+    expiresAt: number;
+}
+
+export interface AICacheOptions {
+    forceRefresh?: boolean;   // Skip the cached answer and store the fresh one
+    signal?: AbortSignal;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// 0 = never cached (conversations and live audio are not repeatable; embeddings live in the RAG index)
+export const AI_CACHE_TTL: Record<AIFeature, number> = {
+    finance: 6 * HOUR_MS,
+    market: 1 * HOUR_MS,
+    chat: 0,
+    english: 30 * DAY_MS,
+    speaking: 7 * DAY_MS,
+    live: 0,
+    embedding: 0
+};
+
+const DB_NAME = 'dh_ai_cache';
+const DB_VERSION = 1;
+const STORE = 'entries';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const txDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+// Settles with `promise`, or rejects as soon as `signal` aborts (the promise itself keeps running)
+const untilAborted = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> => new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(new AIAbortError());
+    const onAbort = () => reject(new AIAbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+});
+
+// SHA-256 where WebCrypto is available (secure contexts); the raw key is still a valid IDB key otherwise
+const hashKey = async (raw: string): Promise<string> => {
+    if (typeof crypto === 'undefined' || !crypto.subtle) return raw;
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(raw));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+class AICacheService {
+    private dbPromise: Promise<IDBDatabase> | null = null;
+    private inFlight = new Map<string, Promise<unknown>>();
+    private pruned = false;
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+                if (typeof indexedDB === 'undefined') {
+                    reject(new Error("IndexedDB is not available"));
+                    return;
+                }
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    if (!db.objectStoreNames.contains(STORE)) {
+                        const store = db.createObjectStore(STORE, { keyPath: 'key' });
+                        store.createIndex('expiresAt', 'expiresAt');
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+            // Allow a retry after a failed open (e.g. private mode)
+            this.dbPromise.catch(() => { this.dbPromise = null; });
+        }
+        return this.dbPromise;
+    }
+
+    async key(feature: AIFeature, provider: string, model: string, prompt: string): Promise<string> {
+        return hashKey(JSON.stringify([feature, provider, model, prompt]));
+    }
+
+    async get<T>(key: string): Promise<T | null> {
+        const db = await this.open();
+        const entry = await promisify(db.transaction(STORE, 'readonly').objectStore(STORE).get(key)) as AICacheEntry<T> | undefined;
+        return entry && entry.expiresAt > Date.now() ? entry.value : null;
+    }
+
+    async set<T>(key: string, feature: AIFeature, value: T, ttlMs: number): Promise<void> {
+        const db = await this.open();
+        const tx = db.transaction(STORE, 'readwrite');
+        const store = tx.objectStore(STORE);
+        const now = Date.now();
+        store.put({ key, feature, value, createdAt: now, expiresAt: now + ttlMs } as AICacheEntry<T>);
+        // Expired entries are dropped once per session, on the first write
+        if (!this.pruned) {
+            store.index('expiresAt').openCursor(IDBKeyRange.upperBound(now)).onsuccess = (e) => {
+                const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+                if (cursor) { cursor.delete(); cursor.continue(); }
+            };
+            this.pruned = true;
+        }
+        await txDone(tx);
+    }
+
+    /**
+     * Cached answer for `key`, or the result of `run` (stored for `ttlMs`). Identical requests
+     * that arrive while one is running share its promise, unless they force a refresh. Storage
+     * errors never fail the call.
+     */
+    async getOrCreate<T>(key: string, feature: AIFeature, ttlMs: number, run: () => Promise<T>, options: AICacheOptions = {}): Promise<T> {
+        if (ttlMs <= 0) return run();
+
+        const pending = options.forceRefresh ? undefined : this.inFlight.get(key) as Promise<T> | undefined;
+        if (pending) {
+            // The caller that started the request may cancel it; the others then run their own
+            const joined = pending.catch(e => {
+                if (e?.name === 'AbortError' && !options.signal?.aborted) return this.getOrCreate(key, feature, ttlMs, run, options);
+                throw e;
+            });
+            // A joiner's own signal stops its wait, not the shared request
+            return options.signal ? untilAborted(joined, options.signal) : joined;
+        }
+
+        const promise = (async () => {
+            if (!options.forceRefresh) {
+                const hit = await this.get<T>(key).catch(e => {
+                    console.warn("AI cache read failed", e);
+                    return null;
+                });
+                if (hit !== null) return hit;
+            }
+            const value = await run();
+            await this.set(key, feature, value, ttlMs).catch(e => console.warn("AI cache write failed", e));
+            return value;
+        })();
+
+        this.inFlight.set(key, promise);
+        try {
+            return await promise;
+        } finally {
+            // A forced refresh may have replaced this entry meanwhile
+            if (this.inFlight.get(key) === promise) this.inFlight.delete(key);
+        }
+    }
+
+    async count(): Promise<number> {
+        const db = await this.open();
+        return promisify(db.transaction(STORE, 'readonly').objectStore(STORE).count());
+    }
+
+    async clear(): Promise<void> {
+        const db = await this.open();
+        const tx = db.transaction(STORE, 'readwrite');
+        tx.objectStore(STORE).clear();
+        await txDone(tx);
+    }
+}
+
+export const aiCacheService = new AICacheService();
@@ -0,0 +1,203 @@
+import { AIEmbedRequest, AIFeature, AIHttpError, AIJSONParseError, AIProvider, AIProviderId, AIRequest, AIStreamChunk } from "./aiProviders";
+
+// Request pipeline wrapped around every provider call: per-attempt timeouts, exponential
+// backoff on transient failures (network, 429, 5xx) and cancellation through AbortSignal.
+// Errors that survive the retries are turned into messages the pages can show as-is.
+
+export interface RetryPolicy {
+    retries: number;       // Extra attempts after the first one
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { retries: 3, baseDelayMs: 800, maxDelayMs: 10_000 };
+
+// Per-attempt limit. For streams this is the longest wait for the next chunk.
+export const AI_TIMEOUT_MS: Record<AIFeature, number> = {
+    finance: 60_000,
+    market: 120_000,       // Search grounding is slow
+    chat: 45_000,
+    english: 60_000,
+    speaking: 45_000,
+    live: 0,
+    embedding: 30_000
+};
+
+const RETRYABLE_STATUS = [408, 429, 500, 502, 503, 504];
+
+// Same name as the DOM error so fetch / SDK aborts and ours are recognised alike
+export class AIAbortError extends Error {
+    constructor() {
+        super("Đã dừng yêu cầu AI.");
+        this.name = 'AbortError';
+    }
+}
+
+export class AITimeoutError extends Error {
+    constructor(timeoutMs: number) {
+        super(`AI request timed out after ${Math.round(timeoutMs / 1000)}s`);
+        this.name = 'AITimeoutError';
+    }
+}
+
+export const isAbortError = (e: any): boolean => e?.name === 'AbortError';
+
+const statusOf = (e: any): number | undefined => typeof e?.status === 'number' ? e.status : undefined;
+
+export const isRetryableError = (e: any): boolean => {
+    if (e instanceof AITimeoutError) return true;
+    if (e instanceof AIJSONParseError || isAbortError(e)) return false;
+    const status = statusOf(e);
+    if (status !== undefined) return RETRYABLE_STATUS.includes(status);
+    // fetch() rejects with a TypeError when the network is down
+    return e instanceof TypeError || /network|fetch|ECONNRESET|socket/i.test(e?.message || '');
+};
+
+export const retryDelay = (attempt: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY, retryAfterMs?: number): number => {
+    if (retryAfterMs !== undefined) return Math.min(retryAfterMs, policy.maxDelayMs);
+    const backoff = policy.baseDelayMs * 2 ** attempt;
+    return Math.min(backoff + Math.random() * policy.baseDelayMs, policy.maxDelayMs);
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new AIAbortError());
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new AIAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// One attempt's signal: aborted by the caller's signal or by the (restartable) timeout
+const attemptController = (outer: AbortSignal | undefined, timeoutMs: number) => {
+    const controller = new AbortController();
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const onAbort = () => controller.abort();
+    outer?.addEventListener('abort', onAbort, { once: true });
+
+    const restart = () => {
+        if (timer) clearTimeout(timer);
+        if (timeoutMs > 0) timer = setTimeout(() => { timedOut = true; controller.abort(); }, timeoutMs);
+    };
+    restart();
+
+    return {
+        signal: controller.signal,
+        restart,
+        timedOut: () => timedOut,
+        dispose: () => {
+            if (timer) clearTimeout(timer);
+            outer?.removeEventListener('abort', onAbort);
+        }
+    };
+};
+
+// Pages alert() the message of whatever GeminiService throws, so the final error has to read well
+export const toUserFacingError = (e: any, label: string): Error => {
+    if (isAbortError(e)) return e instanceof AIAbortError ? e : new AIAbortError();
+    if (e instanceof AITimeoutError) return new Error(`${label} phản hồi quá lâu. Vui lòng thử lại.`);
+    const status = statusOf(e);
+    if (status === 429) return new Error(`${label} đang giới hạn tần suất yêu cầu. Vui lòng thử lại sau ít phút.`);
+    if (status !== undefined && status >= 500) return new Error(`${label} đang gặp sự cố (${status}). Vui lòng thử lại sau.`);
+    if (isRetryableError(e)) return new Error(`Không kết nối được tới ${label}. Kiểm tra mạng và thử lại.`);
+    return e;
+};
+
+/**
+ * Run `attempt` with a timeout per try, retrying transient failures with exponential backoff.
+ * Aborting `signal` stops the current try and any pending backoff with an AbortError.
+ */
+export async function withRetry<T>(
+    attempt: (signal: AbortSignal) => Promise<T>,
+    options: { signal?: AbortSignal; timeoutMs?: number; policy?: RetryPolicy } = {}
+): Promise<T> {
+    const policy = options.policy || DEFAULT_RETRY_POLICY;
+    const timeoutMs = options.timeoutMs || 0;
+
+    for (let i = 0; ; i++) {
+        if (options.signal?.aborted) throw new AIAbortError();
+        const ctl = attemptController(options.signal, timeoutMs);
+        let error: any;
+        try {
+            return await attempt(ctl.signal);
+        } catch (e) {
+            error = ctl.timedOut() ? new AITimeoutError(timeoutMs) : e;
+        } finally {
+            ctl.dispose();
+        }
+        if (options.signal?.aborted) throw new AIAbortError();
+        if (i >= policy.retries || !isRetryableError(error)) throw error;
+
+        console.warn(`AI request failed, retrying (${i + 1}/${policy.retries})`, error);
+        await sleep(retryDelay(i, policy, error instanceof AIHttpError ? error.retryAfterMs : undefined), options.signal);
+    }
+}
+
+// Decorates a provider with the pipeline; GeminiService only ever talks to this wrapper
+export class ResilientProvider implements AIProvider {
+    id: AIProviderId;
+    label: string;
+    supportsSearch: boolean;
+    supportsLive: boolean;
+
+    constructor(private inner: AIProvider, private policy: RetryPolicy = DEFAULT_RETRY_POLICY) {
+        this.id = inner.id;
+        this.label = inner.label;
+        this.supportsSearch = inner.supportsSearch;
+        this.supportsLive = inner.supportsLive;
+    }
+
+    private async run<R extends AIRequest | AIEmbedRequest, T>(request: R, call: (request: R) => Promise<T>): Promise<T> {
+        try {
+            return await withRetry(signal => call({ ...request, signal }), { signal: request.signal, timeoutMs: request.timeoutMs, policy: this.policy });
+        } catch (e) {
+            throw toUserFacingError(e, this.label);
+        }
+    }
+
+    generateText(request: AIRequest): Promise<string> {
+        return this.run(request, r => this.inner.generateText(r));
+    }
+
+    generateJSON<T = any>(request: AIRequest): Promise<T> {
+        return this.run(request, r => this.inner.generateJSON<T>(r));
+    }
+
+    embed(request: AIEmbedRequest): Promise<number[][]> {
+        return this.run(request, r => this.inner.embed(r));
+    }
+
+    // Retried only until the first chunk arrives; after that a failure ends the stream
+    async *stream(request: AIRequest): AsyncGenerator<AIStreamChunk> {
+        const timeoutMs = request.timeoutMs || 0;
+        let started = false;
+
+        for (let i = 0; ; i++) {
+            if (request.signal?.aborted) throw new AIAbortError();
+            const ctl = attemptController(request.signal, timeoutMs);
+            let error: any;
+            try {
+                for await (const chunk of this.inner.stream({ ...request, signal: ctl.signal })) {
+                    started = true;
+                    ctl.restart();
+                    yield chunk;
+                }
+                return;
+            } catch (e) {
+                error = ctl.timedOut() ? new AITimeoutError(timeoutMs) : e;
+            } finally {
+                ctl.dispose();
+            }
+            if (request.signal?.aborted) throw new AIAbortError();
+            if (started || i >= this.policy.retries || !isRetryableError(error)) throw toUserFacingError(error, this.label);
+
+            console.warn(`AI stream failed, retrying (${i + 1}/${this.policy.retries})`, error);
+            await sleep(retryDelay(i, this.policy, error instanceof AIHttpError ? error.retryAfterMs : undefined), request.signal);
+        }
+    }
+}
@@ -0,0 +1,527 @@
+import { GoogleGenAI, Content, Part, GenerateContentResponseUsageMetadata } from "@google/genai";
+
+// Provider-agnostic AI layer. GeminiService (gemini.ts) builds the prompts and picks a model per
+// feature; adapters here only know how to talk to one backend.
+
+export type AIProviderId = 'gemini' | 'openai' | 'local';
+
+// Features that can run on their own model (Settings > Giao diện & AI)
+export type AIFeature = 'finance' | 'market' | 'chat' | 'english' | 'speaking' | 'live' | 'embedding';
+
+export const AI_FEATURES: { id: AIFeature; label: string; description: string }[] = [
+    { id: 'finance', label: 'Phân tích tài chính', description: 'Sức khỏe tài chính, lập kế hoạch' },
+    { id: 'market', label: 'Thị trường & tìm kiếm', description: 'Phân tích đầu tư, tra cứu tin tức' },
+    { id: 'chat', label: 'Trò chuyện Nana', description: 'Chat widget, trợ lý, hỏi đáp' },
+    { id: 'english', label: 'Học tiếng Anh', description: 'Từ vựng, ngữ pháp, viết, đọc' },
+    { id: 'speaking', label: 'Luyện nói', description: 'Gợi ý trả lời, bài nói mẫu' },
+    { id: 'live', label: 'Live Voice', description: 'Đàm thoại thời gian thực (chỉ Gemini)' },
+    { id: 'embedding', label: 'Chỉ mục tài liệu', description: 'Embedding cho Nana tìm trong bài học, ghi chú, từ vựng' }
+];
+
+export const AI_PROVIDERS: { id: AIProviderId; label: string; needsKey: boolean }[] = [
+    { id: 'gemini', label: 'Google Gemini', needsKey: true },
+    { id: 'openai', label: 'OpenAI', needsKey: true },
+    { id: 'local', label: 'Local (Ollama / LM Studio)', needsKey: false }
+];
+
+export const DEFAULT_MODELS: Record<AIProviderId, Record<AIFeature, string>> = {
+    gemini: {
+        finance: 'gemini-2.5-flash', market: 'gemini-2.5-flash', chat: 'gemini-2.5-flash',
+        english: 'gemini-2.5-flash', speaking: 'gemini-2.5-flash', live: 'gemini-2.5-flash-native-audio-preview-09-2025',
+        embedding: 'gemini-embedding-001'
+    },
+    openai: {
+        finance: 'gpt-4o-mini', market: 'gpt-4o-mini', chat: 'gpt-4o-mini',
+        english: 'gpt-4o-mini', speaking: 'gpt-4o-mini', live: '', embedding: 'text-embedding-3-small'
+    },
+    local: {
+        finance: 'llama3.1', market: 'llama3.1', chat: 'llama3.1',
+        english: 'llama3.1', speaking: 'llama3.1', live: '', embedding: 'nomic-embed-text'
+    }
+};
+
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1'; // Ollama; LM Studio uses http://localhost:1234/v1
+
+export interface AISettings {
+    provider: AIProviderId;
+    localBaseUrl: string;
+    // Per-provider overrides; missing entries fall back to DEFAULT_MODELS
+    models: Partial<Record<AIProviderId, Partial<Record<AIFeature, string>>>>;
+}
+
+// JSON Schema subset understood by both Gemini function declarations and OpenAI tools
+export interface AIToolParameter {
+    type: 'string' | 'number' | 'integer' | 'boolean';
+    description?: string;
+    enum?: string[];
+}
+
+export interface AIToolDeclaration {
+    name: string;
+    description: string;
+    parameters: { type: 'object'; properties: Record<string, AIToolParameter>; required?: string[] };
+}
+
+export interface AIToolCall {
+    id: string;
+    name: string;
+    args: Record<string, any>;
+    signature?: string;    // Gemini thought signature, sent back with the call in later turns
+}
+
+export interface AIToolResult {
+    id: string;
+    name: string;
+    result?: unknown;
+    error?: string;
+}
+
+// 'tool' messages carry the results for the tool calls of the model message before them
+export interface AIMessage {
+    role: 'user' | 'model' | 'tool';
+    text: string;
+    toolCalls?: AIToolCall[];
+    toolResults?: AIToolResult[];
+}
+
+export interface AIUsage {
+    inputTokens: number;
+    outputTokens: number;
+    estimated: boolean;    // Backend did not report usage; counted from text length
+}
+
+export interface AIRequest {
+    model: string;
+    prompt: string;        // Empty when the turn only answers tool calls (last history message is 'tool')
+    system?: string;
+    history?: AIMessage[];
+    temperature?: number;
+    useSearch?: boolean;   // Ignored by providers without search grounding
+    tools?: AIToolDeclaration[];
+    audio?: { data: string; mimeType: string };  // Base64 clip sent with the prompt; only Gemini listens to it
+    onUsage?: (usage: AIUsage) => void;  // Called once per request, after the response is complete
+    signal?: AbortSignal;
+    timeoutMs?: number;    // Per attempt; enforced by ResilientProvider (aiPipeline.ts)
+}
+
+// Documents are embedded for storage, queries for search; Gemini tunes the vectors for each side
+export interface AIEmbedRequest {
+    model: string;
+    texts: string[];
+    task: 'document' | 'query';
+    dimensions?: number;   // Shorter vectors where the model supports it (Gemini, OpenAI text-embedding-3)
+    onUsage?: (usage: AIUsage) => void;
+    signal?: AbortSignal;
+    timeoutMs?: number;
+}
+
+export interface AISource {
+    title: string;
+    uri: string;
+}
+
+export interface AIStreamChunk {
+    text: string;
+    sources?: AISource[];
+    toolCalls?: AIToolCall[];
+}
+
+export interface AIProvider {
+    id: AIProviderId;
+    label: string;
+    supportsSearch: boolean;
+    supportsLive: boolean;
+    generateText(request: AIRequest): Promise<string>;
+    // Parsed JSON object; prompts should ask for an object (OpenAI json mode cannot return a bare array)
+    generateJSON<T = any>(request: AIRequest): Promise<T>;
+    stream(request: AIRequest): AsyncGenerator<AIStreamChunk>;
+    // One vector per input text, in order
+    embed(request: AIEmbedRequest): Promise<number[][]>;
+}
+
+const SETTINGS_KEY = 'dh_ai_settings';
+const JSON_SYSTEM_INSTRUCTION = "You are a helpful assistant. You must output strictly valid JSON.";
+
+// Rough count (~4 characters per token) for backends that do not report usage
+export const estimateTokens = (text: string): number => Math.ceil((text || '').length / 4);
+
+const requestText = (request: AIRequest) =>
+    [request.system || '', ...(request.history || []).map(m => m.text + (m.toolResults ? JSON.stringify(m.toolResults) : '')), request.prompt].join('\n');
+
+let toolCallSeq = 0;
+const newToolCallId = () => `call_${Date.now().toString(36)}_${++toolCallSeq}`;
+
+const reportUsage = (request: AIRequest, output: string, input?: number, outputTokens?: number) => {
+    if (!request.onUsage) return;
+    const reported = input !== undefined && outputTokens !== undefined;
+    request.onUsage({
+        inputTokens: reported ? input! : estimateTokens(requestText(request)),
+        outputTokens: reported ? outputTokens! : estimateTokens(output),
+        estimated: !reported
+    });
+};
+
+// Non-2xx answer from an HTTP backend; `retryAfterMs` comes from the Retry-After header
+export class AIHttpError extends Error {
+    constructor(public status: number, message: string, public retryAfterMs?: number) {
+        super(message);
+        this.name = 'AIHttpError';
+    }
+}
+
+// Carries the raw model output so callers can send it back in a repair prompt
+export class AIJSONParseError extends Error {
+    constructor(public raw: string, message: string) {
+        super(message);
+        this.name = 'AIJSONParseError';
+    }
+}
+
+export const parseJSONText = <T = any>(text: string): T => {
+    const cleaned = (text || '{}').replace(/```json|```/g, '').trim();
+    try {
+        return JSON.parse(cleaned);
+    } catch (e) {
+        // Prose around the JSON: retry on the outermost object
+        const start = cleaned.indexOf('{');
+        const end = cleaned.lastIndexOf('}');
+        if (start !== -1 && end > start) {
+            try { return JSON.parse(cleaned.slice(start, end + 1)); } catch (inner) { }
+        }
+        throw new AIJSONParseError(text, `Invalid JSON: ${(e as Error).message}`);
+    }
+};
+
+// --- Google Gemini ---
+
+export class GeminiProvider implements AIProvider {
+    id: AIProviderId = 'gemini';
+    label = 'Google Gemini';
+    supportsSearch = true;
+    supportsLive = true;
+    readonly client: GoogleGenAI;
+
+    constructor(apiKey: string) {
+        this.client = new GoogleGenAI({ apiKey });
+    }
+
+    private contents(request: AIRequest): Content[] {
+        const contents: Content[] = (request.history || []).map(m => {
+            if (m.role === 'tool') {
+                return {
+                    role: 'user',
+                    parts: (m.toolResults || []).map(r => ({
+                        functionResponse: { name: r.name, response: r.error !== undefined ? { error: r.error } : { output: r.result } }
+                    }))
+                };
+            }
+            const parts: Part[] = m.text ? [{ text: m.text }] : [];
+            (m.toolCalls || []).forEach(c => parts.push({ functionCall: { name: c.name, args: c.args }, ...(c.signature ? { thoughtSignature: c.signature } : {}) }));
+            return { role: m.role, parts };
+        });
+        if (request.prompt) {
+            const parts: Part[] = [{ text: request.prompt }];
+            if (request.audio) parts.push({ inlineData: { data: request.audio.data, mimeType: request.audio.mimeType } });
+            contents.push({ role: 'user', parts });
+        }
+        return contents;
+    }
+
+    // Gemini cannot combine Google Search grounding with function declarations; tools win
+    private tools(request: AIRequest) {
+        if (request.tools?.length) {
+            return [{ functionDeclarations: request.tools.map(t => ({ name: t.name, description: t.description, parametersJsonSchema: t.parameters })) }];
+        }
+        return request.useSearch ? [{ googleSearch: {} }] : undefined;
+    }
+
+    async generateText(request: AIRequest): Promise<string> {
+        const response = await this.client.models.generateContent({
+            model: request.model,
+            contents: this.contents(request),
+            config: {
+                systemInstruction: request.system,
+                temperature: request.temperature,
+                tools: this.tools(request),
+                abortSignal: request.signal
+            }
+        });
+        this.report(request, response.text || '', response.usageMetadata);
+        return response.text || '';
+    }
+
+    async generateJSON<T = any>(request: AIRequest): Promise<T> {
+        const response = await this.client.models.generateContent({
+            model: request.model,
+            contents: this.contents(request),
+            config: {
+                systemInstruction: request.system,
+                temperature: request.temperature,
+                responseMimeType: 'application/json',
+                abortSignal: request.signal
+            }
+        });
+        this.report(request, response.text || '', response.usageMetadata);
+        return parseJSONText<T>(response.text || '{}');
+    }
+
+    async *stream(request: AIRequest): AsyncGenerator<AIStreamChunk> {
+        const result = await this.client.models.generateContentStream({
+            model: request.model,
+            contents: this.contents(request),
+            config: {
+                systemInstruction: request.system,
+                temperature: request.temperature,
+                tools: this.tools(request),
+                abortSignal: request.signal
+            }
+        });
+        let output = '';
+        let usage: GenerateContentResponseUsageMetadata | undefined;
+        for await (const chunk of result) {
+            const sources = (chunk.candidates?.[0]?.groundingMetadata?.groundingChunks || [])
+                .filter(c => c.web?.uri && c.web?.title)
+                .map(c => ({ title: c.web!.title!, uri: c.web!.uri! }));
+            const toolCalls: AIToolCall[] = (chunk.candidates?.[0]?.content?.parts || [])
+                .filter(p => p.functionCall?.name)
+                .map(p => ({
+                    id: p.functionCall!.id || newToolCallId(),
+                    name: p.functionCall!.name!,
+                    args: p.functionCall!.args || {},
+                    ...(p.thoughtSignature ? { signature: p.thoughtSignature } : {})
+                }));
+            const text = (chunk.candidates?.[0]?.content?.parts || []).filter(p => p.text && !p.thought).map(p => p.text).join('');
+            output += text;
+            if (chunk.usageMetadata) usage = chunk.usageMetadata;
+            yield { text, ...(sources.length ? { sources } : {}), ...(toolCalls.length ? { toolCalls } : {}) };
+        }
+        this.report(request, output, usage);
+    }
+
+    // Thinking tokens are billed as output
+    private report(request: AIRequest, output: string, usage?: GenerateContentResponseUsageMetadata) {
+        reportUsage(request, output, usage?.promptTokenCount,
+            usage?.candidatesTokenCount !== undefined ? usage.candidatesTokenCount + (usage.thoughtsTokenCount || 0) : undefined);
+    }
+
+    // The Gemini API does not report token usage for embeddings
+    async embed(request: AIEmbedRequest): Promise<number[][]> {
+        const response = await this.client.models.embedContent({
+            model: request.model,
+            contents: request.texts,
+            config: {
+                taskType: request.task === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT',
+                outputDimensionality: request.dimensions,
+                abortSignal: request.signal
+            }
+        });
+        request.onUsage?.({ inputTokens: estimateTokens(request.texts.join('\n')), outputTokens: 0, estimated: true });
+        return (response.embeddings || []).map(e => e.values || []);
+    }
+}
+
+// --- OpenAI and OpenAI-compatible endpoints (Ollama, LM Studio...) ---
+
+export class OpenAICompatibleProvider implements AIProvider {
+    supportsSearch = false;
+    supportsLive = false;
+
+    constructor(
+        public id: AIProviderId,
+        public label: string,
+        private baseUrl: string,
+        private apiKey: string,
+        private supportsJsonMode: boolean = true  // LM Studio rejects response_format json_object
+    ) { }
+
+    private messages(request: AIRequest, jsonMode: boolean) {
+        const system = request.system || (jsonMode ? JSON_SYSTEM_INSTRUCTION : undefined);
+        const messages: Record<string, any>[] = [];
+        if (system) messages.push({ role: 'system', content: system });
+        (request.history || []).forEach(m => {
+            if (m.role === 'tool') {
+                (m.toolResults || []).forEach(r => messages.push({
+                    role: 'tool',
+                    tool_call_id: r.id,
+                    content: JSON.stringify(r.error !== undefined ? { error: r.error } : r.result ?? null)
+                }));
+            } else if (m.role === 'model' && m.toolCalls?.length) {
+                messages.push({
+                    role: 'assistant',
+                    content: m.text || null,
+                    tool_calls: m.toolCalls.map(c => ({ id: c.id, type: 'function', function: { name: c.name, arguments: JSON.stringify(c.args) } }))
+                });
+            } else {
+                messages.push({ role: m.role === 'model' ? 'assistant' : 'user', content: m.text });
+            }
+        });
+        if (request.prompt) messages.push({ role: 'user', content: request.prompt });
+        return messages;
+    }
+
+    private tools(request: AIRequest) {
+        return request.tools?.length
+            ? request.tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.parameters } }))
+            : undefined;
+    }
+
+    private async post(body: object, signal?: AbortSignal, path: string = '/chat/completions'): Promise<Response> {
+        const headers: Record<string, string> = { "Content-Type": "application/json" };
+        if (this.apiKey) headers["Authorization"] = `Bearer ${this.apiKey}`;
+
+        const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}${path}`, {
+            method: "POST",
+            headers,
+            body: JSON.stringify(body),
+            signal
+        });
+        if (!response.ok) {
+            const err = await response.json().catch(() => ({}));
+            const retryAfter = Number(response.headers.get('retry-after'));
+            throw new AIHttpError(response.status, err.error?.message || `${this.label} API Error (${response.status})`,
+                Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined);
+        }
+        return response;
+    }
+
+    async generateText(request: AIRequest): Promise<string> {
+        const response = await this.post({
+            model: request.model,
+            messages: this.messages(request, false),
+            temperature: request.temperature
+        }, request.signal);
+        const data = await response.json();
+        const text = data.choices?.[0]?.message?.content || '';
+        reportUsage(request, text, data.usage?.prompt_tokens, data.usage?.completion_tokens);
+        return text;
+    }
+
+    async generateJSON<T = any>(request: AIRequest): Promise<T> {
+        const response = await this.post({
+            model: request.model,
+            messages: this.messages(request, true),
+            temperature: request.temperature,
+            response_format: this.supportsJsonMode ? { type: "json_object" } : undefined
+        }, request.signal);
+        const data = await response.json();
+        const text = data.choices?.[0]?.message?.content || '{}';
+        reportUsage(request, text, data.usage?.prompt_tokens, data.usage?.completion_tokens);
+        return parseJSONText<T>(text);
+    }
+
+    async *stream(request: AIRequest): AsyncGenerator<AIStreamChunk> {
+        const response = await this.post({
+            model: request.model,
+            messages: this.messages(request, false),
+            temperature: request.temperature,
+            tools: this.tools(request),
+            stream: true,
+            // Final chunk carries token usage (OpenAI); local servers may not support it
+            stream_options: this.id === 'openai' ? { include_usage: true } : undefined
+        }, request.signal);
+
+        if (!response.body) throw new Error(`No response body from ${this.label}`);
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        let output = '';
+        let usage: { prompt_tokens?: number; completion_tokens?: number } | undefined;
+        // Tool calls arrive as fragments keyed by index; arguments are a JSON string split across chunks
+        const calls: { id?: string; name: string; args: string }[] = [];
+
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+
+            for (const line of lines) {
+                if (!line.trim().startsWith('data: ')) continue;
+                const jsonStr = line.trim().slice(6);
+                if (jsonStr === '[DONE]') continue;
+                let content = '';
+                try {
+                    const json = JSON.parse(jsonStr);
+                    if (json.usage) usage = json.usage;
+                    content = json.choices?.[0]?.delta?.content || '';
+                    (json.choices?.[0]?.delta?.tool_calls || []).forEach((d: any) => {
+                        const call = calls[d.index ?? 0] || (calls[d.index ?? 0] = { name: '', args: '' });
+                        if (d.id) call.id = d.id;
+                        if (d.function?.name) call.name += d.function.name;
+                        if (d.function?.arguments) call.args += d.function.arguments;
+                    });
+                } catch (e) { }
+                if (content) {
+                    output += content;
+                    yield { text: content };
+                }
+            }
+        }
+        const toolCalls: AIToolCall[] = calls.filter(c => c && c.name).map(c => {
+            let args: Record<string, any> = {};
+            try { args = c.args ? JSON.parse(c.args) : {}; } catch (e) { console.warn(`Invalid tool arguments for ${c.name}`, c.args); }
+            return { id: c.id || newToolCallId(), name: c.name, args };
+        });
+        if (toolCalls.length) yield { text: '', toolCalls };
+        reportUsage(request, output, usage?.prompt_tokens, usage?.completion_tokens);
+    }
+
+    async embed(request: AIEmbedRequest): Promise<number[][]> {
+        const response = await this.post({
+            model: request.model,
+            input: request.texts,
+            // Local servers reject unknown parameters
+            dimensions: this.id === 'openai' ? request.dimensions : undefined
+        }, request.signal, '/embeddings');
+        const data = await response.json();
+        const tokens = data.usage?.prompt_tokens;
+        request.onUsage?.({
+            inputTokens: tokens ?? estimateTokens(request.texts.join('\n')),
+            outputTokens: 0,
+            estimated: tokens === undefined
+        });
+        return [...(data.data || [])].sort((a: any, b: any) => a.index - b.index).map((d: any) => d.embedding || []);
+    }
+}
+
+// --- Settings ---
+
+export const loadAISettings = (): AISettings | null => {
+    if (typeof window === 'undefined') return null;
+    try {
+        const saved = localStorage.getItem(SETTINGS_KEY);
+        return saved ? { localBaseUrl: DEFAULT_LOCAL_BASE_URL, models: {}, ...JSON.parse(saved) } : null;
+    } catch (e) {
+        console.warn("Invalid AI settings, using defaults", e);
+        return null;
+    }
+};
+
+export const saveAISettings = (settings: AISettings) => {
+    if (typeof window !== 'undefined') localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Only used until a provider has been chosen in Settings: keys from before the provider
+// setting existed are either OpenAI (sk-...) or Gemini.
+export const defaultAISettings = (apiKey: string): AISettings => ({
+    provider: apiKey.startsWith('sk-') ? 'openai' : 'gemini',
+    localBaseUrl: DEFAULT_LOCAL_BASE_URL,
+    models: {}
+});
+
+export const modelFor = (settings: AISettings, feature: AIFeature): string =>
+    settings.models[settings.provider]?.[feature]?.trim() || DEFAULT_MODELS[settings.provider][feature];
+
+// Null when the provider needs a key and there is none
+export const createAIProvider = (settings: AISettings, apiKey: string): AIProvider | null => {
+    switch (settings.provider) {
+        case 'local':
+            // Never send the cloud key to a local server
+            return new OpenAICompatibleProvider('local', 'Local', settings.localBaseUrl || DEFAULT_LOCAL_BASE_URL, '', false);
+        case 'openai':
+            return apiKey ? new OpenAICompatibleProvider('openai', 'OpenAI', 'https://api.openai.com/v1', apiKey) : null;
+        default:
+            return apiKey ? new GeminiProvider(apiKey) : null;
+    }
+};
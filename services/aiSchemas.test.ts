@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { s, SchemaError, grammarQuizSchema, readingPassageSchema, vocabListSchema } from './aiSchemas';
+import { parseJSONText, AIJSONParseError } from './aiProviders';
+
+const errorOf = (run: () => unknown) => {
+    try {
+        run();
+    } catch (e) {
+        return e;
+    }
+    throw new Error('expected a SchemaError');
+};
+
+describe('schema coercion', () => {
+    it('accepts numbers and booleans sent as strings', () => {
+        expect(s.number().parse('42.5')).toBe(42.5);
+        expect(s.string().parse(7)).toBe('7');
+        expect(s.boolean().parse('false')).toBe(false);
+    });
+
+    it('fills in optional fields and splits comma lists', () => {
+        expect(readingPassageSchema.parse({ title: 'Tea', content: 'Tea is...', keywords: 'tea, leaf ,  cup' }))
+            .toEqual({ title: 'Tea', content: 'Tea is...', summary: '', keywords: ['tea', 'leaf', 'cup'] });
+    });
+
+    it('drops keys that are not in the schema', () => {
+        expect(s.object({ a: s.number() }).parse({ a: 1, b: 2 })).toEqual({ a: 1 });
+    });
+});
+
+describe('schema errors', () => {
+    it('name the offending path for the repair prompt', () => {
+        const e = errorOf(() => grammarQuizSchema.parse([{ question: 'Q1', options: ['a', 'b'] }, { question: 'Q2', options: 'a' }], 'questions'));
+        expect(e).toBeInstanceOf(SchemaError);
+        expect((e as SchemaError).message).toBe('questions[1].options: expected array, got string');
+    });
+
+    it('enforce ranges and minimum lengths', () => {
+        expect((errorOf(() => s.number({ min: 0, max: 100 }).parse(120)) as Error).message).toBe('root: must be <= 100');
+        expect((errorOf(() => vocabListSchema.parse([])) as Error).message).toBe('root: expected at least 1 items, got 0');
+    });
+
+    it('reject present but invalid optional values', () => {
+        expect(() => s.optional(s.number(), 0).parse('abc')).toThrow(SchemaError);
+        expect(s.optional(s.number(), 0).parse(null)).toBe(0);
+    });
+});
+
+describe('parseJSONText', () => {
+    it('strips code fences and prose around the object', () => {
+        expect(parseJSONText('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+        expect(parseJSONText('Sure! Here it is: {"a": {"b": 2}} Hope this helps.')).toEqual({ a: { b: 2 } });
+    });
+
+    it('keeps the raw text of unparseable output for the repair prompt', () => {
+        const e = errorOf(() => parseJSONText('{"a": 1,'));
+        expect(e).toBeInstanceOf(AIJSONParseError);
+        expect((e as AIJSONParseError).raw).toBe('{"a": 1,');
+    });
+});
@@ -0,0 +1,258 @@
+// Runtime schemas for structured AI responses. Models drift (numbers as strings, a missing
+// array, prose around the JSON), so every schema coerces what it safely can and throws a
+// SchemaError with the offending path otherwise; GeminiService uses that message in a repair prompt.
+
+export class SchemaError extends Error {
+    constructor(public path: string, message: string) {
+        super(`${path || 'root'}: ${message}`);
+        this.name = 'SchemaError';
+    }
+}
+
+export interface Schema<T> {
+    parse(value: unknown, path?: string): T;
+}
+
+const describe = (value: unknown) => Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+
+export const s = {
+    string(): Schema<string> {
+        return {
+            parse(value, path = '') {
+                if (typeof value === 'string') return value;
+                if (typeof value === 'number') return String(value);
+                throw new SchemaError(path, `expected string, got ${describe(value)}`);
+            }
+        };
+    },
+
+    number(range: { min?: number; max?: number } = {}): Schema<number> {
+        return {
+            parse(value, path = '') {
+                const n = typeof value === 'string' ? parseFloat(value) : value;
+                if (typeof n !== 'number' || isNaN(n)) throw new SchemaError(path, `expected number, got ${describe(value)}`);
+                if (range.min !== undefined && n < range.min) throw new SchemaError(path, `must be >= ${range.min}`);
+                if (range.max !== undefined && n > range.max) throw new SchemaError(path, `must be <= ${range.max}`);
+                return n;
+            }
+        };
+    },
+
+    oneOf<T extends string>(values: readonly T[]): Schema<T> {
+        return {
+            parse(value, path = '') {
+                const match = values.find(v => typeof value === 'string' && v.toLowerCase() === value.trim().toLowerCase());
+                if (!match) throw new SchemaError(path, `expected one of ${values.join(', ')}, got ${JSON.stringify(value)}`);
+                return match;
+            }
+        };
+    },
+
+    boolean(): Schema<boolean> {
+        return {
+            parse(value, path = '') {
+                if (typeof value === 'boolean') return value;
+                if (value === 'true' || value === 'false') return value === 'true';
+                throw new SchemaError(path, `expected boolean, got ${describe(value)}`);
+            }
+        };
+    },
+
+    array<T>(item: Schema<T>, options: { min?: number; splitString?: boolean } = {}): Schema<T[]> {
+        return {
+            parse(value, path = '') {
+                // "a, b, c" for a list of strings
+                const list = options.splitString && typeof value === 'string' ? value.split(',').map(v => v.trim()).filter(Boolean) : value;
+                if (!Array.isArray(list)) throw new SchemaError(path, `expected array, got ${describe(value)}`);
+                if (options.min !== undefined && list.length < options.min) throw new SchemaError(path, `expected at least ${options.min} items, got ${list.length}`);
+                return list.map((v, i) => item.parse(v, `${path}[${i}]`));
+            }
+        };
+    },
+
+    object<T>(shape: { [K in keyof T]: Schema<T[K]> }): Schema<T> {
+        return {
+            parse(value, path = '') {
+                if (!value || typeof value !== 'object' || Array.isArray(value)) throw new SchemaError(path, `expected object, got ${describe(value)}`);
+                const result = {} as T;
+                (Object.keys(shape) as (keyof T)[]).forEach(key => {
+                    result[key] = shape[key]!.parse((value as any)[key], path ? `${path}.${String(key)}` : String(key));
+                });
+                return result;
+            }
+        };
+    },
+
+    // Missing (undefined/null) values become `fallback`; present values must still be valid.
+    // `fallback` may be a factory, for defaults computed at parse time (e.g. today's date)
+    optional<T, F extends T | undefined>(schema: Schema<T>, fallback: F | (() => F)): Schema<T | F> {
+        return {
+            parse(value, path = '') {
+                if (value === undefined || value === null) return typeof fallback === 'function' ? (fallback as () => F)() : fallback;
+                return schema.parse(value, path);
+            }
+        };
+    }
+};
+
+// --- English module responses ---
+
+export interface VocabSuggestion {
+    term: string;
+    ipa: string;
+    partOfSpeech: string;
+    meaning: string;
+    definition: string;
+    example: string;
+}
+
+export interface GrammarQuestion {
+    id: number;
+    question: string;
+    options: string[];
+    correctAnswer?: string; // Hidden in real app until graded, but used for mock logic if needed
+    explanation?: string;   // Why the answer is right, shown after local grading
+    topic?: string;         // Grammar topic, for quizzes mixing several
+}
+
+export interface GrammarGrading {
+    score: number;
+    results: {
+        id: number;
+        isCorrect: boolean;
+        explanation: string;
+    }[];
+}
+
+export const WRITING_ERROR_CATEGORIES = ['articles', 'tense', 'collocation', 'agreement', 'preposition', 'word-choice', 'word-order', 'spelling', 'punctuation', 'other'] as const;
+export type WritingErrorCategory = typeof WRITING_ERROR_CATEGORIES[number];
+
+export interface EssayGrading {
+    score: number;
+    generalFeedback: string;
+    corrections: { original: string; correction: string; explanation: string; category: WritingErrorCategory }[];
+    sampleEssay: string;
+    betterVocab: { word: string; meaning: string; context: string }[];
+}
+
+export interface ReadingPassage {
+    title: string;
+    content: string;
+    summary: string;
+    keywords: string[];
+}
+
+export interface PronunciationAssessment {
+    pronunciation: number;
+    fluency: number;
+    words: { word: string; score: number; heardIpa: string; expectedIpa: string }[];
+}
+
+export interface ListeningExercise {
+    title: string;
+    kind: 'dialogue' | 'monologue';
+    lines: { speaker: string; text: string }[];   // One sentence or short turn per line
+    questions: GrammarQuestion[];
+}
+
+export interface SpeakingAnswerGrading {
+    transcript: string;
+    score: number;          // 0-100
+    feedback: string;
+}
+
+export interface DictionaryEntry {
+    word: string;
+    ipa: string;
+    type: string;
+    meaning_vi: string;
+    definition_en: string;
+    example: string;
+}
+
+export const vocabListSchema: Schema<VocabSuggestion[]> = s.array(s.object<VocabSuggestion>({
+    term: s.string(),
+    ipa: s.optional(s.string(), ''),
+    partOfSpeech: s.optional(s.string(), ''),
+    meaning: s.string(),
+    definition: s.optional(s.string(), ''),
+    example: s.optional(s.string(), '')
+}), { min: 1 });
+
+export const grammarQuizSchema: Schema<GrammarQuestion[]> = s.array(s.object<GrammarQuestion>({
+    id: s.optional(s.number(), 0),
+    question: s.string(),
+    options: s.array(s.string(), { min: 2 }),
+    correctAnswer: s.optional(s.string(), undefined),
+    explanation: s.optional(s.string(), undefined),
+    topic: s.optional(s.string(), undefined)
+}), { min: 1 });
+
+export const grammarGradingSchema: Schema<GrammarGrading> = s.object<GrammarGrading>({
+    score: s.number({ min: 0 }),
+    results: s.array(s.object<GrammarGrading['results'][number]>({
+        id: s.number(),
+        isCorrect: s.boolean(),
+        explanation: s.optional(s.string(), '')
+    }))
+});
+
+export const essayGradingSchema: Schema<EssayGrading> = s.object<EssayGrading>({
+    score: s.number({ min: 0, max: 100 }),   // Out of 100, as the grading prompt asks
+    generalFeedback: s.string(),
+    corrections: s.optional(s.array(s.object<EssayGrading['corrections'][number]>({
+        original: s.string(),
+        correction: s.string(),
+        explanation: s.optional(s.string(), ''),
+        category: s.optional(s.oneOf(WRITING_ERROR_CATEGORIES), 'other')
+    })), []),
+    sampleEssay: s.optional(s.string(), ''),
+    betterVocab: s.optional(s.array(s.object<EssayGrading['betterVocab'][number]>({
+        word: s.string(),
+        meaning: s.optional(s.string(), ''),
+        context: s.optional(s.string(), '')
+    })), [])
+});
+
+export const readingPassageSchema: Schema<ReadingPassage> = s.object<ReadingPassage>({
+    title: s.string(),
+    content: s.string(),
+    summary: s.optional(s.string(), ''),
+    keywords: s.optional(s.array(s.string(), { splitString: true }), [])
+});
+
+export const dictionaryEntrySchema: Schema<DictionaryEntry> = s.object<DictionaryEntry>({
+    word: s.string(),
+    ipa: s.optional(s.string(), ''),
+    type: s.optional(s.string(), ''),
+    meaning_vi: s.string(),
+    definition_en: s.optional(s.string(), ''),
+    example: s.optional(s.string(), '')
+});
+
+export const pronunciationAssessmentSchema: Schema<PronunciationAssessment> = s.object<PronunciationAssessment>({
+    pronunciation: s.number({ min: 0, max: 100 }),
+    fluency: s.number({ min: 0, max: 100 }),
+    words: s.optional(s.array(s.object<PronunciationAssessment['words'][number]>({
+        word: s.string(),
+        score: s.number({ min: 0, max: 100 }),
+        heardIpa: s.optional(s.string(), ''),
+        expectedIpa: s.optional(s.string(), '')
+    })), [])
+});
+
+export const speakingAnswerGradingSchema: Schema<SpeakingAnswerGrading> = s.object<SpeakingAnswerGrading>({
+    transcript: s.optional(s.string(), ''),
+    score: s.number({ min: 0, max: 100 }),
+    feedback: s.optional(s.string(), '')
+});
+
+export const listeningExerciseSchema: Schema<ListeningExercise> = s.object<ListeningExercise>({
+    title: s.string(),
+    kind: s.optional(s.oneOf(['dialogue', 'monologue'] as const), 'dialogue'),
+    lines: s.array(s.object<ListeningExercise['lines'][number]>({
+        speaker: s.optional(s.string(), 'Narrator'),
+        text: s.string()
+    }), { min: 1 }),
+    questions: grammarQuizSchema
+});
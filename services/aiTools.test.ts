@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const fetchTransactionsInRange = vi.fn();
+vi.mock('./firebase', () => ({ firebaseService: {} }));
+vi.mock('./financial', () => ({ financialService: { fetchTransactionsInRange: (...args: unknown[]) => fetchTransactionsInRange(...args) } }));
+vi.mock('./vocab', () => ({ vocabService: {} }));
+
+import { getAITool, runAITool, AIToolContext } from './aiTools';
+import { toDateKey } from './recurring';
+
+// In-memory localStorage, the course tree is read from there
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', { getItem: (key: string) => storage.get(key) ?? null, setItem: (key: string, value: string) => { storage.set(key, value); } });
+
+const ctx = (): AIToolContext => ({ uid: 'u1', navigate: vi.fn(), setVoiceLanguage: vi.fn(() => true) });
+
+describe('tool arguments', () => {
+    it('fill in defaults and normalise times', () => {
+        expect(getAITool('create_planner_item')!.args.parse({ kind: 'event', title: 'Họp', time: '9:30' }))
+            .toEqual({ kind: 'event', title: 'Họp', date: toDateKey(new Date()), time: '09:30', durationMinutes: 60 });
+    });
+
+    it('reject malformed dates, times, enums and amounts', () => {
+        const add = getAITool('add_transaction')!.args;
+        expect(() => add.parse({ type: 'expense', amount: 50000, category: 'Ăn uống', date: '15/03/2026' })).toThrow('date: expected YYYY-MM-DD');
+        expect(() => add.parse({ type: 'refund', amount: 50000, category: 'Ăn uống' })).toThrow('type');
+        expect(() => add.parse({ type: 'expense', amount: 0, category: 'Ăn uống' })).toThrow('amount: must be >= 1');
+        expect(() => getAITool('create_planner_item')!.args.parse({ kind: 'event', title: 'x', time: '25:00' })).toThrow('time: expected HH:mm');
+    });
+});
+
+describe('runAITool', () => {
+    beforeEach(() => {
+        storage.clear();
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    it('reports unknown tools and invalid arguments to the model instead of throwing', async () => {
+        expect(await runAITool('delete_everything', {}, ctx())).toEqual({ error: 'Unknown tool delete_everything' });
+        expect((await runAITool('query_spending', { from: 'last month' }, ctx())).error).toContain('from: expected YYYY-MM-DD');
+    });
+
+    it('sums expenses per category, without income or projected items', async () => {
+        fetchTransactionsInRange.mockResolvedValueOnce([
+            { id: '1', date: '2026-03-02', amount: 45000, type: 'expense', category: 'Ăn uống' },
+            { id: '2', date: '2026-03-03', amount: 30000, type: 'expense', category: 'Ăn uống' },
+            { id: '3', date: '2026-03-04', amount: 200000, type: 'expense', category: 'Đi lại' },
+            { id: '4', date: '2026-03-05', amount: 9000000, type: 'income', category: 'Lương' },
+            { id: '5', date: '2026-03-25', amount: 260000, type: 'expense', category: 'Giải trí', isProjected: true }
+        ]);
+        const { result } = await runAITool('query_spending', { from: '2026-03-01', to: '2026-03-31' }, ctx());
+        expect(fetchTransactionsInRange).toHaveBeenCalledWith('u1', '2026-03-01', '2026-03-31');
+        expect(result).toMatchObject({
+            total: 275000,
+            byCategory: [{ category: 'Đi lại', amount: 200000, count: 1 }, { category: 'Ăn uống', amount: 75000, count: 2 }]
+        });
+    });
+
+    it('refuses finance tools without a signed-in user', async () => {
+        fetchTransactionsInRange.mockClear();
+        expect(await runAITool('query_spending', { from: '2026-03-01', to: '2026-03-31' }, { ...ctx(), uid: null }))
+            .toEqual({ error: 'Finance tools need a signed-in user' });
+        expect(await runAITool('add_transaction', { type: 'expense', amount: 50000, category: 'Ăn uống' }, { ...ctx(), uid: null }))
+            .toEqual({ error: 'Finance tools need a signed-in user' });
+        expect(fetchTransactionsInRange).not.toHaveBeenCalled();
+        expect(storage.has('dh_fin_trans')).toBe(false);
+    });
+
+    it('opens the best matching lesson, ignoring diacritics', async () => {
+        const lesson = (id: string, title: string) => ({ id, title, type: 'file', data: { id, title } });
+        storage.set('dh_course_tree_v2', JSON.stringify([
+            { id: 'f', title: 'IELTS', type: 'folder', children: [lesson('l1', 'Thì hiện tại hoàn thành nâng cao'), lesson('l2', 'Thì hiện tại hoàn thành')] }
+        ]));
+        const c = ctx();
+        const { result } = await runAITool('open_lesson', { query: 'thi hien tai hoan thanh' }, c);
+        expect(c.navigate).toHaveBeenCalledWith('/courses', { lessonId: 'l2' });
+        expect(result).toEqual({ opened: 'Thì hiện tại hoàn thành', otherMatches: ['Thì hiện tại hoàn thành nâng cao'] });
+    });
+});
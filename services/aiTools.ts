@@ -0,0 +1,301 @@
+import { CalendarEvent, CourseNode, Task, Transaction } from "../types";
+import { AIToolDeclaration } from "./aiProviders";
+import { s, Schema, SchemaError } from "./aiSchemas";
+import { firebaseService } from "./firebase";
+import { financialService } from "./financial";
+import { toDateKey } from "./recurring";
+import { normalizeText } from "./statementImport";
+import { vocabService } from "./vocab";
+
+// Tools Nana can call from the chat. Arguments are validated with the runtime schemas before a
+// tool runs; tools that change user data are only executed after the user confirms their card.
+
+export interface AIToolContext {
+    uid: string | null;
+    navigate: (path: string, state?: unknown) => void;
+    setVoiceLanguage: (lang: string) => boolean;
+}
+
+export interface AITool<A = any> {
+    declaration: AIToolDeclaration;
+    label: string;                  // Card title
+    icon: string;
+    requiresConfirmation: boolean;  // Mutates user data
+    args: Schema<A>;
+    describe(args: A): string;      // One line on the confirmation card
+    execute(args: A, ctx: AIToolContext): Promise<unknown>;
+}
+
+const dateKey = (): Schema<string> => ({
+    parse(value, path = '') {
+        const v = s.string().parse(value, path).trim();
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(v) || isNaN(new Date(v).getTime())) throw new SchemaError(path, `expected YYYY-MM-DD, got ${JSON.stringify(value)}`);
+        return v;
+    }
+});
+
+const timeOfDay = (): Schema<string> => ({
+    parse(value, path = '') {
+        const v = s.string().parse(value, path).trim();
+        if (!/^([01]?\d|2[0-3]):[0-5]\d$/.test(v)) throw new SchemaError(path, `expected HH:mm, got ${JSON.stringify(value)}`);
+        return v.padStart(5, '0');
+    }
+});
+
+const fmtVND = (n: number) => new Intl.NumberFormat('vi-VN').format(Math.round(n)) + ' ₫';
+
+// Chat is only open to signed-in users (geminiService.enforcePolicy), so finance tools go through
+// financialService; the guest copy in localStorage belongs to the Finance page
+const requireUid = (uid: string | null): string => {
+    if (!uid) throw new Error('Finance tools need a signed-in user');
+    return uid;
+};
+
+const findLessons = (query: string): CourseNode[] => {
+    const tree: CourseNode[] = JSON.parse(localStorage.getItem('dh_course_tree_v2') || '[]');
+    const q = normalizeText(query);
+    const matches: CourseNode[] = [];
+    const traverse = (nodes: CourseNode[]) => nodes.forEach(n => {
+        if (n.type === 'file' && n.data && normalizeText(n.title).includes(q)) matches.push(n);
+        if (n.children) traverse(n.children);
+    });
+    traverse(tree);
+    // Exact title first, then shortest (most specific) match
+    return matches.sort((a, b) => Number(normalizeText(b.title) === q) - Number(normalizeText(a.title) === q) || a.title.length - b.title.length);
+};
+
+// --- Tools ---
+
+interface AddTransactionArgs { type: 'income' | 'expense'; amount: number; category: string; date: string; description: string }
+
+const addTransaction: AITool<AddTransactionArgs> = {
+    label: 'Thêm giao dịch',
+    icon: '💸',
+    requiresConfirmation: true,
+    declaration: {
+        name: 'add_transaction',
+        description: "Record an income or expense in the user's finance book. Amount is in VND.",
+        parameters: {
+            type: 'object',
+            properties: {
+                type: { type: 'string', enum: ['income', 'expense'] },
+                amount: { type: 'number', description: 'Amount in VND, e.g. 50000' },
+                category: { type: 'string', description: 'Vietnamese category, e.g. Ăn uống, Đi lại, Mua sắm, Lương' },
+                date: { type: 'string', description: 'YYYY-MM-DD, defaults to today' },
+                description: { type: 'string' }
+            },
+            required: ['type', 'amount', 'category']
+        }
+    },
+    args: s.object<AddTransactionArgs>({
+        type: s.oneOf(['income', 'expense'] as const),
+        amount: s.number({ min: 1 }),
+        category: s.string(),
+        date: s.optional(dateKey(), () => toDateKey(new Date())),
+        description: s.optional(s.string(), '')
+    }),
+    describe: a => `${a.type === 'income' ? 'Thu' : 'Chi'} ${fmtVND(a.amount)} · ${a.category} · ${a.date}${a.description ? ` · ${a.description}` : ''}`,
+    async execute(a, ctx) {
+        const payload: Omit<Transaction, 'id'> = { date: a.date, amount: a.amount, type: a.type, category: a.category, description: a.description };
+        const id = await financialService.addTransaction(requireUid(ctx.uid), payload);
+        return { id, ...payload };
+    }
+};
+
+interface PlannerItemArgs { kind: 'task' | 'event'; title: string; date: string; time: string; durationMinutes: number }
+
+const createPlannerItem: AITool<PlannerItemArgs> = {
+    label: 'Thêm vào Planner',
+    icon: '🗓️',
+    requiresConfirmation: true,
+    declaration: {
+        name: 'create_planner_item',
+        description: "Create a to-do task or a calendar event in the user's Planner.",
+        parameters: {
+            type: 'object',
+            properties: {
+                kind: { type: 'string', enum: ['task', 'event'] },
+                title: { type: 'string' },
+                date: { type: 'string', description: 'YYYY-MM-DD, defaults to today' },
+                time: { type: 'string', description: 'Events only: start time HH:mm, defaults to 09:00' },
+                durationMinutes: { type: 'integer', description: 'Events only, defaults to 60' }
+            },
+            required: ['kind', 'title']
+        }
+    },
+    args: s.object<PlannerItemArgs>({
+        kind: s.oneOf(['task', 'event'] as const),
+        title: s.string(),
+        date: s.optional(dateKey(), () => toDateKey(new Date())),
+        time: s.optional(timeOfDay(), '09:00'),
+        durationMinutes: s.optional(s.number({ min: 5, max: 24 * 60 }), 60)
+    }),
+    describe: a => a.kind === 'task' ? `Việc cần làm: "${a.title}" · ${a.date}` : `Sự kiện: "${a.title}" · ${a.date} ${a.time} (${a.durationMinutes} phút)`,
+    async execute(a) {
+        if (a.kind === 'task') {
+            const tasks: Task[] = (await firebaseService.getUserData('tasks')) || [];
+            const task: Task = { id: Date.now().toString(), title: a.title, completed: false, date: a.date, type: 'task' };
+            await firebaseService.saveUserData('tasks', [...tasks, task]);
+            return task;
+        }
+        // Local time, like the Planner form
+        const [y, m, d] = a.date.split('-').map(Number);
+        const [hours, mins] = a.time.split(':').map(Number);
+        const start = new Date(y, m - 1, d, hours, mins);
+        const events: CalendarEvent[] = (await firebaseService.getUserData('events')) || [];
+        const event: CalendarEvent = {
+            id: Date.now().toString(),
+            title: a.title,
+            start: start.toISOString(),
+            end: new Date(start.getTime() + a.durationMinutes * 60 * 1000).toISOString(),
+            color: 'bg-blue-500 border-blue-600'
+        };
+        await firebaseService.saveUserData('events', [...events, event]);
+        return event;
+    }
+};
+
+interface AddVocabArgs { word: string; meaning: string; example: string; folder: string }
+
+const addVocabTerm: AITool<AddVocabArgs> = {
+    label: 'Lưu từ vựng',
+    icon: '📚',
+    requiresConfirmation: true,
+    declaration: {
+        name: 'add_vocab_term',
+        description: "Save an English word or phrase to a folder of the user's vocabulary library.",
+        parameters: {
+            type: 'object',
+            properties: {
+                word: { type: 'string' },
+                meaning: { type: 'string', description: 'Vietnamese meaning' },
+                example: { type: 'string', description: 'Example sentence' },
+                folder: { type: 'string', description: 'Folder name; defaults to the general Vocab folder' }
+            },
+            required: ['word', 'meaning']
+        }
+    },
+    args: s.object<AddVocabArgs>({
+        word: s.string(),
+        meaning: s.string(),
+        example: s.optional(s.string(), ''),
+        folder: s.optional(s.string(), '')
+    }),
+    describe: a => `"${a.word}" — ${a.meaning}${a.folder ? ` · thư mục ${a.folder}` : ''}`,
+    async execute(a) {
+        const folder = a.folder ? vocabService.getFolders().find(f => normalizeText(f.name) === normalizeText(a.folder) || f.id === a.folder) : undefined;
+        const result = await vocabService.addTerm(a.word, a.meaning, a.example, folder?.id, undefined, { type: 'chat' });
+        return { added: result.added, folder: result.folder.name, ...(result.added ? {} : { note: 'Word already in this folder' }) };
+    }
+};
+
+interface QuerySpendingArgs { from: string; to: string; category: string }
+
+const querySpending: AITool<QuerySpendingArgs> = {
+    label: 'Xem chi tiêu',
+    icon: '📊',
+    requiresConfirmation: false,
+    declaration: {
+        name: 'query_spending',
+        description: 'Total expenses per category in a date range, from the user\'s finance book. Transfers are excluded.',
+        parameters: {
+            type: 'object',
+            properties: {
+                from: { type: 'string', description: 'YYYY-MM-DD, defaults to the first day of this month' },
+                to: { type: 'string', description: 'YYYY-MM-DD, defaults to today' },
+                category: { type: 'string', description: 'Only this category' }
+            }
+        }
+    },
+    args: s.object<QuerySpendingArgs>({
+        from: s.optional(dateKey(), () => toDateKey(new Date()).slice(0, 8) + '01'),
+        to: s.optional(dateKey(), () => toDateKey(new Date())),
+        category: s.optional(s.string(), '')
+    }),
+    describe: a => `${a.from} → ${a.to}${a.category ? ` · ${a.category}` : ''}`,
+    async execute(a, ctx) {
+        const expenses = (await financialService.fetchTransactionsInRange(requireUid(ctx.uid), a.from, a.to))
+            .filter(t => t.type === 'expense' && !t.isProjected)
+            .filter(t => !a.category || normalizeText(t.category) === normalizeText(a.category));
+        const byCategory: Record<string, { amount: number; count: number }> = {};
+        expenses.forEach(t => {
+            const entry = byCategory[t.category] || { amount: 0, count: 0 };
+            byCategory[t.category] = { amount: entry.amount + Number(t.amount), count: entry.count + 1 };
+        });
+        return {
+            from: a.from,
+            to: a.to,
+            currency: 'VND',
+            total: expenses.reduce((sum, t) => sum + Number(t.amount), 0),
+            byCategory: Object.entries(byCategory).map(([category, v]) => ({ category, ...v })).sort((x, y) => y.amount - x.amount)
+        };
+    }
+};
+
+interface OpenLessonArgs { query: string }
+
+const openLesson: AITool<OpenLessonArgs> = {
+    label: 'Mở bài học',
+    icon: '📖',
+    requiresConfirmation: false,
+    declaration: {
+        name: 'open_lesson',
+        description: "Open a lesson from the user's course library (Courses page) by its title.",
+        parameters: {
+            type: 'object',
+            properties: { query: { type: 'string', description: 'Lesson title or part of it' } },
+            required: ['query']
+        }
+    },
+    args: s.object<OpenLessonArgs>({ query: s.string() }),
+    describe: a => `"${a.query}"`,
+    async execute(a, ctx) {
+        const [lesson, ...others] = findLessons(a.query);
+        if (!lesson) throw new Error(`No lesson matches "${a.query}"`);
+        ctx.navigate('/courses', { lessonId: lesson.id });
+        return { opened: lesson.title, otherMatches: others.slice(0, 5).map(l => l.title) };
+    }
+};
+
+interface SetVoiceArgs { lang: string }
+
+const setVoice: AITool<SetVoiceArgs> = {
+    label: 'Đổi giọng đọc',
+    icon: '🔊',
+    requiresConfirmation: false,
+    declaration: {
+        name: 'set_voice',
+        description: 'Change the text-to-speech voice used to read replies aloud.',
+        parameters: {
+            type: 'object',
+            properties: { lang: { type: 'string', description: 'BCP-47 language, e.g. vi-VN, en-US, en-GB' } },
+            required: ['lang']
+        }
+    },
+    args: s.object<SetVoiceArgs>({ lang: s.string() }),
+    describe: a => a.lang,
+    async execute(a, ctx) {
+        if (!ctx.setVoiceLanguage(a.lang)) throw new Error(`No installed voice for ${a.lang}`);
+        return { voice: a.lang };
+    }
+};
+
+export const AI_TOOLS: AITool[] = [addTransaction, createPlannerItem, addVocabTerm, querySpending, openLesson, setVoice];
+
+export const getAITool = (name: string): AITool | undefined => AI_TOOLS.find(t => t.declaration.name === name);
+
+// Limited to `names` when given, e.g. the tools a persona may use
+export const aiToolDeclarations = (names?: string[]): AIToolDeclaration[] =>
+    AI_TOOLS.filter(t => !names || names.includes(t.declaration.name)).map(t => t.declaration);
+
+// Result sent back to the model; failures are reported to it instead of being thrown
+export const runAITool = async (name: string, rawArgs: Record<string, any>, ctx: AIToolContext): Promise<{ result?: unknown; error?: string }> => {
+    const tool = getAITool(name);
+    if (!tool) return { error: `Unknown tool ${name}` };
+    try {
+        return { result: await tool.execute(tool.args.parse(rawArgs), ctx) };
+    } catch (e: any) {
+        console.error(`AI tool ${name} failed`, e);
+        return { error: e?.message || String(e) };
+    }
+};
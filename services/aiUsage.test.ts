@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+vi.mock('./firebase', () => ({ firebaseService: {} }));
+
+import { aiUsageService, sumTotals, emptyTotals, AI_QUOTAS, AIQuotaStatus } from './aiUsage';
+
+describe('aiUsageService.estimateCost', () => {
+    it('prices by the longest matching model prefix', () => {
+        expect(aiUsageService.estimateCost('gemini', 'gemini-2.5-flash-lite', 1_000_000, 1_000_000)).toBeCloseTo(0.5);
+        expect(aiUsageService.estimateCost('gemini', 'gemini-2.5-flash', 1_000_000, 1_000_000)).toBeCloseTo(2.8);
+        expect(aiUsageService.estimateCost('openai', 'gpt-4o-mini-2024-07-18', 2_000_000, 0)).toBeCloseTo(0.3);
+    });
+
+    it('treats local and unknown models as free', () => {
+        expect(aiUsageService.estimateCost('local', 'gpt-4o', 1_000_000, 1_000_000)).toBe(0);
+        expect(aiUsageService.estimateCost('openai', 'my-finetune', 1_000_000, 1_000_000)).toBe(0);
+    });
+});
+
+describe('sumTotals', () => {
+    it('adds days and tolerates missing fields', () => {
+        expect(sumTotals([{ calls: 2, inputTokens: 100, outputTokens: 50, cost: 0.01 }, { calls: 1 } as any]))
+            .toEqual({ calls: 3, inputTokens: 100, outputTokens: 50, cost: 0.01 });
+        expect(sumTotals([])).toEqual(emptyTotals());
+    });
+});
+
+describe('aiUsageService.checkQuota', () => {
+    afterEach(() => vi.restoreAllMocks());
+
+    const status = (today: Partial<AIQuotaStatus['today']>, month: Partial<AIQuotaStatus['month']> = {}): AIQuotaStatus => ({
+        tier: 'standard', quota: AI_QUOTAS.standard,
+        today: { ...emptyTotals(), ...today }, month: { ...emptyTotals(), ...month }
+    });
+
+    it('passes under the quota and blocks daily calls, daily tokens and the month', async () => {
+        const spy = vi.spyOn(aiUsageService, 'getQuotaStatus');
+        spy.mockResolvedValueOnce(status({ calls: 59 }));
+        await expect(aiUsageService.checkQuota('u1')).resolves.toBeUndefined();
+
+        spy.mockResolvedValueOnce(status({ calls: 60 }));
+        await expect(aiUsageService.checkQuota('u1')).rejects.toThrow('lượt AI hôm nay');
+
+        spy.mockResolvedValueOnce(status({ inputTokens: 150_000, outputTokens: 50_000 }));
+        await expect(aiUsageService.checkQuota('u1')).rejects.toThrow('token AI hôm nay');
+
+        spy.mockResolvedValueOnce(status({}, { calls: 1_000 }));
+        await expect(aiUsageService.checkQuota('u1')).rejects.toThrow('hạn mức AI của tháng này');
+    });
+
+    it('does not block features when usage cannot be read', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.spyOn(aiUsageService, 'getQuotaStatus').mockRejectedValueOnce(new Error('offline'));
+        await expect(aiUsageService.checkQuota('u1')).resolves.toBeUndefined();
+    });
+});
@@ -0,0 +1,235 @@
+import firebase from "firebase/compat/app";
+import { firebaseService, FirestoreUser } from "./firebase";
+import { AIFeature, AIProviderId, AIUsage } from "./aiProviders";
+import { toDateKey } from "./recurring";
+
+// Metering for every GeminiService call. Each call is logged to users/{uid}/ai_usage and added to
+// a per-day aggregate in users/{uid}/ai_usage_daily/{YYYY-MM-DD}; quotas are checked against the
+// aggregates so a check costs at most one month of daily docs (cached per session).
+
+export type AITier = 'standard' | 'vip';
+
+export interface AIQuota {
+    dailyCalls: number;
+    dailyTokens: number;
+    monthlyCalls: number;
+    monthlyTokens: number;
+}
+
+export const AI_QUOTAS: Record<AITier, AIQuota> = {
+    standard: { dailyCalls: 60, dailyTokens: 200_000, monthlyCalls: 1_000, monthlyTokens: 3_000_000 },
+    vip: { dailyCalls: 300, dailyTokens: 1_000_000, monthlyCalls: 6_000, monthlyTokens: 20_000_000 }
+};
+
+// USD per 1M tokens. Matched by longest model-name prefix; local models are free.
+const MODEL_PRICING: { prefix: string; input: number; output: number }[] = [
+    { prefix: 'gemini-2.5-flash-native-audio', input: 3, output: 12 },
+    { prefix: 'gemini-2.5-flash-lite', input: 0.10, output: 0.40 },
+    { prefix: 'gemini-2.5-flash', input: 0.30, output: 2.50 },
+    { prefix: 'gemini-2.5-pro', input: 1.25, output: 10 },
+    { prefix: 'gemini-2.0-flash', input: 0.10, output: 0.40 },
+    { prefix: 'gpt-4o-mini', input: 0.15, output: 0.60 },
+    { prefix: 'gpt-4o', input: 2.50, output: 10 },
+    { prefix: 'gpt-4.1-mini', input: 0.40, output: 1.60 },
+    { prefix: 'gpt-4.1', input: 2, output: 8 },
+    { prefix: 'gemini-embedding-001', input: 0.15, output: 0 },
+    { prefix: 'text-embedding-3-small', input: 0.02, output: 0 },
+    { prefix: 'text-embedding-3-large', input: 0.13, output: 0 }
+].sort((a, b) => b.prefix.length - a.prefix.length);
+
+export interface AIUsageTotals {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    cost: number;          // USD, estimated
+}
+
+export interface AIUsageDay extends AIUsageTotals {
+    date: string;          // YYYY-MM-DD
+    features: Partial<Record<AIFeature, AIUsageTotals>>;
+}
+
+export interface AIUsageRecord {
+    feature: AIFeature;
+    provider: AIProviderId;
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    estimated: boolean;
+    cost: number;
+    createdAt: number;
+}
+
+export interface AIQuotaStatus {
+    tier: AITier;
+    quota: AIQuota;
+    today: AIUsageTotals;
+    month: AIUsageTotals;
+}
+
+export interface AIUserUsage {
+    user: FirestoreUser;
+    days: AIUsageDay[];
+    month: AIUsageTotals;
+}
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+export const emptyTotals = (): AIUsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 });
+
+export const sumTotals = (items: AIUsageTotals[]): AIUsageTotals => items.reduce((acc, t) => ({
+    calls: acc.calls + (t.calls || 0),
+    inputTokens: acc.inputTokens + (t.inputTokens || 0),
+    outputTokens: acc.outputTokens + (t.outputTokens || 0),
+    cost: acc.cost + (t.cost || 0)
+}), emptyTotals());
+
+// Small amounts need more decimals to be meaningful
+export const formatCostUSD = (n: number) =>
+    '$' + new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: n < 1 ? 4 : 2 }).format(n);
+
+const monthKey = (d: Date) => toDateKey(d).slice(0, 7);
+
+class AIUsageService {
+    private cache: { uid: string; month: string; tier: AITier; days: Record<string, AIUsageDay>; loadedAt: number } | null = null;
+
+    private daily(uid: string) {
+        return firebaseService.db.collection('users').doc(uid).collection('ai_usage_daily');
+    }
+
+    estimateCost(provider: AIProviderId, model: string, inputTokens: number, outputTokens: number): number {
+        if (provider === 'local') return 0;
+        const price = MODEL_PRICING.find(p => model.startsWith(p.prefix));
+        return price ? (inputTokens * price.input + outputTokens * price.output) / 1_000_000 : 0;
+    }
+
+    // Days of the month containing `month`, oldest first
+    async getMonth(uid: string, month: Date = new Date()): Promise<AIUsageDay[]> {
+        const key = monthKey(month);
+        const snapshot = await this.daily(uid)
+            .where(firebase.firestore.FieldPath.documentId(), '>=', `${key}-01`)
+            .where(firebase.firestore.FieldPath.documentId(), '<=', `${key}-31`)
+            .get();
+        return snapshot.docs.map(doc => ({ ...emptyTotals(), features: {}, ...doc.data(), date: doc.id }) as AIUsageDay);
+    }
+
+    // Last `days` days including today; missing days are filled with zeros for charts
+    async getRecentDays(uid: string, days: number = 30, now: Date = new Date()): Promise<AIUsageDay[]> {
+        const from = new Date(now.getFullYear(), now.getMonth(), now.getDate() - days + 1);
+        const snapshot = await this.daily(uid)
+            .where(firebase.firestore.FieldPath.documentId(), '>=', toDateKey(from))
+            .get();
+        const byDate: Record<string, AIUsageDay> = {};
+        snapshot.docs.forEach(doc => { byDate[doc.id] = { ...emptyTotals(), features: {}, ...doc.data(), date: doc.id } as AIUsageDay; });
+
+        const result: AIUsageDay[] = [];
+        for (let i = 0; i < days; i++) {
+            const date = toDateKey(new Date(from.getFullYear(), from.getMonth(), from.getDate() + i));
+            result.push(byDate[date] || { ...emptyTotals(), date, features: {} });
+        }
+        return result;
+    }
+
+    private async load(uid: string) {
+        const month = monthKey(new Date());
+        if (this.cache && this.cache.uid === uid && this.cache.month === month && Date.now() - this.cache.loadedAt < CACHE_TTL_MS) {
+            return this.cache;
+        }
+        const [userDoc, days] = await Promise.all([
+            firebaseService.db.collection('users').doc(uid).get(),
+            this.getMonth(uid)
+        ]);
+        const tier: AITier = (userDoc.data() as FirestoreUser | undefined)?.aiTier === 'vip' ? 'vip' : 'standard';
+        this.cache = { uid, month, tier, days: Object.fromEntries(days.map(d => [d.date, d])), loadedAt: Date.now() };
+        return this.cache;
+    }
+
+    async getQuotaStatus(uid: string): Promise<AIQuotaStatus> {
+        const cache = await this.load(uid);
+        const days = Object.values(cache.days);
+        return {
+            tier: cache.tier,
+            quota: AI_QUOTAS[cache.tier],
+            today: cache.days[toDateKey(new Date())] || emptyTotals(),
+            month: sumTotals(days)
+        };
+    }
+
+    // Throws a user-facing error when the daily or monthly quota is used up
+    async checkQuota(uid: string): Promise<void> {
+        let status: AIQuotaStatus;
+        try {
+            status = await this.getQuotaStatus(uid);
+        } catch (e) {
+            // Offline / rules error: do not block the feature because metering is unavailable
+            console.warn("AI quota check failed", e);
+            return;
+        }
+        const { quota, today, month } = status;
+        const fmt = (n: number) => new Intl.NumberFormat('vi-VN').format(n);
+
+        if (today.calls >= quota.dailyCalls) {
+            throw new Error(`Bạn đã dùng hết ${fmt(quota.dailyCalls)} lượt AI hôm nay. Hạn mức sẽ được làm mới vào ngày mai.`);
+        }
+        if (today.inputTokens + today.outputTokens >= quota.dailyTokens) {
+            throw new Error(`Bạn đã dùng hết ${fmt(quota.dailyTokens)} token AI hôm nay. Hạn mức sẽ được làm mới vào ngày mai.`);
+        }
+        if (month.calls >= quota.monthlyCalls || month.inputTokens + month.outputTokens >= quota.monthlyTokens) {
+            throw new Error("Bạn đã dùng hết hạn mức AI của tháng này. Vui lòng liên hệ Admin để nâng cấp gói.");
+        }
+    }
+
+    /**
+     * Log one call and add it to today's aggregate. Never throws: a failed write must not
+     * fail the AI feature that already got its answer.
+     */
+    async record(feature: AIFeature, provider: AIProviderId, model: string, usage: AIUsage): Promise<void> {
+        const user = firebaseService.auth.currentUser;
+        if (!user) return;
+
+        const cost = this.estimateCost(provider, model, usage.inputTokens, usage.outputTokens);
+        const date = toDateKey(new Date());
+        const entry: AIUsageRecord = { feature, provider, model, ...usage, cost, createdAt: Date.now() };
+
+        // Keep the cached aggregate in step so quota checks see this call without a re-read
+        if (this.cache && this.cache.uid === user.uid && this.cache.month === date.slice(0, 7)) {
+            const day = this.cache.days[date] || { ...emptyTotals(), date, features: {} };
+            const add = (t: AIUsageTotals): AIUsageTotals => sumTotals([t, { calls: 1, inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, cost }]);
+            this.cache.days[date] = { ...day, ...add(day), features: { ...day.features, [feature]: add(day.features[feature] || emptyTotals()) } };
+        }
+
+        try {
+            const inc = firebase.firestore.FieldValue.increment;
+            const totals = { calls: inc(1), inputTokens: inc(usage.inputTokens), outputTokens: inc(usage.outputTokens), cost: inc(cost) };
+            const userRef = firebaseService.db.collection('users').doc(user.uid);
+            const batch = firebaseService.db.batch();
+            batch.set(userRef.collection('ai_usage').doc(), entry);
+            batch.set(this.daily(user.uid).doc(date), {
+                date,
+                ...totals,
+                features: { [feature]: totals },
+                updatedAt: firebase.firestore.FieldValue.serverTimestamp()
+            }, { merge: true });
+            await batch.commit();
+        } catch (e) {
+            console.warn("Failed to record AI usage", e);
+        }
+    }
+
+    // Admin: current month usage of every user, heaviest first
+    async getAllUsersUsage(month: Date = new Date()): Promise<AIUserUsage[]> {
+        const users = await firebaseService.getAllUsers();
+        const rows = await Promise.all(users.map(async user => {
+            try {
+                const days = await this.getMonth(user.uid, month);
+                return { user, days, month: sumTotals(days) };
+            } catch (e) {
+                console.warn(`Failed to load AI usage for ${user.uid}`, e);
+                return { user, days: [], month: emptyTotals() };
+            }
+        }));
+        return rows.sort((a, b) => b.month.cost - a.month.cost || b.month.calls - a.month.calls);
+    }
+}
+
+export const aiUsageService = new AIUsageService();
@@ -0,0 +1,201 @@
+import firebase from "firebase/compat/app";
+import { ChatMessage, ChatSession } from "../types";
+import { firebaseService } from "./firebase";
+
+// Nana chat history in Firestore: users/{uid}/chat_sessions/{sessionId} holds the session metadata
+// and users/{uid}/chat_sessions/{sessionId}/messages/{messageId} the messages. localStorage
+// (dh_chat_sessions) stays the working copy; the cloud copy lets the history follow the user to
+// other browsers. Messages of remote sessions are only downloaded when the session is opened, so
+// session docs carry a folded `searchText` for content search.
+
+const MAX_SEARCH_TEXT = 20_000;    // Characters kept per session doc for search
+const CLOUD_IDS_KEY = 'dh_chat_cloud_ids_';  // + uid: sessions known to be stored in the cloud
+
+// Lowercase without Vietnamese accents. Keeps the length of precomposed text, so positions found
+// in the folded string can be used on the original.
+const fold = (text: string) =>
+    (text || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/đ/g, 'd').replace(/Đ/g, 'D').toLowerCase();
+
+// Remote session whose messages have not been downloaded yet
+export const needsMessages = (session: ChatSession) => session.messages.length === 0 && (session.messageCount || 0) > 0;
+
+/** Snippet around the first match, '' for a title-only match, null when `query` does not match. */
+export const searchSession = (session: ChatSession, query: string): string | null => {
+    const words = fold(query).split(/\s+/).filter(Boolean);
+    if (words.length === 0) return '';
+    const title = fold(session.title);
+    const texts = needsMessages(session) ? [session.searchText || ''] : session.messages.map(m => m.text || '');
+    const folded = texts.map(fold);
+    if (!words.every(w => title.includes(w) || folded.some(t => t.includes(w)))) return null;
+
+    for (let i = 0; i < folded.length; i++) {
+        const word = words.find(w => folded[i].includes(w));
+        if (!word) continue;
+        const at = folded[i].indexOf(word);
+        const start = Math.max(0, at - 30);
+        return (start > 0 ? '…' : '') + texts[i].slice(start, at + word.length + 50).replace(/\s+/g, ' ') + '…';
+    }
+    return '';
+};
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const speaker = (m: ChatMessage, assistantName: string) => m.role === 'user' ? 'Bạn' : assistantName;
+
+export const sessionToMarkdown = (session: ChatSession, assistantName = 'Nana'): string => {
+    const lines = [`# ${session.title}`, '', `_Xuất lúc ${new Date().toLocaleString('vi-VN')}_`, ''];
+    session.messages.filter(m => m.text).forEach(m => {
+        lines.push(`**${speaker(m, assistantName)}**${m.timestamp ? ` _(${new Date(m.timestamp).toLocaleString('vi-VN')})_` : ''}:`, '', m.text, '');
+        if (m.sources?.length) lines.push(...m.sources.map(s => `- [${s.title}](${s.uri})`), '');
+        if (m.citations?.length) lines.push(...m.citations.map(c => `- [${c.index}] ${c.title}`), '');
+    });
+    return lines.join('\n');
+};
+
+// Printable page; the browser's print dialog saves it as PDF
+export const sessionToHtml = (session: ChatSession, assistantName = 'Nana'): string => `<!DOCTYPE html>
+<html lang="vi"><head><meta charset="utf-8"><title>${escapeHtml(session.title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 720px; margin: 24px auto; color: #1f2937; }
+h1 { font-size: 20px; border-bottom: 1px solid #e5e7eb; padding-bottom: 8px; }
+.msg { margin: 12px 0; padding: 10px 14px; border-radius: 12px; white-space: pre-wrap; line-height: 1.5; font-size: 13px; }
+.user { background: #eff6ff; margin-left: 15%; }
+.model { background: #f9fafb; border: 1px solid #e5e7eb; margin-right: 15%; }
+.who { font-weight: bold; font-size: 11px; color: #6b7280; margin-bottom: 4px; }
+.refs { font-size: 11px; color: #6b7280; margin-top: 6px; }
+</style></head><body>
+<h1>${escapeHtml(session.title)}</h1>
+${session.messages.filter(m => m.text).map(m => `<div class="msg ${m.role}"><div class="who">${escapeHtml(speaker(m, assistantName))}</div>${escapeHtml(m.text)}${m.citations?.length ? `<div class="refs">${m.citations.map(c => `[${c.index}] ${escapeHtml(c.title)}`).join(' · ')}</div>` : ''}</div>`).join('\n')}
+</body></html>`;
+
+class ChatHistoryService {
+    // Serialized messages as last written, per session, so a save only touches changed messages
+    private synced = new Map<string, Map<string, string>>();
+
+    private sessions(uid: string) {
+        return firebaseService.db.collection('users').doc(uid).collection('chat_sessions');
+    }
+
+    // Ids of sessions confirmed in the user's cloud, either listed by it or saved to it. A session
+    // missing from the cloud is only treated as deleted elsewhere when its id is in here.
+    private cloudIds(uid: string): Set<string> {
+        try {
+            return new Set(JSON.parse(localStorage.getItem(CLOUD_IDS_KEY + uid) || '[]'));
+        } catch (e) {
+            return new Set();
+        }
+    }
+
+    private setCloudIds(uid: string, ids: Set<string>) {
+        localStorage.setItem(CLOUD_IDS_KEY + uid, JSON.stringify([...ids]));
+    }
+
+    private async commitInBatches(writes: ((batch: firebase.firestore.WriteBatch) => void)[]) {
+        for (let i = 0; i < writes.length; i += 450) {
+            const batch = firebaseService.db.batch();
+            writes.slice(i, i + 450).forEach(write => write(batch));
+            await batch.commit();
+        }
+    }
+
+    // Metadata only; messages come from loadMessages()
+    async loadSessions(uid: string): Promise<ChatSession[]> {
+        const snapshot = await this.sessions(uid).orderBy('updatedAt', 'desc').get();
+        return snapshot.docs.map(doc => ({ ...doc.data(), id: doc.id, messages: [] }) as ChatSession);
+    }
+
+    async loadMessages(uid: string, sessionId: string): Promise<ChatMessage[]> {
+        const snapshot = await this.sessions(uid).doc(sessionId).collection('messages').orderBy('order').get();
+        const synced = new Map<string, string>();
+        const messages = snapshot.docs.map(doc => {
+            const { order, ...message } = doc.data();
+            synced.set(doc.id, JSON.stringify({ ...message, id: doc.id, order }));
+            return { ...message, id: doc.id } as ChatMessage;
+        });
+        this.synced.set(sessionId, synced);
+        return messages;
+    }
+
+    async saveSession(uid: string, session: ChatSession): Promise<void> {
+        if (needsMessages(session)) return; // Never overwrite a cloud session with a partial copy
+        const ref = this.sessions(uid).doc(session.id);
+        const previous = this.synced.get(session.id) || new Map<string, string>();
+        const next = new Map<string, string>();
+        const writes: ((batch: firebase.firestore.WriteBatch) => void)[] = [];
+
+        session.messages.forEach((m, order) => {
+            if (!m.id || m.isThinking) return;
+            // JSON round trip drops undefined fields, which Firestore rejects
+            const data = JSON.stringify({ ...m, order });
+            next.set(m.id, data);
+            if (previous.get(m.id) !== data) writes.push(batch => batch.set(ref.collection('messages').doc(m.id!), JSON.parse(data)));
+        });
+        previous.forEach((_, id) => {
+            if (!next.has(id)) writes.push(batch => batch.delete(ref.collection('messages').doc(id)));
+        });
+        writes.push(batch => batch.set(ref, {
+            title: session.title,
+            createdAt: session.createdAt || session.updatedAt,
+            updatedAt: session.updatedAt,
+            pinned: !!session.pinned,
+            archived: !!session.archived,
+            personaId: session.personaId || null,
+            messageCount: next.size,
+            searchText: fold(session.messages.map(m => m.text).join(' ')).replace(/\s+/g, ' ').slice(0, MAX_SEARCH_TEXT)
+        }));
+
+        await this.commitInBatches(writes);
+        this.synced.set(session.id, next);
+        this.setCloudIds(uid, this.cloudIds(uid).add(session.id));
+    }
+
+    async deleteSession(uid: string, sessionId: string): Promise<void> {
+        const ref = this.sessions(uid).doc(sessionId);
+        const messages = await ref.collection('messages').get();
+        await this.commitInBatches([
+            ...messages.docs.map(doc => (batch: firebase.firestore.WriteBatch) => batch.delete(doc.ref)),
+            batch => batch.delete(ref)
+        ]);
+        this.synced.delete(sessionId);
+        const ids = this.cloudIds(uid);
+        ids.delete(sessionId);
+        this.setCloudIds(uid, ids);
+    }
+
+    /**
+     * Combine the local sessions with the cloud list. The newer copy of a session wins; remote
+     * copies arrive without messages. A local-only session that was in the cloud before was
+     * deleted on another device and is dropped; one that never reached the cloud (e.g. its upload
+     * failed) is kept. Returns the local sessions the cloud lacks.
+     */
+    merge(uid: string, local: ChatSession[], remote: ChatSession[]): { sessions: ChatSession[]; toUpload: ChatSession[] } {
+        const known = this.cloudIds(uid);
+        const remoteById = new Map(remote.map(s => [s.id, s]));
+        const sessions: ChatSession[] = [];
+        const toUpload: ChatSession[] = [];
+
+        local.forEach(l => {
+            const r = remoteById.get(l.id);
+            remoteById.delete(l.id);
+            if (!r) {
+                if (!known.has(l.id)) {
+                    sessions.push(l);
+                    toUpload.push(l);
+                }
+            } else if (l.updatedAt >= r.updatedAt && !needsMessages(l)) {
+                sessions.push({ ...r, ...l });
+                if (l.updatedAt > r.updatedAt) toUpload.push(l);
+            } else {
+                sessions.push(r);
+            }
+        });
+        remoteById.forEach(r => sessions.push(r));
+
+        // Uploads add their ids once they have been saved
+        this.setCloudIds(uid, new Set(remote.map(r => r.id)));
+        return { sessions: sessions.sort((a, b) => b.updatedAt - a.updatedAt), toUpload };
+    }
+}
+
+export const chatHistoryService = new ChatHistoryService();
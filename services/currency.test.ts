@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const getMarketData = vi.fn();
+vi.mock('./market', () => ({ marketService: { getMarketData: () => getMarketData() } }));
+
+import { currencyService } from './currency';
+
+const RATE_CACHE_KEY = 'dh_fx_rates';
+
+// In-memory localStorage, the rate cache lives there
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => { storage.set(key, value); },
+    removeItem: (key: string) => { storage.delete(key); }
+});
+
+const at = (key: string) => new Date(`${key}T12:00:00`);
+
+describe('currencyService.getRate', () => {
+    beforeEach(() => storage.clear());
+
+    it('uses the built-in rate before the first fetch', () => {
+        expect(currencyService.getRate('USD', '2026-03-15')).toBe(25450);
+        expect(currencyService.getRate('VND', '2026-03-15')).toBe(1);
+    });
+
+    it('takes the exact day, else the closest earlier day, else the earliest known day', () => {
+        storage.set(RATE_CACHE_KEY, JSON.stringify({ '2026-03-10': { USD: 25000 }, '2026-03-12': { USD: 25200 } }));
+        expect(currencyService.getRate('USD', '2026-03-12')).toBe(25200);
+        expect(currencyService.getRate('USD', '2026-03-11')).toBe(25000);
+        expect(currencyService.getRate('USD', '2026-03-20')).toBe(25200);
+        expect(currencyService.getRate('USD', '2026-01-01')).toBe(25000);
+    });
+});
+
+describe('currencyService.refreshRates', () => {
+    beforeEach(() => storage.clear());
+
+    it("stores today's live rate only", async () => {
+        getMarketData.mockResolvedValueOnce({ items: [{ symbol: 'USD', price: 25300, isStale: false }] });
+        expect(await currencyService.refreshRates(at('2026-03-15'))).toBe(25300);
+        expect(JSON.parse(storage.get(RATE_CACHE_KEY)!)).toEqual({ '2026-03-15': { USD: 25300 } });
+    });
+
+    it('never caches stale numbers', async () => {
+        getMarketData.mockResolvedValueOnce({ items: [{ symbol: 'USD', price: 99999, isStale: true }] });
+        expect(await currencyService.refreshRates(at('2026-03-15'))).toBe(25450);
+        expect(storage.has(RATE_CACHE_KEY)).toBe(false);
+    });
+});
+
+describe('currencyService.toBase', () => {
+    beforeEach(() => storage.clear());
+
+    it('converts with the cached rate unless a rate is given', () => {
+        storage.set(RATE_CACHE_KEY, JSON.stringify({ '2026-03-10': { USD: 25000 } }));
+        expect(currencyService.toBase(12.5, 'USD', '2026-03-15')).toEqual({ amount: 312500, currency: 'USD', originalAmount: 12.5, fxRate: 25000 });
+        expect(currencyService.toBase(12.5, 'USD', '2026-03-15', 26000).amount).toBe(325000);
+        expect(currencyService.toBase(45000.4, 'VND')).toEqual({ amount: 45000 });
+    });
+
+    it('formats only foreign amounts as originals', () => {
+        expect(currencyService.formatOriginal({ currency: 'USD', originalAmount: 12.5 })).toBe('$12.50');
+        expect(currencyService.formatOriginal({ currency: 'VND', originalAmount: 45000 })).toBeNull();
+    });
+});
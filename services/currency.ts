@@ -0,0 +1,101 @@
+import { CurrencyCode } from "../types";
+import { marketService } from "./market";
+import { toDateKey } from "./recurring";
+
+export const BASE_CURRENCY: CurrencyCode = 'VND';
+
+export const CURRENCIES: { code: CurrencyCode; label: string; locale: string; decimals: number }[] = [
+    { code: 'VND', label: '₫ VND', locale: 'vi-VN', decimals: 0 },
+    { code: 'USD', label: '$ USD', locale: 'en-US', decimals: 2 }
+];
+
+// Amount as stored on a Transaction / FinancialGoal / DebtItem
+export interface MoneyValue {
+    amount: number;            // Base currency
+    currency?: CurrencyCode;
+    originalAmount?: number;
+    fxRate?: number;
+}
+
+const RATE_CACHE_KEY = 'dh_fx_rates';
+
+// Only used before the first successful market fetch on this device
+const DEFAULT_RATES: Record<CurrencyCode, number> = { VND: 1, USD: 25450 };
+
+// date (YYYY-MM-DD) -> currency -> base units per 1 unit of currency
+type RateCache = Record<string, Partial<Record<CurrencyCode, number>>>;
+
+class CurrencyService {
+    private readCache(): RateCache {
+        try {
+            return JSON.parse(localStorage.getItem(RATE_CACHE_KEY) || '{}');
+        } catch {
+            return {};
+        }
+    }
+
+    private writeCache(cache: RateCache) {
+        localStorage.setItem(RATE_CACHE_KEY, JSON.stringify(cache));
+    }
+
+    /**
+     * Store today's USD rate from the market feed. Only today's entry is ever written, so the
+     * rate resolved for a past date never changes and old reports stay stable.
+     */
+    async refreshRates(now: Date = new Date()): Promise<number> {
+        const data = await marketService.getMarketData();
+        const usd = data.items.find(i => i.symbol === 'USD');
+        // Stale items are old cache entries or fixtures: never record them as today's rate
+        if (usd && usd.price > 0 && !usd.isStale) {
+            const cache = this.readCache();
+            const today = toDateKey(now);
+            cache[today] = { ...cache[today], USD: usd.price };
+            this.writeCache(cache);
+        }
+        return this.getRate('USD', toDateKey(now));
+    }
+
+    /**
+     * Rate for a date: exact cache hit, else the closest earlier day, else the earliest
+     * known day (dates before the first fetch), else the built-in default.
+     */
+    getRate(currency: CurrencyCode, date: string = toDateKey(new Date())): number {
+        if (currency === BASE_CURRENCY) return 1;
+        const cache = this.readCache();
+        const dates = Object.keys(cache).filter(d => cache[d][currency]).sort();
+        if (dates.length === 0) return DEFAULT_RATES[currency];
+
+        const earlier = dates.filter(d => d <= date);
+        const key = earlier.length > 0 ? earlier[earlier.length - 1] : dates[0];
+        return cache[key][currency] || DEFAULT_RATES[currency];
+    }
+
+    // Converts an amount entered in `currency`. `rate` overrides the cached rate (e.g. the bank's actual rate)
+    toBase(originalAmount: number, currency: CurrencyCode, date?: string, rate?: number): MoneyValue {
+        if (currency === BASE_CURRENCY) return { amount: Math.round(originalAmount) };
+        const fxRate = rate && rate > 0 ? rate : this.getRate(currency, date);
+        return {
+            amount: Math.round(originalAmount * fxRate),
+            currency,
+            originalAmount,
+            fxRate
+        };
+    }
+
+    format(amount: number, currency: CurrencyCode = BASE_CURRENCY): string {
+        const meta = CURRENCIES.find(c => c.code === currency) || CURRENCIES[0];
+        return new Intl.NumberFormat(meta.locale, {
+            style: 'currency',
+            currency,
+            maximumFractionDigits: meta.decimals
+        }).format(amount);
+    }
+
+    // "$120.00" for foreign-currency items, null for base-currency ones
+    formatOriginal(value: Pick<MoneyValue, 'currency' | 'originalAmount'>): string | null {
+        if (!value.currency || value.currency === BASE_CURRENCY || value.originalAmount == null) return null;
+        return this.format(value.originalAmount, value.currency);
+    }
+}
+
+export const currencyService = new CurrencyService();
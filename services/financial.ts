@@ -2,9 +2,12 @@
 import firebase from "firebase/compat/app";
 import "firebase/compat/firestore";
 import "firebase/compat/auth";
-import { Transaction, BudgetCategory, FinancialGoal, DebtItem } from "../types";
-import { geminiService } from "./gemini";
+import { Transaction, BudgetCategory, FinancialGoal, DebtItem, RecurringRule, FinanceAccount, InvestmentHolding } from "../types";
+import { geminiService, AICallOptions } from "./gemini";
 import { MarketData } from "./market";
+import { recurringService, toDateKey } from "./recurring";
+import { accountService, AccountBalance, ADJUSTMENT_CATEGORY } from "./accounts";
+import { priceHistoryService, PricePoint, HISTORY_SYMBOLS } from "./priceHistory";
 
 export interface MarketAnalysisResult {
     marketTrend: string;
@@ -18,6 +21,8 @@ export interface MarketAnalysisResult {
     actionableSteps: string[];
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 class FinancialService {
     private db: firebase.firestore.Firestore;
 
@@ -37,7 +42,21 @@ class FinancialService {
         return this.db.collection('users').doc(uid).collection(collection);
     }
 
+    // Firestore batches are capped at 500 writes, so large jobs are split into chunks
+    private async commitInBatches(writes: ((batch: firebase.firestore.WriteBatch) => void)[]) {
+        for (let i = 0; i < writes.length; i += 450) {
+            const batch = this.db.batch();
+            writes.slice(i, i + 450).forEach(write => write(batch));
+            await batch.commit();
+        }
+    }
+
     // --- Transactions ---
+    // Legacy adjustments are brought up to date on read, so totals can rely on the type alone
+    private toTransactions(snapshot: firebase.firestore.QuerySnapshot): Transaction[] {
+        return snapshot.docs.map(doc => accountService.migrateTransaction({ id: doc.id, ...doc.data() } as Transaction));
+    }
+
     // Changed from subscribe (realtime) to fetch (one-time) to save costs
     async fetchTransactions(uid: string): Promise<Transaction[]> {
         const snapshot = await this.getCollection(uid, 'finance_transactions')
@@ -45,10 +64,7 @@ class FinancialService {
             .limit(100)
             .get();
 
-        return snapshot.docs.map(doc => ({
-            id: doc.id,
-            ...doc.data()
-        })) as Transaction[];
+        return this.toTransactions(snapshot);
     }
 
     async getTransactionsPaged(uid: string, limit: number, lastDoc: any = null) {
@@ -61,10 +77,7 @@ class FinancialService {
         }
 
         const snapshot = await query.get();
-        const data = snapshot.docs.map(doc => ({
-            id: doc.id,
-            ...doc.data()
-        })) as Transaction[];
+        const data = this.toTransactions(snapshot);
 
         return {
             data,
@@ -73,18 +86,88 @@ class FinancialService {
         };
     }
 
-    async addTransaction(uid: string, transaction: Omit<Transaction, 'id'>) {
-        await this.getCollection(uid, 'finance_transactions').add({
+    async addTransaction(uid: string, transaction: Omit<Transaction, 'id'>): Promise<string> {
+        const ref = await this.getCollection(uid, 'finance_transactions').add({
             ...transaction,
             amount: Number(transaction.amount),
             createdAt: firebase.firestore.FieldValue.serverTimestamp()
         });
+        return ref.id;
+    }
+
+    // Used by the statement importer to de-duplicate against everything in the file's date range
+    async fetchTransactionsInRange(uid: string, from: string, to: string): Promise<Transaction[]> {
+        const snapshot = await this.getCollection(uid, 'finance_transactions')
+            .where('date', '>=', from)
+            .where('date', '<=', to)
+            .get();
+
+        return this.toTransactions(snapshot);
+    }
+
+    async batchImportTransactions(uid: string, transactions: Omit<Transaction, 'id'>[], source: string): Promise<number> {
+        const ref = this.getCollection(uid, 'finance_transactions');
+        await this.commitInBatches(transactions.map(t => (batch: firebase.firestore.WriteBatch) => {
+            batch.set(ref.doc(), {
+                date: t.date,
+                amount: Number(t.amount),
+                type: t.type,
+                category: t.category,
+                description: t.description || '',
+                accountId: t.accountId || null,
+                importSource: source,
+                externalId: t.externalId || null,
+                createdAt: firebase.firestore.FieldValue.serverTimestamp()
+            });
+        }));
+        return transactions.length;
     }
 
     async deleteTransaction(uid: string, id: string) {
         await this.getCollection(uid, 'finance_transactions').doc(id).delete();
     }
 
+    // --- Accounts / Wallets ---
+    async fetchAccounts(uid: string): Promise<FinanceAccount[]> {
+        const snapshot = await this.getCollection(uid, 'finance_accounts').get();
+        return snapshot.docs.map(doc => ({
+            id: doc.id,
+            ...doc.data()
+        })) as FinanceAccount[];
+    }
+
+    async saveAccount(uid: string, account: FinanceAccount) {
+        const docId = (account.id && account.id.length > 15) ? account.id : undefined;
+        const data = {
+            name: account.name,
+            type: account.type,
+            openingBalance: Number(account.openingBalance) || 0,
+            provider: account.provider || null,
+            isDefault: !!account.isDefault,
+            isArchived: !!account.isArchived,
+            lastReconciledAt: account.lastReconciledAt || null,
+            lastReconciledBalance: account.lastReconciledBalance ?? null,
+            updatedAt: firebase.firestore.FieldValue.serverTimestamp()
+        };
+
+        if (docId) {
+            await this.getCollection(uid, 'finance_accounts').doc(docId).set(data, { merge: true });
+        } else {
+            await this.getCollection(uid, 'finance_accounts').add(data);
+        }
+    }
+
+    async deleteAccount(uid: string, id: string) {
+        await this.getCollection(uid, 'finance_accounts').doc(id).delete();
+    }
+
+    // Balances need the full history (fetchTransactions is capped at 100), so this reads every transaction
+    async fetchAccountBalances(uid: string, accounts: FinanceAccount[]): Promise<Record<string, AccountBalance>> {
+        const snapshot = await this.getCollection(uid, 'finance_transactions').get();
+        const all = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as Transaction[];
+        return accountService.computeBalances(accounts, all);
+    }
+
     // --- Budgets ---
     // Changed from subscribe (realtime) to fetch (one-time)
     async fetchBudgets(uid: string): Promise<BudgetCategory[]> {
@@ -135,6 +218,9 @@ class FinancialService {
             type: goal.type,
             deadline: goal.deadline || null,
             color: goal.color || 'bg-blue-500',
+            currency: goal.currency || null,
+            originalAmount: goal.currency ? Number(goal.originalAmount) : null,
+            fxRate: goal.currency ? Number(goal.fxRate) : null,
             updatedAt: firebase.firestore.FieldValue.serverTimestamp()
         };
 
@@ -168,6 +254,9 @@ class FinancialService {
             dueDate: debt.dueDate || null,
             note: debt.note || null,
             isPaid: !!debt.isPaid,
+            currency: debt.currency || null,
+            originalAmount: debt.currency ? Number(debt.originalAmount) : null,
+            fxRate: debt.currency ? Number(debt.fxRate) : null,
             updatedAt: firebase.firestore.FieldValue.serverTimestamp()
         };
 
@@ -182,6 +271,152 @@ class FinancialService {
         await this.getCollection(uid, 'finance_debts').doc(id).delete();
     }
 
+    // --- Recurring Rules (subscriptions, salary, rent...) ---
+    async fetchRecurringRules(uid: string): Promise<RecurringRule[]> {
+        const snapshot = await this.getCollection(uid, 'finance_recurring').get();
+        return snapshot.docs.map(doc => ({
+            id: doc.id,
+            skipDates: [],
+            ...doc.data()
+        })) as RecurringRule[];
+    }
+
+    async saveRecurringRule(uid: string, rule: RecurringRule) {
+        const docId = (rule.id && rule.id.length > 15) ? rule.id : undefined;
+        const data = {
+            name: rule.name,
+            amount: Number(rule.amount),
+            type: rule.type,
+            category: rule.category,
+            description: rule.description || null,
+            frequency: rule.frequency,
+            interval: Math.max(1, Number(rule.interval) || 1),
+            startDate: rule.startDate,
+            endDate: rule.endDate || null,
+            skipDates: rule.skipDates || [],
+            lastMaterializedDate: rule.lastMaterializedDate || null,
+            isActive: rule.isActive !== false,
+            accountId: rule.accountId || null,
+            updatedAt: firebase.firestore.FieldValue.serverTimestamp()
+        };
+
+        if (docId) {
+            await this.getCollection(uid, 'finance_recurring').doc(docId).set(data, { merge: true });
+        } else {
+            await this.getCollection(uid, 'finance_recurring').add(data);
+        }
+    }
+
+    async deleteRecurringRule(uid: string, id: string) {
+        await this.getCollection(uid, 'finance_recurring').doc(id).delete();
+    }
+
+    // Write every occurrence that became due since the last run. Transaction doc ids are
+    // derived from rule + date, so concurrent runs on several devices stay idempotent.
+    async materializeRecurring(uid: string, rules: RecurringRule[]): Promise<RecurringRule[]> {
+        const result = recurringService.materialize(rules);
+        if (result.changedRuleIds.length === 0) return rules;
+
+        const transRef = this.getCollection(uid, 'finance_transactions');
+        const ruleRef = this.getCollection(uid, 'finance_recurring');
+        const writes: ((batch: firebase.firestore.WriteBatch) => void)[] = [];
+
+        result.transactions.forEach(t => {
+            const { id, ...data } = t;
+            writes.push(batch => batch.set(transRef.doc(id), {
+                ...data,
+                createdAt: firebase.firestore.FieldValue.serverTimestamp()
+            }));
+        });
+        result.rules
+            .filter(r => result.changedRuleIds.includes(r.id))
+            .forEach(r => writes.push(batch => batch.update(ruleRef.doc(r.id), { lastMaterializedDate: r.lastMaterializedDate })));
+
+        await this.commitInBatches(writes);
+        return result.rules;
+    }
+
+    // --- Investment Holdings (lots are stored inline: a holding rarely has more than a few dozen) ---
+    async fetchHoldings(uid: string): Promise<InvestmentHolding[]> {
+        const snapshot = await this.getCollection(uid, 'finance_holdings').get();
+        return snapshot.docs.map(doc => ({
+            id: doc.id,
+            lots: [],
+            ...doc.data()
+        })) as InvestmentHolding[];
+    }
+
+    async saveHolding(uid: string, holding: InvestmentHolding) {
+        const docId = (holding.id && holding.id.length > 15) ? holding.id : undefined;
+        const data = {
+            name: holding.name,
+            assetClass: holding.assetClass,
+            symbol: holding.symbol || null,
+            lots: (holding.lots || []).map(l => ({
+                id: l.id,
+                date: l.date,
+                side: l.side,
+                quantity: Number(l.quantity),
+                price: Number(l.price),
+                fee: Number(l.fee) || 0,
+                transactionId: l.transactionId || null
+            })),
+            manualPrice: holding.manualPrice ?? null,
+            manualPriceAt: holding.manualPriceAt || null,
+            budgetCategoryId: holding.budgetCategoryId || null,
+            interestRate: holding.interestRate ?? null,
+            maturityDate: holding.maturityDate || null,
+            updatedAt: firebase.firestore.FieldValue.serverTimestamp()
+        };
+
+        if (docId) {
+            await this.getCollection(uid, 'finance_holdings').doc(docId).set(data, { merge: true });
+        } else {
+            await this.getCollection(uid, 'finance_holdings').add(data);
+        }
+    }
+
+    async deleteHolding(uid: string, id: string) {
+        await this.getCollection(uid, 'finance_holdings').doc(id).delete();
+    }
+
+    // --- Market History (one doc per day holding the daily close of every symbol) ---
+    async syncMarketHistory(uid: string) {
+        const ref = this.getCollection(uid, 'market_history');
+        const now = Date.now();
+
+        // Fresh install / new device: backfill a year of daily closes before charts are drawn
+        const earliest = await priceHistoryService.earliestTimestamp(HISTORY_SYMBOLS);
+        if (earliest === null || now - earliest < 7 * DAY_MS) {
+            const snapshot = await ref.where('date', '>=', toDateKey(new Date(now - 365 * DAY_MS))).get();
+            const points: PricePoint[] = snapshot.docs.flatMap(doc => {
+                const data = doc.data();
+                const ts = new Date(`${data.date}T12:00:00`).getTime();
+                return Object.entries(data.prices || {}).map(([symbol, p]: [string, any]) => ({
+                    symbol, ts, price: Number(p.price), ...(p.bid ? { bid: Number(p.bid) } : {}),
+                    ...(p.source ? { source: p.source } : {}), ...(p.isStale ? { isStale: true } : {})
+                }));
+            });
+            await priceHistoryService.importPoints(points);
+        }
+
+        const today = toDateKey(new Date(now));
+        const prices: Record<string, { price: number; bid: number | null; source: string | null; isStale: boolean }> = {};
+        for (const symbol of HISTORY_SYMBOLS) {
+            const last = await priceHistoryService.lastPoint(symbol);
+            if (last && toDateKey(new Date(last.ts)) === today) {
+                prices[symbol] = { price: last.price, bid: last.bid ?? null, source: last.source ?? null, isStale: !!last.isStale };
+            }
+        }
+        if (Object.keys(prices).length === 0) return;
+
+        await ref.doc(today).set({
+            date: today,
+            prices,
+            updatedAt: firebase.firestore.FieldValue.serverTimestamp()
+        }, { merge: true });
+    }
+
     // --- AI Analysis ---
     async calculateAvgIncome(uid: string): Promise<number> {
         try {
@@ -195,7 +430,10 @@ class FinancialService {
 
             if (snapshot.empty) return 0;
 
-            const totalIncome = snapshot.docs.reduce((sum, doc) => sum + doc.data().amount, 0);
+            // Legacy reconciliation adjustments were stored as income
+            const totalIncome = snapshot.docs
+                .filter(doc => doc.data().category !== ADJUSTMENT_CATEGORY)
+                .reduce((sum, doc) => sum + doc.data().amount, 0);
             return Math.round(totalIncome / 3);
         } catch (e) {
             console.error("Error calc avg income", e);
@@ -203,14 +441,25 @@ class FinancialService {
         }
     }
 
-    async generateWeeklyMarketAnalysis(uid: string, marketData: MarketData): Promise<MarketAnalysisResult> {
+    async generateWeeklyMarketAnalysis(uid: string, marketData: MarketData, options: AICallOptions = {}): Promise<MarketAnalysisResult> {
+        // Tell the model which numbers are not live so it does not over-interpret them
+        const sourceOf = (symbol: string) => {
+            const item = marketData.items.find(i => i.symbol === symbol);
+            return item ? ` (source: ${item.source || 'unknown'}${item.isStale ? ', NOT LIVE' : ''})` : '';
+        };
         const marketSummary = `
-      - VN-Index: ${marketData.vnIndex.value}
-      - SJC Gold: Sell ${marketData.sjcGold.sell} / Buy ${marketData.sjcGold.buy}
-      - World Gold: $${marketData.items.find(i => i.symbol === 'XAU')?.price}/oz
-      - USD/VND: ${marketData.items.find(i => i.symbol === 'USD')?.price}
+      - VN-Index: ${marketData.vnIndex.value}${sourceOf('VNINDEX')}
+      - SJC Gold: Sell ${marketData.sjcGold.sell} / Buy ${marketData.sjcGold.buy}${sourceOf('SJC')}
+      - World Gold: $${marketData.items.find(i => i.symbol === 'XAU')?.price}/oz${sourceOf('XAU')}
+      - USD/VND: ${marketData.items.find(i => i.symbol === 'USD')?.price}${sourceOf('USD')}
       `;
 
+        // Recorded snapshots give the model real trends instead of a single point in time
+        const trends = await priceHistoryService.describeTrends(HISTORY_SYMBOLS).catch(e => {
+            console.warn("Market history unavailable", e);
+            return '';
+        });
+
         const prompt = `
       Role: Senior Financial Analyst & Economist for Vietnam Market.
       Context: Comprehensive Weekly Market Analysis Report.
@@ -218,10 +467,13 @@ class FinancialService {
       
       LIVE Data Snapshot:
       ${marketSummary}
+
+      Price History (last 30 days, recorded snapshots; SJC shows sell/buy):
+      ${trends || 'No history recorded yet - rely on the snapshot above.'}
       
       MANDATORY ANALYSIS REQUIREMENTS:
       You must analyze and provide insights on the following specific topics based on the live data and your general knowledge of the current Vietnam economic context:
-      1. **Gold Market**: Analyze SJC vs World spread, trends.
+      1. **Gold Market**: Analyze SJC vs World spread, trends (use the price history when available).
       2. **Foreign Exchange (Forex)**: Focus on USD/VND trends.
       3. **General Economic Market**: Overall sentiment.
       4. **Vietnam Market**: Specific local factors.
@@ -246,10 +498,10 @@ class FinancialService {
       }
       `;
 
-        return await geminiService.analyzeMarket(prompt);
+        return await geminiService.analyzeMarket(prompt, options);
     }
 
-    async getMarketNews(): Promise<string> {
+    async getMarketNews(options: AICallOptions = {}): Promise<string> {
         const today = new Date().toLocaleDateString('vi-VN');
         const prompt = `
       Bạn là chuyên gia tin tức tài chính. Hãy tìm kiếm thông tin mới nhất trên internet (Google Search) về hai chủ đề sau tại Việt Nam ngày hôm nay (${today}):
@@ -259,7 +511,7 @@ class FinancialService {
       Hãy tổng hợp thành một báo cáo ngắn gọn (Markdown), chia làm 2 phần rõ rệt: "💰 Tin Tài Chính" và "🏘️ Tin Bất Động Sản".
       Với mỗi tin, hãy kèm theo nguồn (nếu có) dưới dạng liên kết.
       `;
-        return await geminiService.searchContent(prompt);
+        return await geminiService.searchContent(prompt, options);
     }
 
     // --- Batch Operations ---
@@ -4,7 +4,9 @@ import "firebase/compat/auth";
 import "firebase/compat/firestore";
 import "firebase/compat/storage";
 import { initializeFirestore, persistentLocalCache } from "firebase/firestore";
-import { CourseNode, SpeakingSession } from "../types";
+import { CourseNode, SpeakingSession, FinanceAccount, Transaction } from "../types";
+import { syncService, threeWayMerge, snapshotsEqual, isSyncableArray, ModuleSnapshot } from "./sync";
+import { accountService, AccountSummary } from "./accounts";
 
 // Cấu hình Firebase
 const firebaseConfig = {
@@ -65,6 +67,13 @@ class FirebaseService {
         this.db = firebase.firestore();
         this.storage = firebase.storage();
         console.log("✅ Firebase Service Initialized (v12.6.0 Compatible)");
+
+        // Flush queued offline mutations when connectivity or auth comes back
+        if (typeof window !== 'undefined') {
+            window.addEventListener('online', () => this.flushOutbox());
+            window.addEventListener('offline', () => syncService.setStatus('offline'));
+        }
+        this.auth.onAuthStateChanged(user => { if (user) this.flushOutbox(); });
     }
 
     // --- UTILS ---
@@ -378,48 +387,121 @@ class FirebaseService {
 
     async getUserData(moduleName: string): Promise<any> {
         const localKey = `dh_${moduleName}`;
-        // Always try to fetch cloud data if possible to keep sync
-        if (this.currentUser) {
-            // Note: We use isCloudStorageEnabled() to verify if we SHOULD pull data
-            // If storage is disabled, we rely on local.
-            const hasStorage = await this.isCloudStorageEnabled();
-            if (hasStorage) {
-                try {
-                    const docSnap = await this.db.collection("users").doc(this.currentUser.uid).collection("modules").doc(moduleName).get();
-                    if (docSnap.exists) {
-                        const cloudData = docSnap.data()?.data;
-                        if (cloudData) {
-                            localStorage.setItem(localKey, JSON.stringify(cloudData));
-                            return cloudData;
-                        }
-                    }
-                } catch (e) {
-                    console.warn(`[Cloud] Load error for ${moduleName}`, e);
+        const localRaw = localStorage.getItem(localKey);
+        const localData = localRaw ? JSON.parse(localRaw) : null;
+
+        // Record arrays go through the sync engine (three-way merge with the cloud copy)
+        if (localData === null || isSyncableArray(localData)) {
+            const merged = await this.syncModule(moduleName, true);
+            if (merged) return merged.records;
+            const current = localStorage.getItem(localKey);
+            return current ? JSON.parse(current) : null;
+        }
+
+        // Legacy non-record blobs: prefer the cloud copy
+        if (this.currentUser && await this.isCloudStorageEnabled()) {
+            try {
+                const docSnap = await this.moduleDoc(this.currentUser.uid, moduleName).get();
+                const cloudData = docSnap.exists ? docSnap.data()?.data : null;
+                if (cloudData) {
+                    localStorage.setItem(localKey, JSON.stringify(cloudData));
+                    return cloudData;
                 }
+            } catch (e) {
+                console.warn(`[Cloud] Load error for ${moduleName}`, e);
             }
         }
-        const localData = localStorage.getItem(localKey);
-        return localData ? JSON.parse(localData) : null;
+        return localData;
     }
 
     async saveUserData(moduleName: string, data: any) {
         const localKey = `dh_${moduleName}`;
         const sanitizedData = this.cleanData(data);
+
+        if (isSyncableArray(sanitizedData)) {
+            syncService.recordLocalChange(moduleName, sanitizedData);
+            await this.syncModule(moduleName, false);
+            return;
+        }
+
         localStorage.setItem(localKey, JSON.stringify(sanitizedData));
+        if (this.currentUser && await this.isCloudStorageEnabled()) {
+            try {
+                await this.moduleDoc(this.currentUser.uid, moduleName).set({
+                    data: sanitizedData,
+                    updatedAt: Date.now(),
+                    module: moduleName
+                }, { merge: true });
+            } catch (e) {
+                console.error(`[Cloud] Save error for ${moduleName}`, e);
+            }
+        }
+    }
 
-        if (this.currentUser) {
-            const hasStorage = await this.isCloudStorageEnabled();
-            if (hasStorage) {
-                try {
-                    await this.db.collection("users").doc(this.currentUser.uid).collection("modules").doc(moduleName).set({
-                        data: sanitizedData,
-                        updatedAt: Date.now(),
-                        module: moduleName
-                    }, { merge: true });
-                } catch (e) {
-                    console.error(`[Cloud] Save error for ${moduleName}`, e);
-                }
+    // --- SYNC ENGINE ---
+    private moduleDoc(uid: string, moduleName: string) {
+        return this.db.collection("users").doc(uid).collection("modules").doc(moduleName);
+    }
+
+    /**
+     * Pull the cloud copy of a module, three-way merge it with local changes and push the
+     * result back if the cloud is behind. Returns the merged snapshot, or null when the
+     * cloud is unavailable (data stays local and the outbox keeps the pending mutations).
+     * `adoptRemote` marks records pulled from the cloud as part of the caller's state.
+     */
+    private async syncModule(moduleName: string, adoptRemote: boolean): Promise<ModuleSnapshot | null> {
+        if (!this.currentUser) {
+            syncService.setStatus('local');
+            return null;
+        }
+        if (typeof navigator !== 'undefined' && !navigator.onLine) {
+            syncService.setStatus('offline');
+            return null;
+        }
+        const hasStorage = await this.isCloudStorageEnabled();
+        if (!hasStorage) {
+            syncService.setStatus('local');
+            return null;
+        }
+
+        const startedAt = Date.now();
+        syncService.setStatus('syncing');
+        try {
+            const ref = this.moduleDoc(this.currentUser.uid, moduleName);
+            const docSnap = await ref.get();
+            const docData = docSnap.exists ? docSnap.data() : null;
+            const remote: ModuleSnapshot = {
+                records: isSyncableArray(docData?.data) ? docData!.data : [],
+                tombstones: docData?.tombstones || []
+            };
+            const local = syncService.getLocalSnapshot(moduleName);
+            const merged = threeWayMerge(syncService.getBase(moduleName), local, remote);
+
+            if (!snapshotsEqual(merged, remote)) {
+                await ref.set(this.cleanData({
+                    data: merged.records,
+                    tombstones: merged.tombstones,
+                    updatedAt: Date.now(),
+                    module: moduleName
+                }), { merge: true });
             }
+
+            const trackedIds = adoptRemote ? undefined : new Set(local.records.map(r => r.id));
+            syncService.applyMerged(moduleName, merged, trackedIds);
+            syncService.clearOutbox(moduleName, startedAt);
+            syncService.setStatus('synced');
+            return merged;
+        } catch (e: any) {
+            console.warn(`[Sync] ${moduleName} failed, keeping changes queued`, e);
+            syncService.setStatus(navigator.onLine ? 'error' : 'offline', e?.message);
+            return null;
+        }
+    }
+
+    async flushOutbox() {
+        const modules = syncService.pendingModules();
+        for (const moduleName of modules) {
+            await this.syncModule(moduleName, false);
         }
     }
 
@@ -513,6 +595,7 @@ class FirebaseService {
 
     async getGlobalStats(uid: string) {
         let financeBalance = 0;
+        let accountBalances: AccountSummary[] = [];
         let vocabCount = 0;
         let pendingTasks = 0;
         let activeHabits = 0;
@@ -528,16 +611,18 @@ class FirebaseService {
             const hasStorage = await this.isCloudStorageEnabled();
 
             if (hasStorage) {
-                const transRef = this.db.collection('users').doc(uid).collection('finance_transactions');
-                const transSnap = await transRef.get();
-                if (!transSnap.empty) {
-                    transSnap.forEach(doc => {
-                        const d = doc.data();
-                        const amt = Number(d.amount) || 0;
-                        if (d.type === 'income') financeBalance += amt;
-                        else if (d.type === 'expense') financeBalance -= amt;
-                    });
-                }
+                // Balance per account (opening balance + income - expense, transfers net out)
+                const userRef = this.db.collection('users').doc(uid);
+                const [transSnap, accountSnap] = await Promise.all([
+                    userRef.collection('finance_transactions').get(),
+                    userRef.collection('finance_accounts').get()
+                ]);
+                const accounts = accountSnap.docs.map(doc => ({ id: doc.id, ...doc.data() })) as FinanceAccount[];
+                const transactions = transSnap.docs.map(doc => ({ id: doc.id, ...doc.data() })) as Transaction[];
+                const balances = accountService.computeBalances(accounts, transactions);
+
+                financeBalance = accountService.totalBalance(balances, accounts);
+                accountBalances = accountService.summarize(accounts, balances);
 
                 const vDoc = await this.db.collection("users").doc(uid).collection("modules").doc("vocab_terms").get();
                 if (vDoc.exists) vocabCount = (vDoc.data()?.data || []).length;
@@ -556,7 +641,7 @@ class FirebaseService {
             console.error("Error aggregating global stats", e);
         }
 
-        return { financeBalance, vocabCount, pendingTasks, activeHabits, habitStreak };
+        return { financeBalance, accountBalances, vocabCount, pendingTasks, activeHabits, habitStreak };
     }
 
     async checkHealth(): Promise<{ dbLatency: number, status: 'ok' | 'degraded' | 'offline' }> {
@@ -1,8 +1,29 @@
 
-import { GoogleGenAI, LiveServerMessage, Modality, GenerateContentResponse, Chat, Content, Type } from "@google/genai";
+import { LiveServerMessage, Modality } from "@google/genai";
 import { Transaction } from "../types";
 import { MarketAnalysisResult } from "./financial";
 import { firebaseService } from "./firebase";
+import { AIProvider, AIFeature, AIMessage, AIRequest, AISettings, AIStreamChunk, AIToolDeclaration, AIJSONParseError, GeminiProvider, createAIProvider, defaultAISettings, loadAISettings, saveAISettings, modelFor } from "./aiProviders";
+import {
+  Schema, SchemaError, WRITING_ERROR_CATEGORIES, VocabSuggestion, GrammarQuestion, GrammarGrading, EssayGrading, ReadingPassage, DictionaryEntry, PronunciationAssessment, SpeakingAnswerGrading, ListeningExercise,
+  vocabListSchema, grammarQuizSchema, grammarGradingSchema, essayGradingSchema, readingPassageSchema, dictionaryEntrySchema, pronunciationAssessmentSchema,
+  speakingAnswerGradingSchema, listeningExerciseSchema
+} from "./aiSchemas";
+import { aiUsageService } from "./aiUsage";
+import { aiCacheService, AICacheOptions, AI_CACHE_TTL } from "./aiCache";
+import { ResilientProvider, AI_TIMEOUT_MS, isAbortError } from "./aiPipeline";
+
+// Unique ids (answers are keyed by id) and correctAnswer spelled exactly like its option, so the
+// quiz can be graded locally. Questions whose answer matches no option are dropped.
+const answerableQuiz = (questions: GrammarQuestion[]): GrammarQuestion[] => {
+  const norm = (text: string) => text.trim().toLowerCase();
+  const answerable = questions
+    .map(q => ({ ...q, correctAnswer: q.options.find(o => q.correctAnswer !== undefined && norm(o) === norm(q.correctAnswer)) }))
+    .filter(q => q.correctAnswer !== undefined);
+  const list = answerable.length > 0 ? answerable : questions;
+  const ids = new Set(list.map(q => q.id));
+  return ids.size === list.length && !ids.has(0) ? list : list.map((q, i) => ({ ...q, id: i + 1 }));
+};
 
 export function floatTo16BitPCM(input: Float32Array): ArrayBuffer {
   const output = new Int16Array(input.length);
@@ -57,12 +78,20 @@ export interface SpeakingSuggestion {
   vietnameseTranslation: string;
 }
 
-type AIProvider = 'google' | 'openai';
+// Every public AI method accepts these; `signal` cancels the call (retries and backoff included)
+export type AICallOptions = AICacheOptions;
+
+// Structured outputs get one repair attempt before the call fails
+const MAX_REPAIR_ATTEMPTS = 1;
+
+// Embedding size for the RAG index; plenty for personal notes and keeps IndexedDB small
+const EMBEDDING_DIMENSIONS = 768;
 
 class GeminiService {
-  private ai: GoogleGenAI | null = null;
+  private provider: AIProvider | null = null;       // Wrapped in the retry / timeout pipeline
+  private baseProvider: AIProvider | null = null;   // Raw adapter, needed for the Live API client
   private apiKey: string = '';
-  private provider: AIProvider = 'google';
+  private settings: AISettings;
 
   constructor() {
     const storedKey = typeof window !== 'undefined' ? localStorage.getItem('dh_gemini_api_key') : null;
@@ -74,25 +103,27 @@ class GeminiService {
     } catch (e) { }
 
     const keyToUse = storedKey || envKey;
+    this.settings = loadAISettings() || defaultAISettings(keyToUse);
     if (keyToUse) {
       this.initializeModel(keyToUse);
+    } else {
+      this.createProvider();
     }
   }
 
+  private createProvider() {
+    this.baseProvider = createAIProvider(this.settings, this.apiKey);
+    this.provider = this.baseProvider ? new ResilientProvider(this.baseProvider) : null;
+    if (this.provider) console.log(`🤖 AI Model Initialized (${this.provider.label} Provider)`);
+  }
+
   public initializeModel(apiKey: string) {
     if (!apiKey) return;
     this.apiKey = apiKey;
 
-    // Intelligent Provider Detection
-    if (apiKey.startsWith('sk-')) {
-      this.provider = 'openai';
-      this.ai = null; // OpenAI does not use the GoogleGenAI instance
-      console.log("🤖 AI Model Initialized (OpenAI Provider)");
-    } else {
-      this.provider = 'google';
-      this.ai = new GoogleGenAI({ apiKey: this.apiKey });
-      console.log("🤖 AI Model Initialized (Google Gemini Provider)");
-    }
+    // Until a provider is saved in Settings, keep the legacy default for this key
+    if (!loadAISettings()) this.settings = defaultAISettings(apiKey);
+    this.createProvider();
 
     if (typeof window !== 'undefined') {
       localStorage.setItem('dh_gemini_api_key', apiKey);
@@ -105,7 +136,7 @@ class GeminiService {
 
   public removeApiKey() {
     this.apiKey = '';
-    this.ai = null;
+    this.createProvider(); // A local provider keeps working without a key
     if (typeof window !== 'undefined') {
       localStorage.removeItem('dh_gemini_api_key');
     }
@@ -113,23 +144,36 @@ class GeminiService {
   }
 
   public hasKey(): boolean {
-    return !!this.apiKey;
+    return !!this.provider;
+  }
+
+  public getSettings(): AISettings {
+    return this.settings;
+  }
+
+  public updateSettings(settings: AISettings) {
+    this.settings = settings;
+    saveAISettings(settings);
+    this.createProvider();
+  }
+
+  public getProviderLabel(): string {
+    return this.provider?.label || '';
+  }
+
+  public supportsSearch(): boolean {
+    return !!this.provider?.supportsSearch;
   }
 
-  async validateKey(): Promise<boolean> {
-    if (!this.apiKey) return false;
+  public supportsLive(): boolean {
+    return !!this.provider?.supportsLive;
+  }
+
+  async validateKey(options: AICallOptions = {}): Promise<boolean> {
+    if (!this.provider) return false;
     try {
-      if (this.provider === 'openai') {
-        await this.callOpenAI("Hello", false);
-        return true;
-      } else {
-        if (!this.ai) return false;
-        await this.ai.models.generateContent({
-          model: 'gemini-2.5-flash',
-          contents: 'Hello',
-        });
-        return true;
-      }
+      await this.provider.generateText({ model: this.model('chat'), prompt: 'Hello', signal: options.signal, timeoutMs: AI_TIMEOUT_MS.chat });
+      return true;
     } catch (e) {
       console.error("API Key Validation Failed:", e);
       return false;
@@ -156,45 +200,84 @@ class GeminiService {
       throw new Error(specificErrorMsg);
     }
 
-    // 3. Check API Key existence (Double check)
-    if (!this.apiKey) {
+    // 3. Check provider / API Key existence (Double check)
+    if (!this.provider) {
       throw new Error("Vui lòng nhập API Key trong phần Cài đặt.");
     }
+
+    // 4. Per-tier daily / monthly quota
+    await aiUsageService.checkQuota(user.uid);
   }
 
-  // --- OPENAI ADAPTER HELPER ---
-  private async callOpenAI(prompt: string, jsonMode: boolean = false, systemInstruction?: string): Promise<string> {
-    // Ensure system instruction exists for JSON mode to improve reliability
-    const effectiveSystemInstruction = systemInstruction || (jsonMode ? "You are a helpful assistant. You must output strictly valid JSON." : undefined);
+  private model(feature: AIFeature): string {
+    return modelFor(this.settings, feature);
+  }
 
-    const messages = [];
-    if (effectiveSystemInstruction) messages.push({ role: "system", content: effectiveSystemInstruction });
-    messages.push({ role: "user", content: prompt });
+  private get ai(): AIProvider {
+    if (!this.provider) throw new Error("Vui lòng nhập API Key trong phần Cài đặt.");
+    return this.provider;
+  }
 
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${this.apiKey}`
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini", // Use cost-effective model as default
-        messages: messages,
-        response_format: jsonMode ? { type: "json_object" } : undefined
-      })
-    });
+  // Every provider call is built here so its token usage is metered against `feature`
+  private request(feature: AIFeature, fields: Omit<AIRequest, 'model' | 'onUsage' | 'signal' | 'timeoutMs'>, options: AICallOptions = {}): AIRequest {
+    const providerId = this.ai.id;
+    const model = this.model(feature);
+    return {
+      ...fields,
+      model,
+      signal: options.signal,
+      timeoutMs: AI_TIMEOUT_MS[feature],
+      onUsage: usage => { aiUsageService.record(feature, providerId, model, usage); }
+    };
+  }
+
+  // Repeatable requests are answered from aiCacheService while fresh (TTL per feature)
+  private async cached<T>(feature: AIFeature, prompt: string, options: AICallOptions, run: () => Promise<T>): Promise<T> {
+    const key = await aiCacheService.key(feature, this.ai.id, this.model(feature), prompt);
+    return aiCacheService.getOrCreate(key, feature, AI_CACHE_TTL[feature], run, options);
+  }
+
+  /**
+   * JSON validated against `schema`. Arrays are requested wrapped in an object (`{ "<arrayKey>": [...] }`)
+   * so every provider's JSON mode accepts them. Invalid JSON or a schema mismatch gets one repair
+   * round-trip where the model sees its previous answer and what was wrong with it.
+   */
+  private async structured<T>(feature: AIFeature, prompt: string, schema: Schema<T>, arrayKey?: string, options: AICallOptions = {}, attachments: Pick<AIRequest, 'audio'> = {}): Promise<T> {
+    let previous = '';
+    let problem = '';
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      const request = attempt === 0 ? prompt : `${prompt}
+
+      Your previous answer was rejected: ${problem}
+      Previous answer: ${previous.slice(0, 4000)}
+      Return ONLY the corrected JSON, following the required structure exactly.`;
+
+      let parsed: any;
+      try {
+        parsed = await this.ai.generateJSON(this.request(feature, { prompt: request, ...attachments }, options));
+      } catch (e) {
+        if (!(e instanceof AIJSONParseError)) throw e;
+        previous = e.raw;
+        problem = e.message;
+        continue;
+      }
 
-    if (!response.ok) {
-      const err = await response.json();
-      throw new Error(err.error?.message || "OpenAI API Error");
+      try {
+        return schema.parse(arrayKey && !Array.isArray(parsed) ? parsed?.[arrayKey] : parsed, arrayKey || '');
+      } catch (e) {
+        if (!(e instanceof SchemaError)) throw e;
+        previous = JSON.stringify(parsed);
+        problem = e.message;
+      }
     }
 
-    const data = await response.json();
-    return data.choices[0].message.content || "";
+    console.error(`AI Structured Output Error (${feature})`, problem);
+    throw new Error("AI trả về dữ liệu không đúng định dạng. Vui lòng thử lại.");
   }
 
   // --- 1. CURRENT SITUATION ANALYSIS ---
-  async analyzeFinancialSituation(transactions: Transaction[]): Promise<AIFinancialAnalysis> {
+  async analyzeFinancialSituation(transactions: Transaction[], options: AICallOptions = {}): Promise<AIFinancialAnalysis> {
     await this.enforcePolicy();
     const recentTrans = transactions.slice(0, 100).map(t => ({
       date: t.date, amount: t.amount, type: t.type, category: t.category
@@ -221,18 +304,7 @@ class GeminiService {
       `;
 
     try {
-      let text = '';
-      if (this.provider === 'openai') {
-        text = await this.callOpenAI(prompt, true);
-      } else {
-        const response = await this.ai!.models.generateContent({
-          model: 'gemini-2.5-flash',
-          contents: prompt,
-          config: { responseMimeType: 'application/json' }
-        });
-        text = response.text || '{}';
-      }
-      return JSON.parse(text.replace(/```json|```/g, '').trim());
+      return await this.cached('finance', prompt, options, () => this.ai.generateJSON<AIFinancialAnalysis>(this.request('finance', { prompt }, options)));
     } catch (e) {
       console.error("AI Analysis Error", e);
       throw e;
@@ -240,7 +312,7 @@ class GeminiService {
   }
 
   // --- 2. PLAN BUILDER (Budget, Goals, Debt) ---
-  async buildFinancialPlan(transactions: Transaction[]): Promise<AIFinancialPlan> {
+  async buildFinancialPlan(transactions: Transaction[], options: AICallOptions = {}): Promise<AIFinancialPlan> {
     await this.enforcePolicy();
 
     const recentTrans = transactions.slice(0, 100).map(t => ({
@@ -272,18 +344,7 @@ class GeminiService {
     `;
 
     try {
-      let text = '';
-      if (this.provider === 'openai') {
-        text = await this.callOpenAI(prompt, true);
-      } else {
-        const response = await this.ai!.models.generateContent({
-          model: 'gemini-2.5-flash',
-          contents: prompt,
-          config: { responseMimeType: 'application/json' }
-        });
-        text = response.text || '{}';
-      }
-      return JSON.parse(text.replace(/```json|```/g, '').trim());
+      return await this.cached('finance', prompt, options, () => this.ai.generateJSON<AIFinancialPlan>(this.request('finance', { prompt }, options)));
     } catch (e) {
       console.error("AI Planning Error", e);
       throw e;
@@ -291,49 +352,31 @@ class GeminiService {
   }
 
   // Keep this for backward compatibility if needed, but implementation routes to buildFinancialPlan
-  async analyzeFinances(transactions: Transaction[]): Promise<AIFinancialPlan> {
-    return this.buildFinancialPlan(transactions);
+  async analyzeFinances(transactions: Transaction[], options: AICallOptions = {}): Promise<AIFinancialPlan> {
+    return this.buildFinancialPlan(transactions, options);
   }
 
-  async analyzeMarket(prompt: string): Promise<MarketAnalysisResult> {
+  async analyzeMarket(prompt: string, options: AICallOptions = {}): Promise<MarketAnalysisResult> {
     await this.enforcePolicy();
     try {
-      let text = '';
-      if (this.provider === 'openai') {
-        // Ensure prompt explicitly asks for JSON for OpenAI
-        text = await this.callOpenAI(prompt + "\nIMPORTANT: Return strictly valid JSON object matching the schema.", true);
-      } else {
-        const response = await this.ai!.models.generateContent({
-          model: 'gemini-2.5-flash',
-          contents: prompt,
-          config: { responseMimeType: 'application/json' }
-        });
-        text = response.text || '{}';
-      }
-      return JSON.parse(text.replace(/```json|```/g, '').trim());
+      return await this.cached('market', prompt, options, () => this.ai.generateJSON<MarketAnalysisResult>(this.request('market', {
+        prompt: prompt + "\nIMPORTANT: Return strictly valid JSON object matching the schema."
+      }, options)));
     } catch (e) {
       console.error("AI Market Analysis Error", e);
       throw e;
     }
   }
 
-  async searchContent(prompt: string): Promise<string> {
+  async searchContent(prompt: string, options: AICallOptions = {}): Promise<string> {
     await this.enforcePolicy();
     try {
-      if (this.provider === 'openai') {
-        // OpenAI does not support Google Search grounding directly. 
-        // We will just ask the model (knowledge cutoff might apply).
-        return await this.callOpenAI(prompt + "\n(Note: Provide best known info, indicate if data might be outdated)", false);
-      } else {
-        const response = await this.ai!.models.generateContent({
-          model: 'gemini-2.5-flash',
-          contents: prompt,
-          config: {
-            tools: [{ googleSearch: {} }],
-          }
-        });
-        return response.text || "Không tìm thấy thông tin.";
-      }
+      // Without search grounding the model answers from its own knowledge (cutoff might apply)
+      const text = await this.cached('market', prompt, options, () => this.ai.generateText(this.request('market', {
+        prompt: this.ai.supportsSearch ? prompt : prompt + "\n(Note: Provide best known info, indicate if data might be outdated)",
+        useSearch: true
+      }, options)));
+      return text || "Không tìm thấy thông tin.";
     } catch (e) {
       console.error("Search Error", e);
       throw e;
@@ -343,223 +386,171 @@ class GeminiService {
   async *chatStream(
     history: { role: string, parts: { text: string }[] }[],
     message: string,
-    systemInstruction: string
-  ) {
+    systemInstruction: string,
+    options: AICallOptions = {}
+  ): AsyncGenerator<AIStreamChunk> {
     // Policy check inside will throw if guest
     await this.enforcePolicy();
 
-    if (this.provider === 'openai') {
-      // OpenAI Adapter for Streaming
-      const messages = history.map(h => ({
-        role: h.role === 'model' ? 'assistant' : 'user',
-        content: h.parts[0].text
-      }));
-      if (systemInstruction) messages.unshift({ role: "system", content: systemInstruction });
-      messages.push({ role: "user", content: message });
-
-      const response = await fetch("https://api.openai.com/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${this.apiKey}`
-        },
-        body: JSON.stringify({
-          model: "gpt-4o-mini",
-          messages: messages,
-          stream: true
-        })
-      });
-
-      if (!response.body) throw new Error("No response body from OpenAI");
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let buffer = '';
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (line.trim().startsWith('data: ')) {
-            const jsonStr = line.trim().slice(6);
-            if (jsonStr === '[DONE]') continue;
-            try {
-              const json = JSON.parse(jsonStr);
-              const content = json.choices[0]?.delta?.content || '';
-              if (content) {
-                // Mimic Google GenAI response structure
-                yield { text: content } as any;
-              }
-            } catch (e) { }
-          }
-        }
-      }
+    try {
+      yield* this.ai.stream(this.request('chat', {
+        prompt: message,
+        system: systemInstruction,
+        history: history.map(h => ({ role: h.role === 'model' ? 'model' : 'user', text: h.parts[0]?.text || '' })),
+        temperature: 0.7,
+        useSearch: true
+      }, options));
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error("Chat Stream Error:", error);
+      throw error;
+    }
+  }
 
-    } else {
-      // Google Gemini Implementation
-      const chat = this.ai!.chats.create({
-        model: 'gemini-2.5-flash',
-        config: {
-          systemInstruction: systemInstruction,
-          tools: [{ googleSearch: {} }],
-          temperature: 0.7,
-        },
-        history: history as Content[]
-      });
+  /**
+   * Chat turn where the model may call `tools` instead of (or before) answering. Tool calls come
+   * back as chunks; the caller runs them and continues with a 'tool' message and an empty prompt.
+   */
+  async *chatWithTools(
+    history: AIMessage[],
+    message: string,
+    systemInstruction: string,
+    tools: AIToolDeclaration[],
+    options: AICallOptions = {}
+  ): AsyncGenerator<AIStreamChunk> {
+    await this.enforcePolicy();
 
-      try {
-        const result = await chat.sendMessageStream({ message });
-        for await (const chunk of result) {
-          yield chunk as GenerateContentResponse;
-        }
-      } catch (error) {
-        console.error("Chat Stream Error:", error);
-        throw error;
-      }
+    try {
+      yield* this.ai.stream(this.request('chat', {
+        prompt: message,
+        system: systemInstruction,
+        history,
+        tools,
+        temperature: 0.7
+      }, options));
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error("Chat Tool Stream Error:", error);
+      throw error;
     }
   }
 
-  async generateDailyVocabulary(level: string, topic?: string) {
+  /**
+   * One vector per text, for the RAG index (rag.ts). Vectors are only comparable while
+   * `embeddingModelKey()` stays the same, so the index is rebuilt when it changes.
+   */
+  async embed(texts: string[], task: 'document' | 'query', options: AICallOptions = {}): Promise<number[][]> {
+    await this.enforcePolicy();
+    const providerId = this.ai.id;
+    const model = this.model('embedding');
+    return this.ai.embed({
+      model,
+      texts,
+      task,
+      dimensions: EMBEDDING_DIMENSIONS,
+      signal: options.signal,
+      timeoutMs: AI_TIMEOUT_MS.embedding,
+      onUsage: usage => { aiUsageService.record('embedding', providerId, model, usage); }
+    });
+  }
+
+  embeddingModelKey(): string {
+    return this.provider ? `${this.provider.id}:${this.model('embedding')}` : '';
+  }
+
+  async generateDailyVocabulary(level: string, topic?: string, options: AICallOptions = {}): Promise<VocabSuggestion[]> {
     await this.enforcePolicy();
     const topicInstruction = topic ? `focusing on the topic: "${topic}"` : 'on general topics';
 
-    // Default Prompt
-    let prompt = `Generate 5 advanced English vocabulary words for Level ${level} ${topicInstruction}. 
-    Return strictly JSON array of objects with:
+    const prompt = `Generate 5 advanced English vocabulary words for Level ${level} ${topicInstruction}. 
+    Return a strictly valid JSON object with a key "items" containing an array of objects with:
     - term: the word
     - ipa: IPA phonetic transcription (e.g., /həˈləʊ/)
     - partOfSpeech: noun, verb, etc.
     - meaning: Vietnamese translation
     - definition: English definition
-    - example: Example sentence`;
-
-    if (this.provider === 'openai') {
-      // For OpenAI, wrap the array in an object to satisfy json_object mode
-      prompt = `Generate 5 advanced English vocabulary words for Level ${level} ${topicInstruction}. 
-        Return a strictly valid JSON object with a key "items" containing an array of objects.
-        Structure: { "items": [{ "term": "...", "ipa": "...", "partOfSpeech": "...", "meaning": "...", "definition": "...", "example": "..." }] }`;
+    - example: Example sentence
+    Structure: { "items": [{ "term": "...", "ipa": "...", "partOfSpeech": "...", "meaning": "...", "definition": "...", "example": "..." }] }`;
 
-      const jsonStr = await this.callOpenAI(prompt, true);
-      try {
-        const parsed = JSON.parse(jsonStr);
-        // Unwrap for the UI
-        return JSON.stringify(parsed.items || []);
-      } catch (e) {
-        return '[]';
-      }
-    }
-
-    const response = await this.ai!.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: { responseMimeType: 'application/json' }
-    });
-    return response.text || '[]';
+    return this.structured('english', prompt, vocabListSchema, 'items', options);
   }
 
-  async gradeWritingPractice(level: string, question: string, userEssay: string) {
+  async gradeWritingPractice(level: string, question: string, userEssay: string, options: AICallOptions = {}): Promise<EssayGrading> {
     await this.enforcePolicy();
-    const prompt = `Grade essay Level ${level}. Question: ${question}. Essay: ${userEssay}. Return valid JSON object {score, generalFeedback, corrections: [{original, correction, explanation}], sampleEssay, betterVocab}.`;
-
-    if (this.provider === 'openai') {
-      return await this.callOpenAI(prompt, true);
-    }
-
-    const response = await this.ai!.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: { responseMimeType: 'application/json' }
-    });
-    return response.text || '{}';
+    const prompt = `Grade essay Level ${level}. Question: ${question}. Essay: ${userEssay}. Return valid JSON object {score: integer 0-100 (overall score out of 100), generalFeedback, corrections: [{original, correction, explanation, category}], sampleEssay, betterVocab: [{word, meaning, context}]}. Each correction's "original" must be an exact quote from the essay; "category" is one of: ${WRITING_ERROR_CATEGORIES.join(', ')}.`;
+    return this.cached('english', prompt, options, () => this.structured('english', prompt, essayGradingSchema, undefined, options));
   }
 
-  async generateGrammarQuiz(level: string, topic?: string) {
+  async generateGrammarQuiz(level: string, topic?: string, options: AICallOptions = {}): Promise<GrammarQuestion[]> {
     await this.enforcePolicy();
-
-    if (this.provider === 'openai') {
-      const prompt = `Generate 10 Grammar Questions Level ${level} ${topic ? `about ${topic}` : ''}. 
+    const prompt = `Generate 10 Grammar Questions Level ${level} ${topic ? `about ${topic}` : ''}. 
+        "correctAnswer" must be copied exactly from "options"; "explanation" says briefly in Vietnamese why it is correct.
         Return a strictly valid JSON object with a key "questions" containing an array of objects.
-        Structure: { "questions": [{ "id": 1, "question": "...", "options": ["..."], "correctAnswer": "..." }] }`;
-
-      const jsonStr = await this.callOpenAI(prompt, true);
-      try {
-        const parsed = JSON.parse(jsonStr);
-        return JSON.stringify(parsed.questions || []);
-      } catch (e) {
-        return '[]';
-      }
-    }
-
-    const prompt = `Generate 10 Grammar Questions Level ${level} ${topic ? `about ${topic}` : ''}. Return strictly JSON array.`;
-    const response = await this.ai!.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: { responseMimeType: 'application/json' }
-    });
-    return response.text || '[]';
+        Structure: { "questions": [{ "id": 1, "question": "...", "options": ["..."], "correctAnswer": "...", "explanation": "...", "topic": "${topic || '...'}" }] }`;
+    return answerableQuiz(await this.structured('english', prompt, grammarQuizSchema, 'questions', options));
   }
 
-  async gradeGrammarQuiz(level: string, questions: any[], userAnswers: any) {
+  /**
+   * Quiz spread over `targets` (weakest topics first), each at its own difficulty 1-5. Every
+   * question carries its topic so the outcome can be credited to the right mastery record.
+   */
+  async generateAdaptiveGrammarQuiz(level: string, targets: { topic: string; difficulty: number }[], count = 10, options: AICallOptions = {}): Promise<GrammarQuestion[]> {
     await this.enforcePolicy();
-    const prompt = `Grade Grammar Quiz Level ${level}. Questions: ${JSON.stringify(questions)}. User Answers: ${JSON.stringify(userAnswers)}. Return valid JSON object {score, results: [{id, isCorrect, explanation}]}.`;
-
-    if (this.provider === 'openai') {
-      return await this.callOpenAI(prompt, true);
-    }
+    const plan = targets.map(t => `- "${t.topic}": difficulty ${t.difficulty}/5`).join('\n');
+    const prompt = `Generate ${count} multiple-choice grammar questions for a CEFR ${level} learner, spread over these topics (more questions for topics listed first):
+        ${plan}
+        Difficulty scale: 1 = recognise the basic form, 3 = choose between close alternatives in context, 5 = subtle exceptions and advanced usage.
+        Use 4 options per question. "correctAnswer" must be copied exactly from "options"; "explanation" says briefly in Vietnamese why it is correct; "topic" is the topic name exactly as listed.
+        Return a strictly valid JSON object with a key "questions" containing an array of objects.
+        Structure: { "questions": [{ "id": 1, "question": "...", "options": ["..."], "correctAnswer": "...", "explanation": "...", "topic": "..." }] }`;
+    return answerableQuiz(await this.structured('english', prompt, grammarQuizSchema, 'questions', options));
+  }
 
-    const response = await this.ai!.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: { responseMimeType: 'application/json' }
-    });
-    return response.text || '{}';
+  async gradeGrammarQuiz(level: string, questions: GrammarQuestion[], userAnswers: Record<number, string>, options: AICallOptions = {}): Promise<GrammarGrading> {
+    await this.enforcePolicy();
+    const prompt = `Grade Grammar Quiz Level ${level}. Questions: ${JSON.stringify(questions)}. User Answers: ${JSON.stringify(userAnswers)}. Return valid JSON object {score: number, results: [{id: number, isCorrect: boolean, explanation}]}.`;
+    return this.cached('english', prompt, options, () => this.structured('english', prompt, grammarGradingSchema, undefined, options));
   }
 
-  async generateReadingPassage(level: string, topic: string) {
+  async generateReadingPassage(level: string, topic: string, options: AICallOptions = {}): Promise<ReadingPassage> {
     await this.enforcePolicy();
-    const prompt = `Write reading passage Level ${level} about "${topic}". Return valid JSON object {title, content, summary, keywords}.`;
+    const prompt = `Write reading passage Level ${level} about "${topic}". Return valid JSON object {title, content, summary, keywords: string[]}.`;
+    return this.structured('english', prompt, readingPassageSchema, undefined, options);
+  }
 
-    if (this.provider === 'openai') {
-      return await this.callOpenAI(prompt, true);
-    }
+  /** Multiple-choice comprehension questions on `passage`, with answers (graded like a grammar quiz). */
+  async generateReadingQuiz(level: string, passage: ReadingPassage, count = 5, options: AICallOptions = {}): Promise<GrammarQuestion[]> {
+    await this.enforcePolicy();
+    const prompt = `Write ${count} multiple-choice reading comprehension questions Level ${level} for this passage.
+        Title: ${passage.title}
+        Passage: ${passage.content}
+        Each question has 4 options and exactly one correct answer found in the passage. "correctAnswer" must be copied exactly from "options"; "explanation" says briefly in Vietnamese where the answer is in the passage.
+        Return a strictly valid JSON object with a key "questions" containing an array of objects.
+        Structure: { "questions": [{ "id": 1, "question": "...", "options": ["..."], "correctAnswer": "...", "explanation": "..." }] }`;
+    return answerableQuiz(await this.structured('english', prompt, grammarQuizSchema, 'questions', options));
+  }
 
-    const response = await this.ai!.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: { responseMimeType: 'application/json' }
-    });
-    return response.text || '{}';
+  async generateListeningExercise(level: string, kind: 'dialogue' | 'monologue', topic?: string, options: AICallOptions = {}): Promise<ListeningExercise> {
+    await this.enforcePolicy();
+    const prompt = `Write an English listening exercise for a CEFR ${level} learner: a ${kind === 'dialogue' ? 'natural dialogue between 2 speakers' : 'monologue by 1 speaker (announcement, talk or voicemail)'}${topic ? ` about "${topic}"` : ' on an everyday topic'}, about ${level === 'C1' ? 180 : level === 'B2' ? 150 : 120} words.
+        Split it into lines of one sentence or one short turn each (they are read aloud and used for dictation), plain text without stage directions.
+        Then write 5 multiple-choice comprehension questions (4 options each) answerable only by listening. "correctAnswer" must be copied exactly from "options"; "explanation" says briefly in Vietnamese where the answer is heard.
+        Return a strictly valid JSON object:
+        { "title": "...", "kind": "${kind}", "lines": [{ "speaker": "...", "text": "..." }], "questions": [{ "id": 1, "question": "...", "options": ["..."], "correctAnswer": "...", "explanation": "..." }] }`;
+    const exercise = await this.structured('english', prompt, listeningExerciseSchema, undefined, options);
+    return { ...exercise, questions: answerableQuiz(exercise.questions) };
   }
 
-  async lookupDictionary(word: string, context: string) {
+  async lookupDictionary(word: string, context: string, options: AICallOptions = {}): Promise<DictionaryEntry> {
     await this.enforcePolicy();
     const prompt = `Define "${word}" in context: "${context}". Return valid JSON object {word, ipa, type, meaning_vi, definition_en, example}.`;
-
-    if (this.provider === 'openai') {
-      return await this.callOpenAI(prompt, true);
-    }
-
-    const response = await this.ai!.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: { responseMimeType: 'application/json' }
-    });
-    return response.text || '{}';
+    return this.cached('english', prompt, options, () => this.structured('english', prompt, dictionaryEntrySchema, undefined, options));
   }
 
-  async generateWritingTopic(level: string, type: 'task1' | 'task2') {
+  async generateWritingTopic(level: string, type: 'task1' | 'task2', options: AICallOptions = {}) {
     await this.enforcePolicy();
     const prompt = `Generate Writing Topic ${type} Level ${level}. Return text only.`;
-
-    if (this.provider === 'openai') {
-      return await this.callOpenAI(prompt, false);
-    }
-
-    const response = await this.ai!.models.generateContent({ model: 'gemini-2.5-flash', contents: prompt });
-    return response.text || '';
+    return this.ai.generateText(this.request('english', { prompt }, options));
   }
 
   // --- Live API with Transcription ---
@@ -571,18 +562,28 @@ class GeminiService {
   ) {
     await this.enforcePolicy();
 
-    if (this.provider === 'openai') {
-      throw new Error("OpenAI Key detected. Live API (Realtime Audio) is currently only available with Google Gemini API Keys.");
+    if (!(this.baseProvider instanceof GeminiProvider)) {
+      throw new Error(`Live API (Realtime Audio) is currently only available with the Google Gemini provider (current: ${this.getProviderLabel()}).`);
     }
 
     // System Instruction must be correct Content type
     const systemInstructionContent = { parts: [{ text: sysInstr }] };
 
-    return this.ai!.live.connect({
-      model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+    const model = this.model('live');
+    return this.baseProvider.client.live.connect({
+      model,
       callbacks: {
         onopen: () => console.log('Live connected'),
         onmessage: (msg: LiveServerMessage) => {
+          // 0. Usage is reported per server turn; each turn is metered as one call
+          if (msg.usageMetadata) {
+            aiUsageService.record('live', 'gemini', model, {
+              inputTokens: msg.usageMetadata.promptTokenCount || 0,
+              outputTokens: msg.usageMetadata.responseTokenCount || 0,
+              estimated: false
+            });
+          }
+
           // 1. Audio Output
           if (msg.serverContent?.modelTurn?.parts?.[0]?.inlineData) {
             onAudio(base64ToUint8Array(msg.serverContent.modelTurn.parts[0].inlineData.data).buffer);
@@ -623,7 +624,7 @@ class GeminiService {
   }
 
   // --- Speaking Suggestions ---
-  async generateSpeakingSuggestions(lastAIQuestion: string): Promise<SpeakingSuggestion> {
+  async generateSpeakingSuggestions(lastAIQuestion: string, options: AICallOptions = {}): Promise<SpeakingSuggestion> {
     await this.enforcePolicy();
     if (!lastAIQuestion) return { hints: [], sampleAnswer: "", vietnameseTranslation: "" };
 
@@ -644,26 +645,63 @@ class GeminiService {
       `;
 
     try {
-      let text = '';
-      if (this.provider === 'openai') {
-        text = await this.callOpenAI(prompt, true);
-      } else {
-        const response = await this.ai!.models.generateContent({
-          model: 'gemini-2.5-flash',
-          contents: prompt,
-          config: { responseMimeType: 'application/json' }
-        });
-        text = response.text || '{}';
-      }
-      return JSON.parse(text.replace(/```json|```/g, '').trim());
+      return await this.cached('speaking', prompt, options, () => this.ai.generateJSON<SpeakingSuggestion>(this.request('speaking', { prompt }, options)));
     } catch (e) {
+      if (isAbortError(e)) throw e;
       console.error("Error generating speaking suggestions", e);
       return { hints: [], sampleAnswer: "Could not generate suggestions.", vietnameseTranslation: "" };
     }
   }
 
+  /**
+   * Pronunciation and fluency of one spoken turn. `wavBase64` is the learner's speech (16-bit mono
+   * WAV); `references` maps words to the IPA saved in their vocab. Needs a provider that accepts
+   * audio input (Gemini). Never cached: every recording is different.
+   */
+  async assessPronunciation(transcript: string, wavBase64: string, references: Record<string, string>, options: AICallOptions = {}): Promise<PronunciationAssessment> {
+    await this.enforcePolicy();
+    const knownIpa = Object.entries(references).map(([word, ipa]) => `${word}: /${ipa}/`).join(', ');
+    const prompt = `
+      You are an English pronunciation examiner. Listen to the attached recording of a Vietnamese learner.
+      Speech recognition heard: "${transcript}"
+      ${knownIpa ? `Reference IPA from the learner's vocabulary (use it as the expected form): ${knownIpa}` : ''}
+
+      Task:
+      1. For every word of the transcript (skip fillers like "um", "uh"), give a pronunciation score 0-100, the IPA of what the learner actually said (heardIpa) and the standard IPA (expectedIpa, General American or RP).
+      2. Give an overall pronunciation score 0-100 (accuracy, stress, intonation).
+      3. Give a fluency score 0-100 (pace, hesitations, self-corrections).
+
+      Output strictly valid JSON object, IPA without slashes:
+      {
+        "pronunciation": 0,
+        "fluency": 0,
+        "words": [{ "word": "...", "score": 0, "heardIpa": "...", "expectedIpa": "..." }]
+      }
+      `;
+    return this.structured('speaking', prompt, pronunciationAssessmentSchema, undefined, options, { audio: { data: wavBase64, mimeType: 'audio/wav' } });
+  }
+
+  /** Exam-style grade of one recorded speaking answer (16-bit mono WAV). Needs audio input (Gemini). */
+  async gradeSpeakingAnswer(level: string, question: string, wavBase64: string, options: AICallOptions = {}): Promise<SpeakingAnswerGrading> {
+    await this.enforcePolicy();
+    const prompt = `
+      You are an Aptis/IELTS speaking examiner. Target level: ${level} (CEFR).
+      Question: "${question}"
+      Listen to the attached recording of the candidate's answer.
+
+      Task:
+      1. Transcribe what the candidate said.
+      2. Score the answer 0-100 on task achievement, fluency, pronunciation, grammar and vocabulary (0 if silent or off-topic).
+      3. Give short feedback in Vietnamese (2-3 sentences).
+
+      Output strictly valid JSON object:
+      { "transcript": "...", "score": 0, "feedback": "..." }
+      `;
+    return this.structured('speaking', prompt, speakingAnswerGradingSchema, undefined, options, { audio: { data: wavBase64, mimeType: 'audio/wav' } });
+  }
+
   // --- Monologue Hint Generation (Fixed) ---
-  async generateMonologueScript(topic: string, level: string): Promise<{ script: string, translation: string }> {
+  async generateMonologueScript(topic: string, level: string, options: AICallOptions = {}): Promise<{ script: string, translation: string }> {
     await this.enforcePolicy();
 
     const prompt = `
@@ -685,21 +723,9 @@ class GeminiService {
       `;
 
     try {
-      let text = '';
-      if (this.provider === 'openai') {
-        text = await this.callOpenAI(prompt, true);
-      } else {
-        const response = await this.ai!.models.generateContent({
-          model: 'gemini-2.5-flash',
-          contents: prompt,
-          config: {
-            responseMimeType: 'application/json'
-          }
-        });
-        text = response.text || '{}';
-      }
-      return JSON.parse(text.replace(/```json|```/g, '').trim());
+      return await this.cached('speaking', prompt, options, () => this.ai.generateJSON<{ script: string, translation: string }>(this.request('speaking', { prompt }, options)));
     } catch (e) {
+      if (isAbortError(e)) throw e;
       console.error("Error generating monologue script", e);
       return { script: "Error generating script. Please try again.", translation: "" };
     }
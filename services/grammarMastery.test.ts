@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// In-memory user data, keyed like firebaseService.getUserData
+const userData = new Map<string, unknown>();
+vi.mock('./firebase', () => ({
+    firebaseService: {
+        getUserData: async (key: string) => userData.get(key),
+        saveUserData: async (key: string, value: unknown) => { userData.set(key, value); }
+    }
+}));
+
+import { gradeQuizLocally, grammarMasteryService, GrammarMistake, TopicMastery } from './grammarMastery';
+import { GrammarQuestion } from './aiSchemas';
+
+const questions: GrammarQuestion[] = [
+    { id: 1, question: 'I saw ___ elephant.', options: ['a', 'an', 'the'], correctAnswer: 'an', topic: 'Articles' },
+    { id: 2, question: '___ sun is hot.', options: ['A', 'The'], correctAnswer: 'The', explanation: 'Chỉ có một mặt trời.', topic: 'Articles' },
+    { id: 3, question: 'If I ___ you, I would go.', options: ['am', 'were'], correctAnswer: 'were' }
+];
+
+describe('gradeQuizLocally', () => {
+    it('matches answers ignoring case and spaces, explaining from the question', () => {
+        const grading = gradeQuizLocally(questions, { 1: ' An ', 2: 'A', 3: 'were' });
+        expect(grading).toEqual({
+            score: 2,
+            results: [
+                { id: 1, isCorrect: true, explanation: 'Đáp án đúng: an' },
+                { id: 2, isCorrect: false, explanation: 'Chỉ có một mặt trời.' },
+                { id: 3, isCorrect: true, explanation: 'Đáp án đúng: were' }
+            ]
+        });
+    });
+
+    it('leaves quizzes without a usable answer to the AI grader', () => {
+        expect(gradeQuizLocally([{ ...questions[0], correctAnswer: undefined }], { 1: 'an' })).toBeNull();
+        expect(gradeQuizLocally([{ ...questions[0], correctAnswer: 'one' }], { 1: 'an' })).toBeNull();
+    });
+});
+
+describe('grammarMasteryService.recordQuiz', () => {
+    beforeEach(() => userData.clear());
+
+    it('moves mastery and difficulty per topic, using the fallback topic for untagged questions', async () => {
+        const answers = { 1: 'an', 2: 'The', 3: 'am' };
+        const records = await grammarMasteryService.recordQuiz(questions, answers, gradeQuizLocally(questions, answers)!, 'Conditionals', 'B1');
+        const byId = Object.fromEntries(records.map(r => [r.id, r]));
+
+        // Two right answers from 0.5; A2 topic for a B1 learner starts at difficulty 3 and steps up
+        expect(byId['Articles']).toMatchObject({ mastery: 0.719, difficulty: 4, attempts: 2, correct: 2 });
+        // One wrong answer from 0.5; B1 topic starts at difficulty 2 and steps down
+        expect(byId['Conditionals']).toMatchObject({ mastery: 0.375, difficulty: 1, attempts: 1, correct: 0 });
+        expect(userData.get('grammar_mastery')).toEqual(records);
+    });
+
+    it('banks wrong answers once per question and counts repeats', async () => {
+        const answers = { 1: 'a', 2: 'The', 3: 'were' };
+        const grading = gradeQuizLocally(questions, answers)!;
+        await grammarMasteryService.recordQuiz(questions, answers, grading, 'Conditionals', 'B1');
+        await grammarMasteryService.recordQuiz(questions, answers, grading, 'Conditionals', 'B1');
+
+        const bank = userData.get('grammar_mistakes') as GrammarMistake[];
+        expect(bank).toHaveLength(1);
+        expect(bank[0]).toMatchObject({ topic: 'Articles', question: 'I saw ___ elephant.', correctAnswer: 'an', userAnswer: 'a', wrongCount: 2, streak: 0 });
+        expect((userData.get('grammar_mastery') as TopicMastery[]).find(m => m.id === 'Articles')!.attempts).toBe(4);
+    });
+});
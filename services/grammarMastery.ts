@@ -0,0 +1,210 @@
+import { GrammarGrading, GrammarQuestion } from "./aiSchemas";
+import { firebaseService } from "./firebase";
+
+// Adaptive grammar practice. Quizzes are graded locally against correctAnswer; each answer moves
+// the mastery of its topic ('grammar_mastery', one record per topic) and wrong answers land in a
+// mistake bank ('grammar_mistakes') that can be re-drilled without calling the AI. The adaptive
+// quiz targets the weakest topics at the difficulty their mastery has reached.
+
+export interface GrammarTopic {
+    name: string;
+    level: 'A2' | 'B1' | 'B2' | 'C1';   // Where the topic is usually taught
+}
+
+export interface TopicMastery {
+    id: string;                 // Topic name
+    mastery: number;            // 0-1, moving average of correctness weighted towards recent answers
+    difficulty: number;         // 1-5, target for the next questions
+    attempts: number;
+    correct: number;
+    lastPracticedAt: number;
+}
+
+export interface GrammarMistake {
+    id: string;
+    topic: string;
+    question: string;
+    options: string[];
+    correctAnswer: string;
+    userAnswer: string;
+    explanation: string;
+    wrongCount: number;
+    streak: number;             // Correct re-drills in a row; cleared from the bank at MISTAKE_CLEAR_STREAK
+    createdAt: number;
+    lastWrongAt: number;
+}
+
+export const GRAMMAR_TOPICS: GrammarTopic[] = [
+    { name: 'Present Simple', level: 'A2' }, { name: 'Past Perfect', level: 'B1' }, { name: 'Conditionals', level: 'B1' },
+    { name: 'Passive Voice', level: 'B1' }, { name: 'Relative Clauses', level: 'B1' }, { name: 'Modal Verbs', level: 'B1' },
+    { name: 'Reported Speech', level: 'B1' }, { name: 'Gerunds & Infinitives', level: 'B1' }, { name: 'Articles', level: 'A2' },
+    { name: 'Prepositions', level: 'A2' }, { name: 'Future Forms', level: 'B1' }, { name: 'Comparatives', level: 'A2' },
+    { name: 'Question Tags', level: 'B1' }, { name: 'Inversion', level: 'C1' }, { name: 'Subjunctive', level: 'C1' },
+    { name: 'Causative Form', level: 'B2' }, { name: 'Phrasal Verbs', level: 'B1' }, { name: 'Used to / Would', level: 'B1' },
+    { name: 'Quantifiers', level: 'A2' }, { name: 'Linking Words', level: 'B1' },
+    { name: 'Present Perfect vs Past Simple', level: 'B1' }, { name: 'Present Perfect Continuous', level: 'B1' },
+    { name: 'Mixed Conditionals', level: 'B2' }, { name: 'Wish & If only', level: 'B2' }, { name: 'Participle Clauses', level: 'B2' },
+    { name: 'Cleft Sentences', level: 'C1' }, { name: 'Future Perfect & Continuous', level: 'B2' }, { name: 'Modals of Deduction', level: 'B2' },
+    { name: 'Countable & Uncountable Nouns', level: 'A2' }, { name: 'Subject-Verb Agreement', level: 'B1' }
+];
+
+const CEFR_ORDER = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+const LEARNING_RATE = 0.25;         // Weight of the newest answer in the mastery average
+const WEAK_MASTERY = 0.7;
+const MISTAKE_CLEAR_STREAK = 2;
+const MAX_MISTAKES = 300;
+
+const norm = (text: string) => (text || '').trim().toLowerCase();
+
+// Stable id, so answering the same question wrong again updates one entry
+const mistakeId = (topic: string, question: string) => {
+    let hash = 0;
+    const text = `${norm(topic)}|${norm(question)}`;
+    for (let i = 0; i < text.length; i++) hash = (hash * 31 + text.charCodeAt(i)) | 0;
+    return `gm_${(hash >>> 0).toString(36)}`;
+};
+
+/** Grade against correctAnswer; null when a question has no usable answer (use the AI grader then). */
+export const gradeQuizLocally = (questions: GrammarQuestion[], answers: Record<number, string>): GrammarGrading | null => {
+    if (questions.some(q => !q.correctAnswer || !q.options.some(o => norm(o) === norm(q.correctAnswer!)))) return null;
+    const results = questions.map(q => ({
+        id: q.id,
+        isCorrect: norm(answers[q.id]) === norm(q.correctAnswer!),
+        explanation: q.explanation || `Đáp án đúng: ${q.correctAnswer}`
+    }));
+    return { score: results.filter(r => r.isCorrect).length, results };
+};
+
+// Starting difficulty for a topic the user has not practiced yet, from the level gap
+const initialDifficulty = (topic: string, level: string) => {
+    const topicLevel = GRAMMAR_TOPICS.find(t => t.name === topic)?.level || level;
+    const gap = CEFR_ORDER.indexOf(level) - CEFR_ORDER.indexOf(topicLevel);
+    return Math.max(1, Math.min(5, 2 + gap));
+};
+
+class GrammarMasteryService {
+    async getMastery(): Promise<TopicMastery[]> {
+        return (await firebaseService.getUserData('grammar_mastery')) || [];
+    }
+
+    async getMistakes(): Promise<GrammarMistake[]> {
+        return (await firebaseService.getUserData('grammar_mistakes')) || [];
+    }
+
+    /**
+     * Topics for the next adaptive quiz: practiced topics below WEAK_MASTERY, weakest and longest
+     * unpracticed first, topped up with unseen topics at or below `level`.
+     */
+    async pickTargets(level: string, count = 3): Promise<{ topic: string; difficulty: number }[]> {
+        const mastery = await this.getMastery();
+        const days = (m: TopicMastery) => (Date.now() - m.lastPracticedAt) / 86_400_000;
+        const weak = mastery
+            .filter(m => m.mastery < WEAK_MASTERY || days(m) > 14)
+            .sort((a, b) => (a.mastery - Math.min(days(a), 30) / 100) - (b.mastery - Math.min(days(b), 30) / 100))
+            .map(m => ({ topic: m.id, difficulty: m.difficulty }));
+        const unseen = GRAMMAR_TOPICS
+            .filter(t => CEFR_ORDER.indexOf(t.level) <= CEFR_ORDER.indexOf(level) && !mastery.some(m => m.id === t.name))
+            .sort(() => Math.random() - 0.5)
+            .map(t => ({ topic: t.name, difficulty: initialDifficulty(t.name, level) }));
+        const targets = [...weak, ...unseen].slice(0, count);
+        // Everything mastered: keep the least mastered ones moving up
+        return targets.length > 0 ? targets : [...mastery].sort((a, b) => a.mastery - b.mastery).slice(0, count).map(m => ({ topic: m.id, difficulty: m.difficulty }));
+    }
+
+    async difficultyFor(topic: string, level: string): Promise<number> {
+        return (await this.getMastery()).find(m => m.id === topic)?.difficulty || initialDifficulty(topic, level);
+    }
+
+    /**
+     * Credit a graded quiz to the mastery of each question's topic (`fallbackTopic` for untagged
+     * questions) and bank the wrong answers. Difficulty steps up after a topic's round is at least
+     * 80% right and down when it is 50% or less.
+     */
+    async recordQuiz(questions: GrammarQuestion[], answers: Record<number, string>, grading: GrammarGrading, fallbackTopic: string, level: string): Promise<TopicMastery[]> {
+        const mastery = await this.getMastery();
+        const byTopic = new Map<string, boolean[]>();
+        questions.forEach(q => {
+            const topic = q.topic || fallbackTopic;
+            const isCorrect = !!grading.results.find(r => r.id === q.id)?.isCorrect;
+            byTopic.set(topic, [...(byTopic.get(topic) || []), isCorrect]);
+        });
+
+        const now = Date.now();
+        const updated = new Map(mastery.map(m => [m.id, m]));
+        byTopic.forEach((outcomes, topic) => {
+            const current = updated.get(topic) || { id: topic, mastery: 0.5, difficulty: initialDifficulty(topic, level), attempts: 0, correct: 0, lastPracticedAt: now };
+            const next = outcomes.reduce((m, ok) => m + LEARNING_RATE * ((ok ? 1 : 0) - m), current.mastery);
+            const accuracy = outcomes.filter(Boolean).length / outcomes.length;
+            const step = accuracy >= 0.8 ? 1 : accuracy <= 0.5 ? -1 : 0;
+            updated.set(topic, {
+                ...current,
+                mastery: Math.round(next * 1000) / 1000,
+                difficulty: Math.max(1, Math.min(5, current.difficulty + step)),
+                attempts: current.attempts + outcomes.length,
+                correct: current.correct + outcomes.filter(Boolean).length,
+                lastPracticedAt: now
+            });
+        });
+        const records = [...updated.values()];
+        await firebaseService.saveUserData('grammar_mastery', records);
+
+        const wrong = questions.filter(q => q.correctAnswer && !grading.results.find(r => r.id === q.id)?.isCorrect);
+        if (wrong.length > 0) {
+            const bank = await this.getMistakes();
+            const byId = new Map(bank.map(m => [m.id, m]));
+            wrong.forEach(q => {
+                const topic = q.topic || fallbackTopic;
+                const id = mistakeId(topic, q.question);
+                const existing = byId.get(id);
+                byId.set(id, {
+                    id, topic,
+                    question: q.question,
+                    options: q.options,
+                    correctAnswer: q.correctAnswer!,
+                    userAnswer: answers[q.id] || '',
+                    explanation: grading.results.find(r => r.id === q.id)?.explanation || q.explanation || '',
+                    wrongCount: (existing?.wrongCount || 0) + 1,
+                    streak: 0,
+                    createdAt: existing?.createdAt || now,
+                    lastWrongAt: now
+                });
+            });
+            await firebaseService.saveUserData('grammar_mistakes', [...byId.values()].sort((a, b) => b.lastWrongAt - a.lastWrongAt).slice(0, MAX_MISTAKES));
+        }
+        return records;
+    }
+
+    /** Questions for a re-drill, most often missed first; ids map back through `mistakeIds`. */
+    async buildDrill(count = 10): Promise<{ questions: GrammarQuestion[]; mistakeIds: Record<number, string> }> {
+        const bank = await this.getMistakes();
+        const picked = [...bank].sort((a, b) => b.wrongCount - a.wrongCount || a.lastWrongAt - b.lastWrongAt).slice(0, count);
+        const mistakeIds: Record<number, string> = {};
+        const questions = picked.map((m, i) => {
+            mistakeIds[i + 1] = m.id;
+            return { id: i + 1, question: m.question, options: [...m.options].sort(() => Math.random() - 0.5), correctAnswer: m.correctAnswer, explanation: m.explanation, topic: m.topic };
+        });
+        return { questions, mistakeIds };
+    }
+
+    /** Re-drill outcome: a right answer builds the streak (cleared at MISTAKE_CLEAR_STREAK), a wrong one resets it. */
+    async recordDrill(mistakeIds: Record<number, string>, grading: GrammarGrading, answers: Record<number, string>): Promise<void> {
+        const bank = await this.getMistakes();
+        const now = Date.now();
+        const next = bank.map(m => {
+            const id = Number(Object.keys(mistakeIds).find(k => mistakeIds[Number(k)] === m.id));
+            const result = grading.results.find(r => r.id === id);
+            if (!result) return m;
+            return result.isCorrect
+                ? { ...m, streak: m.streak + 1 }
+                : { ...m, streak: 0, wrongCount: m.wrongCount + 1, userAnswer: answers[id] || '', lastWrongAt: now };
+        }).filter(m => m.streak < MISTAKE_CLEAR_STREAK);
+        await firebaseService.saveUserData('grammar_mistakes', next);
+    }
+
+    async removeMistake(id: string): Promise<void> {
+        const bank = await this.getMistakes();
+        await firebaseService.saveUserData('grammar_mistakes', bank.filter(m => m.id !== id));
+    }
+}
+
+export const grammarMasteryService = new GrammarMasteryService();
@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('./firebase', () => ({ firebaseService: {} }));
+
+import { alignDictation, scriptOf } from './listening';
+
+describe('alignDictation', () => {
+    it('ignores case and punctuation', () => {
+        const result = alignDictation('Hello, world. It\'s late!', 'hello world it\'s late');
+        expect(result.tokens.every(t => t.type === 'correct')).toBe(true);
+        expect(result.accuracy).toBe(100);
+    });
+
+    it('keeps later words aligned after a missed word', () => {
+        const result = alignDictation('I really like green tea', 'I like green tea');
+        expect(result.tokens.map(t => t.type)).toEqual(['correct', 'missing', 'correct', 'correct', 'correct']);
+        expect(result.correct).toBe(4);
+        expect(result.accuracy).toBe(80);
+    });
+
+    it('marks substitutions as wrong', () => {
+        const result = alignDictation('its raining today', 'it\'s raining today');
+        expect(result.tokens[0]).toEqual({ type: 'wrong', expected: 'its', typed: 'it\'s' });
+    });
+
+    it('counts extra words against the score', () => {
+        const result = alignDictation('good morning', 'good good morning morning');
+        expect(result.tokens.filter(t => t.type === 'extra')).toHaveLength(2);
+        expect(result.accuracy).toBe(0);
+    });
+
+    it('scores an empty script as zero', () => {
+        expect(alignDictation('', 'anything')).toMatchObject({ total: 0, accuracy: 0 });
+    });
+});
+
+describe('scriptOf', () => {
+    it('prefixes speakers only for dialogues', () => {
+        const lines = [{ speaker: 'Anna', text: 'Hi.' }, { speaker: 'Ben', text: 'Hello.' }];
+        expect(scriptOf({ title: '', kind: 'dialogue', lines, questions: [] })).toBe('Anna: Hi.\nBen: Hello.');
+        expect(scriptOf({ title: '', kind: 'monologue', lines, questions: [] })).toBe('Hi.\nHello.');
+    });
+});
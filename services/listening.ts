@@ -0,0 +1,108 @@
+import { ListeningExercise } from "./aiSchemas";
+import { firebaseService } from "./firebase";
+
+// AI listening exercises (Tiếng Anh → Luyện Nghe). The script is generated per level and read aloud
+// with the browser voices; the user answers comprehension questions or types the lines as dictation,
+// aligned word by word against the script. Results are synced under users/{uid} ('listening_results').
+
+export type ListeningMode = 'comprehension' | 'dictation';
+
+export interface DictationToken {
+    type: 'correct' | 'wrong' | 'missing' | 'extra';
+    expected?: string;  // Word from the script (not set for 'extra')
+    typed?: string;     // Word the user typed (not set for 'missing')
+}
+
+export interface DictationAlignment {
+    tokens: DictationToken[];
+    correct: number;
+    total: number;      // Words in the script
+    accuracy: number;   // 0-100
+}
+
+export interface ListeningResult {
+    id: string;
+    timestamp: number;
+    level: string;
+    kind: ListeningExercise['kind'];
+    title: string;
+    mode: ListeningMode;
+    rate: number;       // Playback speed used
+    score: number;      // 0-100
+    correct: number;    // Right answers / words
+    total: number;
+    script: string;     // Full transcript, to review later
+}
+
+export const LISTENING_RATES = [0.75, 0.9, 1, 1.25];
+
+const MAX_SAVED_RESULTS = 100;
+
+// Compare words without case or punctuation; keep apostrophes so "it's" and "its" differ
+const normWord = (word: string) => word.toLowerCase().replace(/[’‘]/g, "'").replace(/[^a-z0-9']/g, '');
+
+const words = (text: string) => text.split(/\s+/).filter(w => normWord(w) !== '');
+
+export const scriptOf = (exercise: ListeningExercise) =>
+    exercise.lines.map(l => exercise.kind === 'dialogue' ? `${l.speaker}: ${l.text}` : l.text).join('\n');
+
+/**
+ * Word-level alignment of typed dictation against the script (edit distance, substitutions as
+ * 'wrong'), so one missed word does not shift every following word to wrong.
+ */
+export const alignDictation = (script: string, typed: string): DictationAlignment => {
+    const a = words(script);
+    const b = words(typed);
+    const cost = Array.from({ length: a.length + 1 }, (_, i) => {
+        const row = new Array<number>(b.length + 1).fill(0);
+        row[0] = i;
+        return row;
+    });
+    for (let j = 0; j <= b.length; j++) cost[0][j] = j;
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const same = normWord(a[i - 1]) === normWord(b[j - 1]);
+            cost[i][j] = Math.min(cost[i - 1][j - 1] + (same ? 0 : 1), cost[i - 1][j] + 1, cost[i][j - 1] + 1);
+        }
+    }
+
+    const tokens: DictationToken[] = [];
+    let i = a.length, j = b.length;
+    while (i > 0 || j > 0) {
+        if (i > 0 && j > 0) {
+            const same = normWord(a[i - 1]) === normWord(b[j - 1]);
+            if (cost[i][j] === cost[i - 1][j - 1] + (same ? 0 : 1)) {
+                tokens.push({ type: same ? 'correct' : 'wrong', expected: a[i - 1], typed: b[j - 1] });
+                i--; j--;
+                continue;
+            }
+        }
+        if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) { tokens.push({ type: 'missing', expected: a[i - 1] }); i--; }
+        else { tokens.push({ type: 'extra', typed: b[j - 1] }); j--; }
+    }
+    tokens.reverse();
+
+    const correct = tokens.filter(t => t.type === 'correct').length;
+    // Extra words count against the score too, so typing everything twice is not 100%
+    const extra = tokens.filter(t => t.type === 'extra').length;
+    const accuracy = a.length > 0 ? Math.max(0, Math.round((correct - extra) / a.length * 100)) : 0;
+    return { tokens, correct, total: a.length, accuracy };
+};
+
+class ListeningService {
+    async list(): Promise<ListeningResult[]> {
+        return (await firebaseService.getUserData('listening_results')) || [];
+    }
+
+    async save(result: ListeningResult): Promise<void> {
+        const existing = await this.list();
+        await firebaseService.saveUserData('listening_results', [result, ...existing.filter(r => r.id !== result.id)].slice(0, MAX_SAVED_RESULTS));
+    }
+
+    async remove(id: string): Promise<void> {
+        const existing = await this.list();
+        await firebaseService.saveUserData('listening_results', existing.filter(r => r.id !== id));
+    }
+}
+
+export const listeningService = new ListeningService();
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MarketProvider, MarketProviderRegistry, FixtureMarketProvider, MarketCategory, STALE_AFTER_MS } from './marketProviders';
+import { MarketItem } from './market';
+
+const item = (symbol: string, price: number): MarketItem => ({ symbol, name: symbol, price, change24h: 0, type: 'crypto' });
+
+const provider = (id: string, priority: number, fetchItems: MarketProvider['fetchItems'], isLive = true): MarketProvider =>
+    ({ id, label: id, categories: ['crypto'] as MarketCategory[], priority, isLive, fetchItems: vi.fn(fetchItems) });
+
+describe('MarketProviderRegistry', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-03-15T10:00:00Z'));
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+    afterEach(() => vi.useRealTimers());
+
+    it('asks live providers in priority order and stamps the source', async () => {
+        const first = provider('first', 10, async () => [item('BTC', 1)]);
+        const second = provider('second', 5, async () => [item('BTC', 2)]);
+        const registry = new MarketProviderRegistry([first, second], false);
+
+        expect(await registry.fetchCategory('crypto')).toEqual([
+            expect.objectContaining({ price: 2, source: 'second', fetchedAt: Date.now(), isStale: false })
+        ]);
+        expect(first.fetchItems).not.toHaveBeenCalled();
+    });
+
+    it('falls through failing and empty providers', async () => {
+        const failing = provider('failing', 1, async () => { throw new Error('HTTP 429'); });
+        const empty = provider('empty', 2, async () => []);
+        const working = provider('working', 3, async () => [item('BTC', 3)]);
+        const registry = new MarketProviderRegistry([working, empty, failing], false);
+
+        expect((await registry.fetchCategory('crypto'))[0]).toMatchObject({ price: 3, source: 'working' });
+    });
+
+    it('reuses a fresh result, then serves the last good result flagged stale once live providers fail', async () => {
+        let up = true;
+        const live = provider('live', 1, async () => { if (!up) throw new Error('offline'); return [item('BTC', 4)]; });
+        const registry = new MarketProviderRegistry([live, new FixtureMarketProvider()], false);
+
+        await registry.fetchCategory('crypto');
+        await registry.fetchCategory('crypto');
+        expect(live.fetchItems).toHaveBeenCalledTimes(1);
+
+        up = false;
+        vi.advanceTimersByTime(STALE_AFTER_MS + 1);
+        expect((await registry.fetchCategory('crypto'))[0]).toMatchObject({ price: 4, source: 'live', isStale: true });
+    });
+
+    it('uses offline providers only when nothing live or cached is left, always flagged stale', async () => {
+        const down = provider('down', 1, async () => { throw new Error('offline'); });
+        const registry = new MarketProviderRegistry([down, new FixtureMarketProvider()], false);
+
+        const items = await registry.fetchCategory('crypto');
+        expect(items.map(i => i.symbol)).toEqual(['BTC', 'ETH']);
+        expect(items.every(i => i.isStale && i.source === 'Dữ liệu mẫu')).toBe(true);
+    });
+
+    it('replaces a provider registered again under the same id', async () => {
+        const registry = new MarketProviderRegistry([provider('p', 1, async () => [item('BTC', 5)])], false);
+        registry.register(provider('p', 1, async () => [item('BTC', 6)]));
+        expect(registry.getProviders('crypto')).toHaveLength(1);
+        expect((await registry.fetchCategory('crypto'))[0].price).toBe(6);
+    });
+});
+
+describe('marketRegistry', () => {
+    // The registry is built when the module loads, so each case loads it afresh
+    beforeEach(() => vi.resetModules());
+    afterEach(() => vi.unstubAllEnvs());
+
+    it('serves fixtures only when VITE_MARKET_PROVIDER is fixture', async () => {
+        vi.stubEnv('VITE_MARKET_PROVIDER', 'fixture');
+        const { marketRegistry } = await import('./marketProviders');
+        expect(marketRegistry.getProviders().map(p => p.id)).toEqual(['fixture']);
+    });
+
+    it('labels the VN-Index as simulated by default', async () => {
+        const { marketRegistry } = await import('./marketProviders');
+        const [vnIndex] = marketRegistry.getProviders('vnstock');
+        expect(vnIndex).toMatchObject({ id: 'simulated-vnindex', isLive: false });
+        expect((await vnIndex.fetchItems('vnstock'))[0].name).toBe('VN-Index (mô phỏng)');
+    });
+});
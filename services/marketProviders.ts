@@ -0,0 +1,269 @@
+import { MarketItem } from "./market";
+
+export type MarketCategory = 'crypto' | 'gold' | 'fx' | 'vnstock';
+
+export const MARKET_CATEGORIES: MarketCategory[] = ['crypto', 'gold', 'fx', 'vnstock'];
+
+export interface MarketProvider {
+    id: string;
+    label: string;                 // Shown to the user as the item source
+    categories: MarketCategory[];
+    priority: number;              // Lower runs first
+    isLive: boolean;               // Offline providers only run after every live provider and the cache failed
+    fetchItems(category: MarketCategory): Promise<MarketItem[]>;
+}
+
+const COINGECKO_URL = "https://api.coingecko.com/api/v3/simple/price";
+const REQUEST_TIMEOUT_MS = 8000;
+
+// Reuse results for a minute: the CoinGecko free tier is rate limited
+const FRESH_MS = 60 * 1000;
+// Items older than this (or from an offline provider) are flagged as stale
+export const STALE_AFTER_MS = 30 * 60 * 1000;
+
+const CACHE_KEY = 'dh_market_cache';
+
+export const OZ_TO_TAEL = 1.20565;  // 1 Tael (Lượng) = 1.20565 Troy Oz
+const SJC_PREMIUM = 1.18;    // SJC is ~18% higher than world gold
+
+const fetchJson = async (url: string): Promise<any> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    try {
+        const response = await fetch(url, { signal: controller.signal });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return await response.json();
+    } finally {
+        clearTimeout(timer);
+    }
+};
+
+const fetchCoinGecko = (ids: string[]) =>
+    fetchJson(`${COINGECKO_URL}?ids=${ids.join(',')}&vs_currencies=vnd,usd&include_24hr_change=true`);
+
+// --- Live providers ---
+
+class CoinGeckoCryptoProvider implements MarketProvider {
+    id = 'coingecko-crypto';
+    label = 'CoinGecko';
+    categories: MarketCategory[] = ['crypto'];
+    priority = 10;
+    isLive = true;
+
+    async fetchItems(): Promise<MarketItem[]> {
+        const data = await fetchCoinGecko(['bitcoin', 'ethereum']);
+        return [
+            { symbol: 'BTC', name: 'Bitcoin', price: data.bitcoin.usd, change24h: data.bitcoin.usd_24h_change, type: 'crypto', quoteCurrency: 'USD' },
+            { symbol: 'ETH', name: 'Ethereum', price: data.ethereum.usd, change24h: data.ethereum.usd_24h_change, type: 'crypto', quoteCurrency: 'USD' }
+        ];
+    }
+}
+
+// USDT/VND tracks the free-market USD rate closely
+class CoinGeckoFxProvider implements MarketProvider {
+    id = 'coingecko-fx';
+    label = 'CoinGecko (USDT)';
+    categories: MarketCategory[] = ['fx'];
+    priority = 10;
+    isLive = true;
+
+    async fetchItems(): Promise<MarketItem[]> {
+        const data = await fetchCoinGecko(['tether']);
+        return [
+            { symbol: 'USD', name: 'USD/VND (Free Market)', price: data.tether.vnd, change24h: data.tether.vnd_24h_change, type: 'fiat', quoteCurrency: 'VND' }
+        ];
+    }
+}
+
+// PAXG tracks world gold. SJC is derived from it: VND per oz -> per tael, plus the domestic premium
+class CoinGeckoGoldProvider implements MarketProvider {
+    id = 'coingecko-gold';
+    label = 'CoinGecko (PAXG)';
+    categories: MarketCategory[] = ['gold'];
+    priority = 10;
+    isLive = true;
+
+    async fetchItems(): Promise<MarketItem[]> {
+        const paxg = (await fetchCoinGecko(['pax-gold']))['pax-gold'];
+        const sjcSell = Math.floor(paxg.vnd * OZ_TO_TAEL * SJC_PREMIUM);
+        return [
+            { symbol: 'XAU', name: 'World Gold (Oz)', price: paxg.usd, change24h: paxg.usd_24h_change, type: 'gold', quoteCurrency: 'USD' },
+            { symbol: 'SJC', name: 'Vàng SJC (Lượng)', price: sjcSell, bid: Math.floor(sjcSell * 0.98), change24h: paxg.usd_24h_change, type: 'gold', quoteCurrency: 'VND' }
+        ];
+    }
+}
+
+// --- Offline providers ---
+
+// VN-Index is SIMULATED: there is no free, CORS-friendly VN stock feed, so the value is a wave
+// around a fixed baseline and says nothing about the market. The name and label say so wherever
+// the item is shown, and it is registered as offline so it is always flagged stale. A real feed
+// only needs to be registered as a live provider for 'vnstock'.
+class SimulatedVnIndexProvider implements MarketProvider {
+    id = 'simulated-vnindex';
+    label = 'Mô phỏng, không phải giá thật';
+    categories: MarketCategory[] = ['vnstock'];
+    priority = 100;
+    isLive = false;
+
+    private readonly BASE_VNINDEX = 1280;
+
+    async fetchItems(): Promise<MarketItem[]> {
+        const now = new Date();
+        const hour = now.getHours();
+        const isTrading = hour >= 9 && hour <= 15;
+        const timeFactor = (now.getMinutes() + now.getSeconds()) / 100;
+        const volatility = isTrading ? (Math.sin(timeFactor) * 5) + (Math.random() * 2) : 0;
+
+        return [{
+            symbol: 'VNINDEX', name: 'VN-Index (mô phỏng)',
+            price: Number((this.BASE_VNINDEX + volatility).toFixed(2)),
+            change24h: Number(((volatility / this.BASE_VNINDEX) * 100).toFixed(2)),
+            type: 'index'
+        }];
+    }
+}
+
+// Deterministic numbers for offline development and tests. Always last in line.
+export class FixtureMarketProvider implements MarketProvider {
+    id = 'fixture';
+    label = 'Dữ liệu mẫu';
+    categories: MarketCategory[] = [...MARKET_CATEGORIES];
+    priority = 1000;
+    isLive = false;
+
+    private readonly FIXTURES: Record<MarketCategory, MarketItem[]> = {
+        crypto: [
+            { symbol: 'BTC', name: 'Bitcoin', price: 67500, change24h: 2.5, type: 'crypto', quoteCurrency: 'USD' },
+            { symbol: 'ETH', name: 'Ethereum', price: 3800, change24h: -1.2, type: 'crypto', quoteCurrency: 'USD' }
+        ],
+        fx: [
+            { symbol: 'USD', name: 'USD/VND', price: 25450, change24h: 0.1, type: 'fiat', quoteCurrency: 'VND' }
+        ],
+        gold: [
+            { symbol: 'XAU', name: 'World Gold', price: 2350, change24h: 0.5, type: 'gold', quoteCurrency: 'USD' },
+            { symbol: 'SJC', name: 'Vàng SJC (Lượng)', price: 86000000, bid: 84000000, change24h: 0.3, type: 'gold', quoteCurrency: 'VND' }
+        ],
+        vnstock: [
+            { symbol: 'VNINDEX', name: 'VN-Index', price: 1290.5, change24h: 0.65, type: 'index' }
+        ]
+    };
+
+    async fetchItems(category: MarketCategory): Promise<MarketItem[]> {
+        return this.FIXTURES[category].map(item => ({ ...item }));
+    }
+}
+
+// --- Registry ---
+
+interface CacheEntry {
+    items: MarketItem[];
+    fetchedAt: number;
+}
+
+export class MarketProviderRegistry {
+    private providers: MarketProvider[] = [];
+    private cache: Partial<Record<MarketCategory, CacheEntry>> = {};
+
+    constructor(providers: MarketProvider[], private persist: boolean = true) {
+        providers.forEach(p => this.register(p));
+        if (persist) this.cache = this.loadCache();
+    }
+
+    // Re-registering an id replaces the previous provider
+    register(provider: MarketProvider) {
+        this.providers = [...this.providers.filter(p => p.id !== provider.id), provider]
+            .sort((a, b) => a.priority - b.priority);
+    }
+
+    unregister(id: string) {
+        this.providers = this.providers.filter(p => p.id !== id);
+    }
+
+    getProviders(category?: MarketCategory): MarketProvider[] {
+        return category ? this.providers.filter(p => p.categories.includes(category)) : [...this.providers];
+    }
+
+    /**
+     * Live providers in priority order, then the last good live result (flagged stale once
+     * old), then offline providers. Every item is stamped with its source and fetch time.
+     */
+    async fetchCategory(category: MarketCategory): Promise<MarketItem[]> {
+        const cached = this.cache[category];
+        if (cached && Date.now() - cached.fetchedAt < FRESH_MS) return this.stamp(cached.items, cached.fetchedAt);
+
+        const candidates = this.getProviders(category);
+
+        for (const provider of candidates.filter(p => p.isLive)) {
+            try {
+                const items = await provider.fetchItems(category);
+                if (items.length === 0) continue;
+                const fetchedAt = Date.now();
+                const stamped = items.map(i => ({ ...i, source: provider.label, fetchedAt }));
+                this.cache[category] = { items: stamped, fetchedAt };
+                this.saveCache();
+                return this.stamp(stamped, fetchedAt);
+            } catch (error) {
+                console.warn(`Market provider ${provider.id} failed for ${category}`, error);
+            }
+        }
+
+        if (cached) return this.stamp(cached.items, cached.fetchedAt);
+
+        for (const provider of candidates.filter(p => !p.isLive)) {
+            try {
+                const items = await provider.fetchItems(category);
+                if (items.length > 0) return items.map(i => ({ ...i, source: provider.label, fetchedAt: Date.now(), isStale: true }));
+            } catch (error) {
+                console.warn(`Market provider ${provider.id} failed for ${category}`, error);
+            }
+        }
+        return [];
+    }
+
+    async fetchAll(): Promise<MarketItem[]> {
+        const results = await Promise.all(MARKET_CATEGORIES.map(c => this.fetchCategory(c)));
+        return results.flat();
+    }
+
+    clearCache() {
+        this.cache = {};
+        this.saveCache();
+    }
+
+    private stamp(items: MarketItem[], fetchedAt: number): MarketItem[] {
+        const isStale = Date.now() - fetchedAt > STALE_AFTER_MS;
+        return items.map(i => ({ ...i, isStale }));
+    }
+
+    private loadCache(): Partial<Record<MarketCategory, CacheEntry>> {
+        try {
+            return JSON.parse(localStorage.getItem(CACHE_KEY) || '{}');
+        } catch {
+            return {};
+        }
+    }
+
+    private saveCache() {
+        if (!this.persist) return;
+        try {
+            localStorage.setItem(CACHE_KEY, JSON.stringify(this.cache));
+        } catch (e) {
+            console.warn("Failed to persist market cache", e);
+        }
+    }
+}
+
+// VITE_MARKET_PROVIDER=fixture (e.g. in .env.local) serves deterministic data only, for offline
+// development. Read through import.meta.env: Vite only exposes VITE_ variables to the browser.
+const useFixturesOnly = import.meta.env?.VITE_MARKET_PROVIDER === 'fixture';
+
+export const marketRegistry = useFixturesOnly
+    ? new MarketProviderRegistry([new FixtureMarketProvider()], false)
+    : new MarketProviderRegistry([
+        new CoinGeckoCryptoProvider(),
+        new CoinGeckoFxProvider(),
+        new CoinGeckoGoldProvider(),
+        new SimulatedVnIndexProvider(),
+        new FixtureMarketProvider()
+    ]);
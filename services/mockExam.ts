@@ -0,0 +1,102 @@
+import { MockExamResult, MockExamSectionId, MockExamSectionResult, MockExamItemResult, MockExamType } from "../types";
+import { GrammarGrading } from "./aiSchemas";
+import { firebaseService } from "./firebase";
+
+// Full mock exam (Tiếng Anh → Thi thử): Speaking, Writing, Grammar and Reading under strict timing,
+// graded with the same AI calls as the practice modules and converted to CEFR / IELTS-style bands.
+// Results are synced like other record modules under users/{uid} ('mock_exams').
+
+export interface MockExamFormat {
+    type: MockExamType;
+    label: string;
+    speaking: {
+        shortQuestions: number;     // From QUESTIONS_DB
+        shortAnswerSeconds: number;
+        longPrepSeconds: number;    // One topic from ADVANCED_TOPICS
+        longAnswerSeconds: number;
+    };
+    writingSeconds: number;         // Task 1 and Task 2 share the time
+    grammarSeconds: number;
+    readingSeconds: number;
+    readingQuestions: number;
+}
+
+export const MOCK_EXAM_FORMATS: Record<MockExamType, MockExamFormat> = {
+    aptis: {
+        type: 'aptis',
+        label: 'Aptis',
+        speaking: { shortQuestions: 3, shortAnswerSeconds: 30, longPrepSeconds: 60, longAnswerSeconds: 120 },
+        writingSeconds: 30 * 60,
+        grammarSeconds: 12 * 60,
+        readingSeconds: 15 * 60,
+        readingQuestions: 5
+    },
+    ielts: {
+        type: 'ielts',
+        label: 'IELTS',
+        speaking: { shortQuestions: 4, shortAnswerSeconds: 30, longPrepSeconds: 60, longAnswerSeconds: 120 },
+        writingSeconds: 60 * 60,
+        grammarSeconds: 12 * 60,
+        readingSeconds: 20 * 60,
+        readingQuestions: 8
+    }
+};
+
+export const MOCK_EXAM_SECTIONS: { id: MockExamSectionId; label: string; icon: string }[] = [
+    { id: 'speaking', label: 'Speaking', icon: '🗣' },
+    { id: 'writing', label: 'Writing', icon: '✍️' },
+    { id: 'grammar', label: 'Grammar', icon: '🧩' },
+    { id: 'reading', label: 'Reading', icon: '📖' }
+];
+
+const MAX_SAVED_EXAMS = 30;
+
+// Approximate: the real exams scale per paper, this is one curve for all sections
+export const cefrFor = (percent: number | null): string => {
+    if (percent === null) return '—';
+    if (percent >= 90) return 'C2';
+    if (percent >= 75) return 'C1';
+    if (percent >= 60) return 'B2';
+    if (percent >= 45) return 'B1';
+    if (percent >= 30) return 'A2';
+    return 'A1';
+};
+
+export const bandFor = (percent: number | null): number | null =>
+    percent === null ? null : Math.max(1, Math.round(percent / 100 * 9 * 2) / 2);
+
+// Share of correct answers; the grader's own score field is not on a fixed scale either
+export const quizPercent = (grading: GrammarGrading, questionCount: number) =>
+    Math.round(grading.results.filter(r => r.isCorrect).length / (questionCount || 1) * 100);
+
+/** Section result from its graded items; the section is ungraded when none of them could be. */
+export const sectionResult = (section: MockExamSectionId, items: MockExamItemResult[], secondsUsed: number, percent?: number | null): MockExamSectionResult => {
+    const graded = items.filter(i => i.score !== null);
+    const value = percent !== undefined ? percent
+        : graded.length > 0 ? Math.round(graded.reduce((sum, i) => sum + (i.score || 0), 0) / graded.length) : null;
+    return { section, percent: value, cefr: cefrFor(value), band: bandFor(value), secondsUsed, items };
+};
+
+export const overallResult = (sections: MockExamSectionResult[]): MockExamResult['overall'] => {
+    const graded = sections.filter(s => s.percent !== null);
+    const percent = graded.length > 0 ? Math.round(graded.reduce((sum, s) => sum + (s.percent || 0), 0) / graded.length) : null;
+    return { percent, cefr: cefrFor(percent), band: bandFor(percent) };
+};
+
+class MockExamService {
+    async list(): Promise<MockExamResult[]> {
+        return (await firebaseService.getUserData('mock_exams')) || [];
+    }
+
+    async save(result: MockExamResult): Promise<void> {
+        const existing = await this.list();
+        await firebaseService.saveUserData('mock_exams', [result, ...existing.filter(r => r.id !== result.id)].slice(0, MAX_SAVED_EXAMS));
+    }
+
+    async remove(id: string): Promise<void> {
+        const existing = await this.list();
+        await firebaseService.saveUserData('mock_exams', existing.filter(r => r.id !== id));
+    }
+}
+
+export const mockExamService = new MockExamService();
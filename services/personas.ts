@@ -0,0 +1,186 @@
+import { AI_TOOLS } from "./aiTools";
+import { firebaseService } from "./firebase";
+import { RagSourceKind } from "./rag";
+import { speechService, VoiceSettings } from "./speech";
+
+// Assistant personas for the chat widget and the Assistant page. The built-in Nana is always
+// available; users keep their own personas under users/{uid} ('personas' module) and the admin
+// publishes shared ones in system/public, which everyone can pick and copy but not edit.
+
+export interface AssistantPersona {
+    id: string;
+    name: string;
+    avatar: string;                     // Emoji
+    description: string;                // Who the assistant is, completes "You are '<name>', ..."
+    language: string;                   // BCP 47: replies, speech recognition and the fallback voice
+    dialectRules: string;               // One rule per line
+    tone: string;
+    greeting: string;                   // First message of a new session
+    voice?: Pick<VoiceSettings, 'voiceURI' | 'rate' | 'pitch'>; // Otherwise the user's voice settings
+    allowedTools: string[];             // AI_TOOLS names
+    knowledgeScope: RagSourceKind[];    // Material searched before replying; empty turns retrieval off
+    shared?: boolean;                   // Published by the admin
+    updatedAt?: number;
+}
+
+export const PERSONA_LANGUAGES = [
+    { code: 'vi-VN', label: 'Tiếng Việt', name: 'Vietnamese' },
+    { code: 'en-US', label: 'English (US)', name: 'American English' },
+    { code: 'en-GB', label: 'English (UK)', name: 'British English' },
+    { code: 'ja-JP', label: '日本語', name: 'Japanese' },
+    { code: 'ko-KR', label: '한국어', name: 'Korean' },
+    { code: 'zh-CN', label: '中文', name: 'Simplified Chinese' },
+    { code: 'fr-FR', label: 'Français', name: 'French' }
+];
+
+export const PERSONA_KNOWLEDGE: { kind: RagSourceKind; label: string }[] = [
+    { kind: 'lesson', label: 'Bài học' },
+    { kind: 'note', label: 'Ghi chú' },
+    { kind: 'vocab', label: 'Từ vựng' },
+    { kind: 'reading', label: 'Bài đọc đã lưu' }
+];
+
+export const DEFAULT_PERSONA: AssistantPersona = {
+    id: 'nana',
+    name: 'Nana',
+    avatar: '👩‍🚀',
+    description: "the user's close best friend and witty study companion",
+    language: 'vi-VN',
+    dialectRules: [
+        "**Voice/Dialect**: You are a young female from **Northern Vietnam (Hanoi)**.",
+        "**Particles**: Use Northern particles naturally: **'nhé', 'nhỉ', 'thế', 'đấy', 'cơ', 'vâng', 'ạ'**.",
+        "**Avoid**: Do NOT use Southern dialect words like 'nhen', 'hông', 'nghen', 'dạ' (use 'vâng' instead), 'tui'.",
+        'Example: "Ôi bài này khó phết đấy nhỉ! Để mình xem giúp cậu nhé."'
+    ].join('\n'),
+    tone: 'Playful, caring, slightly sassy but polite.',
+    greeting: "Hế lô! Nana đây. Hôm nay tụi mình học gì nè? 😎",
+    allowedTools: AI_TOOLS.map(t => t.declaration.name),
+    knowledgeScope: PERSONA_KNOWLEDGE.map(k => k.kind)
+};
+
+const SHARED_CACHE_KEY = 'dh_shared_personas';
+const DEFAULT_PERSONA_KEY = 'dh_chat_persona';  // Persona for new chat sessions
+
+// Shared personas come from Firestore as written by whoever edited system/public
+const normalizePersona = (raw: any): AssistantPersona => ({
+    ...DEFAULT_PERSONA,
+    ...raw,
+    id: String(raw?.id || Date.now()),
+    name: String(raw?.name || 'Trợ lý').slice(0, 40),
+    allowedTools: Array.isArray(raw?.allowedTools) ? raw.allowedTools.filter((n: string) => AI_TOOLS.some(t => t.declaration.name === n)) : [],
+    knowledgeScope: Array.isArray(raw?.knowledgeScope) ? raw.knowledgeScope.filter((k: string) => PERSONA_KNOWLEDGE.some(p => p.kind === k)) : []
+});
+
+const languageName = (code: string) => PERSONA_LANGUAGES.find(l => l.code === code)?.name || code;
+
+/** Persona part of the system instruction; callers add context, materials and tool rules. */
+export const personaInstruction = (persona: AssistantPersona): string => {
+    const rules = persona.dialectRules.split('\n').map(r => r.trim()).filter(Boolean);
+    return [
+        `You are '${persona.name}'${persona.description ? `, ${persona.description}` : ''}.`,
+        '',
+        'CORE PERSONA RULES:',
+        `1. **Language**: Reply in ${languageName(persona.language)} unless the user asks for another language.`,
+        ...rules.map((rule, i) => `${i + 2}. ${rule}`),
+        `${rules.length + 2}. **Tone**: ${persona.tone || 'Friendly and helpful.'}`,
+        `${rules.length + 3}. **Sentence Structure**: Keep answers concise and text-friendly.`
+    ].join('\n');
+};
+
+/** The persona's voice on top of the user's settings; without a chosen voice, the best one for its language. */
+export const personaVoice = (persona: AssistantPersona, base: VoiceSettings): VoiceSettings => {
+    if (persona.voice?.voiceURI) return { ...base, ...persona.voice };
+    const voiceURI = persona.language.startsWith('vi') ? base.voiceURI : speechService.findBestVoice({ lang: persona.language })?.voiceURI || base.voiceURI;
+    return { ...base, ...persona.voice, voiceURI };
+};
+
+class PersonaService {
+    private shared: AssistantPersona[] = this.readShared();
+
+    private readShared(): AssistantPersona[] {
+        try {
+            return JSON.parse(localStorage.getItem(SHARED_CACHE_KEY) || '[]');
+        } catch (e) {
+            return [];
+        }
+    }
+
+    // The user's own personas, local copy
+    getLocal(): AssistantPersona[] {
+        try {
+            return JSON.parse(localStorage.getItem('dh_personas') || '[]');
+        } catch (e) {
+            return [];
+        }
+    }
+
+    /** Built-in, shared and own personas; an own persona replaces a shared one with the same id. */
+    all(): AssistantPersona[] {
+        const byId = new Map<string, AssistantPersona>([[DEFAULT_PERSONA.id, DEFAULT_PERSONA]]);
+        this.shared.forEach(p => byId.set(p.id, p));
+        this.getLocal().forEach(p => byId.set(p.id, p));
+        return [...byId.values()];
+    }
+
+    get(id?: string | null): AssistantPersona {
+        return this.all().find(p => p.id === id) || DEFAULT_PERSONA;
+    }
+
+    /** Fetch shared personas and the user's own from the cloud, then return all(). */
+    async refresh(): Promise<AssistantPersona[]> {
+        try {
+            const config = await firebaseService.getSystemConfig();
+            this.shared = ((config?.personas || []) as any[]).map(p => ({ ...normalizePersona(p), shared: true }));
+            localStorage.setItem(SHARED_CACHE_KEY, JSON.stringify(this.shared));
+        } catch (e) {
+            console.warn("Failed to load shared personas", e);
+        }
+        await firebaseService.getUserData('personas');
+        return this.all();
+    }
+
+    isShared(id: string): boolean {
+        return this.shared.some(p => p.id === id);
+    }
+
+    getDefaultId(): string {
+        return localStorage.getItem(DEFAULT_PERSONA_KEY) || DEFAULT_PERSONA.id;
+    }
+
+    setDefaultId(id: string) {
+        localStorage.setItem(DEFAULT_PERSONA_KEY, id);
+    }
+
+    async save(persona: AssistantPersona): Promise<void> {
+        const { shared, ...own } = persona;
+        const existing: AssistantPersona[] = (await firebaseService.getUserData('personas')) || [];
+        const item = { ...own, updatedAt: Date.now() };
+        await firebaseService.saveUserData('personas', existing.some(p => p.id === item.id)
+            ? existing.map(p => p.id === item.id ? item : p)
+            : [...existing, item]);
+    }
+
+    async remove(id: string): Promise<void> {
+        const existing: AssistantPersona[] = (await firebaseService.getUserData('personas')) || [];
+        await firebaseService.saveUserData('personas', existing.filter(p => p.id !== id));
+        if (this.getDefaultId() === id) this.setDefaultId(DEFAULT_PERSONA.id);
+    }
+
+    // Admin only (updateSystemConfig checks): the whole list is written, system/public has no subcollections
+    async publish(persona: AssistantPersona): Promise<void> {
+        const item = { ...normalizePersona(persona), shared: true, updatedAt: Date.now() };
+        const next = this.shared.some(p => p.id === item.id) ? this.shared.map(p => p.id === item.id ? item : p) : [...this.shared, item];
+        await firebaseService.updateSystemConfig({ personas: next });
+        this.shared = next;
+        localStorage.setItem(SHARED_CACHE_KEY, JSON.stringify(next));
+    }
+
+    async unpublish(id: string): Promise<void> {
+        const next = this.shared.filter(p => p.id !== id);
+        await firebaseService.updateSystemConfig({ personas: next });
+        this.shared = next;
+        localStorage.setItem(SHARED_CACHE_KEY, JSON.stringify(next));
+    }
+}
+
+export const personaService = new PersonaService();
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { portfolioService } from './portfolio';
+import { InvestmentHolding, HoldingLot } from '../types';
+import { MarketItem } from './market';
+
+const NOW = new Date('2026-03-15T12:00:00Z');
+
+let seq = 0;
+const lot = (side: HoldingLot['side'], date: string, quantity: number, price: number, fee = 0): HoldingLot =>
+    ({ id: `l${++seq}`, side, date, quantity, price, fee });
+
+const holding = (overrides: Partial<InvestmentHolding>): InvestmentHolding =>
+    ({ id: 'h1', name: 'FPT', assetClass: 'stock', lots: [], ...overrides });
+
+const quotes: MarketItem[] = [
+    { symbol: 'USD', name: 'USD/VND', price: 25000, change24h: 0, type: 'fiat', quoteCurrency: 'VND' },
+    { symbol: 'BTC', name: 'Bitcoin', price: 60000, change24h: 0, type: 'crypto', quoteCurrency: 'USD', source: 'CoinGecko' },
+    { symbol: 'SJC', name: 'Vàng SJC', price: 86000000, bid: 84000000, change24h: 0, type: 'gold', quoteCurrency: 'VND', source: 'CoinGecko (PAXG)', isStale: true }
+];
+
+describe('portfolioService.summarize', () => {
+    it('uses the average cost, fees included, and books realized P&L on sells', () => {
+        // Lots out of order on purpose: they are replayed by date
+        const h = holding({
+            manualPrice: 130000, manualPriceAt: '2026-03-14T00:00:00Z',
+            lots: [lot('sell', '2026-03-01', 100, 125000, 50000), lot('buy', '2026-01-10', 100, 100000, 100000), lot('buy', '2026-02-10', 100, 120000)]
+        });
+        const s = portfolioService.summarize(h, [], NOW);
+
+        expect(s.quantity).toBe(100);
+        expect(s.avgCost).toBe(110500);
+        expect(s.realizedPnL).toBe(100 * 125000 - 50000 - 100 * 110500);
+        expect(s.marketValue).toBe(13000000);
+        expect(s.unrealizedPnL).toBe(13000000 - 11050000);
+        expect(s.price).toEqual({ price: 130000, source: 'Nhập tay', isStale: false });
+    });
+
+    it('never sells more than is held', () => {
+        const s = portfolioService.summarize(holding({ lots: [lot('buy', '2026-01-01', 10, 1000), lot('sell', '2026-01-02', 15, 2000)] }), [], NOW);
+        expect(s.quantity).toBe(0);
+        expect(s.realizedPnL).toBe(10 * 2000 - 10 * 1000);
+    });
+
+    it('values holdings without any price at cost', () => {
+        const s = portfolioService.summarize(holding({ lots: [lot('buy', '2026-01-01', 10, 1000)] }), [], NOW);
+        expect(s).toMatchObject({ marketValue: 10000, unrealizedPnL: 0, price: null });
+    });
+
+    it('accrues simple interest on savings', () => {
+        const s = portfolioService.summarize(holding({ assetClass: 'savings', interestRate: 6, lots: [lot('buy', '2025-03-15', 100000000, 1)] }), [], new Date('2026-03-15'));
+        expect(s.marketValue).toBe(106000000);
+    });
+});
+
+describe('portfolioService.priceFor', () => {
+    it('converts USD quotes and takes the bid of VND quotes', () => {
+        expect(portfolioService.priceFor(holding({ assetClass: 'crypto', symbol: 'btc' }), quotes, NOW))
+            .toEqual({ price: 1500000000, source: 'CoinGecko', isStale: false });
+        expect(portfolioService.priceFor(holding({ assetClass: 'gold', symbol: 'SJC' }), quotes, NOW))
+            .toEqual({ price: 84000000, source: 'CoinGecko (PAXG)', isStale: true });
+    });
+
+    it('flags an old manual price', () => {
+        expect(portfolioService.priceFor(holding({ manualPrice: 1, manualPriceAt: '2026-03-01T00:00:00Z' }), [], NOW)?.isStale).toBe(true);
+    });
+});
+
+describe('portfolioService.compareAllocation', () => {
+    it('matches AI allocation names to asset classes', () => {
+        const summaries = [
+            portfolioService.summarize(holding({ lots: [lot('buy', '2026-01-01', 1, 3000000)] }), [], NOW),
+            portfolioService.summarize(holding({ id: 'h2', name: 'Vàng', assetClass: 'gold', lots: [lot('buy', '2026-01-01', 1, 1000000)] }), [], NOW)
+        ];
+        const rows = portfolioService.compareAllocation(summaries, [
+            { name: 'Vàng (Gold)', percentage: 20, color: '#F59E0B' },
+            { name: 'Bất động sản', percentage: 30, color: '#000000' }
+        ]);
+        expect(rows.map(r => [r.name, r.assetClass, r.actualPct, r.recommendedPct])).toEqual([
+            ['Vàng (Gold)', 'gold', 25, 20],
+            ['Bất động sản', null, 0, 30],
+            ['Cổ phiếu', 'stock', 75, 0]
+        ]);
+    });
+});
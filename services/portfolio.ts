@@ -0,0 +1,228 @@
+import { InvestmentHolding, HoldingAssetClass, HoldingLot, BudgetCategory, Transaction } from "../types";
+import { MarketItem } from "./market";
+import { OZ_TO_TAEL } from "./marketProviders";
+
+export const ASSET_CLASSES: { id: HoldingAssetClass; label: string; icon: string; unit: string; color: string }[] = [
+    { id: 'stock', label: 'Cổ phiếu', icon: '📈', unit: 'cp', color: '#10B981' },
+    { id: 'gold', label: 'Vàng', icon: '🥇', unit: 'lượng', color: '#F59E0B' },
+    { id: 'crypto', label: 'Crypto', icon: '🪙', unit: 'coin', color: '#8B5CF6' },
+    { id: 'savings', label: 'Tiết kiệm', icon: '🏦', unit: '₫', color: '#6366F1' }
+];
+
+// Symbols the market feed can price, per asset class (stocks have no feed yet: manual price)
+export const PRICED_SYMBOLS: Record<HoldingAssetClass, string[]> = {
+    stock: [],
+    gold: ['SJC', 'XAU'],
+    crypto: ['BTC', 'ETH'],
+    savings: []
+};
+
+export const INVESTMENT_INCOME_CATEGORY = 'Đầu tư';
+
+// A manual price older than this is shown as stale
+const MANUAL_PRICE_STALE_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Keywords used to match AI `recommendedAllocation` names to asset classes
+const ALLOCATION_KEYWORDS: Record<HoldingAssetClass, string[]> = {
+    gold: ['gold', 'vàng'],
+    stock: ['stock', 'equit', 'cổ phiếu', 'chứng khoán'],
+    crypto: ['crypto', 'bitcoin', 'tiền số', 'tiền mã hóa'],
+    savings: ['cash', 'saving', 'deposit', 'tiết kiệm', 'tiền mặt', 'tiền gửi']
+};
+
+export interface HoldingPrice {
+    price: number;   // VND per unit
+    source: string;
+    isStale: boolean;
+}
+
+export interface HoldingSummary {
+    holding: InvestmentHolding;
+    quantity: number;
+    avgCost: number;          // VND per unit (average cost method)
+    costBasis: number;        // Cost of the units still held
+    marketValue: number;      // Valued at cost when there is no price
+    realizedPnL: number;
+    unrealizedPnL: number;
+    unrealizedPct: number;
+    price: HoldingPrice | null;
+}
+
+export interface AllocationRow {
+    key: string;
+    name: string;
+    assetClass: HoldingAssetClass | null;   // null: recommended class we hold nothing of (e.g. real estate)
+    value: number;
+    actualPct: number;
+    recommendedPct: number | null;          // null when there is no AI recommendation
+    color: string;
+}
+
+export interface RecommendedAllocation {
+    name: string;
+    percentage: number;
+    color: string;
+}
+
+const sortLots = (lots: HoldingLot[]) => [...lots].sort((a, b) => a.date.localeCompare(b.date));
+
+class PortfolioService {
+    getClassMeta(assetClass: HoldingAssetClass) {
+        return ASSET_CLASSES.find(c => c.id === assetClass) || ASSET_CLASSES[0];
+    }
+
+    // Market quote converted to VND per unit. Gold is held in taels, so XAU (USD/oz) is converted too.
+    priceFor(holding: InvestmentHolding, items: MarketItem[], now: Date = new Date()): HoldingPrice | null {
+        const symbol = holding.symbol?.toUpperCase();
+        const item = symbol ? items.find(i => i.symbol === symbol) : undefined;
+        const usdRate = items.find(i => i.symbol === 'USD')?.price;
+
+        if (item) {
+            let price: number | null = null;
+            // Sell side: a dealer buys back at the bid
+            if (item.quoteCurrency === 'VND') price = item.bid || item.price;
+            else if (item.quoteCurrency === 'USD' && usdRate) price = item.price * usdRate * (symbol === 'XAU' ? OZ_TO_TAEL : 1);
+            if (price) return { price, source: item.source || item.symbol, isStale: !!item.isStale };
+        }
+
+        if (holding.manualPrice) {
+            const age = holding.manualPriceAt ? now.getTime() - new Date(holding.manualPriceAt).getTime() : Infinity;
+            return { price: holding.manualPrice, source: 'Nhập tay', isStale: age > MANUAL_PRICE_STALE_DAYS * DAY_MS };
+        }
+        return null;
+    }
+
+    // Simple interest on the remaining principal, accrued up to today or maturity
+    private accruedInterest(holding: InvestmentHolding, principal: number, now: Date): number {
+        if (!holding.interestRate || principal <= 0) return 0;
+        const buys = holding.lots.filter(l => l.side === 'buy');
+        const deposited = buys.reduce((sum, l) => sum + l.quantity * l.price, 0);
+        if (deposited <= 0) return 0;
+
+        const end = holding.maturityDate && new Date(holding.maturityDate) < now ? new Date(holding.maturityDate) : now;
+        const interest = buys.reduce((sum, l) => {
+            const days = Math.max(0, (end.getTime() - new Date(l.date).getTime()) / DAY_MS);
+            return sum + l.quantity * l.price * (holding.interestRate! / 100) * (days / 365);
+        }, 0);
+        // Withdrawals reduce interest proportionally
+        return Math.round(interest * (principal / deposited));
+    }
+
+    /**
+     * Average cost method: buys add to the cost basis (fees included), sells remove
+     * units at the current average cost and book the difference as realized P&L.
+     */
+    summarize(holding: InvestmentHolding, items: MarketItem[], now: Date = new Date()): HoldingSummary {
+        let quantity = 0;
+        let cost = 0;
+        let realizedPnL = 0;
+
+        sortLots(holding.lots || []).forEach(lot => {
+            const fee = Number(lot.fee) || 0;
+            if (lot.side === 'buy') {
+                quantity += lot.quantity;
+                cost += lot.quantity * lot.price + fee;
+            } else {
+                const sold = Math.min(lot.quantity, quantity);
+                const avg = quantity > 0 ? cost / quantity : 0;
+                realizedPnL += sold * lot.price - fee - avg * sold;
+                cost -= avg * sold;
+                quantity -= sold;
+            }
+        });
+
+        let price: HoldingPrice | null;
+        let marketValue: number;
+        if (holding.assetClass === 'savings') {
+            marketValue = cost + this.accruedInterest(holding, cost, now);
+            price = quantity > 0 ? { price: marketValue / quantity, source: `Lãi ${holding.interestRate || 0}%/năm`, isStale: false } : null;
+        } else {
+            price = this.priceFor(holding, items, now);
+            marketValue = price ? quantity * price.price : cost;
+        }
+
+        const unrealizedPnL = marketValue - cost;
+        return {
+            holding,
+            quantity,
+            avgCost: quantity > 0 ? cost / quantity : 0,
+            costBasis: cost,
+            marketValue,
+            realizedPnL,
+            unrealizedPnL,
+            unrealizedPct: cost > 0 ? (unrealizedPnL / cost) * 100 : 0,
+            price
+        };
+    }
+
+    totals(summaries: HoldingSummary[]) {
+        return summaries.reduce((acc, s) => ({
+            marketValue: acc.marketValue + s.marketValue,
+            costBasis: acc.costBasis + s.costBasis,
+            unrealizedPnL: acc.unrealizedPnL + s.unrealizedPnL,
+            realizedPnL: acc.realizedPnL + s.realizedPnL
+        }), { marketValue: 0, costBasis: 0, unrealizedPnL: 0, realizedPnL: 0 });
+    }
+
+    matchAllocationClass(name: string): HoldingAssetClass | null {
+        const lower = name.toLowerCase();
+        const match = (Object.keys(ALLOCATION_KEYWORDS) as HoldingAssetClass[])
+            .find(c => ALLOCATION_KEYWORDS[c].some(k => lower.includes(k)));
+        return match || null;
+    }
+
+    // Actual allocation by asset class, side by side with the AI recommendation when there is one
+    compareAllocation(summaries: HoldingSummary[], recommended?: RecommendedAllocation[]): AllocationRow[] {
+        const byClass: Partial<Record<HoldingAssetClass, number>> = {};
+        summaries.forEach(s => {
+            byClass[s.holding.assetClass] = (byClass[s.holding.assetClass] || 0) + s.marketValue;
+        });
+        const total = Object.values(byClass).reduce((sum, v) => sum + (v || 0), 0);
+        const pct = (v: number) => total > 0 ? (v / total) * 100 : 0;
+
+        const rows: AllocationRow[] = [];
+        const covered = new Set<HoldingAssetClass>();
+
+        (recommended || []).forEach(r => {
+            const assetClass = this.matchAllocationClass(r.name);
+            const value = assetClass && !covered.has(assetClass) ? byClass[assetClass] || 0 : 0;
+            if (assetClass) covered.add(assetClass);
+            rows.push({ key: r.name, name: r.name, assetClass, value, actualPct: pct(value), recommendedPct: r.percentage, color: r.color });
+        });
+
+        ASSET_CLASSES.filter(c => !covered.has(c.id) && byClass[c.id]).forEach(c => {
+            const value = byClass[c.id] || 0;
+            rows.push({ key: c.id, name: c.label, assetClass: c.id, value, actualPct: pct(value), recommendedPct: recommended ? 0 : null, color: c.color });
+        });
+
+        return rows;
+    }
+
+    // Amount put into holdings linked to an investment budget during the month of `month`
+    investedInMonth(holdings: InvestmentHolding[], budget: BudgetCategory, month: Date): number {
+        const prefix = `${month.getFullYear()}-${String(month.getMonth() + 1).padStart(2, '0')}`;
+        return holdings
+            .filter(h => h.budgetCategoryId === budget.id)
+            .flatMap(h => h.lots || [])
+            .filter(l => l.side === 'buy' && l.date.startsWith(prefix))
+            .reduce((sum, l) => sum + l.quantity * l.price + (Number(l.fee) || 0), 0);
+    }
+
+    /**
+     * Cash-flow transaction for a lot: buys are expenses booked against the linked investment
+     * budget (so budget tracking sees them), sells are investment income.
+     */
+    buildLotTransaction(holding: InvestmentHolding, lot: HoldingLot, budget?: BudgetCategory): Omit<Transaction, 'id'> {
+        const fee = Number(lot.fee) || 0;
+        const gross = lot.quantity * lot.price;
+        const unit = this.getClassMeta(holding.assetClass).unit;
+        const isSavings = holding.assetClass === 'savings';
+        const what = isSavings ? holding.name : `${lot.quantity} ${unit} ${holding.name}`;
+        return lot.side === 'buy'
+            ? { date: lot.date, amount: Math.round(gross + fee), type: 'expense', category: budget?.name || INVESTMENT_INCOME_CATEGORY, description: `${isSavings ? 'Gửi' : 'Mua'} ${what}` }
+            : { date: lot.date, amount: Math.round(gross - fee), type: 'income', category: INVESTMENT_INCOME_CATEGORY, description: `${isSavings ? 'Rút' : 'Bán'} ${what}` };
+    }
+}
+
+export const portfolioService = new PortfolioService();
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { priceHistoryService, PricePoint } from './priceHistory';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Local time, so day boundaries match toDateKey
+const point = (local: string, price: number): PricePoint => ({ symbol: 'BTC', ts: new Date(local).getTime(), price });
+
+describe('priceHistoryService.downsample', () => {
+    it('keeps the last point of each bucket, oldest first', () => {
+        const points = [point('2026-03-15T10:10:00', 3), point('2026-03-15T09:05:00', 1), point('2026-03-15T09:55:00', 2)];
+        expect(priceHistoryService.downsample(points, HOUR_MS).map(p => p.price)).toEqual([2, 3]);
+    });
+});
+
+describe('priceHistoryService.dailyCloses', () => {
+    it('keys the last point of each local day by date', () => {
+        const closes = priceHistoryService.dailyCloses([
+            point('2026-03-15T23:00:00', 2), point('2026-03-15T08:00:00', 1), point('2026-03-16T00:30:00', 3)
+        ]);
+        expect(Object.fromEntries(Object.entries(closes).map(([day, p]) => [day, p.price]))).toEqual({ '2026-03-15': 2, '2026-03-16': 3 });
+    });
+});
+
+describe('priceHistoryService.toPoints', () => {
+    it('keeps live quotes and flagged simulated VN-Index snapshots only', () => {
+        const fetchedAt = new Date('2026-03-15T10:00:00').getTime();
+        expect(priceHistoryService.toPoints([
+            { symbol: 'SJC', name: 'SJC', price: 86000000, bid: 84000000, change24h: 0, type: 'gold', source: 'CoinGecko (PAXG)', fetchedAt },
+            { symbol: 'VNINDEX', name: 'VN-Index (mô phỏng)', price: 1280, change24h: 0, type: 'index', source: 'Mô phỏng, không phải giá thật', fetchedAt, isStale: true },
+            { symbol: 'BTC', name: 'Bitcoin', price: 67500, change24h: 0, type: 'crypto', source: 'Dữ liệu mẫu', fetchedAt, isStale: true },
+            { symbol: 'ETH', name: 'Ethereum', price: 0, change24h: 0, type: 'crypto', fetchedAt }
+        ])).toEqual([
+            { symbol: 'SJC', ts: fetchedAt, price: 86000000, bid: 84000000, source: 'CoinGecko (PAXG)' },
+            { symbol: 'VNINDEX', ts: fetchedAt, price: 1280, source: 'Mô phỏng, không phải giá thật', isStale: true }
+        ]);
+    });
+});
+
+describe('priceHistoryService.record', () => {
+    it('skips stale and empty quotes before touching storage', async () => {
+        expect(await priceHistoryService.record([
+            { symbol: 'BTC', name: 'Bitcoin', price: 67500, change24h: 0, type: 'crypto', isStale: true },
+            { symbol: 'ETH', name: 'Ethereum', price: 0, change24h: 0, type: 'crypto' }
+        ])).toBe(0);
+    });
+});
+
+describe('priceHistoryService.describeTrends', () => {
+    afterEach(() => vi.restoreAllMocks());
+
+    it('labels simulated series for the AI', async () => {
+        const now = new Date('2026-03-15T12:00:00').getTime();
+        vi.spyOn(priceHistoryService, 'getHistory').mockImplementation(async symbol => [
+            { symbol, ts: now - 2 * 24 * HOUR_MS, price: 100, ...(symbol === 'VNINDEX' ? { source: 'Mô phỏng', isStale: true } : {}) },
+            { symbol, ts: now - HOUR_MS, price: 110, ...(symbol === 'VNINDEX' ? { source: 'Mô phỏng', isStale: true } : {}) }
+        ]);
+        const lines = (await priceHistoryService.describeTrends(['USD', 'VNINDEX'], now)).split('\n');
+        expect(lines[0]).toMatch(/^- USD: now 110, 7d 10.00%/);
+        expect(lines[1]).toMatch(/^- VNINDEX \[SIMULATED by Mô phỏng, not market data\]: now 110/);
+    });
+});
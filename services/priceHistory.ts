@@ -0,0 +1,210 @@
+import { MarketItem } from "./market";
+import { toDateKey } from "./recurring";
+
+// Time series of MarketItem prices, kept in IndexedDB (localStorage is too small for a year
+// of hourly points). Firestore backup goes through financialService.syncMarketHistory.
+
+export interface PricePoint {
+    symbol: string;
+    ts: number;          // ms epoch
+    price: number;       // SJC: sell price
+    bid?: number;        // SJC: buy price
+    source?: string;
+    isStale?: boolean;   // Simulated, not a market quote
+}
+
+// Symbols charted, synced to the cloud and summarized for the AI weekly analysis
+export const HISTORY_SYMBOLS = ['USD', 'SJC', 'XAU', 'VNINDEX', 'BTC', 'ETH'];
+
+// Symbols with no live feed yet (VN-Index only comes from SimulatedVnIndexProvider). Their
+// simulated snapshots are recorded anyway, flagged isStale, so charts and trends can say so.
+export const SIMULATED_SYMBOLS = ['VNINDEX'];
+
+export type HistoryRange = '7d' | '30d' | '1y';
+
+export const HISTORY_RANGES: { id: HistoryRange; label: string; days: number; bucketMs: number }[] = [
+    { id: '7d', label: '7 ngày', days: 7, bucketMs: 60 * 60 * 1000 },
+    { id: '30d', label: '30 ngày', days: 30, bucketMs: 6 * 60 * 60 * 1000 },
+    { id: '1y', label: '1 năm', days: 365, bucketMs: 24 * 60 * 60 * 1000 }
+];
+
+const DB_NAME = 'dh_market_history';
+const DB_VERSION = 1;
+const STORE = 'points';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SNAPSHOT_INTERVAL_MS = 60 * 60 * 1000; // At most one point per symbol per hour
+const RETENTION_DAYS = 400;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const txDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+const symbolRange = (symbol: string, from: number = 0, to: number = Infinity) =>
+    IDBKeyRange.bound([symbol, from], [symbol, to]);
+
+class PriceHistoryService {
+    private dbPromise: Promise<IDBDatabase> | null = null;
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+                if (typeof indexedDB === 'undefined') {
+                    reject(new Error("IndexedDB is not available"));
+                    return;
+                }
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    if (!db.objectStoreNames.contains(STORE)) db.createObjectStore(STORE, { keyPath: ['symbol', 'ts'] });
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+            // Allow a retry after a failed open (e.g. private mode)
+            this.dbPromise.catch(() => { this.dbPromise = null; });
+        }
+        return this.dbPromise;
+    }
+
+    async lastPoint(symbol: string): Promise<PricePoint | null> {
+        const db = await this.open();
+        const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+        const cursor = await promisify(store.openCursor(symbolRange(symbol), 'prev'));
+        return cursor ? cursor.value as PricePoint : null;
+    }
+
+    /**
+     * Points worth recording from a market snapshot: live quotes, plus the simulated ones of
+     * SIMULATED_SYMBOLS flagged isStale. Other stale items (old cache, fixtures) are skipped.
+     */
+    toPoints(items: MarketItem[]): PricePoint[] {
+        return items
+            .filter(i => i.price > 0 && (!i.isStale || SIMULATED_SYMBOLS.includes(i.symbol)))
+            .map(i => ({
+                symbol: i.symbol,
+                ts: i.fetchedAt || Date.now(),
+                price: i.price,
+                ...(i.bid ? { bid: i.bid } : {}),
+                ...(i.source ? { source: i.source } : {}),
+                ...(i.isStale ? { isStale: true } : {})
+            }));
+    }
+
+    // Store a snapshot (see toPoints), at most one point per symbol per hour. Returns the number of points written.
+    async record(items: MarketItem[]): Promise<number> {
+        const points = this.toPoints(items);
+        if (points.length === 0) return 0;
+
+        const due: PricePoint[] = [];
+        for (const point of points) {
+            const last = await this.lastPoint(point.symbol);
+            if (last && point.ts - last.ts < SNAPSHOT_INTERVAL_MS) continue;
+            due.push(point);
+        }
+        if (due.length === 0) return 0;
+
+        const db = await this.open();
+        const tx = db.transaction(STORE, 'readwrite');
+        const store = tx.objectStore(STORE);
+        const cutoff = Date.now() - RETENTION_DAYS * DAY_MS;
+        due.forEach(p => {
+            store.put(p);
+            store.delete(symbolRange(p.symbol, 0, cutoff));
+        });
+        await txDone(tx);
+        return due.length;
+    }
+
+    // Cloud backfill: points for days that already have local data are ignored
+    async importPoints(points: PricePoint[]): Promise<number> {
+        if (points.length === 0) return 0;
+        const symbols = Array.from(new Set(points.map(p => p.symbol)));
+        const known = new Set<string>();
+        for (const symbol of symbols) {
+            (await this.getHistory(symbol, 0)).forEach(p => known.add(`${symbol}_${toDateKey(new Date(p.ts))}`));
+        }
+
+        const fresh = points.filter(p => !known.has(`${p.symbol}_${toDateKey(new Date(p.ts))}`));
+        if (fresh.length === 0) return 0;
+
+        const db = await this.open();
+        const tx = db.transaction(STORE, 'readwrite');
+        fresh.forEach(p => tx.objectStore(STORE).put(p));
+        await txDone(tx);
+        return fresh.length;
+    }
+
+    async getHistory(symbol: string, from: number, to: number = Date.now()): Promise<PricePoint[]> {
+        const db = await this.open();
+        const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+        return await promisify(store.getAll(symbolRange(symbol, from, to))) as PricePoint[];
+    }
+
+    async getRange(symbol: string, range: HistoryRange, now: number = Date.now()): Promise<PricePoint[]> {
+        const meta = HISTORY_RANGES.find(r => r.id === range) || HISTORY_RANGES[0];
+        const points = await this.getHistory(symbol, now - meta.days * DAY_MS, now);
+        return this.downsample(points, meta.bucketMs);
+    }
+
+    // Keeps the last point of each time bucket so long ranges stay light for recharts
+    downsample(points: PricePoint[], bucketMs: number): PricePoint[] {
+        const buckets = new Map<number, PricePoint>();
+        points.forEach(p => buckets.set(Math.floor(p.ts / bucketMs), p));
+        return Array.from(buckets.values()).sort((a, b) => a.ts - b.ts);
+    }
+
+    // Last point of each local day, keyed by YYYY-MM-DD
+    dailyCloses(points: PricePoint[]): Record<string, PricePoint> {
+        const closes: Record<string, PricePoint> = {};
+        [...points].sort((a, b) => a.ts - b.ts).forEach(p => { closes[toDateKey(new Date(p.ts))] = p; });
+        return closes;
+    }
+
+    async earliestTimestamp(symbols: string[]): Promise<number | null> {
+        let earliest: number | null = null;
+        const db = await this.open();
+        for (const symbol of symbols) {
+            const cursor = await promisify(db.transaction(STORE, 'readonly').objectStore(STORE).openCursor(symbolRange(symbol)));
+            const ts = cursor ? (cursor.value as PricePoint).ts : null;
+            if (ts !== null && (earliest === null || ts < earliest)) earliest = ts;
+        }
+        return earliest;
+    }
+
+    /**
+     * Plain-text trend summary for AI prompts: latest value, 7d/30d change, 30d range and the
+     * last 7 daily closes per symbol. Symbols without at least two points are left out, and
+     * simulated series are labelled so the model does not read them as the market.
+     */
+    async describeTrends(symbols: string[], now: number = Date.now()): Promise<string> {
+        const lines: string[] = [];
+        for (const symbol of symbols) {
+            const points = (await this.getHistory(symbol, now - 30 * DAY_MS, now)).sort((a, b) => a.ts - b.ts);
+            if (points.length < 2) continue;
+
+            const latest = points[points.length - 1];
+            const at = (daysAgo: number) => {
+                const target = now - daysAgo * DAY_MS;
+                return [...points].reverse().find(p => p.ts <= target) || points[0];
+            };
+            const change = (from: PricePoint) => from.price ? ((latest.price - from.price) / from.price) * 100 : 0;
+            const prices = points.map(p => p.price);
+            const closes = Object.entries(this.dailyCloses(points)).slice(-7)
+                .map(([date, p]) => `${date.slice(5)}: ${p.price}${p.bid ? `/${p.bid}` : ''}`).join(', ');
+
+            const simulated = points.some(p => p.isStale) ? ` [SIMULATED by ${latest.source || 'the app'}, not market data]` : '';
+            lines.push(`- ${symbol}${simulated}: now ${latest.price}${latest.bid ? ` (buy ${latest.bid})` : ''}, 7d ${change(at(7)).toFixed(2)}%, 30d ${change(at(30)).toFixed(2)}%, 30d range ${Math.min(...prices)} - ${Math.max(...prices)}. Daily closes: ${closes}`);
+        }
+        return lines.join('\n');
+    }
+}
+
+export const priceHistoryService = new PriceHistoryService();
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+// Keep the scorer choice and IPA references offline: no AI provider, no saved vocab
+vi.mock('./gemini', () => ({ geminiService: { supportsLive: () => false } }));
+vi.mock('./vocab', () => ({ vocabService: { getTerms: () => [] } }));
+
+import { flagPhonemes, ipaPhonemes, localPronunciationScorer, pronunciationService } from './pronunciation';
+
+const SAMPLE_RATE = 16000;
+const FRAME = 1600; // 100 ms
+
+const frames = (pattern: string) =>
+    [...pattern].map(c => new Float32Array(FRAME).fill(c === '#' ? 0.2 : 0));
+
+describe('ipaPhonemes', () => {
+    it('splits diphthongs and affricates as one phoneme and keeps length marks', () => {
+        expect(ipaPhonemes('/ˈtʃeɪndʒ/')).toEqual(['tʃ', 'eɪ', 'n', 'dʒ']);
+        expect(ipaPhonemes('siːt')).toEqual(['s', 'iː', 't']);
+    });
+});
+
+describe('flagPhonemes', () => {
+    it('flags nothing when the heard form matches', () => {
+        expect(flagPhonemes('θɪŋk', 'θɪŋk')).toEqual([]);
+    });
+
+    it('flags replaced and missing phonemes', () => {
+        expect(flagPhonemes('θɪŋk', 'tɪŋk')).toEqual(['θ']);
+        expect(flagPhonemes('wɜːld', 'wɜːl')).toEqual(['d']);
+    });
+
+    it('ignores accent variants', () => {
+        expect(flagPhonemes('həʊm', 'hoʊm')).toEqual([]);
+        expect(flagPhonemes('ɡəʊ', 'goʊ')).toEqual([]);
+    });
+});
+
+describe('localPronunciationScorer', () => {
+    afterEach(() => pronunciationService.setScorer(null));
+
+    it('is used when no live AI provider is configured', () => {
+        expect(pronunciationService.getScorer()).toBe(localPronunciationScorer);
+    });
+
+    it('scores non-English words low and is deterministic', async () => {
+        pronunciationService.setScorer(localPronunciationScorer);
+        const input = frames('##########');
+        const first = await pronunciationService.scoreTurn(0, 'I like phở', input, SAMPLE_RATE);
+        const second = await pronunciationService.scoreTurn(0, 'I like phở', input, SAMPLE_RATE);
+
+        expect(first).toEqual(second);
+        expect(first!.scorer).toBe('local');
+        expect(first!.words.map(w => w.score)).toEqual([100, 100, 40]);
+        expect(first!.pronunciation).toBe(80);
+    });
+
+    it('lowers fluency for long pauses', async () => {
+        pronunciationService.setScorer(localPronunciationScorer);
+        const steady = await pronunciationService.scoreTurn(0, 'one two three four five', frames('####################'), SAMPLE_RATE);
+        const halting = await pronunciationService.scoreTurn(0, 'one two three four five', frames('##########........##########'), SAMPLE_RATE);
+        expect(halting!.fluency).toBeLessThan(steady!.fluency);
+    });
+
+    it('returns null for a silent turn', async () => {
+        expect(await pronunciationService.scoreTurn(0, 'hello', frames('.....'), SAMPLE_RATE)).toBeNull();
+    });
+});
@@ -0,0 +1,246 @@
+import { SpeakingTurnScore } from "../types";
+import { PronunciationAssessment } from "./aiSchemas";
+import { isAbortError } from "./aiPipeline";
+import { AICallOptions, geminiService } from "./gemini";
+import { vocabService } from "./vocab";
+
+// Pronunciation feedback for speaking practice. The microphone frames of one user turn are trimmed
+// to the speech span, measured locally (pace, pauses) and handed to a PronunciationScorer for
+// per-word scores. Flagged phonemes always come from comparing the heard IPA with the expected IPA
+// here, preferring the IPA saved on the user's vocab entries.
+
+export interface SpeechMeasurement {
+    samples: Float32Array;     // Speech span, first to last voiced frame
+    sampleRate: number;
+    speechMs: number;
+    pauseRatio: number;        // Share of silent frames inside the span
+    longPauses: number;
+}
+
+export interface PronunciationInput {
+    transcript: string;
+    words: string[];           // Transcript words without fillers
+    speech: SpeechMeasurement;
+    references: Record<string, string>;  // Lowercase word -> IPA from the user's vocab
+}
+
+export interface PronunciationScorer {
+    id: string;
+    assess(input: PronunciationInput, options?: AICallOptions): Promise<PronunciationAssessment>;
+}
+
+const VOICE_RMS = 0.02;        // Same threshold as the speaking visualizer
+const LONG_PAUSE_MS = 700;
+const FILLERS = new Set(['um', 'uh', 'uhm', 'er', 'erm', 'hmm', 'ah']);
+
+// Two-symbol phonemes, matched before single symbols
+const MULTI_SYMBOL = ['tʃ', 'dʒ', 'eɪ', 'aɪ', 'ɔɪ', 'aʊ', 'əʊ', 'oʊ', 'ɪə', 'eə', 'ʊə'];
+
+// Accent and notation variants that should not count as errors (RP vs General American, dictionaries)
+const EQUIVALENT: Record<string, string> = {
+    'əʊ': 'oʊ', 'ɒ': 'ɑ', 'ɑː': 'ɑ', 'ɜː': 'ɝ', 'ɜ': 'ɝ', 'ɚ': 'ə', 'ɐ': 'ʌ', 'ᵻ': 'ɪ',
+    'i': 'iː', 'u': 'uː', 'r': 'ɹ', 'ɾ': 't', 'ɡ': 'g', 'e': 'ɛ'
+};
+
+const rms = (frame: Float32Array) => {
+    let sum = 0;
+    for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+    return Math.sqrt(sum / (frame.length || 1));
+};
+
+/** Trim `frames` to the speech span and measure pauses; null when nobody spoke. */
+export const measureSpeech = (frames: Float32Array[], sampleRate: number): SpeechMeasurement | null => {
+    const voiced = frames.map(f => rms(f) > VOICE_RMS);
+    const first = voiced.indexOf(true);
+    const last = voiced.lastIndexOf(true);
+    if (first === -1) return null;
+
+    const span = frames.slice(first, last + 1);
+    const frameMs = frames[0].length / sampleRate * 1000;
+    let silent = 0, longPauses = 0, run = 0;
+    voiced.slice(first, last + 1).forEach(v => {
+        if (!v) { silent++; run++; return; }
+        if (run * frameMs >= LONG_PAUSE_MS) longPauses++;
+        run = 0;
+    });
+
+    const samples = new Float32Array(span.reduce((n, f) => n + f.length, 0));
+    let offset = 0;
+    span.forEach(f => { samples.set(f, offset); offset += f.length; });
+    return { samples, sampleRate, speechMs: span.length * frameMs, pauseRatio: silent / span.length, longPauses };
+};
+
+/** 16-bit mono WAV, base64 encoded for inline upload. */
+export const encodeWav = (samples: Float32Array, sampleRate: number): string => {
+    const buffer = new ArrayBuffer(44 + samples.length * 2);
+    const view = new DataView(buffer);
+    const writeString = (at: number, text: string) => { for (let i = 0; i < text.length; i++) view.setUint8(at + i, text.charCodeAt(i)); };
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + samples.length * 2, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true);                // PCM
+    view.setUint16(22, 1, true);                // Mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true);   // Byte rate
+    view.setUint16(32, 2, true);                // Block align
+    view.setUint16(34, 16, true);               // Bits per sample
+    writeString(36, 'data');
+    view.setUint32(40, samples.length * 2, true);
+    for (let i = 0; i < samples.length; i++) {
+        const s = Math.max(-1, Math.min(1, samples[i]));
+        view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
+    }
+
+    // Chunked, String.fromCharCode(...bytes) overflows the stack on long clips
+    const bytes = new Uint8Array(buffer);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return btoa(binary);
+};
+
+const tokenize = (transcript: string): string[] =>
+    transcript.split(/\s+/).map(w => w.replace(/^[^\p{L}']+|[^\p{L}']+$/gu, '')).filter(Boolean);
+
+export const wordsPerMinute = (wordCount: number, speechMs: number) =>
+    speechMs > 0 ? Math.round(wordCount / (speechMs / 60000)) : 0;
+
+/** Phonemes of an IPA string; stress marks, slashes, syllable dots and diacritics are dropped. */
+export const ipaPhonemes = (ipa: string): string[] => {
+    const clean = ipa.replace(/[\/\[\]\u02c8\u02cc.()\u203f\s]/g, '').replace(/[\u0300-\u036f]/g, ''); // Tie bars and diacritics too
+    const phonemes: string[] = [];
+    let i = 0;
+    while (i < clean.length) {
+        let symbol = MULTI_SYMBOL.find(m => clean.startsWith(m, i)) || clean[i];
+        i += symbol.length;
+        if (clean[i] === 'ː') { symbol += 'ː'; i++; }
+        phonemes.push(symbol);
+    }
+    return phonemes;
+};
+
+/** Expected phonemes missing from, or replaced in, the heard form (longest common subsequence). */
+export const flagPhonemes = (expectedIpa: string, heardIpa: string): string[] => {
+    const expected = ipaPhonemes(expectedIpa);
+    const norm = (p: string) => EQUIVALENT[p] || p;
+    const a = expected.map(norm);
+    const b = ipaPhonemes(heardIpa).map(norm);
+
+    const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const flagged: string[] = [];
+    let i = 0, j = 0;
+    while (i < a.length) {
+        if (j < b.length && a[i] === b[j]) { i++; j++; }
+        else if (j < b.length && lcs[i][j + 1] >= lcs[i + 1][j]) j++;
+        else { if (!flagged.includes(expected[i])) flagged.push(expected[i]); i++; }
+    }
+    return flagged;
+};
+
+// Learners' vocab entries that carry IPA, for the words of a turn
+const referenceIpa = (words: string[]): Record<string, string> => {
+    const wanted = new Set(words.map(w => w.toLowerCase()));
+    const references: Record<string, string> = {};
+    vocabService.getTerms().forEach(t => {
+        const key = t.term.trim().toLowerCase();
+        if (t.ipa && wanted.has(key)) references[key] = t.ipa.replace(/\//g, '');
+    });
+    return references;
+};
+
+/** Listens to the clip through the configured AI provider (needs audio input, i.e. Gemini). */
+export const geminiPronunciationScorer: PronunciationScorer = {
+    id: 'gemini',
+    assess: (input, options) => geminiService.assessPronunciation(input.transcript, encodeWav(input.speech.samples, input.speech.sampleRate), input.references, options)
+};
+
+/**
+ * Offline and deterministic: no heard IPA, so nothing is flagged. Words the recognizer could not
+ * map to English (e.g. Vietnamese syllables) count as mispronounced; fluency comes from the
+ * measured pace and pauses.
+ */
+export const localPronunciationScorer: PronunciationScorer = {
+    id: 'local',
+    assess: async ({ transcript, words, speech }) => {
+        const scored = words.map(word => ({ word, score: /^[a-z']+$/i.test(word) ? 100 : 40, heardIpa: '', expectedIpa: '' }));
+        const fillers = tokenize(transcript).length - words.length;
+        const wpm = wordsPerMinute(words.length, speech.speechMs);
+        const fluency = 100 - speech.pauseRatio * 50 - speech.longPauses * 8 - fillers * 5
+            - Math.max(0, 90 - wpm) * 0.5 - Math.max(0, wpm - 190) * 0.3;
+        return {
+            pronunciation: scored.reduce((sum, w) => sum + w.score, 0) / (scored.length || 1),
+            fluency: Math.max(0, Math.min(100, fluency)),
+            words: scored
+        };
+    }
+};
+
+/** Averages of a session's turn scores, for history lists and progress charts. */
+export const summarizeScores = (scores: SpeakingTurnScore[] = []) => {
+    if (scores.length === 0) return null;
+    const avg = (pick: (s: SpeakingTurnScore) => number) => Math.round(scores.reduce((sum, s) => sum + pick(s), 0) / scores.length);
+    return { pronunciation: avg(s => s.pronunciation), fluency: avg(s => s.fluency), wordsPerMinute: avg(s => s.wordsPerMinute) };
+};
+
+class PronunciationService {
+    private scorer: PronunciationScorer | null = null;
+
+    /** Pin a scorer (e.g. localPronunciationScorer in tests); null restores the automatic choice. */
+    setScorer(scorer: PronunciationScorer | null) {
+        this.scorer = scorer;
+    }
+
+    getScorer(): PronunciationScorer {
+        return this.scorer || (geminiService.supportsLive() ? geminiPronunciationScorer : localPronunciationScorer);
+    }
+
+    /**
+     * Score one user turn from its transcript and microphone frames. Returns null when the turn has
+     * no speech or no words. A failing AI scorer falls back to the local one.
+     */
+    async scoreTurn(turnIndex: number, transcript: string, frames: Float32Array[], sampleRate: number, options: AICallOptions = {}): Promise<SpeakingTurnScore | null> {
+        const speech = frames.length > 0 ? measureSpeech(frames, sampleRate) : null;
+        const words = tokenize(transcript).filter(w => !FILLERS.has(w.toLowerCase()));
+        if (!speech || words.length === 0) return null;
+
+        const input: PronunciationInput = { transcript, words, speech, references: referenceIpa(words) };
+        let scorer = this.getScorer();
+        let assessment: PronunciationAssessment;
+        try {
+            assessment = await scorer.assess(input, options);
+        } catch (e) {
+            if (isAbortError(e) || scorer === localPronunciationScorer) throw e;
+            console.warn("Pronunciation scoring failed, using the local scorer", e);
+            scorer = localPronunciationScorer;
+            assessment = await scorer.assess(input, options);
+        }
+
+        return {
+            turnIndex,
+            scorer: scorer.id,
+            pronunciation: Math.round(assessment.pronunciation),
+            fluency: Math.round(assessment.fluency),
+            wordsPerMinute: wordsPerMinute(words.length, speech.speechMs),
+            words: assessment.words.map(w => {
+                const expectedIpa = input.references[w.word.toLowerCase()] || w.expectedIpa.replace(/\//g, '') || undefined;
+                const heardIpa = w.heardIpa.replace(/\//g, '') || undefined;
+                return {
+                    word: w.word,
+                    score: Math.round(w.score),
+                    expectedIpa,
+                    heardIpa,
+                    flaggedPhonemes: expectedIpa && heardIpa ? flagPhonemes(expectedIpa, heardIpa) : []
+                };
+            })
+        };
+    }
+}
+
+export const pronunciationService = new PronunciationService();
@@ -0,0 +1,39 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('./gemini', () => ({ geminiService: {} }));
+vi.mock('./vocab', () => ({ vocabService: {} }));
+vi.mock('./readingLibrary', () => ({ readingLibraryService: {} }));
+
+import { chunkText, htmlToText } from './rag';
+
+const sentence = (i: number) => `Sentence number ${i} talks about one small thing in the lesson. `;
+
+describe('chunkText', () => {
+    it('keeps short texts whole and drops empty ones', () => {
+        expect(chunkText('  Present perfect: have + V3.  ')).toEqual(['Present perfect: have + V3.']);
+        expect(chunkText('   ')).toEqual([]);
+    });
+
+    it('splits long texts on sentence breaks, at most 1200 characters each, with overlap', () => {
+        const text = Array.from({ length: 60 }, (_, i) => sentence(i)).join('');
+        const chunks = chunkText(text);
+
+        expect(chunks.length).toBeGreaterThan(3);
+        chunks.forEach(c => expect(c.length).toBeLessThanOrEqual(1200));
+        chunks.slice(0, -1).forEach(c => expect(c.endsWith('.')).toBe(true));
+        // The next chunk starts inside the previous one
+        expect(chunks[0]).toContain(chunks[1].slice(0, 50));
+        expect(chunks[chunks.length - 1].endsWith(sentence(59).trim())).toBe(true);
+    });
+
+    it('cuts hard when there is no break in the second half of the window', () => {
+        const chunks = chunkText('x'.repeat(3000));
+        expect(chunks.map(c => c.length)).toEqual([1200, 1200, 1000]);
+    });
+});
+
+describe('htmlToText', () => {
+    it('drops tags, scripts and styles without a DOM', () => {
+        expect(htmlToText('<h1>Title</h1><style>h1{}</style><p>Hello <b>world</b></p><script>alert(1)</script>')).toBe('Title Hello world');
+    });
+});
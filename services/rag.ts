@@ -0,0 +1,278 @@
+import { ChatCitation, CourseNode, VocabTerm } from "../types";
+import { AICallOptions, geminiService } from "./gemini";
+import { readingLibraryService } from "./readingLibrary";
+import { vocabService } from "./vocab";
+
+// Retrieval over the user's own material for Nana. Lesson content and notes from the course tree,
+// vocabulary and saved reading passages are split into chunks, embedded, and stored in IndexedDB.
+// Before each search the index is brought up to date: only documents whose content hash (or the
+// embedding model) changed are embedded again.
+
+export type RagSourceKind = ChatCitation['kind'];
+
+export interface RagCitation {
+    kind: RagSourceKind;
+    title: string;
+    refId: string;      // Course node id (lesson, note), vocab folder id or reading passage id
+}
+
+export interface RagChunk extends RagCitation {
+    id: string;         // `${docId}#${index}`
+    docId: string;
+    text: string;
+    vector: number[];
+}
+
+export interface RagHit extends RagCitation {
+    text: string;
+    score: number;      // Cosine similarity with the query
+}
+
+interface RagDocument extends RagCitation {
+    id: string;
+    text: string;
+}
+
+interface RagDocState {
+    id: string;
+    hash: string;
+    model: string;
+}
+
+const DB_NAME = 'dh_rag_index';
+const DB_VERSION = 1;
+const CHUNKS = 'chunks';
+const DOCS = 'docs';
+
+const CHUNK_SIZE = 1200;        // Characters
+const CHUNK_OVERLAP = 200;
+const EMBED_BATCH = 50;         // Texts per embedding call
+const VOCAB_GROUP_SIZE = 30;    // Terms per vocab document
+const MIN_SCORE = 0.3;
+const DEFAULT_LIMIT = 5;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const txDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+export const htmlToText = (html: string): string => {
+    if (typeof DOMParser === 'undefined') {
+        return html.replace(/<(script|style)[\s\S]*?<\/\1>/gi, ' ').replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+    }
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    doc.querySelectorAll('script, style, noscript').forEach(n => n.remove());
+    return (doc.body?.textContent || '').replace(/[ \t]+/g, ' ').replace(/\n\s*\n+/g, '\n\n').trim();
+};
+
+// Windows of CHUNK_SIZE that end on a paragraph or sentence break when one is close enough
+export const chunkText = (text: string): string[] => {
+    const clean = text.trim();
+    if (clean.length <= CHUNK_SIZE) return clean ? [clean] : [];
+
+    const chunks: string[] = [];
+    let start = 0;
+    while (start < clean.length) {
+        let end = Math.min(start + CHUNK_SIZE, clean.length);
+        if (end < clean.length) {
+            const window = clean.slice(start, end);
+            const breakAt = Math.max(window.lastIndexOf('\n'), window.lastIndexOf('. '), window.lastIndexOf('? '), window.lastIndexOf('! '));
+            if (breakAt > CHUNK_SIZE / 2) end = start + breakAt + 1;
+        }
+        const chunk = clean.slice(start, end).trim();
+        if (chunk) chunks.push(chunk);
+        if (end >= clean.length) break;
+        start = Math.max(end - CHUNK_OVERLAP, start + 1);
+    }
+    return chunks;
+};
+
+// FNV-1a; only used to notice that a document changed
+const hashText = (text: string): string => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return (h >>> 0).toString(16) + ':' + text.length;
+};
+
+const cosine = (a: number[], b: number[]): number => {
+    let dot = 0, na = 0, nb = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        na += a[i] * a[i];
+        nb += b[i] * b[i];
+    }
+    return na && nb ? dot / Math.sqrt(na * nb) : 0;
+};
+
+const collectDocuments = (): RagDocument[] => {
+    const docs: RagDocument[] = [];
+
+    const tree: CourseNode[] = JSON.parse(localStorage.getItem('dh_course_tree_v2') || '[]');
+    const traverse = (nodes: CourseNode[]) => nodes.forEach(n => {
+        if (n.type === 'file' && n.data) {
+            const content = n.data.content ? htmlToText(n.data.content) : '';
+            if (content) docs.push({ id: `lesson:${n.id}`, kind: 'lesson', title: n.title, refId: n.id, text: `${n.title}\n${content}` });
+            if (n.data.notes?.trim()) docs.push({ id: `note:${n.id}`, kind: 'note', title: n.title, refId: n.id, text: `Ghi chú bài "${n.title}":\n${n.data.notes}` });
+        }
+        if (n.children) traverse(n.children);
+    });
+    traverse(tree);
+
+    const folders = vocabService.getFolders();
+    const byFolder: Record<string, VocabTerm[]> = {};
+    vocabService.getTerms().forEach(t => { (byFolder[t.folderId] = byFolder[t.folderId] || []).push(t); });
+    Object.entries(byFolder).forEach(([folderId, terms]) => {
+        const folderName = folders.find(f => f.id === folderId)?.name || 'Từ vựng';
+        // Oldest first, so adding a word only changes the last group
+        const sorted = [...terms].sort((a, b) => (a.createdAt || '').localeCompare(b.createdAt || ''));
+        for (let i = 0; i < sorted.length; i += VOCAB_GROUP_SIZE) {
+            const lines = sorted.slice(i, i + VOCAB_GROUP_SIZE).map(t =>
+                `${t.term}${t.partOfSpeech && t.partOfSpeech !== 'Unknown' ? ` (${t.partOfSpeech})` : ''}: ${t.meaning}${t.definition ? ` — ${t.definition}` : ''}${t.example ? `. Ví dụ: ${t.example}` : ''}`);
+            docs.push({ id: `vocab:${folderId}:${i / VOCAB_GROUP_SIZE}`, kind: 'vocab', title: folderName, refId: folderId, text: `Từ vựng thư mục "${folderName}":\n${lines.join('\n')}` });
+        }
+    });
+
+    readingLibraryService.getLocal().forEach(p => {
+        docs.push({ id: `reading:${p.id}`, kind: 'reading', title: p.title, refId: p.id, text: `${p.title}\n${p.content}\n${p.summary || ''}` });
+    });
+
+    return docs;
+};
+
+class RagService {
+    private dbPromise: Promise<IDBDatabase> | null = null;
+    private syncing: Promise<void> | null = null;
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+                if (typeof indexedDB === 'undefined') {
+                    reject(new Error("IndexedDB is not available"));
+                    return;
+                }
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    if (!db.objectStoreNames.contains(CHUNKS)) {
+                        db.createObjectStore(CHUNKS, { keyPath: 'id' }).createIndex('docId', 'docId');
+                    }
+                    if (!db.objectStoreNames.contains(DOCS)) {
+                        db.createObjectStore(DOCS, { keyPath: 'id' });
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+            // Allow a retry after a failed open (e.g. private mode)
+            this.dbPromise.catch(() => { this.dbPromise = null; });
+        }
+        return this.dbPromise;
+    }
+
+    private async getAll<T>(store: string): Promise<T[]> {
+        const db = await this.open();
+        return promisify(db.transaction(store, 'readonly').objectStore(store).getAll()) as Promise<T[]>;
+    }
+
+    /**
+     * Bring the index in line with the current material. Progress is written per batch, so an
+     * aborted sync resumes where it stopped. Concurrent callers share one run.
+     */
+    sync(options: AICallOptions = {}): Promise<void> {
+        if (!this.syncing) {
+            this.syncing = this.runSync(options).finally(() => { this.syncing = null; });
+        }
+        return this.syncing;
+    }
+
+    private async runSync(options: AICallOptions): Promise<void> {
+        const model = geminiService.embeddingModelKey();
+        if (!model) throw new Error("Vui lòng nhập API Key trong phần Cài đặt.");
+
+        const docs = collectDocuments();
+        const states = new Map((await this.getAll<RagDocState>(DOCS)).map(s => [s.id, s]));
+        const changed = docs.map(d => ({ doc: d, hash: hashText(d.text) }))
+            .filter(({ doc, hash }) => states.get(doc.id)?.hash !== hash || states.get(doc.id)?.model !== model);
+        const currentIds = new Set(docs.map(d => d.id));
+        const stale = [...states.keys()].filter(id => !currentIds.has(id)).concat(changed.map(c => c.doc.id));
+        if (stale.length === 0 && changed.length === 0) return;
+
+        const db = await this.open();
+        const cleanup = db.transaction([CHUNKS, DOCS], 'readwrite');
+        stale.forEach(docId => {
+            cleanup.objectStore(DOCS).delete(docId);
+            cleanup.objectStore(CHUNKS).index('docId').openKeyCursor(IDBKeyRange.only(docId)).onsuccess = (e) => {
+                const cursor = (e.target as IDBRequest<IDBCursor | null>).result;
+                if (cursor) { cleanup.objectStore(CHUNKS).delete(cursor.primaryKey); cursor.continue(); }
+            };
+        });
+        await txDone(cleanup);
+
+        const pending = changed.flatMap(({ doc, hash }) => {
+            const texts = chunkText(doc.text);
+            return texts.map((text, index) => ({ doc, hash, text, index, last: index === texts.length - 1 }));
+        });
+
+        for (let i = 0; i < pending.length; i += EMBED_BATCH) {
+            const batch = pending.slice(i, i + EMBED_BATCH);
+            const vectors = await geminiService.embed(batch.map(p => p.text), 'document', options);
+            const tx = db.transaction([CHUNKS, DOCS], 'readwrite');
+            batch.forEach((p, j) => {
+                const chunk: RagChunk = { id: `${p.doc.id}#${p.index}`, docId: p.doc.id, kind: p.doc.kind, title: p.doc.title, refId: p.doc.refId, text: p.text, vector: vectors[j] || [] };
+                tx.objectStore(CHUNKS).put(chunk);
+                // A document counts as indexed once its last chunk is stored
+                if (p.last) tx.objectStore(DOCS).put({ id: p.doc.id, hash: p.hash, model } as RagDocState);
+            });
+            await txDone(tx);
+        }
+    }
+
+    /**
+     * Chunks most similar to `query`, best first, optionally only of some `kinds`. The index is synced
+     * before searching, unless `background` is set: then the sync runs on its own and the search uses
+     * what is already indexed.
+     */
+    async search(query: string, options: AICallOptions & { limit?: number; kinds?: RagSourceKind[]; background?: boolean } = {}): Promise<RagHit[]> {
+        if (options.background) {
+            // Not tied to the caller's signal, so a cancelled search does not stop the indexing
+            this.sync().catch(e => console.warn("Background index sync failed", e));
+        } else {
+            await this.sync(options);
+        }
+        const chunks = (await this.getAll<RagChunk>(CHUNKS)).filter(c => !options.kinds || options.kinds.includes(c.kind));
+        if (chunks.length === 0) return [];
+
+        const [queryVector] = await geminiService.embed([query], 'query', options);
+        if (!queryVector?.length) return [];
+
+        return chunks
+            .map(({ vector, id, docId, ...rest }) => ({ ...rest, score: cosine(queryVector, vector) }))
+            .filter(hit => hit.score >= MIN_SCORE)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, options.limit || DEFAULT_LIMIT);
+    }
+
+    async count(): Promise<number> {
+        const db = await this.open();
+        return promisify(db.transaction(CHUNKS, 'readonly').objectStore(CHUNKS).count());
+    }
+
+    async clear(): Promise<void> {
+        const db = await this.open();
+        const tx = db.transaction([CHUNKS, DOCS], 'readwrite');
+        tx.objectStore(CHUNKS).clear();
+        tx.objectStore(DOCS).clear();
+        await txDone(tx);
+    }
+}
+
+export const ragService = new RagService();
@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('./firebase', () => ({ firebaseService: {} }));
+
+import { countWords, estimateReadingMinutes, unknownWordPercent, SavedReadingPassage } from './readingLibrary';
+
+const passage = (content: string, words: string[]): SavedReadingPassage => ({
+    id: 'p1', level: 'B1', topic: 'Travel', createdAt: '2026-03-15T08:00:00.000Z',
+    title: 'A trip', content, summary: '', keywords: [],
+    lookups: words.map(word => ({ word, meaning: '', savedToVocab: false }))
+});
+
+describe('countWords', () => {
+    it('counts words with apostrophes and hyphens once, ignoring numbers and punctuation', () => {
+        expect(countWords("It's a well-known fact: 3 cats don’t swim!")).toBe(7);
+        expect(countWords('  ')).toBe(0);
+    });
+});
+
+describe('estimateReadingMinutes', () => {
+    it('reads at the level speed, at least one minute', () => {
+        const text = 'word '.repeat(390);
+        expect(estimateReadingMinutes(text, 'B1')).toBe(3);
+        expect(estimateReadingMinutes(text, 'A1')).toBe(5);
+        expect(estimateReadingMinutes(text, 'unknown')).toBe(3);
+        expect(estimateReadingMinutes('Hello there.', 'C2')).toBe(1);
+    });
+});
+
+describe('unknownWordPercent', () => {
+    it('counts every running occurrence of the looked up words', () => {
+        // 12 words; "journey" twice, plus both words of "set off"
+        const p = passage('The journey was long. We set off early and the Journey ended.', ['journey', 'set off']);
+        expect(unknownWordPercent(p)).toBe(33.3);
+    });
+
+    it('is zero without lookups or content', () => {
+        expect(unknownWordPercent(passage('Short text.', []))).toBe(0);
+        expect(unknownWordPercent(passage('', ['word']))).toBe(0);
+    });
+});
@@ -0,0 +1,132 @@
+import { GrammarQuestion, ReadingPassage } from "./aiSchemas";
+import { firebaseService } from "./firebase";
+
+// AI reading passages the user generated in Phòng Đọc, kept so they can be reopened and searched
+// by Nana (rag.ts). Each passage also keeps its comprehension questions, the words looked up while
+// reading and every timed read. Synced like other record modules under users/{uid}.
+
+export interface ReadingLookup {
+    word: string;
+    meaning: string;
+    ipa?: string;
+    savedToVocab: boolean;
+}
+
+export interface ReadingSession {
+    finishedAt: string;
+    seconds: number;
+    wordsPerMinute: number;
+    unknownPercent: number;     // Share of running words the user looked up, at the end of this read
+}
+
+export interface SavedReadingPassage extends ReadingPassage {
+    id: string;
+    level: string;
+    topic: string;
+    createdAt: string;
+    wordCount?: number;         // Missing on passages saved before the graded reader
+    readingMinutes?: number;    // Estimated at the level's reading speed
+    questions?: GrammarQuestion[];
+    quizResult?: { correct: number; total: number; gradedAt: string };
+    lookups?: ReadingLookup[];
+    sessions?: ReadingSession[];
+}
+
+const MAX_SAVED_PASSAGES = 50; // Oldest are dropped
+
+// Typical learner reading speed (words per minute) by level, for the time estimate
+const LEVEL_WPM: Record<string, number> = { A1: 80, A2: 100, B1: 130, B2: 160, C1: 190, C2: 220 };
+
+const tokens = (text: string) => (text.toLowerCase().match(/[a-z]+(?:['’-][a-z]+)*/g) || []);
+
+export const countWords = (text: string) => tokens(text).length;
+
+export const estimateReadingMinutes = (text: string, level: string) =>
+    Math.max(1, Math.round(countWords(text) / (LEVEL_WPM[level] || LEVEL_WPM.B1)));
+
+/** Percentage of the passage's running words covered by its lookups (multi-word lookups count each word). */
+export const unknownWordPercent = (passage: SavedReadingPassage) => {
+    const words = tokens(passage.content);
+    if (words.length === 0) return 0;
+    const unknown = new Set((passage.lookups || []).flatMap(l => tokens(l.word)));
+    return Math.round(words.filter(w => unknown.has(w)).length / words.length * 1000) / 10;
+};
+
+class ReadingLibraryService {
+    // Local copy, for callers that cannot wait for the cloud
+    getLocal(): SavedReadingPassage[] {
+        try {
+            return JSON.parse(localStorage.getItem('dh_reading_passages') || '[]');
+        } catch (e) {
+            return [];
+        }
+    }
+
+    async list(): Promise<SavedReadingPassage[]> {
+        return (await firebaseService.getUserData('reading_passages')) || [];
+    }
+
+    async save(passage: ReadingPassage, level: string, topic: string): Promise<SavedReadingPassage> {
+        const item: SavedReadingPassage = {
+            ...passage, id: Date.now().toString(), level, topic, createdAt: new Date().toISOString(),
+            wordCount: countWords(passage.content),
+            readingMinutes: estimateReadingMinutes(passage.content, level),
+            lookups: [], sessions: []
+        };
+        const existing = await this.list();
+        await firebaseService.saveUserData('reading_passages', [item, ...existing].slice(0, MAX_SAVED_PASSAGES));
+        return item;
+    }
+
+    // Read-modify-write of one passage; null when it was deleted meanwhile
+    private async update(id: string, change: (passage: SavedReadingPassage) => SavedReadingPassage): Promise<SavedReadingPassage | null> {
+        const existing = await this.list();
+        const current = existing.find(p => p.id === id);
+        if (!current) return null;
+        const updated = change(current);
+        await firebaseService.saveUserData('reading_passages', existing.map(p => p.id === id ? updated : p));
+        return updated;
+    }
+
+    async setQuestions(id: string, questions: GrammarQuestion[]): Promise<SavedReadingPassage | null> {
+        return this.update(id, p => ({ ...p, questions, quizResult: undefined }));
+    }
+
+    async recordQuiz(id: string, correct: number, total: number): Promise<SavedReadingPassage | null> {
+        return this.update(id, p => ({ ...p, quizResult: { correct, total, gradedAt: new Date().toISOString() } }));
+    }
+
+    /** Remember a looked-up word once per passage (case-insensitive). */
+    async recordLookup(id: string, lookup: Omit<ReadingLookup, 'savedToVocab'>): Promise<SavedReadingPassage | null> {
+        return this.update(id, p => {
+            const lookups = p.lookups || [];
+            if (lookups.some(l => l.word.toLowerCase() === lookup.word.toLowerCase())) return p;
+            return { ...p, lookups: [...lookups, { ...lookup, savedToVocab: false }] };
+        });
+    }
+
+    async markSavedToVocab(id: string, words: string[]): Promise<SavedReadingPassage | null> {
+        const keys = new Set(words.map(w => w.toLowerCase()));
+        return this.update(id, p => ({ ...p, lookups: (p.lookups || []).map(l => keys.has(l.word.toLowerCase()) ? { ...l, savedToVocab: true } : l) }));
+    }
+
+    async recordSession(id: string, seconds: number): Promise<SavedReadingPassage | null> {
+        return this.update(id, p => {
+            const wordCount = p.wordCount ?? countWords(p.content);
+            const session: ReadingSession = {
+                finishedAt: new Date().toISOString(),
+                seconds,
+                wordsPerMinute: Math.round(wordCount / Math.max(seconds, 1) * 60),
+                unknownPercent: unknownWordPercent(p)
+            };
+            return { ...p, wordCount, sessions: [...(p.sessions || []), session] };
+        });
+    }
+
+    async remove(id: string): Promise<void> {
+        const existing = await this.list();
+        await firebaseService.saveUserData('reading_passages', existing.filter(p => p.id !== id));
+    }
+}
+
+export const readingLibraryService = new ReadingLibraryService();
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { recurringService } from './recurring';
+import { RecurringRule } from '../types';
+
+const rule = (overrides: Partial<RecurringRule> = {}): RecurringRule => ({
+    id: 'r1', name: 'Netflix', amount: 260000, type: 'expense', category: 'Giải trí',
+    frequency: 'monthly', interval: 1, startDate: '2026-01-31', skipDates: [], isActive: true, ...overrides
+});
+
+// Local noon, so the date key never shifts with the time zone
+const at = (key: string) => new Date(`${key}T12:00:00`);
+
+describe('recurringService.getOccurrences', () => {
+    it('clamps monthly rules to the month end and returns to the original day', () => {
+        expect(recurringService.getOccurrences(rule(), '2026-01-01', '2026-04-30'))
+            .toEqual(['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30']);
+    });
+
+    it('clamps yearly rules on 29 February outside leap years', () => {
+        const r = rule({ frequency: 'yearly', startDate: '2024-02-29' });
+        expect(recurringService.getOccurrences(r, '2024-01-01', '2028-12-31'))
+            .toEqual(['2024-02-29', '2025-02-28', '2026-02-28', '2027-02-28', '2028-02-29']);
+    });
+
+    it('honours the interval, end date and skipped dates', () => {
+        const r = rule({ frequency: 'weekly', interval: 2, startDate: '2026-03-02', endDate: '2026-04-13', skipDates: ['2026-03-16'] });
+        expect(recurringService.getOccurrences(r, '2026-03-01', '2026-12-31'))
+            .toEqual(['2026-03-02', '2026-03-30', '2026-04-13']);
+        expect(recurringService.getOccurrences(r, '2026-03-01', '2026-12-31', false)).toContain('2026-03-16');
+    });
+
+    it('finds the next occurrence after a date', () => {
+        expect(recurringService.nextOccurrence(rule(), at('2026-02-28'))).toBe('2026-03-31');
+    });
+});
+
+describe('recurringService.materialize', () => {
+    it('creates due transactions once, with stable ids, and advances the cursor past skips', () => {
+        const r = rule({ startDate: '2026-01-15', skipDates: ['2026-02-15'] });
+        const first = recurringService.materialize([r], at('2026-03-20'));
+        expect(first.transactions.map(t => t.id)).toEqual(['rec_r1_2026-01-15', 'rec_r1_2026-03-15']);
+        expect(first.rules[0].lastMaterializedDate).toBe('2026-03-15');
+        expect(first.changedRuleIds).toEqual(['r1']);
+
+        const again = recurringService.materialize(first.rules, at('2026-03-20'));
+        expect(again.transactions).toEqual([]);
+        expect(again.changedRuleIds).toEqual([]);
+    });
+
+    it('ignores paused rules', () => {
+        expect(recurringService.materialize([rule({ isActive: false })], at('2026-03-20')).transactions).toEqual([]);
+    });
+});
+
+describe('recurringService.project', () => {
+    it('only projects occurrences after today', () => {
+        const projected = recurringService.project([rule({ startDate: '2026-03-10' })], '2026-03-01', '2026-05-31', at('2026-03-10'));
+        expect(projected.map(t => t.date)).toEqual(['2026-04-10', '2026-05-10']);
+        expect(projected.every(t => t.isProjected)).toBe(true);
+    });
+
+    it('converts rules to a monthly amount', () => {
+        expect(recurringService.monthlyEquivalent(rule({ frequency: 'yearly', amount: 1200000 }))).toBe(100000);
+        expect(recurringService.monthlyEquivalent(rule({ frequency: 'weekly', amount: 120000 }))).toBe(520000);
+    });
+});
@@ -0,0 +1,160 @@
+import { RecurringRule, RecurrenceFrequency, Transaction } from "../types";
+
+// Safety cap so a bad rule (e.g. daily since 1970) can never lock up the UI
+const MAX_OCCURRENCES = 1000;
+
+export interface MaterializeResult {
+    transactions: Transaction[];   // New transactions to persist (deterministic ids)
+    rules: RecurringRule[];        // Rules with lastMaterializedDate advanced
+    changedRuleIds: string[];
+}
+
+// --- Date helpers (local time, YYYY-MM-DD) ---
+export const toDateKey = (d: Date): string => {
+    const y = d.getFullYear();
+    const m = String(d.getMonth() + 1).padStart(2, '0');
+    const day = String(d.getDate()).padStart(2, '0');
+    return `${y}-${m}-${day}`;
+};
+
+const parseDateKey = (key: string): Date => {
+    const [y, m, d] = key.split('-').map(Number);
+    return new Date(y, (m || 1) - 1, d || 1);
+};
+
+const addDays = (key: string, days: number): string => {
+    const d = parseDateKey(key);
+    d.setDate(d.getDate() + days);
+    return toDateKey(d);
+};
+
+// Nth occurrence of a rule. Months/years keep the original day, clamped to the month end (31 -> 28/30)
+const nthOccurrence = (start: Date, frequency: RecurrenceFrequency, step: number): Date => {
+    switch (frequency) {
+        case 'daily':
+            return new Date(start.getFullYear(), start.getMonth(), start.getDate() + step);
+        case 'weekly':
+            return new Date(start.getFullYear(), start.getMonth(), start.getDate() + step * 7);
+        case 'monthly':
+        case 'yearly': {
+            const months = frequency === 'monthly' ? step : step * 12;
+            const target = new Date(start.getFullYear(), start.getMonth() + months, 1);
+            const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+            target.setDate(Math.min(start.getDate(), lastDay));
+            return target;
+        }
+    }
+};
+
+class RecurringService {
+    /**
+     * All occurrence dates of a rule between `from` and `to` (inclusive, YYYY-MM-DD).
+     * Skipped dates are included unless `excludeSkipped` is set, so callers can still
+     * advance the materialization cursor past them.
+     */
+    getOccurrences(rule: RecurringRule, from: string, to: string, excludeSkipped: boolean = true): string[] {
+        const interval = Math.max(1, Math.floor(rule.interval || 1));
+        const start = parseDateKey(rule.startDate);
+        const upper = rule.endDate && rule.endDate < to ? rule.endDate : to;
+        const skips = new Set(rule.skipDates || []);
+        const result: string[] = [];
+
+        for (let i = 0; i < MAX_OCCURRENCES * 10; i++) {
+            const key = toDateKey(nthOccurrence(start, rule.frequency, i * interval));
+            if (key > upper) break;
+            if (key < from) continue;
+            if (excludeSkipped && skips.has(key)) continue;
+            result.push(key);
+            if (result.length >= MAX_OCCURRENCES) break;
+        }
+        return result;
+    }
+
+    nextOccurrence(rule: RecurringRule, after: Date = new Date()): string | null {
+        const from = addDays(toDateKey(after), 1);
+        const horizon = addDays(from, 366 * Math.max(1, rule.interval || 1));
+        return this.getOccurrences(rule, from, horizon)[0] || null;
+    }
+
+    // Stable id so re-running materialization (or running it on two devices) never duplicates
+    occurrenceId(ruleId: string, date: string): string {
+        return `rec_${ruleId}_${date}`;
+    }
+
+    private toTransaction(rule: RecurringRule, date: string, projected: boolean): Transaction {
+        return {
+            id: projected ? `proj_${rule.id}_${date}` : this.occurrenceId(rule.id, date),
+            date,
+            amount: Number(rule.amount),
+            type: rule.type,
+            category: rule.category,
+            description: rule.description || rule.name,
+            recurringRuleId: rule.id,
+            ...(rule.accountId ? { accountId: rule.accountId } : {}),
+            ...(projected ? { isProjected: true } : {})
+        };
+    }
+
+    /**
+     * Create the transactions that became due since each rule was last materialized
+     * (up to and including today). Pure: the caller persists the result.
+     */
+    materialize(rules: RecurringRule[], now: Date = new Date()): MaterializeResult {
+        const today = toDateKey(now);
+        const transactions: Transaction[] = [];
+        const changedRuleIds: string[] = [];
+
+        const nextRules = rules.map(rule => {
+            if (!rule.isActive) return rule;
+            const from = rule.lastMaterializedDate ? addDays(rule.lastMaterializedDate, 1) : rule.startDate;
+            if (from > today) return rule;
+
+            const all = this.getOccurrences(rule, from, today, false);
+            if (all.length === 0) return rule;
+
+            const skips = new Set(rule.skipDates || []);
+            all.filter(date => !skips.has(date)).forEach(date => transactions.push(this.toTransaction(rule, date, false)));
+            changedRuleIds.push(rule.id);
+            return { ...rule, lastMaterializedDate: all[all.length - 1] };
+        });
+
+        return { transactions, rules: nextRules, changedRuleIds };
+    }
+
+    // Future occurrences (after today) within [from, to], as projected transactions
+    project(rules: RecurringRule[], from: string, to: string, now: Date = new Date()): Transaction[] {
+        const tomorrow = addDays(toDateKey(now), 1);
+        const start = from > tomorrow ? from : tomorrow;
+        if (start > to) return [];
+
+        return rules
+            .filter(r => r.isActive)
+            .flatMap(rule => this.getOccurrences(rule, start, to).map(date => this.toTransaction(rule, date, true)))
+            .sort((a, b) => a.date.localeCompare(b.date));
+    }
+
+    // Upcoming charges for the next `days` days
+    upcoming(rules: RecurringRule[], days: number = 30, now: Date = new Date()): Transaction[] {
+        return this.project(rules, toDateKey(now), addDays(toDateKey(now), days), now);
+    }
+
+    // Average monthly amount of a rule, used for subscription totals
+    monthlyEquivalent(rule: RecurringRule): number {
+        const interval = Math.max(1, rule.interval || 1);
+        const perMonth: Record<RecurrenceFrequency, number> = {
+            daily: 365 / 12,
+            weekly: 52 / 12,
+            monthly: 1,
+            yearly: 1 / 12
+        };
+        return Math.round((Number(rule.amount) * perMonth[rule.frequency]) / interval);
+    }
+
+    formatFrequency(rule: RecurringRule): string {
+        const interval = Math.max(1, rule.interval || 1);
+        const unit: Record<RecurrenceFrequency, string> = { daily: 'ngày', weekly: 'tuần', monthly: 'tháng', yearly: 'năm' };
+        return interval === 1 ? `Hàng ${unit[rule.frequency]}` : `Mỗi ${interval} ${unit[rule.frequency]}`;
+    }
+}
+
+export const recurringService = new RecurringService();
@@ -28,6 +28,7 @@ class SpeechService {
     private recognition: any;
     private voices: SpeechSynthesisVoice[] = [];
     private isListening: boolean = false;
+    private sequenceId = 0; // Bumped on cancel so a stopped sequence stops reporting progress
 
     constructor() {
         this.synthesis = window.speechSynthesis;
@@ -210,7 +211,29 @@ class SpeechService {
         });
     }
 
+    /**
+     * Read `lines` in order exactly as written (no prosody tweaks or Vietnamese clean-up), e.g. a
+     * listening exercise. `onLine` reports the line being read; `onEnd` fires after the last one.
+     */
+    speakSequence(lines: { text: string; voice?: SpeechSynthesisVoice; pitch?: number }[], rate = 1, onLine?: (index: number) => void, onEnd?: () => void) {
+        this.cancel();
+        const id = this.sequenceId;
+        lines.forEach((line, i) => {
+            const utterance = new SpeechSynthesisUtterance(line.text);
+            utterance.rate = Math.max(0.5, Math.min(2, rate));
+            if (line.voice) {
+                utterance.voice = line.voice;
+                utterance.lang = line.voice.lang;
+            }
+            if (line.pitch) utterance.pitch = line.pitch;
+            utterance.onstart = () => { if (id === this.sequenceId) onLine?.(i); };
+            if (i === lines.length - 1) utterance.onend = () => { if (id === this.sequenceId) onEnd?.(); };
+            this.synthesis.speak(utterance);
+        });
+    }
+
     cancel() {
+        this.sequenceId++;
         this.synthesis.cancel();
     }
 
@@ -221,7 +244,8 @@ class SpeechService {
     startListening(
         onResult: (text: string) => void,
         onError: (error: string) => void,
-        onEnd: () => void
+        onEnd: () => void,
+        lang: string = 'vi-VN'
     ) {
         if (!this.recognition) {
             onError("Trình duyệt của bạn không hỗ trợ nhận diện giọng nói (Web Speech API).");
@@ -234,6 +258,7 @@ class SpeechService {
             return;
         }
 
+        this.recognition.lang = lang;
         this.recognition.onstart = () => {
             this.isListening = true;
         };
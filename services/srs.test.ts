@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { srsService } from './srs';
+import { VocabTerm } from '../types';
+
+const NOW = new Date('2026-03-15T08:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const term = (overrides: Partial<VocabTerm> = {}): VocabTerm => ({
+    id: '1', term: 'resilient', partOfSpeech: 'Adjective', meaning: 'kiên cường', definition: '', example: '',
+    folderId: 'root', learned: false, createdAt: '2026-03-01T00:00:00Z', ...overrides
+});
+
+// Review `grades` in order, each on the day the previous review made it due
+const review = (grades: Parameters<typeof srsService.schedule>[1][]) =>
+    grades.reduce((t, grade) => srsService.schedule(t, grade, t.srs ? new Date(t.srs.dueDate) : NOW), term());
+
+describe('srsService.schedule', () => {
+    it('gives the first intervals of SM-2', () => {
+        expect(srsService.previewIntervals(term(), NOW)).toEqual({ again: 0, hard: 1, good: 1, easy: 4 });
+        expect(review(['good', 'good']).srs!.interval).toBe(3);
+    });
+
+    it('grows the interval by the ease factor', () => {
+        const t = review(['good', 'good', 'good']);
+        expect(t.srs!.interval).toBe(Math.round(3 * 2.5));
+        expect(t.srs!.repetitions).toBe(3);
+    });
+
+    it('resets a lapsed card and lowers its ease', () => {
+        const t = review(['good', 'good', 'again']);
+        expect(t.srs).toMatchObject({ interval: 0, repetitions: 0, lapses: 1, ease: 2.3 });
+        expect(new Date(t.srs!.dueDate).getTime() - new Date(t.srs!.lastReviewedAt!).getTime()).toBe(10 * 60 * 1000);
+    });
+
+    it('never lets the ease drop below the minimum', () => {
+        expect(review(Array(10).fill('again')).srs!.ease).toBe(1.3);
+    });
+
+    it('marks a term learned once the interval matures', () => {
+        const t = review(['easy', 'easy', 'easy']);
+        expect(t.srs!.interval).toBeGreaterThanOrEqual(21);
+        expect(t.learned).toBe(true);
+    });
+
+    it('keeps a term learned after a lapse or when it was marked by hand', () => {
+        expect(review(['easy', 'easy', 'easy', 'again']).learned).toBe(true);
+        expect(srsService.schedule(term({ learned: true }), 'good', NOW).learned).toBe(true);
+    });
+});
+
+describe('srsService.buildDailyQueue', () => {
+    it('puts overdue cards first, most overdue first, then caps new cards', () => {
+        const due = (id: string, daysAgo: number) => term({ id, srs: { ...srsService.createInitialState(NOW), interval: 1, dueDate: new Date(NOW.getTime() - daysAgo * DAY_MS).toISOString() } });
+        const later = term({ id: 'later', srs: { ...srsService.createInitialState(NOW), dueDate: new Date(NOW.getTime() + DAY_MS).toISOString() } });
+        const fresh = ['n1', 'n2', 'n3'].map((id, i) => term({ id, createdAt: `2026-03-0${i + 1}T00:00:00Z` }));
+
+        const { queue } = srsService.buildDailyQueue([due('a', 1), later, ...fresh, due('b', 3)], NOW, 2);
+        expect(queue.map(t => t.id)).toEqual(['b', 'a', 'n1', 'n2']);
+    });
+
+    it('counts terms introduced today against the new card limit, even after their history is trimmed', () => {
+        const busy = review(Array(60).fill('again'));
+        expect(busy.srs!.history).toHaveLength(50);
+        expect(busy.srs!.introducedAt).toBe(NOW.toISOString());
+
+        const yesterday = srsService.schedule(term({ id: 'old' }), 'good', new Date(NOW.getTime() - DAY_MS));
+        const fresh = ['n1', 'n2'].map(id => term({ id }));
+        expect(srsService.countIntroducedToday([busy, yesterday, ...fresh], NOW)).toBe(1);
+        expect(srsService.buildDailyQueue([busy, yesterday, ...fresh], NOW, 2).fresh.map(t => t.id)).toEqual(['n1']);
+    });
+});
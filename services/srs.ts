@@ -0,0 +1,145 @@
+import { ReviewGrade, VocabSrsState, VocabTerm } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// SM-2 constants (Anki-style variant with 4 buttons)
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const RELEARN_DELAY_MS = 10 * 60 * 1000; // "Again" comes back after 10 minutes
+const HARD_FACTOR = 1.2;
+const EASY_BONUS = 1.3;
+const MAX_HISTORY = 50;
+
+// A term is considered "learned" once its interval passes this many days
+const MATURE_INTERVAL = 21;
+
+// When the term was first reviewed. States saved before introducedAt existed fall back to the
+// first history entry, as long as the history has not been trimmed yet.
+const introducedAt = (srs: VocabSrsState): string | undefined =>
+    srs.introducedAt || (srs.history.length < MAX_HISTORY ? srs.history[0]?.reviewedAt : undefined);
+
+export const NEW_TERMS_PER_DAY = 20;
+
+export interface ReviewQueue {
+    due: VocabTerm[];      // Already-seen terms whose due date has passed
+    fresh: VocabTerm[];    // Never-reviewed terms, capped by the daily limit
+    queue: VocabTerm[];    // due + fresh, in review order
+}
+
+class SrsService {
+    createInitialState(now: Date = new Date()): VocabSrsState {
+        return {
+            ease: DEFAULT_EASE,
+            interval: 0,
+            repetitions: 0,
+            lapses: 0,
+            dueDate: now.toISOString(),
+            history: []
+        };
+    }
+
+    // Compute the next schedule for a term after the user grades it
+    schedule(term: VocabTerm, grade: ReviewGrade, now: Date = new Date()): VocabTerm {
+        const prev = term.srs || this.createInitialState(now);
+        let { ease, interval, repetitions, lapses } = prev;
+        let dueMs: number;
+
+        switch (grade) {
+            case 'again':
+                lapses = repetitions > 0 ? lapses + 1 : lapses;
+                repetitions = 0;
+                interval = 0;
+                ease = Math.max(MIN_EASE, ease - 0.2);
+                dueMs = now.getTime() + RELEARN_DELAY_MS;
+                break;
+            case 'hard':
+                interval = repetitions === 0 ? 1 : Math.max(interval + 1, Math.round(interval * HARD_FACTOR));
+                repetitions += 1;
+                ease = Math.max(MIN_EASE, ease - 0.15);
+                dueMs = now.getTime() + interval * DAY_MS;
+                break;
+            case 'good':
+                if (repetitions === 0) interval = 1;
+                else if (repetitions === 1) interval = Math.max(interval + 1, 3);
+                else interval = Math.max(interval + 1, Math.round(interval * ease));
+                repetitions += 1;
+                dueMs = now.getTime() + interval * DAY_MS;
+                break;
+            case 'easy':
+                if (repetitions === 0) interval = 4;
+                else interval = Math.max(interval + 1, Math.round(interval * ease * EASY_BONUS));
+                repetitions += 1;
+                ease = ease + 0.15;
+                dueMs = now.getTime() + interval * DAY_MS;
+                break;
+        }
+
+        const history = [
+            ...prev.history,
+            { reviewedAt: now.toISOString(), grade, interval, ease: Number(ease.toFixed(2)) }
+        ].slice(-MAX_HISTORY);
+        const firstReview = introducedAt(prev) || (prev.history.length === 0 ? now.toISOString() : undefined);
+
+        // A lapse does not undo "learned", whether it was reached here or marked by hand
+        return {
+            ...term,
+            learned: term.learned || interval >= MATURE_INTERVAL,
+            srs: {
+                ease: Number(ease.toFixed(2)),
+                interval,
+                repetitions,
+                lapses,
+                dueDate: new Date(dueMs).toISOString(),
+                lastReviewedAt: now.toISOString(),
+                ...(firstReview ? { introducedAt: firstReview } : {}),
+                history
+            }
+        };
+    }
+
+    // Preview the interval each button would give (for button labels)
+    previewIntervals(term: VocabTerm, now: Date = new Date()): Record<ReviewGrade, number> {
+        const grades: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+        const result = {} as Record<ReviewGrade, number>;
+        grades.forEach(g => { result[g] = this.schedule(term, g, now).srs!.interval; });
+        return result;
+    }
+
+    isDue(term: VocabTerm, now: Date = new Date()): boolean {
+        if (!term.srs) return false;
+        return new Date(term.srs.dueDate).getTime() <= now.getTime();
+    }
+
+    // Number of new terms already introduced today (first review happened today)
+    countIntroducedToday(terms: VocabTerm[], now: Date = new Date()): number {
+        const today = now.toDateString();
+        return terms.filter(t => {
+            const first = t.srs && introducedAt(t.srs);
+            return first && new Date(first).toDateString() === today;
+        }).length;
+    }
+
+    // Build today's review queue: overdue cards first (most overdue first), then new cards
+    buildDailyQueue(terms: VocabTerm[], now: Date = new Date(), newLimit: number = NEW_TERMS_PER_DAY): ReviewQueue {
+        const due = terms
+            .filter(t => this.isDue(t, now))
+            .sort((a, b) => new Date(a.srs!.dueDate).getTime() - new Date(b.srs!.dueDate).getTime());
+
+        const remainingNew = Math.max(0, newLimit - this.countIntroducedToday(terms, now));
+        const fresh = terms
+            .filter(t => !t.srs)
+            .sort((a, b) => new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime())
+            .slice(0, remainingNew);
+
+        return { due, fresh, queue: [...due, ...fresh] };
+    }
+
+    formatInterval(days: number): string {
+        if (days <= 0) return '10 phút';
+        if (days < 30) return `${days} ngày`;
+        if (days < 365) return `${Math.round(days / 30)} tháng`;
+        return `${(days / 365).toFixed(1)} năm`;
+    }
+}
+
+export const srsService = new SrsService();
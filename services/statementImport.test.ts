@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { statementImportService as importer, ParsedRow } from './statementImport';
+import { Transaction } from '../types';
+
+describe('parseCsv', () => {
+    it('sniffs the delimiter and keeps quoted delimiters and quotes', () => {
+        expect(importer.parseCsv('Ngày;Nội dung;Số tiền\r\n15/03/2026;"Cafe; bánh ""ngon""";-45.000\n')).toEqual([
+            ['Ngày', 'Nội dung', 'Số tiền'],
+            ['15/03/2026', 'Cafe; bánh "ngon"', '-45.000']
+        ]);
+    });
+
+    it('keeps line breaks inside quoted cells', () => {
+        expect(importer.parseCsv('a,b\n"line 1\nline 2",x')).toEqual([['a', 'b'], ['line 1\nline 2', 'x']]);
+    });
+});
+
+describe('read and applyMapping', () => {
+    it('skips bank title lines and maps debit/credit columns', () => {
+        const text = [
+            'SAO KE TAI KHOAN',
+            'So tai khoan: 0123456789',
+            'Ngày giao dịch,Số tham chiếu,Ghi nợ,Ghi có,Nội dung',
+            '15/03/2026,FT001,"45.000",,Highlands Coffee',
+            '16/03/2026,FT002,,"15.000.000",Luong thang 3',
+            'Tổng cộng,,,,'
+        ].join('\n');
+        const raw = importer.read('statement.csv', text);
+        expect(raw.header[0]).toBe('Ngày giao dịch');
+
+        const mapping = importer.autoMap(raw.header);
+        const { parsed, skipped } = importer.applyMapping(raw.rows, mapping);
+        expect(parsed).toEqual([
+            { date: '2026-03-15', amount: -45000, description: 'Highlands Coffee', externalId: 'FT001' },
+            { date: '2026-03-16', amount: 15000000, description: 'Luong thang 3', externalId: 'FT002' }
+        ]);
+        expect(skipped).toBe(1);
+    });
+
+    it('parses both Vietnamese and US number formats', () => {
+        expect(importer.parseAmount('1.250.000')).toBe(1250000);
+        expect(importer.parseAmount('12,5')).toBe(12.5);
+        expect(importer.parseAmount('1,250,000.00')).toBe(1250000);
+        expect(importer.parseAmount('(45.000)')).toBe(-45000);
+    });
+});
+
+describe('buildCandidates', () => {
+    const existing: Transaction[] = [
+        { id: 't1', date: '2026-03-14', amount: 45000, type: 'expense', category: 'Ăn uống', description: 'Highlands Coffee' },
+        { id: 't2', date: '2026-03-01', amount: 500000, type: 'expense', category: 'Khác', externalId: 'FT900' }
+    ];
+
+    it('flags fuzzy and reference matches against stored transactions', () => {
+        const parsed: ParsedRow[] = [
+            { date: '2026-03-15', amount: -45000, description: 'HIGHLANDS COFFEE Q1' },
+            { date: '2026-03-20', amount: -500000, description: 'Chuyen tien', externalId: 'FT900' },
+            { date: '2026-03-15', amount: -120000, description: 'Grab' }
+        ];
+        const candidates = importer.buildCandidates(parsed, existing);
+        expect(candidates.map(c => c.duplicateOf?.id)).toEqual(['t1', 't2', undefined]);
+        expect(candidates.map(c => c.selected)).toEqual([false, false, true]);
+        expect(candidates[2]).toMatchObject({ type: 'expense', amount: 120000, category: 'Đi lại' });
+    });
+
+    it('never fuzzy-matches two rows whose bank references differ', () => {
+        const [candidate] = importer.buildCandidates([{ date: '2026-03-01', amount: -500000, description: 'Chuyen tien', externalId: 'FT901' }], existing);
+        expect(candidate.duplicateOf).toBeUndefined();
+        expect(candidate.selected).toBe(true);
+    });
+
+    it('treats in-file repeats as duplicates only when they share a reference', () => {
+        const coffee: ParsedRow = { date: '2026-03-18', amount: -30000, description: 'Cafe' };
+        const withRef: ParsedRow = { date: '2026-03-18', amount: -30000, description: 'Cafe', externalId: 'FT5' };
+        const candidates = importer.buildCandidates([coffee, coffee, withRef, withRef], []);
+        expect(candidates.map(c => c.selected)).toEqual([true, true, true, false]);
+    });
+});
@@ -0,0 +1,414 @@
+import { Transaction } from "../types";
+
+// Bank statement importer: CSV exports from Vietnamese banks, OFX and QIF.
+// Everything here is pure parsing; writing happens in financialService.batchImportTransactions.
+
+export type StatementFormat = 'csv' | 'ofx' | 'qif';
+export type DateOrder = 'DMY' | 'MDY' | 'YMD';
+export type BankPresetId = 'auto' | 'vietcombank' | 'techcombank' | 'mb' | 'other';
+
+export interface ColumnMapping {
+    date: number;
+    description: number;
+    amount: number;   // Single signed amount column (-1 if debit/credit are used)
+    debit: number;    // Money out (-1 if unused)
+    credit: number;   // Money in (-1 if unused)
+    reference: number; // Bank reference / transaction number (-1 if unused)
+    dateOrder: DateOrder;
+}
+
+export interface RawStatement {
+    format: StatementFormat;
+    header: string[];      // CSV only
+    rows: string[][];      // CSV only, data rows after the header
+    parsed: ParsedRow[];   // OFX/QIF are structured, so they are parsed immediately
+}
+
+export interface ParsedRow {
+    date: string;          // YYYY-MM-DD
+    amount: number;        // Signed: negative = money out
+    description: string;
+    externalId?: string;   // FITID / bank reference, used for exact de-duplication
+}
+
+export interface ImportCandidate {
+    key: string;
+    date: string;
+    amount: number;        // Always positive
+    type: 'income' | 'expense';
+    description: string;
+    category: string;
+    externalId?: string;
+    duplicateOf?: Transaction;
+    duplicateScore: number;
+    selected: boolean;
+}
+
+interface BankPreset {
+    id: BankPresetId;
+    name: string;
+    dateOrder: DateOrder;
+    keywords: {
+        date: string[];
+        description: string[];
+        amount: string[];
+        debit: string[];
+        credit: string[];
+        reference: string[];
+    };
+}
+
+// Header keywords are matched after stripping diacritics, so "Ngày giao dịch" == "ngay giao dich"
+const COMMON_KEYWORDS = {
+    date: ['ngay giao dich', 'ngay gd', 'ngay hach toan', 'transaction date', 'posting date', 'ngay', 'date'],
+    description: ['noi dung', 'mo ta', 'dien giai', 'chi tiet', 'description', 'transaction detail', 'remark', 'details'],
+    amount: ['so tien', 'amount', 'phat sinh'],
+    debit: ['ghi no', 'phat sinh no', 'so tien rut', 'tien ra', 'debit', 'withdrawal', 'no'],
+    credit: ['ghi co', 'phat sinh co', 'so tien gui', 'tien vao', 'credit', 'deposit', 'co'],
+    reference: ['so tham chieu', 'so but toan', 'ma giao dich', 'so ct', 'reference', 'ref no', 'transaction no']
+};
+
+export const BANK_PRESETS: BankPreset[] = [
+    { id: 'auto', name: 'Tự động nhận diện', dateOrder: 'DMY', keywords: COMMON_KEYWORDS },
+    {
+        id: 'vietcombank', name: 'Vietcombank', dateOrder: 'DMY',
+        keywords: { ...COMMON_KEYWORDS, date: ['ngay giao dich', 'ngay'], debit: ['so tien ghi no', 'ghi no'], credit: ['so tien ghi co', 'ghi co'], description: ['mo ta', 'noi dung'] }
+    },
+    {
+        id: 'techcombank', name: 'Techcombank', dateOrder: 'DMY',
+        keywords: { ...COMMON_KEYWORDS, date: ['ngay giao dich', 'transaction date'], debit: ['no/debit', 'debit', 'no'], credit: ['co/credit', 'credit', 'co'], description: ['dien giai', 'description'] }
+    },
+    {
+        id: 'mb', name: 'MB Bank', dateOrder: 'DMY',
+        keywords: { ...COMMON_KEYWORDS, date: ['ngay giao dich', 'ngay hach toan'], debit: ['phat sinh no', 'so tien ghi no'], credit: ['phat sinh co', 'so tien ghi co'], description: ['noi dung', 'dien giai'] }
+    },
+    { id: 'other', name: 'Ngân hàng khác', dateOrder: 'DMY', keywords: COMMON_KEYWORDS }
+];
+
+// Simple keyword -> category guesses so most rows need no manual editing
+const CATEGORY_RULES: { type: 'income' | 'expense'; category: string; keywords: string[] }[] = [
+    { type: 'income', category: 'Lương', keywords: ['luong', 'salary', 'payroll'] },
+    { type: 'income', category: 'Thưởng', keywords: ['thuong', 'bonus'] },
+    { type: 'income', category: 'Đầu tư', keywords: ['lai tiet kiem', 'co tuc', 'interest', 'dividend'] },
+    { type: 'expense', category: 'Ăn uống', keywords: ['an uong', 'nha hang', 'cafe', 'coffee', 'highlands', 'starbucks', 'shopeefood', 'grabfood', 'baemin', ' pho ', ' com '] },
+    { type: 'expense', category: 'Đi lại', keywords: ['grab', 'be ', 'xanh sm', 'gojek', 'xang', 'petrolimex', 'parking', 'gui xe', 'vetc', 'epass'] },
+    { type: 'expense', category: 'Nhà cửa', keywords: ['tien nha', 'thue nha', 'rent', 'chung cu'] },
+    { type: 'expense', category: 'Tiện ích', keywords: ['dien', 'nuoc', 'evn', 'internet', 'fpt', 'viettel', 'vnpt', 'mobifone', 'vinaphone', 'cuoc'] },
+    { type: 'expense', category: 'Mua sắm', keywords: ['shopee', 'lazada', 'tiki', 'tiktok shop', 'winmart', 'coopmart', 'bach hoa xanh', 'sieu thi'] },
+    { type: 'expense', category: 'Giải trí', keywords: ['netflix', 'spotify', 'youtube', 'cgv', 'galaxy', 'steam', 'game'] },
+    { type: 'expense', category: 'Y tế', keywords: ['benh vien', 'nha thuoc', 'pharmacity', 'long chau', 'phong kham'] },
+    { type: 'expense', category: 'Giáo dục', keywords: ['hoc phi', 'khoa hoc', 'course', 'udemy', 'sach'] }
+];
+
+const DUPLICATE_THRESHOLD = 0.75;
+const DUPLICATE_DAY_WINDOW = 3;
+
+// --- Text helpers ---
+export const normalizeText = (s: string) =>
+    (s || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/đ/g, 'd').replace(/Đ/g, 'D').toLowerCase().replace(/\s+/g, ' ').trim();
+
+const tokenSimilarity = (a: string, b: string): number => {
+    const ta = new Set(normalizeText(a).split(/[^a-z0-9]+/).filter(t => t.length > 1));
+    const tb = new Set(normalizeText(b).split(/[^a-z0-9]+/).filter(t => t.length > 1));
+    if (ta.size === 0 || tb.size === 0) return 0;
+    let common = 0;
+    ta.forEach(t => { if (tb.has(t)) common++; });
+    return common / (ta.size + tb.size - common);
+};
+
+const dayDiff = (a: string, b: string) => Math.abs(new Date(a).getTime() - new Date(b).getTime()) / (24 * 60 * 60 * 1000);
+
+class StatementImportService {
+    detectFormat(fileName: string, text: string): StatementFormat {
+        const lower = fileName.toLowerCase();
+        if (lower.endsWith('.ofx') || lower.endsWith('.qfx') || /<OFX>/i.test(text)) return 'ofx';
+        if (lower.endsWith('.qif') || /^!Type:/im.test(text)) return 'qif';
+        return 'csv';
+    }
+
+    read(fileName: string, text: string): RawStatement {
+        const clean = text.replace(/^\uFEFF/, '');
+        const format = this.detectFormat(fileName, clean);
+        if (format === 'ofx') return { format, header: [], rows: [], parsed: this.parseOfx(clean) };
+        if (format === 'qif') return { format, header: [], rows: [], parsed: this.parseQif(clean) };
+
+        const all = this.parseCsv(clean);
+        const headerIndex = this.findHeaderRow(all);
+        return {
+            format,
+            header: all[headerIndex] || [],
+            rows: all.slice(headerIndex + 1).filter(r => r.some(c => c.trim() !== '')),
+            parsed: []
+        };
+    }
+
+    // --- Number & date parsing ---
+
+    /**
+     * Parse an amount the way SmartMoneyInput does: "." groups thousands and "," is the
+     * decimal separator ("1.250.000" / "12,5"). US-style exports ("1,250,000.00") are
+     * recognised when both separators appear or commas form clean groups of three.
+     */
+    parseAmount(raw: string): number | null {
+        if (!raw) return null;
+        const trimmed = raw.trim();
+        const negative = /^\(.*\)$/.test(trimmed) || /^-/.test(trimmed) || /-$/.test(trimmed);
+        let s = trimmed.replace(/[^0-9.,]/g, '');
+        if (!s) return null;
+
+        const lastDot = s.lastIndexOf('.');
+        const lastComma = s.lastIndexOf(',');
+        if (lastDot > -1 && lastComma > -1) {
+            s = lastComma > lastDot ? s.replace(/\./g, '').replace(',', '.') : s.replace(/,/g, '');
+        } else if (lastComma > -1) {
+            s = /^\d{1,3}(,\d{3})+$/.test(s) ? s.replace(/,/g, '') : s.replace(',', '.');
+        } else if (lastDot > -1 && /^\d{1,3}(\.\d{3})+$/.test(s)) {
+            s = s.replace(/\./g, '');
+        }
+
+        const num = parseFloat(s);
+        if (isNaN(num)) return null;
+        return negative ? -num : num;
+    }
+
+    // Returns YYYY-MM-DD or null. Accepts "15/03/2026", "15-03-26 10:20", "2026-03-15", OFX "20260315120000[+7:ICT]" and QIF "3/15'26"
+    parseDate(raw: string, order: DateOrder = 'DMY'): string | null {
+        if (!raw) return null;
+        const s = raw.trim().replace(/'/g, '/');
+
+        const compact = s.match(/^(\d{4})(\d{2})(\d{2})/);
+        if (compact) return this.buildDate(+compact[1], +compact[2], +compact[3]);
+
+        const m = s.match(/(\d{1,4})[\/\-.](\d{1,2})[\/\-.](\d{1,4})/);
+        if (!m) return null;
+        const [a, b, c] = [m[1], m[2], m[3]];
+
+        if (a.length === 4) return this.buildDate(+a, +b, +c);
+        const year = c.length === 2 ? 2000 + Number(c) : Number(c);
+        return order === 'MDY' ? this.buildDate(year, +a, +b) : this.buildDate(year, +b, +a);
+    }
+
+    private buildDate(y: number, m: number, d: number): string | null {
+        if (!y || m < 1 || m > 12 || d < 1 || d > 31) return null;
+        const date = new Date(y, m - 1, d);
+        if (date.getMonth() !== m - 1) return null;
+        return `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+    }
+
+    // --- CSV ---
+    parseCsv(text: string): string[][] {
+        // Exports often open with a bank title line, so sniff the delimiter over the first lines
+        const sample = text.split(/\r?\n/).slice(0, 20).join('\n');
+        const delimiter = [';', '\t', ','].reduce((best, d) => (sample.split(d).length > sample.split(best).length ? d : best), ',');
+
+        const rows: string[][] = [];
+        let row: string[] = [];
+        let cell = '';
+        let inQuotes = false;
+
+        for (let i = 0; i < text.length; i++) {
+            const ch = text[i];
+            if (inQuotes) {
+                if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+                else if (ch === '"') inQuotes = false;
+                else cell += ch;
+            } else if (ch === '"') inQuotes = true;
+            else if (ch === delimiter) { row.push(cell.trim()); cell = ''; }
+            else if (ch === '\n' || ch === '\r') {
+                if (ch === '\r' && text[i + 1] === '\n') i++;
+                row.push(cell.trim()); rows.push(row); row = []; cell = '';
+            } else cell += ch;
+        }
+        if (cell !== '' || row.length > 0) { row.push(cell.trim()); rows.push(row); }
+        return rows;
+    }
+
+    // Bank exports start with account info lines; the header is the first row naming a date column and an amount-like column
+    private findHeaderRow(rows: string[][]): number {
+        const kw = COMMON_KEYWORDS;
+        for (let i = 0; i < Math.min(rows.length, 30); i++) {
+            const cells = rows[i].map(normalizeText);
+            const hasDate = cells.some(c => kw.date.some(k => c.includes(k)));
+            const hasMoney = cells.some(c => [...kw.amount, ...kw.debit, ...kw.credit].some(k => c === k || c.includes(k)));
+            if (hasDate && hasMoney && cells.filter(Boolean).length >= 3) return i;
+        }
+        return 0;
+    }
+
+    autoMap(header: string[], presetId: BankPresetId = 'auto'): ColumnMapping {
+        const preset = BANK_PRESETS.find(p => p.id === presetId) || BANK_PRESETS[0];
+        const cells = header.map(normalizeText);
+        const used = new Set<number>();
+
+        // Exact matches first, then "contains", so short keywords like "co" don't steal "mo ta"
+        const find = (keywords: string[]) => {
+            for (const k of keywords) {
+                const exact = cells.findIndex((c, i) => !used.has(i) && c === k);
+                if (exact > -1) { used.add(exact); return exact; }
+            }
+            for (const k of keywords) {
+                if (k.length <= 2) continue;
+                const partial = cells.findIndex((c, i) => !used.has(i) && c.includes(k));
+                if (partial > -1) { used.add(partial); return partial; }
+            }
+            return -1;
+        };
+
+        const date = find(preset.keywords.date);
+        const reference = find(preset.keywords.reference);
+        const debit = find(preset.keywords.debit);
+        const credit = find(preset.keywords.credit);
+        const amount = debit > -1 && credit > -1 ? -1 : find(preset.keywords.amount);
+        const description = find(preset.keywords.description);
+
+        return { date, description, amount, debit, credit, reference, dateOrder: preset.dateOrder };
+    }
+
+    applyMapping(rows: string[][], mapping: ColumnMapping): { parsed: ParsedRow[]; skipped: number } {
+        const parsed: ParsedRow[] = [];
+        let skipped = 0;
+
+        rows.forEach(row => {
+            const date = this.parseDate(row[mapping.date] || '', mapping.dateOrder);
+            let amount: number | null = null;
+            if (mapping.amount > -1) {
+                amount = this.parseAmount(row[mapping.amount] || '');
+            } else {
+                const out = Math.abs(this.parseAmount(row[mapping.debit] || '') || 0);
+                const inc = Math.abs(this.parseAmount(row[mapping.credit] || '') || 0);
+                amount = inc - out;
+            }
+
+            if (!date || !amount) { skipped++; return; }
+            parsed.push({
+                date,
+                amount,
+                description: (row[mapping.description] || '').trim(),
+                externalId: mapping.reference > -1 ? (row[mapping.reference] || '').trim() || undefined : undefined
+            });
+        });
+
+        return { parsed, skipped };
+    }
+
+    // --- OFX (SGML or XML flavour) ---
+    parseOfx(text: string): ParsedRow[] {
+        const blocks = text.split(/<STMTTRN>/i).slice(1);
+        const tag = (block: string, name: string) => {
+            const m = block.match(new RegExp(`<${name}>([^<\\r\\n]*)`, 'i'));
+            return m ? m[1].trim() : '';
+        };
+
+        return blocks.map(block => {
+            const date = this.parseDate(tag(block, 'DTPOSTED'), 'YMD');
+            const amount = parseFloat(tag(block, 'TRNAMT').replace(',', '.'));
+            const name = tag(block, 'NAME');
+            const memo = tag(block, 'MEMO');
+            return {
+                date: date || '',
+                amount,
+                description: [name, memo].filter(Boolean).join(' - '),
+                externalId: tag(block, 'FITID') || undefined
+            };
+        }).filter(r => r.date && !isNaN(r.amount) && r.amount !== 0);
+    }
+
+    // --- QIF ---
+    parseQif(text: string, order: DateOrder = 'DMY'): ParsedRow[] {
+        const result: ParsedRow[] = [];
+        let current: { date?: string; amount?: number; payee?: string; memo?: string; ref?: string } = {};
+
+        text.split(/\r?\n/).forEach(line => {
+            const code = line.charAt(0);
+            const value = line.slice(1).trim();
+            switch (code) {
+                case 'D': current.date = value; break;
+                case 'T':
+                case 'U': current.amount = this.parseAmount(value) ?? undefined; break;
+                case 'P': current.payee = value; break;
+                case 'M': current.memo = value; break;
+                case 'N': current.ref = value; break;
+                case '^': {
+                    const date = this.parseDate(current.date || '', order);
+                    if (date && current.amount) {
+                        result.push({
+                            date,
+                            amount: current.amount,
+                            description: [current.payee, current.memo].filter(Boolean).join(' - '),
+                            externalId: current.ref || undefined
+                        });
+                    }
+                    current = {};
+                    break;
+                }
+            }
+        });
+        return result;
+    }
+
+    // --- Categorisation & de-duplication ---
+    guessCategory(description: string, type: 'income' | 'expense'): string {
+        const text = ` ${normalizeText(description)} `;
+        const rule = CATEGORY_RULES.find(r => r.type === type && r.keywords.some(k => text.includes(k)));
+        if (rule) return rule.category;
+        return type === 'income' ? 'Khác' : 'Mua sắm';
+    }
+
+    /**
+     * Fuzzy match against existing transactions: same type, amount within 1đ, date within
+     * a few days, weighted by how close the dates are and how similar the descriptions are.
+     * When both sides carry a bank reference, the references alone decide.
+     */
+    findDuplicate(row: { date: string; amount: number; type: 'income' | 'expense'; description: string; externalId?: string }, existing: Transaction[]) {
+        let best: { match: Transaction; score: number } | null = null;
+
+        existing.forEach(t => {
+            if (t.type !== row.type) return;
+            if (row.externalId && t.externalId) {
+                if (row.externalId === t.externalId) best = { match: t, score: 1 };
+                return;
+            }
+            if (Math.abs(Number(t.amount) - row.amount) > 1) return;
+            const days = dayDiff(t.date, row.date);
+            if (days > DUPLICATE_DAY_WINDOW) return;
+
+            const score = 0.6 + 0.25 * (1 - days / (DUPLICATE_DAY_WINDOW + 1)) + 0.15 * tokenSimilarity(t.description || t.category, row.description);
+            if (!best || score > best.score) best = { match: t, score };
+        });
+
+        return best as { match: Transaction; score: number } | null;
+    }
+
+    buildCandidates(parsed: ParsedRow[], existing: Transaction[]): ImportCandidate[] {
+        const seen: Transaction[] = [];
+
+        return parsed.map((row, index) => {
+            const type: 'income' | 'expense' = row.amount > 0 ? 'income' : 'expense';
+            const amount = Math.abs(Math.round(row.amount));
+            const base = { date: row.date, amount, type, description: row.description, externalId: row.externalId };
+
+            // Check against stored data, then for rows repeated within the same file. In-file
+            // repeats only count when they share a bank reference: without one, two identical
+            // rows (two coffees on one day) are legitimate
+            let dup = this.findDuplicate(base, existing);
+            if ((!dup || dup.score < DUPLICATE_THRESHOLD) && row.externalId) {
+                const copy = seen.find(t => t.externalId === row.externalId);
+                if (copy) dup = { match: copy, score: 1 };
+            }
+            const isDuplicate = !!dup && dup.score >= DUPLICATE_THRESHOLD;
+
+            if (row.externalId) seen.push({ id: `file_${index}`, ...base, category: '' });
+
+            return {
+                key: `${index}_${row.date}_${amount}`,
+                ...base,
+                category: this.guessCategory(row.description, type),
+                duplicateOf: isDuplicate ? dup!.match : undefined,
+                duplicateScore: dup ? dup.score : 0,
+                selected: !isDuplicate
+            };
+        });
+    }
+}
+
+export const statementImportService = new StatementImportService();
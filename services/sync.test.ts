@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { threeWayMerge, ModuleSnapshot } from './sync';
+
+const NOW = Date.now();
+
+const snap = (records: any[], tombstones: any[] = []): ModuleSnapshot => ({ records, tombstones });
+const rec = (id: string, fields: object, version: number, updatedAt = NOW - 1000 + version) => ({ id, ...fields, version, updatedAt });
+
+describe('threeWayMerge', () => {
+    const base = snap([rec('a', { title: 'A', done: false }, 1), rec('b', { title: 'B' }, 1)]);
+
+    it('takes the side that changed since base', () => {
+        const local = snap([rec('a', { title: 'A local', done: false }, 2), rec('b', { title: 'B' }, 1)]);
+        const remote = snap([rec('a', { title: 'A', done: false }, 1), rec('b', { title: 'B remote' }, 2)]);
+        const merged = threeWayMerge(base, local, remote);
+        expect(merged.records.map((r: any) => r.title)).toEqual(['A local', 'B remote']);
+    });
+
+    it('merges edits of different fields of the same record', () => {
+        const local = snap([rec('a', { title: 'A local', done: false }, 2), rec('b', { title: 'B' }, 1)]);
+        const remote = snap([rec('a', { title: 'A', done: true }, 2, NOW - 500), rec('b', { title: 'B' }, 1)]);
+        const [a] = threeWayMerge(base, local, remote).records as any[];
+        expect(a).toMatchObject({ title: 'A local', done: true, version: 3 });
+    });
+
+    it('lets the later writer win a conflicting field', () => {
+        const local = snap([rec('a', { title: 'older', done: false }, 2, NOW - 900), rec('b', { title: 'B' }, 1)]);
+        const remote = snap([rec('a', { title: 'newer', done: false }, 2, NOW - 100), rec('b', { title: 'B' }, 1)]);
+        expect((threeWayMerge(base, local, remote).records[0] as any).title).toBe('newer');
+    });
+
+    it('propagates a deletion made on one side', () => {
+        const local = snap([rec('b', { title: 'B' }, 1)], [{ id: 'a', deleted: true, version: 2, updatedAt: NOW - 100 }]);
+        const merged = threeWayMerge(base, local, base);
+        expect(merged.records.map(r => r.id)).toEqual(['b']);
+        expect(merged.tombstones.map(t => t.id)).toEqual(['a']);
+    });
+
+    it('keeps records added on either side, local order first', () => {
+        const local = snap([rec('c', { title: 'C' }, 1), ...base.records]);
+        const remote = snap([...base.records, rec('d', { title: 'D' }, 1)]);
+        expect(threeWayMerge(base, local, remote).records.map(r => r.id)).toEqual(['c', 'a', 'b', 'd']);
+    });
+
+    it('drops tombstones past their retention', () => {
+        const old = { id: 'x', deleted: true as const, version: 1, updatedAt: NOW - 31 * 24 * 60 * 60 * 1000 };
+        expect(threeWayMerge(snap([]), snap([], [old]), snap([])).tombstones).toEqual([]);
+    });
+});
@@ -0,0 +1,293 @@
+// Offline-first sync layer for module blobs saved through firebaseService.saveUserData.
+// Each record carries updatedAt/version stamps; deletions are kept as tombstones so they
+// can propagate, and local vs cloud copies are reconciled with a three-way merge against
+// the last state both sides agreed on (the "base").
+
+export interface SyncStamp {
+    id: string;
+    updatedAt?: number;
+    version?: number;
+}
+
+export interface Tombstone {
+    id: string;
+    updatedAt: number;
+    version: number;
+    deleted: true;
+}
+
+export interface ModuleSnapshot<T extends SyncStamp = SyncStamp> {
+    records: T[];
+    tombstones: Tombstone[];
+}
+
+export interface OutboxEntry {
+    module: string;
+    recordId: string;
+    op: 'upsert' | 'delete';
+    version: number;
+    queuedAt: number;
+}
+
+export type SyncStatus = 'synced' | 'syncing' | 'pending' | 'offline' | 'error' | 'local';
+
+export interface SyncState {
+    status: SyncStatus;
+    pendingCount: number;
+    lastSyncedAt: number | null;
+    error?: string;
+}
+
+interface ModuleMeta {
+    base: ModuleSnapshot;           // Last state known to match the cloud
+    known: Record<string, string>;  // Content hash of each local record at the last save
+    tombstones: Tombstone[];        // Local deletions not yet purged
+}
+
+const OUTBOX_KEY = 'dh_sync_outbox';
+const META_PREFIX = 'dh_sync_meta_';
+const LAST_SYNC_KEY = 'dh_sync_last';
+const TOMBSTONE_TTL = 30 * 24 * 60 * 60 * 1000; // Keep deletions for 30 days
+
+// --- Pure helpers ---
+
+const stripStamps = (record: any) => {
+    const { updatedAt, version, ...rest } = record;
+    return rest;
+};
+
+const hashContent = (record: any): string => {
+    const str = JSON.stringify(stripStamps(record));
+    let hash = 5381;
+    for (let i = 0; i < str.length; i++) hash = ((hash << 5) + hash + str.charCodeAt(i)) | 0;
+    return hash.toString(36);
+};
+
+const sameContent = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+
+const sameStamp = (a?: SyncStamp, b?: SyncStamp) =>
+    !!a && !!b && (a.version || 0) === (b.version || 0) && (a.updatedAt || 0) === (b.updatedAt || 0);
+
+export const isSyncableArray = (data: any): data is SyncStamp[] =>
+    Array.isArray(data) && data.every(item => item && typeof item === 'object' && typeof item.id === 'string');
+
+type Entry = SyncStamp | Tombstone;
+
+const toMap = (snapshot: ModuleSnapshot): Map<string, Entry> => {
+    const map = new Map<string, Entry>();
+    snapshot.records.forEach(r => map.set(r.id, r));
+    snapshot.tombstones.forEach(t => {
+        const existing = map.get(t.id);
+        if (!existing || (existing.updatedAt || 0) <= t.updatedAt) map.set(t.id, t);
+    });
+    return map;
+};
+
+const isTombstone = (e?: Entry): e is Tombstone => !!e && (e as Tombstone).deleted === true;
+
+// Ties go to the remote copy, matching the old "cloud wins" behaviour for unstamped data
+const newer = (local: Entry, remote: Entry) => ((local.updatedAt || 0) > (remote.updatedAt || 0) ? local : remote);
+
+// Field-level merge when both sides edited the same record since base
+const mergeFields = (base: any, local: any, remote: any) => {
+    const winner = newer(local, remote);
+    const result: any = {};
+    const keys = new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(remote)]);
+    keys.forEach(key => {
+        if (key === 'updatedAt' || key === 'version') return;
+        const b = base[key], l = local[key], r = remote[key];
+        let value;
+        if (sameContent(l, b)) value = r;
+        else if (sameContent(r, b)) value = l;
+        else value = (winner as any)[key];
+        if (value !== undefined) result[key] = value;
+    });
+    result.updatedAt = Math.max(local.updatedAt || 0, remote.updatedAt || 0);
+    result.version = Math.max(local.version || 0, remote.version || 0) + 1;
+    return result;
+};
+
+/**
+ * Three-way merge of a module. For each record id:
+ * - unchanged locally since base -> take remote
+ * - unchanged remotely since base -> take local
+ * - changed on both sides -> field-level merge, last writer wins per conflicting field
+ * Deletions are represented as tombstones and follow the same rules.
+ */
+export function threeWayMerge(base: ModuleSnapshot, local: ModuleSnapshot, remote: ModuleSnapshot): ModuleSnapshot {
+    const b = toMap(base), l = toMap(local), r = toMap(remote);
+    const ids = new Set([...l.keys(), ...r.keys()]);
+    const records: SyncStamp[] = [];
+    const tombstones: Tombstone[] = [];
+
+    ids.forEach(id => {
+        const be = b.get(id), le = l.get(id), re = r.get(id);
+        let merged: Entry | undefined;
+
+        if (!le) merged = re;
+        else if (!re) merged = le;
+        else if (sameStamp(le, re) && sameContent(le, re)) merged = le;
+        else if (be && sameStamp(le, be)) merged = re;
+        else if (be && sameStamp(re, be)) merged = le;
+        else if (isTombstone(le) || isTombstone(re) || !be || isTombstone(be)) merged = newer(le, re);
+        else merged = mergeFields(be, le, re);
+
+        if (!merged) return;
+        if (isTombstone(merged)) tombstones.push(merged);
+        else records.push(merged);
+    });
+
+    // Preserve the local ordering, append anything new from remote at the end
+    const order = new Map(local.records.map((rec, idx) => [rec.id, idx]));
+    records.sort((x, y) => (order.get(x.id) ?? Number.MAX_SAFE_INTEGER) - (order.get(y.id) ?? Number.MAX_SAFE_INTEGER));
+
+    const cutoff = Date.now() - TOMBSTONE_TTL;
+    return { records, tombstones: tombstones.filter(t => t.updatedAt > cutoff) };
+}
+
+export const snapshotsEqual = (a: ModuleSnapshot, b: ModuleSnapshot) =>
+    sameContent(a.records, b.records) && sameContent(a.tombstones, b.tombstones);
+
+// --- Local state, outbox and status ---
+
+class SyncService {
+    private state: SyncState;
+    private listeners = new Set<(state: SyncState) => void>();
+
+    constructor() {
+        const lastSynced = typeof window !== 'undefined' ? Number(localStorage.getItem(LAST_SYNC_KEY)) || null : null;
+        this.state = { status: 'synced', pendingCount: this.getOutbox().length, lastSyncedAt: lastSynced };
+        if (this.state.pendingCount > 0) this.state.status = 'pending';
+        if (typeof navigator !== 'undefined' && !navigator.onLine) this.state.status = 'offline';
+    }
+
+    // --- Status ---
+    getState(): SyncState {
+        return this.state;
+    }
+
+    subscribe(listener: (state: SyncState) => void): () => void {
+        this.listeners.add(listener);
+        listener(this.state);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    setStatus(status: SyncStatus, error?: string) {
+        const pendingCount = this.getOutbox().length;
+        const lastSyncedAt = status === 'synced' ? Date.now() : this.state.lastSyncedAt;
+        if (status === 'synced') {
+            localStorage.setItem(LAST_SYNC_KEY, String(lastSyncedAt));
+            if (pendingCount > 0) status = 'pending';
+        }
+        this.state = { status, pendingCount, lastSyncedAt, error };
+        this.listeners.forEach(l => l(this.state));
+    }
+
+    // --- Module metadata ---
+    private getMeta(module: string): ModuleMeta {
+        try {
+            const raw = localStorage.getItem(META_PREFIX + module);
+            if (raw) return JSON.parse(raw);
+        } catch (e) { }
+        return { base: { records: [], tombstones: [] }, known: {}, tombstones: [] };
+    }
+
+    private setMeta(module: string, meta: ModuleMeta) {
+        try {
+            localStorage.setItem(META_PREFIX + module, JSON.stringify(meta));
+        } catch (e) {
+            console.warn(`[Sync] Could not persist metadata for ${module}`, e);
+        }
+    }
+
+    getBase(module: string): ModuleSnapshot {
+        return this.getMeta(module).base;
+    }
+
+    getLocalSnapshot(module: string): ModuleSnapshot {
+        const raw = localStorage.getItem(`dh_${module}`);
+        const records = raw ? JSON.parse(raw) : [];
+        return { records: isSyncableArray(records) ? records : [], tombstones: this.getMeta(module).tombstones };
+    }
+
+    /**
+     * Stamp a freshly saved module array: records whose content changed since the last
+     * save get a new updatedAt and version, removed records become tombstones, and every
+     * mutation is queued in the outbox. Returns the stamped records.
+     */
+    recordLocalChange<T extends SyncStamp>(module: string, next: T[]): T[] {
+        const meta = this.getMeta(module);
+        const now = Date.now();
+        const known: Record<string, string> = {};
+        const mutations: OutboxEntry[] = [];
+        const baseMap = toMap(meta.base);
+
+        const stamped = next.map(record => {
+            const hash = hashContent(record);
+            known[record.id] = hash;
+            if (meta.known[record.id] === hash && record.updatedAt) return record;
+
+            const prevVersion = Math.max(record.version || 0, baseMap.get(record.id)?.version || 0);
+            const updated = { ...record, updatedAt: now, version: prevVersion + 1 };
+            mutations.push({ module, recordId: record.id, op: 'upsert', version: updated.version, queuedAt: now });
+            return updated;
+        });
+
+        const tombstones = meta.tombstones.filter(t => !known[t.id]);
+        Object.keys(meta.known).forEach(id => {
+            if (known[id]) return;
+            const version = (baseMap.get(id)?.version || 0) + 1;
+            tombstones.push({ id, updatedAt: now, version, deleted: true });
+            mutations.push({ module, recordId: id, op: 'delete', version, queuedAt: now });
+        });
+
+        localStorage.setItem(`dh_${module}`, JSON.stringify(stamped));
+        this.setMeta(module, { ...meta, known, tombstones });
+        if (mutations.length > 0) this.enqueue(mutations);
+        return stamped;
+    }
+
+    /**
+     * Persist the result of a successful merge as both the local copy and the new base.
+     * `trackedIds` limits which records count as "seen by the UI": records pulled in from
+     * the cloud during a save are not yet in the caller's state, so a later save that lacks
+     * them must not be mistaken for a deletion.
+     */
+    applyMerged(module: string, merged: ModuleSnapshot, trackedIds?: Set<string>) {
+        const prevKnown = this.getMeta(module).known;
+        const known: Record<string, string> = {};
+        merged.records.forEach(r => {
+            if (!trackedIds || trackedIds.has(r.id)) known[r.id] = hashContent(r);
+            else if (prevKnown[r.id]) known[r.id] = prevKnown[r.id];
+        });
+        localStorage.setItem(`dh_${module}`, JSON.stringify(merged.records));
+        this.setMeta(module, { base: merged, known, tombstones: merged.tombstones });
+    }
+
+    // --- Outbox ---
+    getOutbox(): OutboxEntry[] {
+        try {
+            return JSON.parse(localStorage.getItem(OUTBOX_KEY) || '[]');
+        } catch (e) {
+            return [];
+        }
+    }
+
+    private enqueue(entries: OutboxEntry[]) {
+        // Coalesce: only the latest mutation per record matters
+        const outbox = this.getOutbox().filter(o => !entries.some(e => e.module === o.module && e.recordId === o.recordId));
+        localStorage.setItem(OUTBOX_KEY, JSON.stringify([...outbox, ...entries]));
+        this.setStatus(this.state.status === 'syncing' ? 'syncing' : 'pending');
+    }
+
+    clearOutbox(module: string, upTo: number) {
+        const outbox = this.getOutbox().filter(o => o.module !== module || o.queuedAt > upTo);
+        localStorage.setItem(OUTBOX_KEY, JSON.stringify(outbox));
+    }
+
+    pendingModules(): string[] {
+        return Array.from(new Set(this.getOutbox().map(o => o.module)));
+    }
+}
+
+export const syncService = new SyncService();
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('./firebase', () => ({ firebaseService: {} }));
+
+import { migrateVocabTerm, vocabToCSV, vocabFromCSV, DEFAULT_VOCAB_FOLDERS } from './vocab';
+import { VocabTerm } from '../types';
+
+const legacy = (example: string, folderId = 'folder_vocab_general') => ({
+    id: 't1', term: 'journey', partOfSpeech: 'Noun', meaning: 'chuyến đi', definition: 'a trip',
+    example, folderId, learned: false, createdAt: '2026-03-15T08:00:00.000Z'
+});
+
+describe('migrateVocabTerm', () => {
+    it('splits the legacy context label into source and example', () => {
+        expect(migrateVocabTerm(legacy('Reading Context: The journey took two days.'))).toMatchObject({
+            example: 'The journey took two days.',
+            examples: ['The journey took two days.'],
+            source: { type: 'reading' },
+            synonyms: [], collocations: [], tags: []
+        });
+        expect(migrateVocabTerm(legacy('Live Conversation - travel plans'))).toMatchObject({
+            example: 'travel plans', source: { type: 'speaking', label: 'Live Conversation' }
+        });
+        expect(migrateVocabTerm(legacy('Nana Chat'))).toMatchObject({ example: '', examples: [], source: { type: 'chat' } });
+    });
+
+    it('takes the source from practice folders and strips slashes from the IPA', () => {
+        const term = migrateVocabTerm({ ...legacy('A long journey.', 'listening'), ipa: '/ˈdʒɜːni/' });
+        expect(term).toMatchObject({ example: 'A long journey.', ipa: 'ˈdʒɜːni', source: { type: 'listening' } });
+        expect(migrateVocabTerm(legacy('A long journey.')).source).toBeUndefined();
+    });
+
+    it('leaves migrated terms alone apart from cleaning the lists', () => {
+        const term = migrateVocabTerm({ ...legacy('ignored'), examples: [' First. ', '', 'First.', 'Second.'], tags: ['travel', 'travel'], source: { type: 'manual' } });
+        expect(term).toMatchObject({ example: 'First.', examples: ['First.', 'Second.'], tags: ['travel'], source: { type: 'manual' } });
+        expect(migrateVocabTerm(term)).toEqual(term);
+    });
+});
+
+describe('vocab CSV', () => {
+    const rich: VocabTerm = {
+        id: 't1', term: 'set off', partOfSpeech: 'Phrasal verb', meaning: 'khởi hành', definition: 'to start a journey',
+        example: 'We set off early, before dawn.', folderId: 'reading', learned: true, createdAt: '2026-03-15T08:00:00.000Z',
+        ipa: 'set ɒf',
+        examples: ['We set off early, before dawn.', 'They set off "at once".'],
+        synonyms: ['depart', 'leave'], collocations: ['set off early', 'set off for | to'], tags: ['travel', 'IELTS', 'C:\\notes'],
+        audioUrl: 'https://example.com/set-off.mp3', imageUrl: 'https://example.com/road.jpg',
+        source: { type: 'reading', label: 'A trip', refId: 'p1' }
+    };
+
+    it('round-trips every field, with pipes and backslashes inside list items', () => {
+        const [back] = vocabFromCSV(vocabToCSV([rich], DEFAULT_VOCAB_FOLDERS), DEFAULT_VOCAB_FOLDERS, 'root');
+        const { id, createdAt, ...fields } = rich;
+        expect(back).toMatchObject(fields);
+    });
+
+    it('reads the older 6-column export into the fallback folder', () => {
+        const csv = 'Term,Type,Meaning,Definition,Example,Folder\njourney,Noun,chuyến đi,a trip,"A long, slow journey.",Deleted folder\n,Noun,,,,';
+        const terms = vocabFromCSV(csv, DEFAULT_VOCAB_FOLDERS, 'folder_vocab_general');
+        expect(terms).toHaveLength(1);
+        expect(terms[0]).toMatchObject({
+            term: 'journey', example: 'A long, slow journey.', examples: ['A long, slow journey.'],
+            folderId: 'folder_vocab_general', learned: false, source: { type: 'import' }
+        });
+    });
+});
@@ -0,0 +1,247 @@
+import { VocabFolder, VocabTerm, VocabSource, VocabSourceType } from "../types";
+import { firebaseService } from "./firebase";
+import { statementImportService } from "./statementImport";
+
+// Saving single terms from practice modules and the chat assistant. The Vocab Library page
+// keeps its own in-memory copy and writes through firebaseService directly.
+
+export const DEFAULT_VOCAB_FOLDERS: VocabFolder[] = [
+    { id: 'root', name: 'Thư mục gốc', parentId: null },
+    { id: 'folder_vocab_general', name: 'Vocab', parentId: 'root' },
+    { id: 'reading', name: 'Reading Practice', parentId: 'root' },
+    { id: 'speaking', name: 'Speaking Practice', parentId: 'root' },
+    { id: 'writing', name: 'Writing Task', parentId: 'root' },
+    { id: 'listening', name: 'Listening Practice', parentId: 'root' },
+];
+
+// Practice folders are recreated with their usual name if the user deleted them
+const PRACTICE_FOLDER_NAMES: Record<string, string> = {
+    speaking: "Speaking Practice",
+    listening: "Listening Practice",
+    reading: "Reading Practice",
+    writing: "Writing Task",
+    folder_vocab_general: "Vocab"
+};
+
+export const VOCAB_SOURCE_LABELS: Record<VocabSourceType, string> = {
+    reading: 'Bài đọc',
+    listening: 'Bài nghe',
+    speaking: 'Luyện nói',
+    essay: 'Bài viết',
+    chat: 'Chat Nana',
+    ai: 'AI gợi ý',
+    manual: 'Tự nhập',
+    import: 'Nhập CSV'
+};
+
+// Before the rich term model, practice modules saved a context label (plus the typed example)
+// in `example`; these patterns split it back into source and example
+const LEGACY_CONTEXTS: { pattern: RegExp; type: VocabSourceType; label?: string }[] = [
+    { pattern: /^Reading (?:Context|Lookup)(?::\s*(.*))?$/s, type: 'reading' },
+    { pattern: /^Listening Context(?::\s*(.*))?$/s, type: 'listening' },
+    { pattern: /^Writing (?:Context|Practice)(?::\s*(.*))?$/s, type: 'essay' },
+    { pattern: /^Live Conversation(?: - (.*))?$/s, type: 'speaking', label: 'Live Conversation' },
+    { pattern: /^Monologue Practice(?: - (.*))?$/s, type: 'speaking', label: 'Monologue Practice' },
+    { pattern: /^Image Description(?: - (.*))?$/s, type: 'speaking', label: 'Image Description' },
+    { pattern: /^Nana Chat$/, type: 'chat' }
+];
+
+const FOLDER_SOURCES: Record<string, VocabSourceType> = { reading: 'reading', listening: 'listening', speaking: 'speaking', writing: 'essay' };
+
+const cleanList = (items: unknown): string[] =>
+    Array.isArray(items) ? [...new Set(items.map(i => String(i ?? '').trim()).filter(Boolean))] : [];
+
+/**
+ * Bring a stored term up to the current model: list fields present, IPA without slashes and the
+ * legacy context label in `example` turned into `source`. Already migrated terms pass through
+ * unchanged, so this is safe on every read.
+ */
+export const migrateVocabTerm = (raw: any): VocabTerm => {
+    if (Array.isArray(raw.examples)) {
+        const examples = cleanList(raw.examples);
+        return { ...raw, examples, example: examples[0] || '', synonyms: cleanList(raw.synonyms), collocations: cleanList(raw.collocations), tags: cleanList(raw.tags) };
+    }
+
+    let example = String(raw.example || '').trim();
+    let source: VocabSource | undefined = raw.source;
+    if (!source) {
+        const legacy = LEGACY_CONTEXTS.map(c => ({ c, m: example.match(c.pattern) })).find(x => x.m);
+        if (legacy) {
+            source = { type: legacy.c.type, ...(legacy.c.label ? { label: legacy.c.label } : {}) };
+            example = (legacy.m![1] || '').trim();
+        } else if (FOLDER_SOURCES[raw.folderId]) {
+            source = { type: FOLDER_SOURCES[raw.folderId] };
+        }
+    }
+    return {
+        ...raw,
+        example,
+        examples: example ? [example] : [],
+        synonyms: cleanList(raw.synonyms),
+        collocations: cleanList(raw.collocations),
+        tags: cleanList(raw.tags),
+        ...(raw.ipa ? { ipa: String(raw.ipa).replace(/\//g, '').trim() } : {}),
+        ...(source ? { source } : {})
+    };
+};
+
+export const migrateVocabTerms = (terms: any[]): VocabTerm[] => (terms || []).map(migrateVocabTerm);
+
+// --- CSV ---
+// One row per term; list fields are joined with " | " so examples can keep their commas
+// (a "|" or "\" inside an item is escaped with a backslash)
+const CSV_COLUMNS = ['Term', 'Type', 'Meaning', 'Definition', 'Example', 'Folder', 'IPA', 'Examples', 'Synonyms', 'Collocations', 'Tags', 'Audio', 'Image', 'Source', 'Source Label', 'Source Id', 'Learned'];
+
+const joinList = (items: string[] = []) => items.map(i => i.replace(/[\\|]/g, '\\$&')).join(' | ');
+
+const splitList = (cell: string): string[] => {
+    const items: string[] = [];
+    let current = '';
+    for (let i = 0; i < cell.length; i++) {
+        if (cell[i] === '\\' && i + 1 < cell.length) current += cell[++i];
+        else if (cell[i] === '|') { items.push(current); current = ''; }
+        else current += cell[i];
+    }
+    items.push(current);
+    return items.map(v => v.trim()).filter(Boolean);
+};
+
+const csvCell = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const vocabToCSV = (terms: VocabTerm[], folders: VocabFolder[]): string => {
+    const rows = migrateVocabTerms(terms).map(t => [
+        t.term, t.partOfSpeech, t.meaning, t.definition, t.example,
+        folders.find(f => f.id === t.folderId)?.name || 'Unknown',
+        t.ipa || '',
+        joinList(t.examples),
+        joinList(t.synonyms),
+        joinList(t.collocations),
+        joinList(t.tags),
+        t.audioUrl || '', t.imageUrl || '',
+        t.source?.type || '', t.source?.label || '', t.source?.refId || '',
+        t.learned ? 'yes' : ''
+    ].map(v => csvCell(String(v ?? ''))).join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\n');
+};
+
+/**
+ * Terms from a CSV written by vocabToCSV, or by the older 6-column export (Term, Type, Meaning,
+ * Definition, Example, Folder). Rows go to the folder named in the file when it exists, else to
+ * `fallbackFolderId`.
+ */
+export const vocabFromCSV = (text: string, folders: VocabFolder[], fallbackFolderId: string): VocabTerm[] => {
+    const rows = statementImportService.parseCsv(text.replace(/^\uFEFF/, ''));
+    if (rows.length < 2) return [];
+    const header = rows[0].map(h => h.trim().toLowerCase());
+    const col = (row: string[], name: string) => {
+        const index = header.indexOf(name.toLowerCase());
+        return index >= 0 ? (row[index] || '').trim() : '';
+    };
+    const sourceTypes = Object.keys(VOCAB_SOURCE_LABELS) as VocabSourceType[];
+    const now = Date.now();
+
+    return rows.slice(1).flatMap((row, i) => {
+        const term = col(row, 'Term');
+        const meaning = col(row, 'Meaning');
+        if (!term || !meaning) return [];
+        const folderName = col(row, 'Folder');
+        const sourceType = col(row, 'Source') as VocabSourceType;
+        const examples = splitList(col(row, 'Examples'));
+        const example = col(row, 'Example');
+        return [migrateVocabTerm({
+            id: `${now}${i}`,
+            term, meaning,
+            partOfSpeech: col(row, 'Type') || 'Noun',
+            definition: col(row, 'Definition'),
+            example,
+            examples: examples.length > 0 ? examples : example ? [example] : [],
+            synonyms: splitList(col(row, 'Synonyms')),
+            collocations: splitList(col(row, 'Collocations')),
+            tags: splitList(col(row, 'Tags')),
+            ...(col(row, 'IPA') ? { ipa: col(row, 'IPA') } : {}),
+            ...(col(row, 'Audio') ? { audioUrl: col(row, 'Audio') } : {}),
+            ...(col(row, 'Image') ? { imageUrl: col(row, 'Image') } : {}),
+            source: sourceTypes.includes(sourceType)
+                ? { type: sourceType, ...(col(row, 'Source Label') ? { label: col(row, 'Source Label') } : {}), ...(col(row, 'Source Id') ? { refId: col(row, 'Source Id') } : {}) }
+                : { type: 'import' },
+            folderId: folders.find(f => f.name === folderName)?.id || fallbackFolderId,
+            learned: ['yes', 'true', '1'].includes(col(row, 'Learned').toLowerCase()),
+            createdAt: new Date().toISOString()
+        })];
+    });
+};
+
+class VocabService {
+    getFolders(): VocabFolder[] {
+        try {
+            const saved = localStorage.getItem('dh_vocab_folders');
+            return saved ? JSON.parse(saved) : [...DEFAULT_VOCAB_FOLDERS];
+        } catch (e) {
+            return [];
+        }
+    }
+
+    getTerms(): VocabTerm[] {
+        const saved = localStorage.getItem('dh_vocab_terms');
+        return saved ? migrateVocabTerms(JSON.parse(saved)) : [];
+    }
+
+    /**
+     * Add a term to `targetFolderId` (created if missing) or to the general Vocab folder.
+     * `context` is an example sentence or a legacy context label (see LEGACY_CONTEXTS); without
+     * `source` the source is derived from it. Returns the folder used, and whether the term was new there.
+     */
+    async addTerm(word: string, meaning: string, context: string, targetFolderId?: string, ipa?: string, source?: VocabSource): Promise<{ added: boolean; folder: VocabFolder }> {
+        const folders = this.getFolders();
+
+        let targetFolder: VocabFolder | undefined;
+        if (targetFolderId) {
+            targetFolder = folders.find(f => f.id === targetFolderId);
+            if (!targetFolder) {
+                targetFolder = { id: targetFolderId, name: PRACTICE_FOLDER_NAMES[targetFolderId] || "Practice", parentId: 'root' };
+                folders.push(targetFolder);
+            }
+        }
+
+        if (!targetFolder) {
+            targetFolder = folders.find(f => f.name === 'Vocab' || f.id === 'folder_vocab_general');
+            if (!targetFolder) {
+                targetFolder = { id: 'folder_vocab_general', name: 'Vocab', parentId: 'root' };
+                folders.push(targetFolder);
+            }
+        }
+
+        localStorage.setItem('dh_vocab_folders', JSON.stringify(folders));
+        if (firebaseService.currentUser) {
+            await firebaseService.saveUserData('vocab_folders', folders);
+        }
+
+        const terms = this.getTerms();
+        if (terms.some(t => t.term.toLowerCase() === word.toLowerCase() && t.folderId === targetFolder!.id)) {
+            return { added: false, folder: targetFolder };
+        }
+
+        const newTerm: VocabTerm = migrateVocabTerm({
+            id: Date.now().toString(),
+            term: word,
+            meaning,
+            definition: "",
+            example: context,
+            partOfSpeech: "Unknown",
+            folderId: targetFolder.id,
+            learned: false,
+            createdAt: new Date().toISOString(),
+            ...(ipa ? { ipa: ipa.replace(/\//g, '') } : {}),
+            ...(source ? { source } : {})
+        });
+        terms.push(newTerm);
+
+        localStorage.setItem('dh_vocab_terms', JSON.stringify(terms));
+        if (firebaseService.currentUser) {
+            await firebaseService.saveUserData('vocab_terms', terms);
+        }
+        return { added: true, folder: targetFolder };
+    }
+}
+
+export const vocabService = new VocabService();
@@ -0,0 +1,33 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('./firebase', () => ({ firebaseService: {} }));
+
+import { diffWords } from './writingHistory';
+
+describe('diffWords', () => {
+    it('returns one unchanged part for identical texts', () => {
+        expect(diffWords('I go home.', 'I go home.')).toEqual([{ type: 'same', text: 'I go home.' }]);
+    });
+
+    it('marks replaced words as removed and added', () => {
+        expect(diffWords('She go to school', 'She goes to school')).toEqual([
+            { type: 'same', text: 'She ' },
+            { type: 'added', text: 'goes ' },
+            { type: 'removed', text: 'go ' },
+            { type: 'same', text: 'to school' }
+        ]);
+    });
+
+    it('rebuilds both revisions from the parts', () => {
+        const before = 'Yesterday I have went to the park with my friend.';
+        const after = 'Yesterday I went to the big park with my friends.';
+        const parts = diffWords(before, after);
+        expect(parts.filter(p => p.type !== 'added').map(p => p.text).join('').replace(/\s+/g, ' ').trim()).toBe(before);
+        expect(parts.filter(p => p.type !== 'removed').map(p => p.text).join('')).toBe(after);
+    });
+
+    it('handles an empty side', () => {
+        expect(diffWords('', 'New text')).toEqual([{ type: 'added', text: 'New text' }]);
+        expect(diffWords('Old text', '')).toEqual([{ type: 'removed', text: 'Old text' }]);
+    });
+});
@@ -0,0 +1,140 @@
+import { EssayGrading, WritingErrorCategory } from "./aiSchemas";
+import { firebaseService } from "./firebase";
+
+// Luyện Viết essays with every graded draft. An essay is one topic; each grading appends a revision
+// holding the text as submitted, the grading and the user's accept/reject decision per correction.
+// Synced like other record modules under users/{uid} ('writing_essays').
+
+export type WritingTaskType = 'task1' | 'task2' | 'free';
+export type CorrectionDecision = 'accepted' | 'rejected';
+
+export interface WritingRevision {
+    id: string;
+    text: string;
+    createdAt: string;
+    grading: EssayGrading;
+    decisions: Record<number, CorrectionDecision>;  // Index into grading.corrections
+}
+
+export interface WritingEssay {
+    id: string;
+    topic: string;
+    taskType: WritingTaskType;
+    level: string;
+    createdAt: string;              // No updatedAt: the sync layer stamps that
+    revisions: WritingRevision[];   // Oldest first
+}
+
+export interface DiffPart {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+export const WRITING_TASK_LABELS: Record<WritingTaskType, string> = { task1: 'Task 1', task2: 'Task 2', free: 'Tự do' };
+
+export const ERROR_CATEGORY_LABELS: Record<WritingErrorCategory, string> = {
+    'articles': 'Mạo từ',
+    'tense': 'Thì',
+    'collocation': 'Kết hợp từ',
+    'agreement': 'Hòa hợp chủ - vị',
+    'preposition': 'Giới từ',
+    'word-choice': 'Dùng từ',
+    'word-order': 'Trật tự từ',
+    'spelling': 'Chính tả',
+    'punctuation': 'Dấu câu',
+    'other': 'Khác'
+};
+
+const MAX_SAVED_ESSAYS = 100;
+const MAX_DIFF_TOKENS = 3000;   // Per side; the LCS table is quadratic
+
+/** Word-level diff (whitespace kept with the preceding word) between two revisions. */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+    const a = before.match(/\S+\s*/g) || [];
+    const b = after.match(/\S+\s*/g) || [];
+    if (a.length > MAX_DIFF_TOKENS || b.length > MAX_DIFF_TOKENS) {
+        return [{ type: 'removed', text: before }, { type: 'added', text: after }];
+    }
+
+    const key = (token: string) => token.trim();
+    const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = key(a[i]) === key(b[j]) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const parts: DiffPart[] = [];
+    const push = (type: DiffPart['type'], text: string) => {
+        const last = parts[parts.length - 1];
+        if (last?.type === type) last.text += text;
+        else parts.push({ type, text });
+    };
+    let i = 0, j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && key(a[i]) === key(b[j])) { push('same', b[j]); i++; j++; }
+        else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) { push('added', b[j]); j++; }
+        else { push('removed', a[i]); i++; }
+    }
+    return parts;
+};
+
+// gradeWritingPractice scores out of 100
+export const revisionScore = (revision: WritingRevision) => Math.round(revision.grading.score);
+
+/** Error counts over the latest graded revision of each essay, most frequent first. */
+export const recurringErrors = (essays: WritingEssay[]) => {
+    const counts = new Map<WritingErrorCategory, { count: number; essays: number; example?: { original: string; correction: string } }>();
+    essays.forEach(essay => {
+        const latest = essay.revisions[essay.revisions.length - 1];
+        if (!latest) return;
+        const seen = new Set<WritingErrorCategory>();
+        latest.grading.corrections.forEach(c => {
+            const category = c.category || 'other';
+            const entry = counts.get(category) || { count: 0, essays: 0 };
+            entry.count++;
+            if (!seen.has(category)) { entry.essays++; seen.add(category); }
+            entry.example = entry.example || { original: c.original, correction: c.correction };
+            counts.set(category, entry);
+        });
+    });
+    return [...counts.entries()].map(([category, v]) => ({ category, ...v })).sort((x, y) => y.count - x.count);
+};
+
+class WritingHistoryService {
+    async list(): Promise<WritingEssay[]> {
+        return (await firebaseService.getUserData('writing_essays')) || [];
+    }
+
+    /** Append a graded revision, to `essayId` or to a new essay; returns the saved essay. */
+    async addRevision(essayId: string | null, draft: { topic: string; taskType: WritingTaskType; level: string; text: string }, grading: EssayGrading): Promise<WritingEssay> {
+        const now = new Date().toISOString();
+        const revision: WritingRevision = { id: Date.now().toString(), text: draft.text, createdAt: now, grading, decisions: {} };
+        const existing = await this.list();
+        const current = existing.find(e => e.id === essayId);
+        const essay: WritingEssay = current
+            ? { ...current, revisions: [...current.revisions, revision] }
+            : { id: revision.id, topic: draft.topic, taskType: draft.taskType, level: draft.level, createdAt: now, revisions: [revision] };
+        await firebaseService.saveUserData('writing_essays', [essay, ...existing.filter(e => e.id !== essay.id)].slice(0, MAX_SAVED_ESSAYS));
+        return essay;
+    }
+
+    async setDecision(essayId: string, revisionId: string, index: number, decision: CorrectionDecision): Promise<WritingEssay | null> {
+        const existing = await this.list();
+        const essay = existing.find(e => e.id === essayId);
+        if (!essay) return null;
+        const updated: WritingEssay = {
+            ...essay,
+            revisions: essay.revisions.map(r => r.id === revisionId ? { ...r, decisions: { ...r.decisions, [index]: decision } } : r)
+        };
+        await firebaseService.saveUserData('writing_essays', existing.map(e => e.id === essayId ? updated : e));
+        return updated;
+    }
+
+    async remove(id: string): Promise<void> {
+        const existing = await this.list();
+        await firebaseService.saveUserData('writing_essays', existing.filter(e => e.id !== id));
+    }
+}
+
+export const writingHistoryService = new WritingHistoryService();
@@ -48,16 +48,56 @@ export interface VocabFolder {
   parentId: string | null; // null means root level
 }
 
+// Spaced repetition (SM-2 style) grading buttons
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface VocabReviewLog {
+  reviewedAt: string; // ISO String
+  grade: ReviewGrade;
+  interval: number; // Days scheduled after this review
+  ease: number;
+}
+
+export interface VocabSrsState {
+  ease: number;        // Ease factor, min 1.3
+  interval: number;    // Current interval in days (0 = relearning)
+  repetitions: number; // Consecutive successful reviews
+  lapses: number;      // Times the card was forgotten
+  dueDate: string;     // ISO String
+  lastReviewedAt?: string;
+  introducedAt?: string; // First review; history is trimmed, so it cannot be read from there
+  history: VocabReviewLog[];
+}
+
+export type VocabSourceType = 'reading' | 'listening' | 'speaking' | 'essay' | 'chat' | 'ai' | 'manual' | 'import';
+
+// Where a term was picked up
+export interface VocabSource {
+  type: VocabSourceType;
+  label?: string; // e.g. passage title, "Live Conversation"
+  refId?: string; // Reading passage / essay id, when the term came from one
+}
+
 export interface VocabTerm {
   id: string;
   term: string;
   partOfSpeech: string; // noun, verb, adj...
   meaning: string; // Vietnamese
   definition: string; // English
-  example: string;
+  example: string; // First of `examples` ('' when none), kept for flashcards and older data
   folderId: string;
   learned: boolean;
   createdAt: string;
+  ipa?: string; // e.g. "həˈləʊ", when known (AI suggestions, dictionary lookups)
+  srs?: VocabSrsState; // Missing means the term has never been reviewed
+  // Added with the rich term model; migrateVocabTerms fills them in for older records
+  examples?: string[];
+  synonyms?: string[];
+  collocations?: string[];
+  tags?: string[];
+  audioUrl?: string; // Recorded pronunciation; the browser voice is used without one
+  imageUrl?: string;
+  source?: VocabSource;
 }
 
 // Legacy Vocabulary (kept for compatibility if needed, but mapped to new system)
@@ -69,13 +109,84 @@ export interface Vocabulary {
 }
 
 // --- Finance Types ---
+// ISO 4217 codes supported by the FX conversion (rates come from MarketService)
+export type CurrencyCode = 'VND' | 'USD';
+
 export interface Transaction {
   id: string;
   date: string; // YYYY-MM-DD
+  amount: number;           // Always in the base currency (VND), so totals never mix currencies; signed for adjustments
+  // Transfers move money between accounts and adjustments close reconciliation gaps; neither is counted as income/expense
+  type: 'income' | 'expense' | 'transfer' | 'adjustment';
+  category: string;
+  description?: string;
+  accountId?: string;       // Missing on legacy data -> default account
+  toAccountId?: string;     // Transfers only: destination account
+  recurringRuleId?: string; // Set when generated from a RecurringRule
+  isProjected?: boolean;    // Future occurrence, not yet materialized (never stored)
+  importSource?: string;    // e.g. 'csv:vietcombank', 'ofx' when created by the statement importer
+  externalId?: string;      // Bank reference / FITID, used to skip re-imports
+  currency?: CurrencyCode;  // Missing = base currency
+  originalAmount?: number;  // Amount in `currency` as entered
+  fxRate?: number;          // Base units per 1 `currency`, frozen at the transaction date
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurringRule {
+  id: string;
+  name: string;
   amount: number;
   type: 'income' | 'expense';
   category: string;
   description?: string;
+  frequency: RecurrenceFrequency;
+  interval: number;          // Every N days/weeks/months/years
+  startDate: string;         // YYYY-MM-DD, first occurrence
+  endDate?: string | null;   // YYYY-MM-DD, inclusive
+  skipDates: string[];       // Occurrences to skip (YYYY-MM-DD)
+  lastMaterializedDate?: string | null; // Occurrences up to this date were already created
+  isActive: boolean;
+  accountId?: string;
+}
+
+export type AccountType = 'cash' | 'bank' | 'ewallet' | 'credit';
+
+export interface FinanceAccount {
+  id: string;
+  name: string;               // e.g. "Ví tiền mặt", "Vietcombank", "MoMo"
+  type: AccountType;
+  openingBalance: number;     // Credit cards: negative = outstanding debt
+  provider?: string;          // Bank / wallet brand
+  isDefault?: boolean;        // Receives transactions without an accountId
+  isArchived?: boolean;
+  lastReconciledAt?: string;      // ISO String
+  lastReconciledBalance?: number; // Actual balance confirmed by the user
+}
+
+export type HoldingAssetClass = 'stock' | 'gold' | 'crypto' | 'savings';
+
+export interface HoldingLot {
+  id: string;
+  date: string;             // YYYY-MM-DD
+  side: 'buy' | 'sell';
+  quantity: number;         // Shares, taels, coins. Savings: principal in VND with price = 1
+  price: number;            // VND per unit
+  fee?: number;             // VND
+  transactionId?: string;   // Cash-flow transaction booked for this lot, if any
+}
+
+export interface InvestmentHolding {
+  id: string;
+  name: string;
+  assetClass: HoldingAssetClass;
+  symbol?: string;            // Market symbol used for pricing (BTC, ETH, SJC, XAU) or a stock ticker
+  lots: HoldingLot[];
+  manualPrice?: number;       // VND per unit when no market quote exists (VN stocks)
+  manualPriceAt?: string;     // ISO String
+  budgetCategoryId?: string;  // Investment BudgetCategory that buys are booked against
+  interestRate?: number;      // Savings only: % per year
+  maturityDate?: string;      // Savings only: YYYY-MM-DD
 }
 
 export interface BudgetCategory {
@@ -94,6 +205,9 @@ export interface FinancialGoal {
   deadline?: string;
   type: 'savings' | 'investment' | 'asset';
   color?: string;
+  currency?: CurrencyCode;  // Target set in a foreign currency; targetAmount holds the converted value
+  originalAmount?: number;  // Target in `currency`
+  fxRate?: number;
 }
 
 export interface DebtItem {
@@ -104,6 +218,9 @@ export interface DebtItem {
   dueDate?: string;
   isPaid: boolean;
   note?: string;
+  currency?: CurrencyCode;  // amount holds the converted value
+  originalAmount?: number;
+  fxRate?: number;
 }
 
 export interface Task {
@@ -146,13 +263,38 @@ export interface ChatMessage {
   timestamp?: number;
   sources?: { title: string; uri: string }[];
   isThinking?: boolean;
+  toolCalls?: ChatToolCall[]; // Actions Nana requested in this reply
+  citations?: ChatCitation[]; // User material quoted in this reply, numbered like the [n] markers
+}
+
+export interface ChatCitation {
+  index: number;
+  kind: 'lesson' | 'note' | 'vocab' | 'reading';
+  title: string;
+  refId: string;              // Course node id (lesson, note), vocab folder id or reading passage id
+}
+
+export interface ChatToolCall {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+  status: 'pending' | 'done' | 'rejected' | 'error'; // pending = waiting for the user's confirmation
+  result?: unknown;
+  error?: string;
+  signature?: string;         // Gemini thought signature, sent back with the call
 }
 
 export interface ChatSession {
   id: string;
   title: string;
-  messages: ChatMessage[];
+  messages: ChatMessage[];  // Empty for cloud sessions not opened yet on this device
   updatedAt: number;
+  createdAt?: number;
+  pinned?: boolean;
+  archived?: boolean;       // Hidden from the history list unless "Lưu trữ" is shown
+  messageCount?: number;    // Cloud copy
+  searchText?: string;      // Cloud copy: folded message text for search without loading messages
+  personaId?: string;       // AssistantPersona id (services/personas.ts); the built-in Nana when missing
 }
 
 export interface UserProfile {
@@ -170,4 +312,51 @@ export interface SpeakingSession {
   durationSeconds: number;
   transcript: { role: 'user' | 'model'; text: string }[];
   suggestions: any[]; // Array of SpeakingSuggestion
+  scores?: SpeakingTurnScore[]; // One per scored user turn; missing for sessions recorded before scoring
+}
+
+export interface WordPronunciationScore {
+  word: string;
+  score: number;              // 0-100
+  expectedIpa?: string;       // From the user's vocab entry if it has one, else the scorer's dictionary form
+  heardIpa?: string;
+  flaggedPhonemes: string[];  // Expected phonemes that were dropped or replaced
+}
+
+export interface SpeakingTurnScore {
+  turnIndex: number;          // Index of the user's turn in SpeakingSession.transcript
+  pronunciation: number;      // 0-100
+  fluency: number;            // 0-100
+  wordsPerMinute: number;
+  words: WordPronunciationScore[];
+  scorer: string;             // PronunciationScorer id
+}
+
+export type MockExamType = 'aptis' | 'ielts';
+export type MockExamSectionId = 'speaking' | 'writing' | 'grammar' | 'reading';
+
+export interface MockExamItemResult {
+  prompt: string;
+  answer: string;
+  score: number | null;       // 0-100, null when it could not be graded
+  feedback?: string;
+}
+
+export interface MockExamSectionResult {
+  section: MockExamSectionId;
+  percent: number | null;     // null: not graded (e.g. speaking without an audio-capable AI provider)
+  cefr: string;
+  band: number | null;        // IELTS-style 1-9
+  secondsUsed: number;
+  items: MockExamItemResult[];
+}
+
+export interface MockExamResult {
+  id: string;
+  type: MockExamType;
+  level: string;
+  timestamp: number;
+  durationSeconds: number;
+  sections: MockExamSectionResult[];
+  overall: { percent: number | null; cefr: string; band: number | null };
 }
\ No newline at end of file
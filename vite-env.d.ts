@@ -0,0 +1,5 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+    readonly VITE_MARKET_PROVIDER?: string; // 'fixture' serves deterministic market data only
+}